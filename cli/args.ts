@@ -0,0 +1,226 @@
+/**
+ * Typed flags for the yaban CLI
+ * Each command declares its positionals and flags; values come from the
+ * command line first, then the config file, then the flag's default.
+ * Accepts --name value, --name=value and --no-name for boolean flags.
+ */
+
+export type FlagType = "string" | "number" | "boolean" | "list";
+
+export type FlagValue = string | number | boolean | string[];
+
+export interface FlagSpec {
+  name: string;
+  type: FlagType;
+  description: string;
+  default?: FlagValue;
+  // Allowed values of a string flag
+  choices?: readonly string[];
+  // Shown in help, e.g. "<file>"
+  placeholder?: string;
+}
+
+export interface PositionalSpec {
+  name: string;
+  description: string;
+  required?: boolean;
+  // Takes every remaining argument
+  variadic?: boolean;
+}
+
+export interface ParsedArgs {
+  flags: Record<string, FlagValue | undefined>;
+  positionals: string[];
+  help: boolean;
+}
+
+/**
+ * Bad command line or config file; the CLI exits with status 2
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function convert(spec: FlagSpec, raw: string, source: string): FlagValue {
+  switch (spec.type) {
+    case "number": {
+      const number = Number(raw);
+      if (raw.trim() === "" || isNaN(number)) {
+        throw new UsageError(`${source} must be a number, got "${raw}"`);
+      }
+      return number;
+    }
+    case "boolean":
+      if (raw === "true") return true;
+      if (raw === "false") return false;
+      throw new UsageError(`${source} must be true or false, got "${raw}"`);
+    case "list":
+      return [raw];
+    case "string":
+      if (spec.choices && !spec.choices.includes(raw)) {
+        throw new UsageError(
+          `${source} must be one of: ${spec.choices.join(", ")}`,
+        );
+      }
+      return raw;
+  }
+}
+
+/**
+ * Check a config file value against the flag's type
+ */
+export function checkConfigValue(
+  spec: FlagSpec,
+  value: unknown,
+  source: string,
+): FlagValue {
+  switch (spec.type) {
+    case "number":
+      if (typeof value === "number") return value;
+      break;
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      break;
+    case "list":
+      if (
+        Array.isArray(value) && value.every((item) => typeof item === "string")
+      ) {
+        return value;
+      }
+      break;
+    case "string":
+      if (typeof value === "string") return convert(spec, value, source);
+      break;
+  }
+  throw new UsageError(
+    `${source} must be ${
+      spec.type === "list" ? "a list of strings" : `a ${spec.type}`
+    }`,
+  );
+}
+
+/**
+ * Parse argv against the flag and positional specs; defaults fill in what
+ * the command line leaves out
+ */
+export function parseArgs(
+  argv: string[],
+  specs: FlagSpec[],
+  positionalSpecs: PositionalSpec[],
+  defaults: Record<string, FlagValue> = {},
+): ParsedArgs {
+  const byName = new Map(specs.map((spec) => [spec.name, spec]));
+  const flags: Record<string, FlagValue | undefined> = {};
+  const positionals: string[] = [];
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === "-h" || arg === "--help") {
+      help = true;
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [rawName, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    const spec = byName.get(rawName);
+    if (!spec && rawName.startsWith("no-")) {
+      const negated = byName.get(rawName.slice(3));
+      if (negated?.type === "boolean" && inline === undefined) {
+        flags[negated.name] = false;
+        continue;
+      }
+    }
+    if (!spec) throw new UsageError(`Unknown option: --${rawName}`);
+
+    let raw = inline;
+    if (raw === undefined) {
+      if (spec.type === "boolean") {
+        flags[spec.name] = true;
+        continue;
+      }
+      raw = argv[++i];
+      if (raw === undefined || raw.startsWith("--")) {
+        throw new UsageError(`--${spec.name} needs a value`);
+      }
+    }
+
+    const value = convert(spec, raw, `--${spec.name}`);
+    flags[spec.name] = spec.type === "list"
+      ? [...((flags[spec.name] as string[] | undefined) || []), raw]
+      : value;
+  }
+
+  for (const spec of specs) {
+    if (flags[spec.name] === undefined) {
+      flags[spec.name] = defaults[spec.name] ?? spec.default;
+    }
+  }
+
+  if (!help) {
+    const required = positionalSpecs.filter((spec) => spec.required).length;
+    const variadic = positionalSpecs.some((spec) => spec.variadic);
+    if (positionals.length < required) {
+      const missing = positionalSpecs[positionals.length];
+      throw new UsageError(`Missing <${missing.name}>`);
+    }
+    if (!variadic && positionals.length > positionalSpecs.length) {
+      throw new UsageError(
+        `Unexpected argument: ${positionals[positionalSpecs.length]}`,
+      );
+    }
+  }
+
+  return { flags, positionals, help };
+}
+
+/**
+ * Usage line and one line per positional and flag
+ */
+export function formatHelp(
+  usage: string,
+  summary: string,
+  specs: FlagSpec[],
+  positionalSpecs: PositionalSpec[],
+): string {
+  const lines = [`Usage: ${usage}`, "", summary];
+  const column = (left: string, right: string) =>
+    `  ${left.padEnd(30)} ${right}`;
+
+  if (positionalSpecs.length > 0) {
+    lines.push("", "Arguments:");
+    for (const spec of positionalSpecs) {
+      lines.push(column(`<${spec.name}>`, spec.description));
+    }
+  }
+
+  lines.push("", "Options:");
+  for (const spec of specs) {
+    const value = spec.type === "boolean"
+      ? ""
+      : ` ${spec.placeholder || (spec.type === "number" ? "<n>" : "<value>")}`;
+    const name = spec.type === "boolean"
+      ? `--[no-]${spec.name}`
+      : `--${spec.name}${value}`;
+    const details = [
+      spec.description,
+      spec.choices ? `(${spec.choices.join(", ")})` : "",
+      spec.type === "list" ? "(repeatable)" : "",
+      spec.default !== undefined ? `[default: ${spec.default}]` : "",
+    ].filter(Boolean).join(" ");
+    lines.push(column(name, details));
+  }
+  lines.push(column("-h, --help", "Show this help"));
+
+  return lines.join("\n");
+}
@@ -0,0 +1,98 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.8";
+import {
+  checkConfigValue,
+  type FlagSpec,
+  parseArgs,
+  type PositionalSpec,
+  UsageError,
+} from "./args.ts";
+
+const FLAGS: FlagSpec[] = [
+  { name: "max", type: "number", description: "", default: 20 },
+  { name: "headless", type: "boolean", description: "", default: true },
+  {
+    name: "sort",
+    type: "string",
+    description: "",
+    choices: ["newest", "relevant"],
+  },
+  { name: "column", type: "list", description: "" },
+];
+
+const PLACES: PositionalSpec[] = [
+  { name: "places", description: "", variadic: true },
+];
+
+Deno.test("parseArgs: typed flags in any position", () => {
+  const parsed = parseArgs(
+    ["0x1", "--max", "5", "--no-headless", "0x2", "--sort=relevant"],
+    FLAGS,
+    PLACES,
+  );
+  assertEquals(parsed.positionals, ["0x1", "0x2"]);
+  assertEquals(parsed.flags, {
+    max: 5,
+    headless: false,
+    sort: "relevant",
+    column: undefined,
+  });
+  assertEquals(parsed.help, false);
+});
+
+Deno.test("parseArgs: command line beats config defaults beats spec defaults", () => {
+  assertEquals(parseArgs([], FLAGS, PLACES, { max: 50 }).flags.max, 50);
+  assertEquals(parseArgs(["--max=7"], FLAGS, PLACES, { max: 50 }).flags.max, 7);
+  assertEquals(parseArgs([], FLAGS, PLACES).flags.headless, true);
+});
+
+Deno.test("parseArgs: list flags repeat", () => {
+  assertEquals(
+    parseArgs(
+      ["--column", "name=店名", "--column", "address=住所"],
+      FLAGS,
+      PLACES,
+    ).flags.column,
+    ["name=店名", "address=住所"],
+  );
+});
+
+Deno.test("parseArgs: bad input is a UsageError", () => {
+  const cases: [string[], string][] = [
+    [["--max", "lots"], '--max must be a number, got "lots"'],
+    [["--max"], "--max needs a value"],
+    [["--sort", "oldest"], "--sort must be one of: newest, relevant"],
+    [["--headles"], "Unknown option: --headles"],
+    [["--no-max"], "Unknown option: --no-max"],
+  ];
+  for (const [argv, message] of cases) {
+    assertThrows(() => parseArgs(argv, FLAGS, PLACES), UsageError, message);
+  }
+
+  const pair: PositionalSpec[] = [
+    { name: "before", description: "", required: true },
+    { name: "after", description: "", required: true },
+  ];
+  assertThrows(() => parseArgs(["a"], [], pair), UsageError, "Missing <after>");
+  assertThrows(
+    () => parseArgs(["a", "b", "c"], [], pair),
+    UsageError,
+    "Unexpected argument: c",
+  );
+  // --help skips the positional checks
+  assertEquals(parseArgs(["--help"], [], pair).help, true);
+});
+
+Deno.test("checkConfigValue: JSON types must match the flag", () => {
+  assertEquals(checkConfigValue(FLAGS[0], 100, "max"), 100);
+  assertEquals(checkConfigValue(FLAGS[2], "newest", "sort"), "newest");
+  assertThrows(
+    () => checkConfigValue(FLAGS[0], "100", "reviews.max"),
+    UsageError,
+    "reviews.max must be a number",
+  );
+  assertThrows(
+    () => checkConfigValue(FLAGS[3], "name=店名", "column"),
+    UsageError,
+    "column must be a list of strings",
+  );
+});
@@ -0,0 +1,682 @@
+/**
+ * Subcommands of the yaban CLI
+ * Each command declares its arguments and flags and adapts them to the
+ * scraper, processor or server function that does the work. Results carry
+ * the records printed as JSON lines with --json, a summary, and whether
+ * some of the work failed.
+ */
+
+import { scrapeSearch } from "../scraper/main.ts";
+import { runBatch } from "../scraper/fetch-all-places.ts";
+import { fetchDetails } from "../scraper/fetch-details.ts";
+import { fetchReviews } from "../scraper/fetch-reviews.ts";
+import { resolveArea, sweepArea } from "../scraper/fetch-sweep.ts";
+import {
+  REVIEW_SORT_LABELS,
+  type ReviewSort,
+} from "../scraper/review-parser.ts";
+import { validateDirs } from "../scraper/validate.ts";
+import {
+  DEFAULT_TOLERANCE_DEG,
+  importWardBoundaries,
+} from "../scraper/ward-import.ts";
+import { processCatalog } from "../processor/main.ts";
+import { diffRuns } from "../processor/diff.ts";
+import { exportCatalog } from "../processor/export.ts";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from "../processor/catalog-export.ts";
+import { CatalogQueryError } from "../processor/catalog-query.ts";
+import {
+  importRegistry,
+  matchRegistries,
+} from "../processor/certifications.ts";
+import type { RegistryField } from "../processor/certification-registry.ts";
+import { CUISINE_IDS, VENUE_TYPE_IDS } from "../processor/taxonomy.ts";
+import { startServer } from "../server/main.ts";
+import { importRaw } from "../scripts/import-raw.ts";
+import {
+  type FlagSpec,
+  type FlagValue,
+  type PositionalSpec,
+  UsageError,
+} from "./args.ts";
+
+/**
+ * ok: everything worked; partial: some places, searches or files failed;
+ * failed: the command produced nothing usable; interrupted: stopped by Ctrl+C
+ * with its progress saved
+ */
+export type CommandStatus = "ok" | "partial" | "failed" | "interrupted";
+
+export interface CommandResult {
+  status: CommandStatus;
+  summary: Record<string, unknown>;
+  // One JSON line each with --json
+  records?: unknown[];
+}
+
+export interface CommandInput {
+  flags: Record<string, FlagValue | undefined>;
+  positionals: string[];
+}
+
+export interface Command {
+  name: string;
+  summary: string;
+  positionals: PositionalSpec[];
+  flags: FlagSpec[];
+  run(input: CommandInput): Promise<CommandResult>;
+}
+
+const HEADLESS_FLAG: FlagSpec = {
+  name: "headless",
+  type: "boolean",
+  description: "Run Chrome without a window; --no-headless shows it",
+  default: true,
+};
+
+/**
+ * Status of a run of `total` items of which `failed` failed
+ */
+export function statusOf(failed: number, total: number): CommandStatus {
+  if (failed === 0) return "ok";
+  return failed < total ? "partial" : "failed";
+}
+
+function positiveNumber(flags: CommandInput["flags"], name: string) {
+  const value = flags[name] as number | undefined;
+  if (value !== undefined && !(value > 0)) {
+    throw new UsageError(`--${name} must be greater than 0`);
+  }
+  return value;
+}
+
+const scrape: Command = {
+  name: "scrape",
+  summary: "Run one Google Maps search and save the places as a raw snapshot",
+  positionals: [{ name: "query", description: "Search query" }],
+  flags: [
+    {
+      name: "max",
+      type: "number",
+      description: "Maximum places to collect",
+      default: 20,
+    },
+    HEADLESS_FLAG,
+  ],
+  async run({ flags, positionals }) {
+    const { file, places } = await scrapeSearch({
+      query: positionals[0] || "halal restaurants in Tokyo",
+      maxResults: positiveNumber(flags, "max")!,
+      headless: flags.headless as boolean,
+    });
+    return {
+      status: "ok",
+      summary: { file, places: places.length },
+      records: places,
+    };
+  },
+};
+
+const batch: Command = {
+  name: "batch",
+  summary: "Run every search of a campaign, or resume an interrupted run",
+  positionals: [],
+  flags: [
+    {
+      name: "max",
+      type: "number",
+      description: "Maximum places per search; overrides the campaign",
+    },
+    {
+      name: "campaign",
+      type: "string",
+      description: "Campaign file; defaults to the Tokyo wards campaign",
+      placeholder: "<file>",
+    },
+    {
+      name: "concurrency",
+      type: "number",
+      description: "Browser workers; overrides the campaign",
+    },
+    {
+      name: "resume",
+      type: "string",
+      description: "Run directory to resume, e.g. 2024-05-01-10-30",
+      placeholder: "<run>",
+    },
+    HEADLESS_FLAG,
+  ],
+  async run({ flags }) {
+    const results = await runBatch({
+      maxResults: positiveNumber(flags, "max"),
+      headless: flags.headless as boolean,
+      campaignFile: flags.campaign as string | undefined,
+      concurrency: positiveNumber(flags, "concurrency"),
+      resume: flags.resume as string | undefined,
+    });
+    const failed = results.districts.filter((d) => d.status === "error").length;
+    return {
+      status: results.interrupted
+        ? "interrupted"
+        : statusOf(failed, results.districts.length),
+      summary: {
+        run: results.outputDirectory,
+        campaign: results.campaign,
+        searches: results.districts.length,
+        failed,
+        places: results.districts.reduce((sum, d) => sum + d.placesFound, 0),
+        completed: results.completed,
+      },
+      records: results.districts,
+    };
+  },
+};
+
+const sweep: Command = {
+  name: "sweep",
+  summary: "Search an area tile by tile to get past the per-query cap",
+  positionals: [{
+    name: "area",
+    description: "Tokyo ward name or minLng,minLat,maxLng,maxLat",
+    required: true,
+  }],
+  flags: [
+    {
+      name: "query",
+      type: "string",
+      description: "Search query",
+      default: "halal restaurants",
+    },
+    {
+      name: "max",
+      type: "number",
+      description: "Maximum places per tile",
+      default: 120,
+    },
+    {
+      name: "tile-size",
+      type: "number",
+      description: "Initial tile size in meters",
+      default: 2000,
+    },
+    HEADLESS_FLAG,
+  ],
+  async run({ flags, positionals }) {
+    const area = await resolveArea(positionals[0]);
+    if (!area) {
+      throw new UsageError(
+        "Give a Tokyo ward name or a bbox as minLng,minLat,maxLng,maxLat",
+      );
+    }
+    const result = await sweepArea({
+      area,
+      query: flags.query as string,
+      maxResultsPerTile: positiveNumber(flags, "max")!,
+      tileSizeMeters: positiveNumber(flags, "tile-size")!,
+      headless: flags.headless as boolean,
+    });
+    return {
+      status: statusOf(result.tilesFailed, result.tiles),
+      summary: { ...result },
+    };
+  },
+};
+
+const details: Command = {
+  name: "details",
+  summary:
+    "Scrape place panels; without places, every catalog place missing details",
+  positionals: [{
+    name: "places",
+    description: "Place ids or Google Maps URLs",
+    variadic: true,
+  }],
+  flags: [HEADLESS_FLAG],
+  async run({ flags, positionals }) {
+    const result = await fetchDetails({
+      targets: positionals,
+      headless: flags.headless as boolean,
+    });
+    return {
+      status: statusOf(result.failed.length, result.targets),
+      summary: { ...result },
+    };
+  },
+};
+
+const reviews: Command = {
+  name: "reviews",
+  summary: "Scrape new reviews per place; without places, every catalog place",
+  positionals: [{
+    name: "places",
+    description: "Place ids or Google Maps URLs",
+    variadic: true,
+  }],
+  flags: [
+    {
+      name: "max",
+      type: "number",
+      description: "Maximum reviews per place",
+      default: 50,
+    },
+    {
+      name: "sort",
+      type: "string",
+      description: "Review order",
+      choices: Object.keys(REVIEW_SORT_LABELS),
+      default: "newest",
+    },
+    HEADLESS_FLAG,
+  ],
+  async run({ flags, positionals }) {
+    const result = await fetchReviews({
+      targets: positionals,
+      maxReviews: positiveNumber(flags, "max")!,
+      sort: flags.sort as ReviewSort,
+      headless: flags.headless as boolean,
+    });
+    return {
+      status: statusOf(result.failed.length, result.targets),
+      summary: { ...result },
+    };
+  },
+};
+
+const processCommand: Command = {
+  name: "process",
+  summary:
+    "Merge raw snapshots into data/places, score places and profile reviewers",
+  positionals: [],
+  flags: [],
+  async run() {
+    return { status: "ok", summary: { ...await processCatalog() } };
+  },
+};
+
+const diffCommand: Command = {
+  name: "diff",
+  summary: "Compare two runs, or a run and the catalog",
+  positionals: [
+    {
+      name: "before",
+      description: 'Run directory, run name or "catalog"',
+      required: true,
+    },
+    {
+      name: "after",
+      description: 'Run directory, run name or "catalog"',
+      required: true,
+    },
+  ],
+  flags: [
+    {
+      name: "out",
+      type: "string",
+      description: "Changelog path; defaults to data/diffs",
+      placeholder: "<file>",
+    },
+    {
+      name: "min-rating-change",
+      type: "number",
+      description: "Smallest rating change reported",
+      default: 0.1,
+    },
+    {
+      name: "min-review-jump",
+      type: "number",
+      description: "Smallest review count change reported",
+      default: 20,
+    },
+  ],
+  async run({ flags, positionals }) {
+    for (const name of ["min-rating-change", "min-review-jump"]) {
+      if ((flags[name] as number) < 0) {
+        throw new UsageError(`--${name} must be a non-negative number`);
+      }
+    }
+    const { path, diff } = await diffRuns({
+      before: positionals[0],
+      after: positionals[1],
+      outFile: flags.out as string | undefined,
+      thresholds: {
+        minRatingChange: flags["min-rating-change"] as number,
+        minReviewJump: flags["min-review-jump"] as number,
+      },
+    });
+    return {
+      status: "ok",
+      summary: { path, ...diff.summary },
+      records: diff.districts,
+    };
+  },
+};
+
+// Export flags and the GET /places query parameters they set
+const FILTER_FLAGS: [FlagSpec, string][] = [
+  [{ name: "ward", type: "string", description: "Ward name" }, "ward"],
+  [
+    { name: "min-score", type: "number", description: "Minimum halal score" },
+    "minScore",
+  ],
+  [
+    { name: "min-rating", type: "number", description: "Minimum rating" },
+    "minRating",
+  ],
+  [
+    { name: "category", type: "string", description: "Category text" },
+    "category",
+  ],
+  [
+    {
+      name: "cuisine",
+      type: "string",
+      description: "Cuisine, parents include their children",
+      choices: CUISINE_IDS,
+    },
+    "cuisine",
+  ],
+  [
+    {
+      name: "venue-type",
+      type: "string",
+      description: "Venue type",
+      choices: VENUE_TYPE_IDS,
+    },
+    "venueType",
+  ],
+  [
+    {
+      name: "bbox",
+      type: "string",
+      description: "Bounding box",
+      placeholder: "<minLng,minLat,maxLng,maxLat>",
+    },
+    "bbox",
+  ],
+  [{ name: "q", type: "string", description: "Name or address text" }, "q"],
+  [
+    {
+      name: "sort",
+      type: "string",
+      description: "Sort field",
+      choices: ["name", "rating", "reviews", "score", "lastSeen"],
+    },
+    "sort",
+  ],
+  [
+    {
+      name: "order",
+      type: "string",
+      description: "Sort order",
+      choices: ["asc", "desc"],
+    },
+    "order",
+  ],
+];
+
+const exportCommand: Command = {
+  name: "export",
+  summary:
+    "Export the catalog as GeoJSON, CSV or KML, filtered like GET /places",
+  positionals: [{
+    name: "format",
+    description: `${EXPORT_FORMATS.join(", ")} or all (default)`,
+  }],
+  flags: [
+    {
+      name: "out",
+      type: "string",
+      description: "Output path for a single format; defaults to data/exports",
+      placeholder: "<file>",
+    },
+    ...FILTER_FLAGS.map(([spec]) => spec),
+  ],
+  async run({ flags, positionals }) {
+    const format = positionals[0] || "all";
+    if (format !== "all" && !EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new UsageError(`Unknown format: ${format}`);
+    }
+
+    const params = new URLSearchParams();
+    for (const [spec, param] of FILTER_FLAGS) {
+      const value = flags[spec.name];
+      if (value !== undefined) params.set(param, String(value));
+    }
+
+    try {
+      const files = await exportCatalog({
+        formats: format === "all" ? EXPORT_FORMATS : [format as ExportFormat],
+        outFile: flags.out as string | undefined,
+        params,
+      });
+      return {
+        status: "ok",
+        summary: { files: files.length, places: files[0]?.exported ?? 0 },
+        records: files,
+      };
+    } catch (error) {
+      if (error instanceof CatalogQueryError) {
+        throw new UsageError(error.message);
+      }
+      throw error;
+    }
+  },
+};
+
+const certifications: Command = {
+  name: "certifications",
+  summary:
+    "import: normalize a certification list into data/registries; match: link registries to places",
+  positionals: [
+    { name: "action", description: "import or match", required: true },
+    { name: "file", description: "CSV or JSON list to import" },
+  ],
+  flags: [
+    {
+      name: "id",
+      type: "string",
+      description: "Registry id (import)",
+      placeholder: "<registry>",
+    },
+    {
+      name: "certifier",
+      type: "string",
+      description: "Certifying body (import)",
+      placeholder: "<name>",
+    },
+    {
+      name: "encoding",
+      type: "string",
+      description: "File encoding, e.g. shift_jis (import)",
+    },
+    {
+      name: "column",
+      type: "list",
+      description: "Header of a field the aliases miss (import)",
+      placeholder: "<field>=<header>",
+    },
+    {
+      name: "now",
+      type: "string",
+      description: "Date expiry is judged against (match)",
+      placeholder: "<YYYY-MM-DD>",
+    },
+  ],
+  async run({ flags, positionals }) {
+    const [action, file] = positionals;
+
+    if (action === "match") {
+      const { path, matches } = await matchRegistries(
+        flags.now as string | undefined,
+      );
+      const count = (status: string) =>
+        matches.filter((match) => match.status === status).length;
+      return {
+        status: "ok",
+        summary: {
+          path,
+          confirmed: count("confirmed"),
+          ambiguous: count("ambiguous"),
+          unmatched: count("unmatched"),
+        },
+        records: matches,
+      };
+    }
+
+    if (action !== "import") {
+      throw new UsageError(`Unknown action: ${action} (import or match)`);
+    }
+    const id = flags.id as string | undefined;
+    const certifier = flags.certifier as string | undefined;
+    if (!file || !id || !certifier) {
+      throw new UsageError("import needs <file>, --id and --certifier");
+    }
+    const columns: Partial<Record<RegistryField, string>> = {};
+    for (const column of (flags.column as string[] | undefined) || []) {
+      const [field, ...header] = column.split("=");
+      if (header.length === 0) {
+        throw new UsageError(`--column must be <field>=<header>: ${column}`);
+      }
+      columns[field as RegistryField] = header.join("=");
+    }
+
+    const { path, registry } = await importRegistry(file, {
+      id,
+      certifier,
+      encoding: flags.encoding as string | undefined,
+      columns,
+    });
+    return {
+      status: "ok",
+      summary: { path, entries: registry.entries.length },
+      records: registry.entries,
+    };
+  },
+};
+
+const wards: Command = {
+  name: "wards",
+  summary:
+    "import: replace data/geo/tokyo-wards.geojson with the MLIT N03 ward boundaries",
+  positionals: [
+    { name: "action", description: "import", required: true },
+    { name: "file", description: "N03 GeoJSON file for Tokyo", required: true },
+  ],
+  flags: [{
+    name: "tolerance",
+    type: "number",
+    description: "Simplification tolerance in degrees",
+    default: DEFAULT_TOLERANCE_DEG,
+  }],
+  async run({ flags, positionals }) {
+    const [action, file] = positionals;
+    if (action !== "import") {
+      throw new UsageError(`Unknown action: ${action} (import)`);
+    }
+    const result = await importWardBoundaries(file, {
+      tolerance: positiveNumber(flags, "tolerance"),
+    });
+    return { status: "ok", summary: result };
+  },
+};
+
+const importCommand: Command = {
+  name: "import",
+  summary:
+    "Copy data/raw and data/reviews into the SQLite store; safe to re-run",
+  positionals: [{
+    name: "db",
+    description: "Database file; defaults to data/yaban.db",
+  }],
+  flags: [],
+  async run({ positionals }) {
+    return { status: "ok", summary: { ...await importRaw(positionals[0]) } };
+  },
+};
+
+const validate: Command = {
+  name: "validate",
+  summary: "Check raw scrape output against the raw file schemas",
+  positionals: [{
+    name: "dirs",
+    description: "Directories to check; defaults to data/raw and data/reviews",
+    variadic: true,
+  }],
+  flags: [{
+    name: "verbose",
+    type: "boolean",
+    description: "Print every issue of a file",
+    default: false,
+  }],
+  async run({ flags, positionals }) {
+    const result = await validateDirs({
+      dirs: positionals,
+      verbose: flags.verbose as boolean,
+    });
+    return {
+      status: result.errors > 0 ? "failed" : "ok",
+      summary: {
+        files: result.reports.length,
+        records: result.records,
+        errors: result.errors,
+        warnings: result.warnings,
+      },
+      records: result.reports.filter((report) => report.issues.length > 0),
+    };
+  },
+};
+
+const serve: Command = {
+  name: "serve",
+  summary:
+    "Serve the HTTP API and the web map over the processed data until stopped",
+  positionals: [],
+  flags: [
+    {
+      name: "port",
+      type: "number",
+      description: "Port to listen on",
+      default: 8000,
+    },
+    {
+      name: "tiles",
+      type: "string",
+      description:
+        "Map tile URL template, or none for ward outlines only; overrides config/map.json",
+      placeholder: "<url|none>",
+    },
+  ],
+  async run({ flags }) {
+    const port = positiveNumber(flags, "port")!;
+    const tiles = flags.tiles as string | undefined;
+    const server = await startServer({
+      port,
+      tiles: tiles === undefined
+        ? undefined
+        : tiles === "none"
+        ? null
+        : { url: tiles },
+    });
+    await server.finished;
+    return { status: "ok", summary: { port } };
+  },
+};
+
+export const COMMANDS: Command[] = [
+  scrape,
+  batch,
+  sweep,
+  details,
+  reviews,
+  processCommand,
+  diffCommand,
+  exportCommand,
+  certifications,
+  wards,
+  importCommand,
+  validate,
+  serve,
+];
@@ -0,0 +1,120 @@
+/**
+ * yaban.config.json: defaults for the CLI's flags
+ * {
+ *   "storage": "sqlite",          // sets YABAN_STORAGE
+ *   "headless": false,            // every command with --headless
+ *   "commands": {
+ *     "batch": { "concurrency": 2, "campaign": "config/campaigns/osaka.json" },
+ *     "reviews": { "max": 100, "sort": "newest" }
+ *   }
+ * }
+ * Flags given on the command line win. The file is read from the working
+ * directory unless --config or YABAN_CONFIG names another one.
+ */
+
+import type { StorageKind } from "../scraper/storage.ts";
+import { UsageError } from "./args.ts";
+
+export const CONFIG_PATH = "./yaban.config.json";
+export const CONFIG_ENV = "YABAN_CONFIG";
+
+export interface CliConfig {
+  storage?: StorageKind;
+  headless?: boolean;
+  // Flag defaults per command, keyed by flag name without the dashes
+  commands: Record<string, Record<string, unknown>>;
+}
+
+const TOP_LEVEL_KEYS = new Set(["storage", "headless", "commands"]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the shape of a parsed config file; flag values are checked against
+ * each command's flags when the command runs
+ */
+export function parseConfig(raw: unknown, path: string): CliConfig {
+  if (!isObject(raw)) throw new UsageError(`${path}: expected an object`);
+
+  for (const key of Object.keys(raw)) {
+    if (!TOP_LEVEL_KEYS.has(key)) {
+      throw new UsageError(`${path}: unknown key "${key}"`);
+    }
+  }
+  if (
+    raw.storage !== undefined && raw.storage !== "json" &&
+    raw.storage !== "sqlite"
+  ) {
+    throw new UsageError(`${path}: storage must be "json" or "sqlite"`);
+  }
+  if (raw.headless !== undefined && typeof raw.headless !== "boolean") {
+    throw new UsageError(`${path}: headless must be true or false`);
+  }
+
+  const commands: CliConfig["commands"] = {};
+  if (raw.commands !== undefined) {
+    if (!isObject(raw.commands)) {
+      throw new UsageError(`${path}: commands must be an object`);
+    }
+    for (const [command, flags] of Object.entries(raw.commands)) {
+      if (!isObject(flags)) {
+        throw new UsageError(`${path}: commands.${command} must be an object`);
+      }
+      commands[command] = flags;
+    }
+  }
+
+  return {
+    storage: raw.storage as StorageKind | undefined,
+    headless: raw.headless as boolean | undefined,
+    commands,
+  };
+}
+
+/**
+ * Load the config file; the default file may be absent, a file asked for
+ * with --config or YABAN_CONFIG may not
+ */
+export async function loadConfig(path?: string): Promise<CliConfig> {
+  const explicit = path ?? Deno.env.get(CONFIG_ENV);
+  const configPath = explicit || CONFIG_PATH;
+
+  let text: string;
+  try {
+    text = await Deno.readTextFile(configPath);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound && !explicit) {
+      return { commands: {} };
+    }
+    if (error instanceof Deno.errors.NotFound) {
+      throw new UsageError(`Config file not found: ${configPath}`);
+    }
+    throw error;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new UsageError(`${configPath}: ${(error as Error).message}`);
+  }
+  return parseConfig(raw, configPath);
+}
+
+/**
+ * Raw flag defaults for a command: the shared headless setting if the
+ * command has that flag, then the command's own section
+ */
+export function commandDefaults(
+  config: CliConfig,
+  command: string,
+  flags: string[],
+): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  if (config.headless !== undefined && flags.includes("headless")) {
+    defaults.headless = config.headless;
+  }
+  return { ...defaults, ...config.commands[command] };
+}
@@ -0,0 +1,197 @@
+/**
+ * yaban: one entry point for scraping, processing and serving
+ * Usage: yaban [--json] [--config <file>] <command> [arguments] [options]
+ *        yaban <command> --help
+ * Install: deno install -A -g -n yaban cli/main.ts
+ *
+ * With --json, progress goes to stderr and stdout carries one JSON object per
+ * line: the command's records, then {"result": {...}} or {"error": {...}}
+ * Exit status: 0 ok, 1 failed, 2 bad usage or config, 3 partial failure
+ * (some places, searches or tiles failed), 130 interrupted
+ */
+
+import { STORAGE_ENV } from "../scraper/storage.ts";
+import {
+  checkConfigValue,
+  type FlagValue,
+  formatHelp,
+  parseArgs,
+  UsageError,
+} from "./args.ts";
+import { commandDefaults, loadConfig } from "./config.ts";
+import { type Command, COMMANDS, type CommandStatus } from "./commands.ts";
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_PARTIAL = 3;
+// 128 + SIGINT, like a shell reports an interrupted command
+export const EXIT_INTERRUPTED = 130;
+
+const EXIT_CODES: Record<CommandStatus, number> = {
+  ok: EXIT_OK,
+  failed: EXIT_FAILED,
+  partial: EXIT_PARTIAL,
+  interrupted: EXIT_INTERRUPTED,
+};
+
+export interface MainOptions {
+  // Where JSON lines go; stdout by default
+  writeLine?: (line: string) => void;
+}
+
+function mainHelp(): string {
+  const width = Math.max(...COMMANDS.map((command) => command.name.length));
+  return [
+    "Usage: yaban [--json] [--config <file>] <command> [arguments] [options]",
+    "",
+    "Commands:",
+    ...COMMANDS.map((command) =>
+      `  ${command.name.padEnd(width)}  ${command.summary}`
+    ),
+    "",
+    "Global options:",
+    "  --json           Progress to stderr, JSON lines to stdout",
+    "  --config <file>  Flag defaults (default: ./yaban.config.json)",
+    "  -h, --help       Show help; yaban <command> --help for its options",
+    "",
+    "Exit status: 0 ok, 1 failed, 2 usage, 3 partial failure",
+  ].join("\n");
+}
+
+function commandHelp(command: Command): string {
+  const args = command.positionals.map((spec) => {
+    const name = `<${spec.name}>${spec.variadic ? "..." : ""}`;
+    return spec.required ? name : `[${name}]`;
+  });
+  return formatHelp(
+    ["yaban", command.name, ...args, "[options]"].join(" "),
+    command.summary,
+    command.flags,
+    command.positionals,
+  );
+}
+
+/**
+ * Take --json and --config out of argv, wherever they appear
+ */
+function takeGlobalFlags(argv: string[]): {
+  json: boolean;
+  config?: string;
+  rest: string[];
+} {
+  let json = false;
+  let config: string | undefined;
+  const rest: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      rest.push(...argv.slice(i));
+      break;
+    }
+    if (arg === "--json") {
+      json = true;
+    } else if (arg === "--config") {
+      config = argv[++i];
+      if (config === undefined) throw new UsageError("--config needs a value");
+    } else if (arg.startsWith("--config=")) {
+      config = arg.slice("--config=".length);
+    } else {
+      rest.push(arg);
+    }
+  }
+
+  return { json, config, rest };
+}
+
+/**
+ * Run the CLI and return its exit status
+ */
+export async function main(
+  argv: string[],
+  options: MainOptions = {},
+): Promise<number> {
+  const log = console.log;
+  const writeLine = options.writeLine ?? log;
+  let json = argv.includes("--json");
+  // Keep stdout for JSON lines; progress output moves to stderr
+  if (json) console.log = console.error;
+
+  const emit = (value: unknown) => writeLine(JSON.stringify(value));
+
+  try {
+    const globals = takeGlobalFlags(argv);
+    json = globals.json;
+    const [name, ...rest] = globals.rest;
+
+    if (!name || name === "-h" || name === "--help" || name === "help") {
+      console.log(mainHelp());
+      return name ? EXIT_OK : EXIT_USAGE;
+    }
+    const command = COMMANDS.find((command) => command.name === name);
+    if (!command) throw new UsageError(`Unknown command: ${name}`);
+
+    const config = await loadConfig(globals.config);
+    if (config.storage && !Deno.env.get(STORAGE_ENV)) {
+      Deno.env.set(STORAGE_ENV, config.storage);
+    }
+    for (const section of Object.keys(config.commands)) {
+      if (!COMMANDS.some((command) => command.name === section)) {
+        throw new UsageError(`Config: unknown command "${section}"`);
+      }
+    }
+    const defaults: Record<string, FlagValue> = {};
+    const flagNames = command.flags.map((spec) => spec.name);
+    for (
+      const [flag, value] of Object.entries(
+        commandDefaults(config, name, flagNames),
+      )
+    ) {
+      const spec = command.flags.find((spec) => spec.name === flag);
+      if (!spec) {
+        throw new UsageError(`Config: ${name} has no option "${flag}"`);
+      }
+      defaults[flag] = checkConfigValue(spec, value, `Config ${name}.${flag}`);
+    }
+
+    const parsed = parseArgs(
+      rest,
+      command.flags,
+      command.positionals,
+      defaults,
+    );
+    if (parsed.help) {
+      console.log(commandHelp(command));
+      return EXIT_OK;
+    }
+
+    const result = await command.run(parsed);
+    if (json) {
+      for (const record of result.records || []) emit(record);
+      emit({
+        result: { command: name, status: result.status, ...result.summary },
+      });
+    }
+    return EXIT_CODES[result.status];
+  } catch (error) {
+    const usage = error instanceof UsageError;
+    const message = (error as Error).message;
+    if (json) {
+      emit({ error: { message, usage } });
+    }
+    if (usage) {
+      console.error(`❌ ${message}`);
+      console.error("Run yaban --help or yaban <command> --help for usage");
+      return EXIT_USAGE;
+    }
+    console.error("❌", error);
+    return EXIT_FAILED;
+  } finally {
+    console.log = log;
+  }
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
@@ -0,0 +1,94 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import { EXIT_FAILED, EXIT_OK, EXIT_USAGE, main } from "./main.ts";
+import { statusOf } from "./commands.ts";
+
+/**
+ * Run the CLI with --json and collect the JSON lines it prints
+ */
+async function runJson(argv: string[]) {
+  const lines: unknown[] = [];
+  const status = await main(["--json", ...argv], {
+    writeLine: (line) => lines.push(JSON.parse(line)),
+  });
+  return { status, lines };
+}
+
+Deno.test("main: usage errors exit with 2 and a JSON error line", async () => {
+  for (
+    const argv of [
+      ["frobnicate"],
+      ["diff", "only-one"],
+      ["reviews", "--sort", "oldest"],
+    ]
+  ) {
+    const { status, lines } = await runJson(argv);
+    assertEquals(status, EXIT_USAGE);
+    assertEquals(
+      (lines.at(-1) as { error: { usage: boolean } }).error.usage,
+      true,
+    );
+  }
+});
+
+Deno.test("main: validate reports records and fails on errors", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/broken.json`, "{ not json");
+
+    const { status, lines } = await runJson(["validate", dir]);
+    assertEquals(status, EXIT_FAILED);
+    assertEquals(lines.length, 2);
+    assertEquals((lines[0] as { path: string }).path, `${dir}/broken.json`);
+    assertEquals(lines[1], {
+      result: {
+        command: "validate",
+        status: "failed",
+        files: 1,
+        records: 0,
+        errors: 1,
+        warnings: 0,
+      },
+    });
+
+    await Deno.remove(`${dir}/broken.json`);
+    assertEquals((await runJson(["validate", dir])).status, EXIT_OK);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("main: config file sets defaults and rejects unknown options", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  try {
+    await Deno.writeTextFile(
+      path,
+      JSON.stringify({ commands: { validate: { verbose: "yes" } } }),
+    );
+    const { status, lines } = await runJson(["--config", path, "validate"]);
+    assertEquals(status, EXIT_USAGE);
+    assertEquals(lines, [{
+      error: {
+        message: "Config validate.verbose must be a boolean",
+        usage: true,
+      },
+    }]);
+
+    await Deno.writeTextFile(
+      path,
+      JSON.stringify({ commands: { validate: { quiet: true } } }),
+    );
+    assertEquals(
+      (await runJson(["--config", path, "validate"])).status,
+      EXIT_USAGE,
+    );
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("statusOf: some failures are partial, all failures are failed", () => {
+  assertEquals(statusOf(0, 10), "ok");
+  assertEquals(statusOf(0, 0), "ok");
+  assertEquals(statusOf(3, 10), "partial");
+  assertEquals(statusOf(10, 10), "failed");
+});
@@ -0,0 +1,210 @@
+/**
+ * Catalog export to GeoJSON, CSV and KML
+ * Flattens catalog places into the columns the community map and spreadsheet
+ * use. GeoJSON and KML need coordinates, so places without them are left out
+ * of those formats and only appear in the CSV.
+ */
+
+import type { CatalogPlace } from "./catalog.ts";
+
+export type ExportFormat = "geojson" | "csv" | "kml";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["geojson", "csv", "kml"];
+
+/**
+ * One exported place; the same fields in every format
+ */
+export interface ExportRow {
+  placeId: string;
+  name: string;
+  ward?: string;
+  lat?: number;
+  lng?: number;
+  rating?: number;
+  totalReviews?: number;
+  halalScore?: number;
+  category?: string;
+  venueType?: string;
+  cuisines: string[];
+  tags: string[];
+  address?: string;
+  url: string;
+  lastSeenAt: string;
+}
+
+export interface ExportResult {
+  content: string;
+  // Places written and places left out for lack of coordinates
+  exported: number;
+  skipped: number;
+}
+
+const CSV_COLUMNS: (keyof ExportRow)[] = [
+  "placeId",
+  "name",
+  "ward",
+  "lat",
+  "lng",
+  "rating",
+  "totalReviews",
+  "halalScore",
+  "category",
+  "venueType",
+  "cuisines",
+  "tags",
+  "address",
+  "url",
+  "lastSeenAt",
+];
+
+// Excel only reads a CSV as UTF-8 (and shows Japanese names) with a BOM
+const UTF8_BOM = "\uFEFF";
+
+export function toExportRow(place: CatalogPlace): ExportRow {
+  return {
+    placeId: place.placeId,
+    name: place.name,
+    ward: place.ward,
+    lat: place.lat,
+    lng: place.lng,
+    rating: place.rating,
+    totalReviews: place.totalReviews,
+    halalScore: place.halalScore?.score,
+    category: place.category,
+    venueType: place.taxonomy?.venueType?.id,
+    cuisines: place.taxonomy?.cuisines.map((cuisine) => cuisine.id) ?? [],
+    tags: place.tags ?? [],
+    address: place.address,
+    url: place.url,
+    lastSeenAt: place.lastSeenAt,
+  };
+}
+
+function hasCoordinates(
+  row: ExportRow,
+): row is ExportRow & { lat: number; lng: number } {
+  return row.lat !== undefined && row.lng !== undefined;
+}
+
+export function toGeoJson(places: CatalogPlace[]): ExportResult {
+  const rows = places.map(toExportRow);
+  const located = rows.filter(hasCoordinates);
+
+  const collection = {
+    type: "FeatureCollection",
+    features: located.map(({ lat, lng, ...properties }) => ({
+      type: "Feature",
+      id: properties.placeId,
+      // GeoJSON positions are [longitude, latitude]
+      geometry: { type: "Point", coordinates: [lng, lat] },
+      properties,
+    })),
+  };
+
+  return {
+    content: JSON.stringify(collection, null, 2),
+    exported: located.length,
+    skipped: rows.length - located.length,
+  };
+}
+
+function csvCell(value: ExportRow[keyof ExportRow]): string {
+  if (value === undefined) return "";
+  const text = Array.isArray(value) ? value.join("; ") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(places: CatalogPlace[]): ExportResult {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const row of places.map(toExportRow)) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(row[column])).join(","));
+  }
+
+  return {
+    content: UTF8_BOM + lines.join("\r\n") + "\r\n",
+    exported: places.length,
+    skipped: 0,
+  };
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * KML for Google My Maps; ExtendedData fields become the layer's columns
+ */
+export function toKml(places: CatalogPlace[], name: string): ExportResult {
+  const rows = places.map(toExportRow);
+  const located = rows.filter(hasCoordinates);
+
+  const placemarks = located.map((row) => {
+    const fields: [string, ExportRow[keyof ExportRow]][] = [
+      ["ward", row.ward],
+      ["rating", row.rating],
+      ["totalReviews", row.totalReviews],
+      ["halalScore", row.halalScore],
+      ["category", row.category],
+      ["venueType", row.venueType],
+      ["cuisines", row.cuisines.join("; ")],
+      ["tags", row.tags.join("; ")],
+      ["address", row.address],
+      ["url", row.url],
+    ];
+    const data = fields
+      .filter(([, value]) => value !== undefined && value !== "")
+      .map(([key, value]) =>
+        `        <Data name="${key}"><value>${
+          xmlEscape(String(value))
+        }</value></Data>`
+      );
+    const description = [row.category, row.address].filter(Boolean).join("\n");
+
+    return [
+      "    <Placemark>",
+      `      <name>${xmlEscape(row.name)}</name>`,
+      `      <description>${xmlEscape(description)}</description>`,
+      "      <ExtendedData>",
+      ...data,
+      "      </ExtendedData>",
+      `      <Point><coordinates>${row.lng},${row.lat}</coordinates></Point>`,
+      "    </Placemark>",
+    ].join("\n");
+  });
+
+  const content = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${xmlEscape(name)}</name>`,
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+
+  return {
+    content,
+    exported: located.length,
+    skipped: rows.length - located.length,
+  };
+}
+
+export function exportPlaces(
+  places: CatalogPlace[],
+  format: ExportFormat,
+  name: string,
+): ExportResult {
+  switch (format) {
+    case "geojson":
+      return toGeoJson(places);
+    case "csv":
+      return toCsv(places);
+    case "kml":
+      return toKml(places, name);
+  }
+}
@@ -0,0 +1,102 @@
+import { assert, assertEquals } from "jsr:@std/assert@1.0.8";
+import type { CatalogPlace } from "./catalog.ts";
+import { toCsv, toGeoJson, toKml } from "./catalog-export.ts";
+
+function place(overrides: Partial<CatalogPlace>): CatalogPlace {
+  return {
+    placeId: "0x1:0xa",
+    name: "Halal Ramen",
+    url: "https://www.google.com/maps/place/Halal+Ramen?hl=en&authuser=0",
+    firstSeenAt: "2026-01-06T07:45:00.000Z",
+    lastSeenAt: "2026-01-07T07:45:00.000Z",
+    districts: ["Chuo"],
+    queries: ["halal restaurants Chuo tokyo japan"],
+    runs: ["2026-01-06-16-44"],
+    ...overrides,
+  };
+}
+
+const PLACES = [
+  place({
+    ward: "Chuo",
+    lat: 35.67,
+    lng: 139.76,
+    rating: 4.6,
+    totalReviews: 120,
+    category: "Ramen restaurant",
+    tags: ["Halal", "Dine-in"],
+    taxonomy: {
+      venueType: { id: "restaurant", confidence: 0.9, evidence: [] },
+      cuisines: [
+        { id: "ramen", confidence: 0.9, evidence: [] },
+        { id: "wagyu", confidence: 0.7, evidence: [] },
+      ],
+    },
+    halalScore: { score: 72, baseScore: 50, signals: [] },
+  }),
+  place({
+    placeId: "0x1:0xb",
+    name: 'ケバブ "Istanbul", Shinjuku',
+    address: "1-2 Kabukicho\nShinjuku",
+  }),
+];
+
+Deno.test("toGeoJson: points in [lng, lat], places without coordinates skipped", () => {
+  const result = toGeoJson(PLACES);
+  assertEquals([result.exported, result.skipped], [1, 1]);
+
+  const collection = JSON.parse(result.content);
+  assertEquals(collection.type, "FeatureCollection");
+  const [feature] = collection.features;
+  assertEquals(feature.geometry, {
+    type: "Point",
+    coordinates: [139.76, 35.67],
+  });
+  assertEquals(feature.properties.halalScore, 72);
+  assertEquals(feature.properties.ward, "Chuo");
+  assertEquals(feature.properties.tags, ["Halal", "Dine-in"]);
+  assertEquals(feature.properties.cuisines, ["ramen", "wagyu"]);
+});
+
+Deno.test("toCsv: BOM, quoting and every place", () => {
+  const result = toCsv(PLACES);
+  assertEquals(result.exported, 2);
+  assert(result.content.startsWith("\uFEFFplaceId,name,ward,lat,lng,"));
+
+  const lines = result.content.slice(1).split("\r\n");
+  assertEquals(
+    lines[1],
+    "0x1:0xa,Halal Ramen,Chuo,35.67,139.76,4.6,120,72,Ramen restaurant,restaurant,ramen; wagyu,Halal; Dine-in,,https://www.google.com/maps/place/Halal+Ramen?hl=en&authuser=0,2026-01-07T07:45:00.000Z",
+  );
+  // Quotes are doubled and cells with commas or newlines quoted
+  assert(
+    result.content.includes(
+      '0x1:0xb,"ケバブ ""Istanbul"", Shinjuku",,,,,,,,,,,"1-2 Kabukicho\nShinjuku",',
+    ),
+  );
+});
+
+Deno.test("toKml: escaped placemarks with extended data", () => {
+  const result = toKml(
+    [
+      ...PLACES,
+      place({ placeId: "0x1:0xc", name: "A & B", lat: 35, lng: 139 }),
+    ],
+    "Halal <Tokyo>",
+  );
+  assertEquals([result.exported, result.skipped], [2, 1]);
+
+  assert(result.content.includes("<name>Halal &lt;Tokyo&gt;</name>"));
+  assert(result.content.includes("<name>A &amp; B</name>"));
+  assert(
+    result.content.includes(
+      '<Data name="halalScore"><value>72</value></Data>',
+    ),
+  );
+  assert(result.content.includes("hl=en&amp;authuser=0"));
+  assert(
+    result.content.includes(
+      "<Point><coordinates>139.76,35.67</coordinates></Point>",
+    ),
+  );
+});
@@ -0,0 +1,220 @@
+/**
+ * Filtering and sorting over the place catalog
+ * Shared by the HTTP API and anything else that selects places the same way
+ */
+
+import type { CatalogPlace } from "./catalog.ts";
+import {
+  type Cuisine,
+  CUISINE_IDS,
+  hasCuisine,
+  VENUE_TYPE_IDS,
+  type VenueType,
+} from "./taxonomy.ts";
+
+export interface CatalogFilters {
+  ward?: string;
+  minRating?: number;
+  minScore?: number;
+  category?: string;
+  // A cuisine also matches the cuisines under it (japanese: ramen, ...)
+  cuisine?: Cuisine;
+  venueType?: VenueType;
+  // [minLng, minLat, maxLng, maxLat]
+  bbox?: [number, number, number, number];
+  // Case-insensitive match on name, category and address
+  q?: string;
+}
+
+export type SortField = "name" | "rating" | "reviews" | "score" | "lastSeen";
+
+export interface SortOptions {
+  field: SortField;
+  order: "asc" | "desc";
+}
+
+export const SORT_FIELDS: SortField[] = [
+  "name",
+  "rating",
+  "reviews",
+  "score",
+  "lastSeen",
+];
+
+export class CatalogQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CatalogQueryError";
+  }
+}
+
+function parseNumber(
+  params: URLSearchParams,
+  name: string,
+): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+  const number = parseFloat(value);
+  if (isNaN(number)) {
+    throw new CatalogQueryError(`${name} must be a number`);
+  }
+  return number;
+}
+
+/**
+ * Read filters from query parameters:
+ * ward, minRating, minScore, category, cuisine, venueType,
+ * bbox=minLng,minLat,maxLng,maxLat, q
+ */
+export function parseFilters(params: URLSearchParams): CatalogFilters {
+  const filters: CatalogFilters = {
+    ward: params.get("ward") || undefined,
+    minRating: parseNumber(params, "minRating"),
+    minScore: parseNumber(params, "minScore"),
+    category: params.get("category") || undefined,
+    q: params.get("q") || undefined,
+  };
+
+  const cuisine = params.get("cuisine");
+  if (cuisine) {
+    if (!CUISINE_IDS.includes(cuisine as Cuisine)) {
+      throw new CatalogQueryError(
+        `cuisine must be one of: ${CUISINE_IDS.join(", ")}`,
+      );
+    }
+    filters.cuisine = cuisine as Cuisine;
+  }
+  const venueType = params.get("venueType");
+  if (venueType) {
+    if (!VENUE_TYPE_IDS.includes(venueType as VenueType)) {
+      throw new CatalogQueryError(
+        `venueType must be one of: ${VENUE_TYPE_IDS.join(", ")}`,
+      );
+    }
+    filters.venueType = venueType as VenueType;
+  }
+
+  const bbox = params.get("bbox");
+  if (bbox) {
+    const parts = bbox.split(",").map((part) => parseFloat(part));
+    if (parts.length !== 4 || parts.some(isNaN)) {
+      throw new CatalogQueryError(
+        "bbox must be minLng,minLat,maxLng,maxLat",
+      );
+    }
+    filters.bbox = parts as [number, number, number, number];
+  }
+
+  return filters;
+}
+
+export function parseSort(params: URLSearchParams): SortOptions {
+  const field = (params.get("sort") || "name") as SortField;
+  if (!SORT_FIELDS.includes(field)) {
+    throw new CatalogQueryError(
+      `sort must be one of: ${SORT_FIELDS.join(", ")}`,
+    );
+  }
+  const order = params.get("order") ||
+    (field === "name" ? "asc" : "desc");
+  if (order !== "asc" && order !== "desc") {
+    throw new CatalogQueryError("order must be asc or desc");
+  }
+  return { field, order };
+}
+
+export function matchesFilters(
+  place: CatalogPlace,
+  filters: CatalogFilters,
+): boolean {
+  if (
+    filters.ward && place.ward?.toLowerCase() !== filters.ward.toLowerCase()
+  ) {
+    return false;
+  }
+  if (
+    filters.minRating !== undefined &&
+    (place.rating ?? 0) < filters.minRating
+  ) {
+    return false;
+  }
+  if (
+    filters.minScore !== undefined &&
+    (place.halalScore?.score ?? 0) < filters.minScore
+  ) {
+    return false;
+  }
+  if (
+    filters.category &&
+    !(place.category || "").toLowerCase().includes(
+      filters.category.toLowerCase(),
+    )
+  ) {
+    return false;
+  }
+  if (filters.cuisine && !hasCuisine(place.taxonomy, filters.cuisine)) {
+    return false;
+  }
+  if (
+    filters.venueType && place.taxonomy?.venueType?.id !== filters.venueType
+  ) {
+    return false;
+  }
+  if (filters.bbox) {
+    const [minLng, minLat, maxLng, maxLat] = filters.bbox;
+    if (
+      place.lat === undefined || place.lng === undefined ||
+      place.lng < minLng || place.lng > maxLng ||
+      place.lat < minLat || place.lat > maxLat
+    ) {
+      return false;
+    }
+  }
+  if (filters.q) {
+    const q = filters.q.toLowerCase();
+    const haystack = [place.name, place.category, place.address]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    if (!haystack.includes(q)) return false;
+  }
+  return true;
+}
+
+function sortValue(place: CatalogPlace, field: SortField): string | number {
+  switch (field) {
+    case "name":
+      return place.name.toLowerCase();
+    case "rating":
+      return place.rating ?? -1;
+    case "reviews":
+      return place.totalReviews ?? -1;
+    case "score":
+      return place.halalScore?.score ?? -1;
+    case "lastSeen":
+      return place.lastSeenAt;
+  }
+}
+
+export function sortPlaces(
+  places: CatalogPlace[],
+  sort: SortOptions,
+): CatalogPlace[] {
+  const direction = sort.order === "asc" ? 1 : -1;
+  return [...places].sort((a, b) => {
+    const va = sortValue(a, sort.field);
+    const vb = sortValue(b, sort.field);
+    if (va < vb) return -direction;
+    if (va > vb) return direction;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+export function queryCatalog(
+  places: CatalogPlace[],
+  filters: CatalogFilters,
+  sort?: SortOptions,
+): CatalogPlace[] {
+  const matched = places.filter((place) => matchesFilters(place, filters));
+  return sort ? sortPlaces(matched, sort) : matched;
+}
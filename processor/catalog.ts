@@ -0,0 +1,166 @@
+/**
+ * Place catalog: merges raw snapshots into one canonical record per place
+ */
+
+import { cleanLegacyCategory } from "../scraper/card-parser.ts";
+import {
+  assignWard,
+  parseCoordinates,
+  type WardBoundary,
+} from "../scraper/geo.ts";
+import type { PlaceDetails, ScrapedPlace } from "../scraper/storage.ts";
+import type { PlaceCertification } from "./certification-match.ts";
+import type { HalalScore } from "./halal-score.ts";
+import type { PlaceTaxonomy } from "./taxonomy.ts";
+import type { RawSnapshot } from "./raw-loader.ts";
+
+export const CATALOG_DIR = "./data/places";
+
+export interface CatalogPlace extends Omit<ScrapedPlace, "scrapedAt"> {
+  firstSeenAt: string;
+  lastSeenAt: string;
+  // Ward the place physically lies in; districts lists the searched areas
+  // that returned it, as districtKey()s
+  ward?: string;
+  districts: string[];
+  queries: string[];
+  runs: string[];
+  details?: Omit<PlaceDetails, "placeId" | "name" | "url">;
+  // Confirmed matches in imported certification registries
+  certifications?: PlaceCertification[];
+  // Venue type and cuisines from taxonomy.ts
+  taxonomy?: PlaceTaxonomy;
+  halalScore?: HalalScore;
+}
+
+// Runs from before campaigns recorded no city; they searched Tokyo's wards
+const LEGACY_CITY = "tokyo";
+
+/**
+ * "tokyo/Chuo": area names repeat across cities, Osaka has a Chuo too
+ */
+export function districtKey(area: string, city = LEGACY_CITY): string {
+  return `${city}/${area}`;
+}
+
+/** Fields a snapshot actually carries: neither missing nor empty */
+export function filledFields<T extends object>(fields: T): Partial<T> {
+  const filled: Partial<T> = {};
+  for (const key of Object.keys(fields) as (keyof T)[]) {
+    const value = fields[key];
+    if (value !== undefined && value !== "") filled[key] = value;
+  }
+  return filled;
+}
+
+function addUnique(list: string[], value: string | undefined): void {
+  if (value && !list.includes(value)) {
+    list.push(value);
+  }
+}
+
+/**
+ * Merge snapshots by placeId. Snapshots must be ordered oldest first so the
+ * most recent observation of a field wins, while a field that a newer
+ * snapshot left empty keeps its previous value.
+ */
+export function mergeSnapshots(snapshots: RawSnapshot[]): CatalogPlace[] {
+  const catalog = new Map<string, CatalogPlace>();
+
+  for (const snapshot of snapshots) {
+    for (const place of snapshot.places) {
+      if (!place.placeId) continue;
+
+      const seenAt = place.scrapedAt || snapshot.scrapedAt;
+      const { scrapedAt: _scrapedAt, ...fields } = place;
+      // Snapshots taken before coordinates were scraped still carry them in the URL
+      if (fields.lat === undefined || fields.lng === undefined) {
+        Object.assign(fields, parseCoordinates(fields.url));
+      }
+      const legacy = cleanLegacyCategory(fields.name, fields.category);
+      fields.category = legacy.category;
+      fields.totalReviews ??= legacy.totalReviews;
+      const existing = catalog.get(place.placeId);
+      const district = snapshot.district
+        ? districtKey(snapshot.district, snapshot.city)
+        : undefined;
+
+      if (!existing) {
+        catalog.set(place.placeId, {
+          ...fields,
+          firstSeenAt: seenAt,
+          lastSeenAt: seenAt,
+          districts: district ? [district] : [],
+          queries: snapshot.query ? [snapshot.query] : [],
+          runs: [snapshot.runId],
+        });
+        continue;
+      }
+
+      if (seenAt >= existing.lastSeenAt) {
+        Object.assign(existing, filledFields(fields));
+        existing.lastSeenAt = seenAt;
+      }
+      if (seenAt < existing.firstSeenAt) {
+        existing.firstSeenAt = seenAt;
+      }
+
+      addUnique(existing.districts, district);
+      addUnique(existing.queries, snapshot.query);
+      addUnique(existing.runs, snapshot.runId);
+    }
+  }
+
+  return [...catalog.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Set each place's ward from its coordinates, independent of which district
+ * queries returned it
+ */
+export function assignWards(
+  places: CatalogPlace[],
+  wards: WardBoundary[],
+): void {
+  for (const place of places) {
+    if (place.lat === undefined || place.lng === undefined) continue;
+    place.ward = assignWard(place.lat, place.lng, wards);
+  }
+}
+
+/**
+ * Attach scraped place panel details; the panel's address replaces the short
+ * one from the result card
+ */
+export function attachDetails(
+  places: CatalogPlace[],
+  details: Map<string, PlaceDetails>,
+): void {
+  for (const place of places) {
+    const record = details.get(place.placeId);
+    if (!record) continue;
+    const { placeId: _placeId, name: _name, url: _url, ...rest } = record;
+    place.details = rest;
+    if (rest.fullAddress) place.address = rest.fullAddress;
+  }
+}
+
+/**
+ * Read every catalog record written by the processor
+ */
+export async function loadCatalog(dir = CATALOG_DIR): Promise<CatalogPlace[]> {
+  const places: CatalogPlace[] = [];
+
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+      places.push(
+        JSON.parse(await Deno.readTextFile(`${dir}/${entry.name}`)),
+      );
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+
+  return places.sort((a, b) => a.name.localeCompare(b.name));
+}
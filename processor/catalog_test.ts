@@ -0,0 +1,135 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import type { ScrapedPlace } from "../scraper/storage.ts";
+import { mergeSnapshots } from "./catalog.ts";
+import type { RawSnapshot } from "./raw-loader.ts";
+
+function place(
+  placeId: string,
+  fields: Partial<ScrapedPlace> = {},
+): ScrapedPlace {
+  return {
+    placeId,
+    name: `Place ${placeId}`,
+    url: `https://www.google.com/maps/place/${placeId}`,
+    scrapedAt: "",
+    ...fields,
+  };
+}
+
+function snapshot(
+  runId: string,
+  district: string,
+  scrapedAt: string,
+  places: ScrapedPlace[],
+): RawSnapshot {
+  return {
+    runId,
+    file: `data/raw/${runId}/places-${district.toLowerCase()}-tokyo.json`,
+    query: `halal restaurants ${district} tokyo japan`,
+    district,
+    scrapedAt,
+    places,
+  };
+}
+
+Deno.test("mergeSnapshots: one record per place across runs and districts", () => {
+  const places = mergeSnapshots([
+    snapshot("run-1", "Chuo", "2026-01-06T00:00:00.000Z", [
+      place("a", { rating: 4.5 }),
+      place("b"),
+    ]),
+    snapshot("run-1", "Minato", "2026-01-06T00:00:00.000Z", [place("a")]),
+    snapshot("run-2", "Chuo", "2026-01-07T00:00:00.000Z", [place("a")]),
+  ]);
+
+  assertEquals(places.map((place) => place.placeId), ["a", "b"]);
+  const [a] = places;
+  assertEquals(a.districts, ["tokyo/Chuo", "tokyo/Minato"]);
+  assertEquals(a.queries, [
+    "halal restaurants Chuo tokyo japan",
+    "halal restaurants Minato tokyo japan",
+  ]);
+  assertEquals(a.runs, ["run-1", "run-2"]);
+  assertEquals(a.firstSeenAt, "2026-01-06T00:00:00.000Z");
+  assertEquals(a.lastSeenAt, "2026-01-07T00:00:00.000Z");
+  assertEquals("scrapedAt" in a, false);
+});
+
+Deno.test("mergeSnapshots: districts are keyed by city and area", () => {
+  const [a] = mergeSnapshots([
+    { ...snapshot("run-1", "Chuo", "", [place("a")]), city: "tokyo" },
+    { ...snapshot("run-1", "Chuo", "", [place("a")]), city: "osaka" },
+    // Runs from before campaigns searched Tokyo
+    snapshot("run-0", "Chuo", "", [place("a")]),
+  ]);
+
+  assertEquals(a.districts, ["tokyo/Chuo", "osaka/Chuo"]);
+});
+
+Deno.test("mergeSnapshots: the newest filled-in field wins", () => {
+  const [a] = mergeSnapshots([
+    snapshot("run-1", "Chuo", "2026-01-06T00:00:00.000Z", [
+      place("a", { rating: 4.3, totalReviews: 50, address: "1-2 Ginza" }),
+    ]),
+    snapshot("run-2", "Chuo", "2026-01-08T00:00:00.000Z", [
+      place("a", { rating: 4.4, totalReviews: 80, address: "" }),
+    ]),
+    // An older run read after a newer one changes nothing but firstSeenAt
+    snapshot("run-0", "Chuo", "2026-01-05T00:00:00.000Z", [
+      place("a", { rating: 3.9, name: "Old name" }),
+    ]),
+  ]);
+
+  assertEquals(a.name, "Place a");
+  assertEquals(a.rating, 4.4);
+  assertEquals(a.totalReviews, 80);
+  // Left empty by the newer card
+  assertEquals(a.address, "1-2 Ginza");
+  assertEquals(a.firstSeenAt, "2026-01-05T00:00:00.000Z");
+  assertEquals(a.lastSeenAt, "2026-01-08T00:00:00.000Z");
+});
+
+Deno.test("mergeSnapshots: the place's own scrape time beats the file's", () => {
+  const [a] = mergeSnapshots([
+    snapshot("run-1", "Chuo", "2026-01-06T00:00:00.000Z", [
+      place("a", { rating: 4.1, scrapedAt: "2026-01-09T00:00:00.000Z" }),
+    ]),
+    snapshot("run-2", "Chuo", "2026-01-08T00:00:00.000Z", [
+      place("a", { rating: 4.6 }),
+    ]),
+  ]);
+
+  assertEquals(a.rating, 4.1);
+  assertEquals(a.lastSeenAt, "2026-01-09T00:00:00.000Z");
+});
+
+Deno.test("mergeSnapshots: duplicates and places without an id", () => {
+  const places = mergeSnapshots([
+    snapshot("run-1", "Chuo", "2026-01-06T00:00:00.000Z", [
+      place("a"),
+      place("a"),
+      place(""),
+    ]),
+  ]);
+
+  assertEquals(places.length, 1);
+  assertEquals(places[0].districts, ["tokyo/Chuo"]);
+  assertEquals(places[0].runs, ["run-1"]);
+});
+
+Deno.test("mergeSnapshots: legacy cards get coordinates and a clean category", () => {
+  const [a] = mergeSnapshots([
+    snapshot("run-1", "Chuo", "2026-01-06T00:00:00.000Z", [
+      place("a", {
+        url:
+          "https://www.google.com/maps/place/X/data=!4m7!3m6!1s0x6:0x8!8m2!3d35.6690593!4d139.7585623!16s",
+        category: "Place a  4.9(1,204)Halal restaurant",
+      }),
+    ]),
+  ]);
+
+  assertEquals(a.lat, 35.6690593);
+  assertEquals(a.lng, 139.7585623);
+  assertEquals(a.category, "Halal restaurant");
+  assertEquals(a.totalReviews, 1204);
+});
@@ -0,0 +1,340 @@
+/**
+ * Certification matcher
+ * Links registry entries (certification-registry.ts) to scraped places. Names
+ * are compared after width folding (NFKC), kana folding and stripping branch
+ * suffixes such as "新宿店" or "Shinjuku branch"; coordinates and the address
+ * block numbers decide between places with similar names. Each entry ends up
+ * confirmed, ambiguous (candidates listed for a person to review) or
+ * unmatched.
+ */
+
+import { haversineDistance } from "../scraper/geo.ts";
+import type { ScrapedPlace } from "../scraper/storage.ts";
+import type { Certification } from "./certification-registry.ts";
+
+export type MatchStatus = "confirmed" | "ambiguous" | "unmatched";
+
+export type MatchablePlace = Pick<
+  ScrapedPlace,
+  "placeId" | "name" | "address" | "lat" | "lng"
+>;
+
+export interface MatchCandidate {
+  placeId: string;
+  name: string;
+  confidence: number;
+  nameScore: number;
+  addressScore?: number;
+  distanceMeters?: number;
+}
+
+export interface CertificationMatch {
+  certification: Certification;
+  status: MatchStatus;
+  // The matched place when confirmed
+  placeId?: string;
+  // Best candidates first; only the best one when confirmed
+  candidates: MatchCandidate[];
+  expiresAt?: string;
+  expired: boolean;
+  // The registry's expiry date couldn't be read
+  expiryUnknown: boolean;
+}
+
+// Certification as attached to a catalog place
+export interface PlaceCertification {
+  registry: string;
+  certifier: string;
+  certificateId?: string;
+  scope?: string;
+  expiresAt?: string;
+  expired: boolean;
+  expiryUnknown: boolean;
+  confidence: number;
+}
+
+export interface MatchOptions {
+  // Place names that end a name as a branch, e.g. ward names
+  areaNames?: string[];
+  // Reference date for expiry, YYYY-MM-DD or ISO; defaults to today
+  now?: string;
+}
+
+// Names below this similarity are not candidates
+const MIN_NAME_SCORE = 0.6;
+const MIN_CANDIDATE_CONFIDENCE = 0.5;
+const MIN_CONFIRMED_CONFIDENCE = 0.85;
+// A confirmed match must beat the runner-up by this much
+const CONFIRMED_MARGIN = 0.1;
+const MAX_CANDIDATES = 3;
+// Further than this and the names only share a chain
+const MAX_DISTANCE_METERS = 2000;
+
+const BRACKETS = /[(\[【「『<][^)\]】」』>]*[)\]】」』>]/g;
+const SEPARATORS = /\s+[-–—|/]\s+|[|／]/;
+const BRANCH_JA = /(?:本店|支店|[\s・]\S*店)$/;
+const BRANCH_EN = /\s+(?:\S+\s+)?branch$/;
+const DEFAULT_AREAS = ["tokyo", "japan", "東京", "東京都", "日本"];
+
+function foldKana(text: string): string {
+  // Hiragana to katakana, so らーめん and ラーメン compare equal
+  return text.replace(
+    /[ぁ-ゖ]/g,
+    (char) => String.fromCharCode(char.charCodeAt(0) + 0x60),
+  );
+}
+
+/**
+ * Comparable form of a business name: width- and case-folded, kana-folded,
+ * without branch suffixes, trailing area names, punctuation or spaces
+ */
+export function normalizeName(name: string, areaNames: string[] = []): string {
+  const areas = [...DEFAULT_AREAS, ...areaNames].map((area) =>
+    area.normalize("NFKC").toLowerCase()
+  );
+  let text = name.normalize("NFKC").toLowerCase().replace(BRACKETS, " ").trim();
+
+  const [first] = text.split(SEPARATORS);
+  if (first.trim().length >= 2) text = first.trim();
+
+  let previous;
+  do {
+    previous = text;
+    text = text.replace(BRANCH_EN, "").trim();
+    const withoutBranch = text.replace(BRANCH_JA, "").trim();
+    if (withoutBranch.length >= 2) text = withoutBranch;
+    for (const area of areas.flatMap((area) => [`${area}店`, area])) {
+      if (text.length > area.length && text.endsWith(area)) {
+        text = text.slice(0, -area.length).replace(/[\s,・-]+$/, "");
+      }
+    }
+  } while (text !== previous);
+
+  return foldKana(text).replace(/[^\p{L}\p{N}]|ー/gu, "");
+}
+
+function bigrams(text: string): string[] {
+  if (text.length < 2) return [text];
+  return Array.from(
+    { length: text.length - 1 },
+    (_, i) => text.slice(i, i + 2),
+  );
+}
+
+/**
+ * Sørensen-Dice coefficient over character bigrams
+ */
+function dice(a: string, b: string): number {
+  if (!a || !b) return 0;
+  const counts = new Map<string, number>();
+  for (const gram of bigrams(a)) counts.set(gram, (counts.get(gram) || 0) + 1);
+  let shared = 0;
+  const right = bigrams(b);
+  for (const gram of right) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (bigrams(a).length + right.length);
+}
+
+/**
+ * 1 for the same normalized name, 0.9 when one contains the other (a name
+ * with an area suffix we don't know), otherwise bigram similarity
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  if (shorter.length >= 4 && longer.includes(shorter)) return 0.9;
+  return dice(a, b);
+}
+
+/**
+ * Block numbers of a Japanese address, e.g. [1, 2, 3] for both
+ * "新宿区歌舞伎町1丁目2番3号" and "1-chōme-2-3 Kabukichō, Shinjuku City";
+ * postal codes are left out
+ */
+export function addressNumbers(address: string): number[] {
+  const text = address.normalize("NFKC")
+    .replace(/〒?\s*\d{3}-\d{4}/g, " ")
+    .replace(/丁目|番地|番|号|chōme|chome/gi, "-");
+  return (text.match(/\d+(?:-+\d+)+|\d+/g) || [])
+    .flatMap((part) => part.split(/-+/).map(Number))
+    .filter((n) => !isNaN(n));
+}
+
+/**
+ * How well two addresses agree: 1 when the block numbers are the same,
+ * 0.6 when the chome and ban agree, otherwise text similarity
+ */
+export function addressSimilarity(a: string, b: string): number {
+  const left = addressNumbers(a);
+  const right = addressNumbers(b);
+  if (left.length >= 2 && right.length >= 2) {
+    if (left.join("-") === right.join("-")) return 1;
+    if (left[0] === right[0] && left[1] === right[1]) return 0.6;
+  }
+  const fold = (text: string) =>
+    text.normalize("NFKC").toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+  return Math.round(dice(fold(a), fold(b)) * 100) / 100;
+}
+
+function proximityScore(distance: number): number {
+  if (distance <= 100) return 1;
+  if (distance <= 300) return 0.7;
+  if (distance <= 1000) return 0.3;
+  return 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Score one place against an entry; undefined when it is no candidate
+ */
+function scoreCandidate(
+  certification: Certification,
+  names: string[],
+  place: MatchablePlace,
+  areaNames: string[],
+): MatchCandidate | undefined {
+  const placeName = normalizeName(place.name, areaNames);
+  const nameScore = Math.max(
+    ...names.map((name) => nameSimilarity(name, placeName)),
+  );
+  if (nameScore < MIN_NAME_SCORE) return undefined;
+
+  let distanceMeters: number | undefined;
+  if (
+    certification.lat !== undefined && certification.lng !== undefined &&
+    place.lat !== undefined && place.lng !== undefined
+  ) {
+    distanceMeters = Math.round(
+      haversineDistance(
+        certification.lat,
+        certification.lng,
+        place.lat,
+        place.lng,
+      ),
+    );
+    if (distanceMeters > MAX_DISTANCE_METERS) return undefined;
+  }
+  const addressScore = certification.address && place.address
+    ? addressSimilarity(certification.address, place.address)
+    : undefined;
+
+  // Without coordinates or addresses a name alone can't confirm a match
+  const location = distanceMeters === undefined && addressScore === undefined
+    ? undefined
+    : Math.max(
+      distanceMeters === undefined ? 0 : proximityScore(distanceMeters),
+      addressScore ?? 0,
+    );
+  const confidence = location === undefined
+    ? nameScore * 0.7
+    : nameScore * 0.6 + location * 0.4;
+
+  return {
+    placeId: place.placeId,
+    name: place.name,
+    confidence: round(confidence),
+    nameScore: round(nameScore),
+    addressScore,
+    distanceMeters,
+  };
+}
+
+export function isExpired(expiresAt: string | undefined, now: string): boolean {
+  return expiresAt !== undefined && expiresAt < now.slice(0, 10);
+}
+
+/**
+ * Area names for normalizeName from ward boundaries: "Shinjuku", "新宿区"
+ * and "新宿"
+ */
+export function wardAreaNames(
+  wards: { name: string; nameJa?: string }[],
+): string[] {
+  return wards.flatMap((ward) =>
+    [ward.name, ward.nameJa, ward.nameJa?.replace(/区$/, "")]
+      .filter((name): name is string => Boolean(name))
+  );
+}
+
+/**
+ * Match every registry entry against the places
+ */
+export function matchCertifications(
+  certifications: Certification[],
+  places: MatchablePlace[],
+  options: MatchOptions = {},
+): CertificationMatch[] {
+  const areaNames = options.areaNames || [];
+  const now = options.now || new Date().toISOString();
+
+  return certifications.map((certification) => {
+    const names = certification.names
+      .map((name) => normalizeName(name, areaNames))
+      .filter(Boolean);
+    const candidates = places
+      .map((place) => scoreCandidate(certification, names, place, areaNames))
+      .filter((candidate): candidate is MatchCandidate =>
+        candidate !== undefined &&
+        candidate.confidence >= MIN_CANDIDATE_CONFIDENCE
+      )
+      .sort((a, b) =>
+        b.confidence - a.confidence ||
+        (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity)
+      );
+
+    const [best, runnerUp] = candidates;
+    const confirmed = best !== undefined &&
+      best.confidence >= MIN_CONFIRMED_CONFIDENCE &&
+      (!runnerUp || best.confidence - runnerUp.confidence >= CONFIRMED_MARGIN);
+    const status: MatchStatus = confirmed
+      ? "confirmed"
+      : best
+      ? "ambiguous"
+      : "unmatched";
+
+    return {
+      certification,
+      status,
+      placeId: confirmed ? best.placeId : undefined,
+      candidates: confirmed ? [best] : candidates.slice(0, MAX_CANDIDATES),
+      expiresAt: certification.expiresAt,
+      expired: isExpired(certification.expiresAt, now),
+      expiryUnknown: certification.expiresAtText !== undefined,
+    };
+  });
+}
+
+/**
+ * Confirmed certifications per placeId, for the catalog
+ */
+export function certificationsByPlace(
+  matches: CertificationMatch[],
+): Map<string, PlaceCertification[]> {
+  const byPlace = new Map<string, PlaceCertification[]>();
+  for (const match of matches) {
+    if (match.status !== "confirmed" || !match.placeId) continue;
+    const { certification } = match;
+    const list = byPlace.get(match.placeId) || [];
+    list.push({
+      registry: certification.registry,
+      certifier: certification.certifier,
+      certificateId: certification.certificateId,
+      scope: certification.scope,
+      expiresAt: match.expiresAt,
+      expired: match.expired,
+      expiryUnknown: match.expiryUnknown,
+      confidence: match.candidates[0].confidence,
+    });
+    byPlace.set(match.placeId, list);
+  }
+  return byPlace;
+}
@@ -0,0 +1,167 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import type { Certification } from "./certification-registry.ts";
+import {
+  addressNumbers,
+  certificationsByPlace,
+  type MatchablePlace,
+  matchCertifications,
+  nameSimilarity,
+  normalizeName,
+} from "./certification-match.ts";
+
+const AREAS = ["Shinjuku", "新宿区", "新宿", "Asakusa"];
+
+function certification(overrides: Partial<Certification>): Certification {
+  return {
+    registry: "jha",
+    certifier: "Japan Halal Association",
+    names: ["Halal Ramen"],
+    ...overrides,
+  };
+}
+
+const PLACES: MatchablePlace[] = [
+  {
+    placeId: "0x1:0xa",
+    name: "Ｈａｌａｌ Ramen Shinjuku",
+    address: "1-chōme-2-3 Kabukichō, Shinjuku City, Tokyo 160-0021",
+    lat: 35.6938,
+    lng: 139.7034,
+  },
+  {
+    placeId: "0x1:0xb",
+    name: "Halal Ramen Asakusa",
+    address: "2-chōme-5-1 Asakusa, Taito City, Tokyo 111-0032",
+    lat: 35.7148,
+    lng: 139.7967,
+  },
+  {
+    placeId: "0x1:0xc",
+    name: "ケバブハウス",
+    lat: 35.6581,
+    lng: 139.7017,
+  },
+];
+
+Deno.test("normalizeName: width, case, kana and branch suffixes", () => {
+  assertEquals(normalizeName("Ｈａｌａｌ Ｒａｍｅｎ"), "halalramen");
+  assertEquals(normalizeName("らーめん 新宿店"), normalizeName("ラーメン"));
+  assertEquals(normalizeName("ハラルラーメン新宿店", AREAS), "ハラルラメン");
+  assertEquals(normalizeName("Halal Ramen (Shinjuku branch)"), "halalramen");
+  assertEquals(
+    normalizeName("Halal Ramen - Shinjuku Tokyo", AREAS),
+    "halalramen",
+  );
+  assertEquals(
+    normalizeName("Halal Ramen Shinjuku, Tokyo", AREAS),
+    "halalramen",
+  );
+  assertEquals(normalizeName("ケバブ本店"), "ケバブ");
+});
+
+Deno.test("nameSimilarity: exact, contained and fuzzy names", () => {
+  assertEquals(nameSimilarity("halalramen", "halalramen"), 1);
+  assertEquals(nameSimilarity("halalramen", "halalramenginza"), 0.9);
+  assertEquals(nameSimilarity("abcd", "wxyz"), 0);
+});
+
+Deno.test("addressNumbers: Japanese and English forms agree", () => {
+  assertEquals(
+    addressNumbers("〒160-0021 東京都新宿区歌舞伎町１丁目２番３号"),
+    [
+      1,
+      2,
+      3,
+    ],
+  );
+  assertEquals(
+    addressNumbers("1-chōme-2-3 Kabukichō, Shinjuku City, Tokyo 160-0021"),
+    [1, 2, 3],
+  );
+});
+
+Deno.test("matchCertifications: address confirms one branch of a chain", () => {
+  const [match] = matchCertifications(
+    [
+      certification({
+        names: ["ハラールラーメン", "Halal Ramen"],
+        address: "東京都新宿区歌舞伎町1-2-3",
+      }),
+    ],
+    PLACES,
+    { areaNames: AREAS, now: "2026-01-01" },
+  );
+  assertEquals(match.status, "confirmed");
+  assertEquals(match.placeId, "0x1:0xa");
+  assertEquals(match.candidates.length, 1);
+});
+
+Deno.test("matchCertifications: a name alone is ambiguous", () => {
+  const [match] = matchCertifications(
+    [certification({ names: ["Halal Ramen"] })],
+    PLACES,
+    { areaNames: AREAS, now: "2026-01-01" },
+  );
+  assertEquals(match.status, "ambiguous");
+  assertEquals(match.placeId, undefined);
+  assertEquals(
+    match.candidates.map((candidate) => candidate.placeId).sort(),
+    ["0x1:0xa", "0x1:0xb"],
+  );
+});
+
+Deno.test("matchCertifications: distant coordinates rule a place out", () => {
+  const [near, far, unknown] = matchCertifications(
+    [
+      certification({ names: ["ケバブハウス"], lat: 35.6582, lng: 139.7018 }),
+      certification({ names: ["ケバブハウス"], lat: 35.75, lng: 139.8 }),
+      certification({ names: ["Sushi Halal"] }),
+    ],
+    PLACES,
+    { now: "2026-01-01" },
+  );
+  assertEquals(near.status, "confirmed");
+  assertEquals(near.candidates[0].distanceMeters, 14);
+  assertEquals(far.status, "unmatched");
+  assertEquals(unknown.status, "unmatched");
+});
+
+Deno.test("certificationsByPlace: confirmed matches with expiry", () => {
+  const matches = matchCertifications(
+    [
+      certification({
+        names: ["ケバブハウス"],
+        lat: 35.6581,
+        lng: 139.7017,
+        certificateId: "JHA-001",
+        expiresAt: "2025-12-31",
+      }),
+      certification({ names: ["Halal Ramen"] }),
+    ],
+    PLACES,
+    { now: "2026-01-01" },
+  );
+  assertEquals(matches[0].expired, true);
+  assertEquals(matches[0].expiryUnknown, false);
+  assertEquals(
+    matchCertifications(
+      [certification({ expiresAtText: "03/04/2026" })],
+      PLACES,
+      { now: "2026-01-01" },
+    ).map(({ expired, expiryUnknown }) => ({ expired, expiryUnknown })),
+    [{ expired: false, expiryUnknown: true }],
+  );
+
+  const byPlace = certificationsByPlace(matches);
+  assertEquals([...byPlace.keys()], ["0x1:0xc"]);
+  assertEquals(byPlace.get("0x1:0xc"), [{
+    registry: "jha",
+    certifier: "Japan Halal Association",
+    certificateId: "JHA-001",
+    scope: undefined,
+    expiresAt: "2025-12-31",
+    expired: true,
+    expiryUnknown: false,
+    confidence: 1,
+  }]);
+});
@@ -0,0 +1,376 @@
+/**
+ * Halal certification registries
+ * Imports certification lists exported by certification bodies or wards
+ * (CSV or JSON, English or Japanese headers) into one normalized registry
+ * file per list under data/registries, e.g. data/registries/jha.json
+ */
+
+export const REGISTRIES_DIR = "./data/registries";
+
+export interface Certification {
+  // Registry the entry came from, e.g. "jha"
+  registry: string;
+  certifier: string;
+  // Every name the list gives, e.g. the Japanese and the English one
+  names: string[];
+  address?: string;
+  lat?: number;
+  lng?: number;
+  certificateId?: string;
+  // What is certified: "Halal", "Muslim friendly", "Pork free", ...
+  scope?: string;
+  // YYYY-MM-DD
+  issuedAt?: string;
+  expiresAt?: string;
+  // The list's expiry as written when it isn't a date parseRegistryDate
+  // reads; the entry's expiry is unknown
+  expiresAtText?: string;
+  url?: string;
+}
+
+export interface CertificationRegistry {
+  id: string;
+  certifier: string;
+  // File the registry was imported from
+  source: string;
+  importedAt: string;
+  entries: Certification[];
+}
+
+export type RegistryField =
+  | "name"
+  | "nameEn"
+  | "address"
+  | "lat"
+  | "lng"
+  | "certificateId"
+  | "scope"
+  | "issuedAt"
+  | "expiresAt"
+  | "url";
+
+export interface ImportOptions {
+  id: string;
+  certifier: string;
+  // Text encoding of CSV files; ward lists are often shift_jis
+  encoding?: string;
+  // Source column for a field when the headers are not recognized
+  columns?: Partial<Record<RegistryField, string>>;
+}
+
+export class RegistryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RegistryImportError";
+  }
+}
+
+// Header names seen in published lists, compared after normalizeHeader
+const COLUMN_ALIASES: Record<RegistryField, string[]> = {
+  name: [
+    "name",
+    "店名",
+    "店舗名",
+    "施設名",
+    "名称",
+    "restaurant",
+    "restaurantname",
+    "storename",
+  ],
+  nameEn: ["nameen", "englishname", "英語名", "店名英語", "店名(英語)"],
+  address: ["address", "住所", "所在地"],
+  lat: ["lat", "latitude", "緯度"],
+  lng: ["lng", "lon", "long", "longitude", "経度"],
+  certificateId: [
+    "certificateid",
+    "certificateno",
+    "certificate",
+    "認証番号",
+    "登録番号",
+  ],
+  scope: [
+    "scope",
+    "type",
+    "level",
+    "category",
+    "認証区分",
+    "区分",
+    "種別",
+    "対応",
+  ],
+  issuedAt: ["issuedat", "issued", "issuedate", "認証日", "取得日", "登録日"],
+  expiresAt: [
+    "expiresat",
+    "expires",
+    "expiry",
+    "expirydate",
+    "validuntil",
+    "有効期限",
+    "認証期限",
+  ],
+  url: ["url", "website", "ウェブサイト", "ホームページ"],
+};
+
+function normalizeHeader(header: string): string {
+  return header.normalize("NFKC").toLowerCase().replace(/[\s_\-.]/g, "");
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting, CRLF or LF, optional BOM) into rows
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+const MONTHS = "jan feb mar apr may jun jul aug sep oct nov dec".split(" ");
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+/**
+ * Dates as lists write them: 2026-03-31, 2026/3/31, 2026年3月31日, the
+ * Reiwa era (令和8年3月31日), "March 31, 2026", "31 March 2026" or
+ * 31/03/2026; returns YYYY-MM-DD. Day and month of 03/04/2026 could be
+ * either way round, so that is left unread like any other unknown format.
+ */
+export function parseRegistryDate(value: string): string | undefined {
+  const text = value.normalize("NFKC").trim();
+  let year = NaN;
+  let month = NaN;
+  let day = NaN;
+  let match: RegExpMatchArray | null;
+
+  if (
+    (match = text.match(
+      /^(\d{4})[-/.年]\s*(\d{1,2})[-/.月]\s*(\d{1,2})日?/,
+    ))
+  ) {
+    [year, month, day] = match.slice(1).map((part) => parseInt(part));
+  } else if (
+    (match = text.match(
+      /^(?:令和|R)\s*(\d{1,2}|元)[年.]\s*(\d{1,2})[月.]\s*(\d{1,2})日?/,
+    ))
+  ) {
+    // Reiwa 1 is 2019
+    year = 2018 + (match[1] === "元" ? 1 : parseInt(match[1]));
+    month = parseInt(match[2]);
+    day = parseInt(match[3]);
+  } else if (
+    (match = text.match(/^([a-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{4})$/i))
+  ) {
+    month = monthNumber(match[1]);
+    day = parseInt(match[2]);
+    year = parseInt(match[3]);
+  } else if (
+    (match = text.match(/^(\d{1,2})\s+([a-z]{3,})\.?,?\s+(\d{4})$/i))
+  ) {
+    day = parseInt(match[1]);
+    month = monthNumber(match[2]);
+    year = parseInt(match[3]);
+  } else if ((match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/))) {
+    const [first, second] = [parseInt(match[1]), parseInt(match[2])];
+    if (first > 12 && second <= 12) [day, month] = [first, second];
+    else if (second > 12 && first <= 12) [month, day] = [first, second];
+    year = parseInt(match[3]);
+  }
+
+  if (!(month >= 1 && month <= 12 && day >= 1 && day <= 31)) return undefined;
+  return `${year}-${String(month).padStart(2, "0")}-${
+    String(day).padStart(2, "0")
+  }`;
+}
+
+/**
+ * Find the source column of every field in a list's header row
+ */
+function mapColumns(
+  headers: string[],
+  overrides: ImportOptions["columns"] = {},
+): Partial<Record<RegistryField, string>> {
+  const byNormalized = new Map(
+    headers.map((header) => [normalizeHeader(header), header]),
+  );
+  const columns: Partial<Record<RegistryField, string>> = {};
+
+  for (const field of Object.keys(COLUMN_ALIASES) as RegistryField[]) {
+    const override = overrides[field];
+    if (override) {
+      if (!headers.includes(override)) {
+        throw new RegistryImportError(`No column named "${override}"`);
+      }
+      columns[field] = override;
+      continue;
+    }
+    const alias = COLUMN_ALIASES[field].find((name) =>
+      byNormalized.has(normalizeHeader(name))
+    );
+    if (alias) columns[field] = byNormalized.get(normalizeHeader(alias));
+  }
+
+  if (!columns.name) {
+    throw new RegistryImportError(
+      `No name column among: ${
+        headers.join(", ")
+      } (set one with --column name=<header>)`,
+    );
+  }
+  return columns;
+}
+
+// The fields that have a value; lists leave most columns empty
+function definedFields<T extends object>(fields: T): Partial<T> {
+  const defined: Partial<T> = {};
+  for (const key of Object.keys(fields) as (keyof T)[]) {
+    if (fields[key] !== undefined) defined[key] = fields[key];
+  }
+  return defined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value?.trim()) return undefined;
+  const number = parseFloat(value.normalize("NFKC"));
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * Turn records keyed by the list's own headers into certifications
+ */
+export function toCertifications(
+  records: Record<string, unknown>[],
+  options: ImportOptions,
+): Certification[] {
+  if (records.length === 0) return [];
+  const columns = mapColumns(Object.keys(records[0]), options.columns);
+  const text = (record: Record<string, unknown>, field: RegistryField) => {
+    const column = columns[field];
+    const value = column === undefined ? undefined : record[column];
+    return value === undefined || value === null
+      ? undefined
+      : String(value).trim() || undefined;
+  };
+
+  const entries: Certification[] = [];
+  for (const record of records) {
+    const names = [text(record, "name"), text(record, "nameEn")]
+      .filter((name): name is string => Boolean(name));
+    if (names.length === 0) continue;
+
+    const issued = text(record, "issuedAt");
+    const expires = text(record, "expiresAt");
+    const expiresAt = expires ? parseRegistryDate(expires) : undefined;
+    entries.push({
+      registry: options.id,
+      certifier: options.certifier,
+      names: [...new Set(names)],
+      ...definedFields({
+        address: text(record, "address"),
+        lat: parseNumber(text(record, "lat")),
+        lng: parseNumber(text(record, "lng")),
+        certificateId: text(record, "certificateId"),
+        scope: text(record, "scope"),
+        issuedAt: issued ? parseRegistryDate(issued) : undefined,
+        expiresAt,
+        expiresAtText: expires && !expiresAt ? expires : undefined,
+        url: text(record, "url"),
+      }),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Read a CSV or JSON export; JSON may be an array of records or
+ * { entries: [...] }
+ */
+export async function importRegistryFile(
+  path: string,
+  options: ImportOptions,
+): Promise<CertificationRegistry> {
+  const bytes = await Deno.readFile(path);
+  let records: Record<string, unknown>[];
+
+  if (path.toLowerCase().endsWith(".json")) {
+    const data = JSON.parse(new TextDecoder().decode(bytes));
+    records = Array.isArray(data) ? data : data?.entries;
+    if (!Array.isArray(records)) {
+      throw new RegistryImportError(
+        `${path} must hold an array of records or { "entries": [...] }`,
+      );
+    }
+  } else {
+    const text = new TextDecoder(options.encoding || "utf-8").decode(bytes);
+    const [headers, ...rows] = parseCsv(text);
+    if (!headers) throw new RegistryImportError(`${path} is empty`);
+    records = rows.map((cells) =>
+      Object.fromEntries(
+        headers.map((header, i) => [header.trim(), cells[i] ?? ""]),
+      )
+    );
+  }
+
+  return {
+    id: options.id,
+    certifier: options.certifier,
+    source: path,
+    importedAt: new Date().toISOString(),
+    entries: toCertifications(records, options),
+  };
+}
+
+/**
+ * Every imported registry in the directory
+ */
+export async function loadRegistries(
+  dir = REGISTRIES_DIR,
+): Promise<CertificationRegistry[]> {
+  const registries: CertificationRegistry[] = [];
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+      registries.push(
+        JSON.parse(await Deno.readTextFile(`${dir}/${entry.name}`)),
+      );
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return registries.sort((a, b) => a.id.localeCompare(b.id));
+}
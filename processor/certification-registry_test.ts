@@ -0,0 +1,100 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.8";
+import {
+  parseCsv,
+  parseRegistryDate,
+  RegistryImportError,
+  toCertifications,
+} from "./certification-registry.ts";
+
+const OPTIONS = { id: "shinjuku", certifier: "Shinjuku City" };
+
+Deno.test("parseCsv: BOM, quoted cells and blank lines", () => {
+  assertEquals(
+    parseCsv(
+      '\uFEFF店名,住所\r\n"ケバブ ""本店""","新宿区1-2-3,2F"\r\n\r\nA,B',
+    ),
+    [["店名", "住所"], ['ケバブ "本店"', "新宿区1-2-3,2F"], ["A", "B"]],
+  );
+});
+
+Deno.test("parseRegistryDate: western, Japanese and Reiwa dates", () => {
+  assertEquals(parseRegistryDate("2026/3/31"), "2026-03-31");
+  assertEquals(parseRegistryDate("２０２６年３月３１日"), "2026-03-31");
+  assertEquals(parseRegistryDate("令和8年3月31日"), "2026-03-31");
+  assertEquals(parseRegistryDate("令和元年5月1日"), "2019-05-01");
+  assertEquals(parseRegistryDate("2026-13-01"), undefined);
+  assertEquals(parseRegistryDate("soon"), undefined);
+});
+
+Deno.test("parseRegistryDate: English month names and day-first dates", () => {
+  assertEquals(parseRegistryDate("March 31, 2026"), "2026-03-31");
+  assertEquals(parseRegistryDate("31 Mar. 2026"), "2026-03-31");
+  assertEquals(parseRegistryDate("31/03/2026"), "2026-03-31");
+  assertEquals(parseRegistryDate("03/31/2026"), "2026-03-31");
+  // Day and month could be either way round
+  assertEquals(parseRegistryDate("03/04/2026"), undefined);
+  assertEquals(parseRegistryDate("Smarch 31, 2026"), undefined);
+});
+
+Deno.test("toCertifications: Japanese headers are recognized", () => {
+  const entries = toCertifications([
+    {
+      "店舗名": "ケバブハウス 新宿店",
+      "店名（英語）": "Kebab House Shinjuku",
+      "所在地": "新宿区歌舞伎町1-2-3",
+      "緯度": "35.69",
+      "経度": "139.70",
+      "認証区分": "ムスリムフレンドリー",
+      "有効期限": "令和8年3月31日",
+    },
+    { "店舗名": "", "店名（英語）": "", "所在地": "x" },
+  ], OPTIONS);
+
+  assertEquals(entries, [{
+    registry: "shinjuku",
+    certifier: "Shinjuku City",
+    names: ["ケバブハウス 新宿店", "Kebab House Shinjuku"],
+    address: "新宿区歌舞伎町1-2-3",
+    lat: 35.69,
+    lng: 139.7,
+    scope: "ムスリムフレンドリー",
+    expiresAt: "2026-03-31",
+  }]);
+});
+
+Deno.test("toCertifications: column overrides and missing names", () => {
+  const records = [{
+    "Restaurant Title": "Halal Ramen",
+    "Valid To": "2027/1/1",
+  }];
+  assertThrows(
+    () => toCertifications(records, OPTIONS),
+    RegistryImportError,
+  );
+  assertEquals(
+    toCertifications(records, {
+      ...OPTIONS,
+      columns: { name: "Restaurant Title", expiresAt: "Valid To" },
+    }),
+    [{
+      registry: "shinjuku",
+      certifier: "Shinjuku City",
+      names: ["Halal Ramen"],
+      expiresAt: "2027-01-01",
+    }],
+  );
+});
+
+Deno.test("toCertifications: an unreadable expiry is kept as written", () => {
+  assertEquals(
+    toCertifications([
+      { "店舗名": "Halal Ramen", "有効期限": "03/04/2026" },
+    ], OPTIONS),
+    [{
+      registry: "shinjuku",
+      certifier: "Shinjuku City",
+      names: ["Halal Ramen"],
+      expiresAtText: "03/04/2026",
+    }],
+  );
+});
@@ -0,0 +1,191 @@
+/**
+ * Halal certification registries
+ * import: normalize a certification list (CSV or JSON) into data/registries
+ * match: link every imported entry to a catalog place and report confirmed
+ * matches, ambiguous candidates to review, entries with no place and expiry
+ * dates; the full result goes to data/certifications/matches.json
+ * Usage: yaban certifications import <file> --id <registry>
+ *     --certifier <name> [--encoding shift_jis] [--column name=<header>]...
+ *   yaban certifications match [--now YYYY-MM-DD]
+ */
+
+import { ensureDirectory } from "../scraper/storage.ts";
+import { loadWardBoundaries } from "../scraper/geo.ts";
+import { CATALOG_DIR, loadCatalog } from "./catalog.ts";
+import {
+  type CertificationRegistry,
+  type ImportOptions,
+  importRegistryFile,
+  loadRegistries,
+  REGISTRIES_DIR,
+  RegistryImportError,
+} from "./certification-registry.ts";
+import {
+  type CertificationMatch,
+  matchCertifications,
+  wardAreaNames,
+} from "./certification-match.ts";
+
+const CERTIFICATIONS_DIR = "./data/certifications";
+const MATCHES_PATH = `${CERTIFICATIONS_DIR}/matches.json`;
+// Certifications expiring within this many days are called out
+const EXPIRY_WARNING_DAYS = 60;
+
+function printHeader(): void {
+  console.log("=".repeat(60));
+  console.log("🕌 Yaban - Certification registries");
+  console.log("=".repeat(60));
+}
+
+export interface ImportRegistryResult {
+  path: string;
+  registry: CertificationRegistry;
+}
+
+/**
+ * Import a registry file into data/registries/<id>.json; throws
+ * RegistryImportError for a bad id or an unreadable file
+ */
+export async function importRegistry(
+  file: string,
+  options: ImportOptions,
+): Promise<ImportRegistryResult> {
+  const { id, certifier } = options;
+  if (!/^[a-z0-9-]+$/.test(id)) {
+    throw new RegistryImportError(
+      "Registry id must be lowercase letters, digits or -",
+    );
+  }
+
+  printHeader();
+  const registry = await importRegistryFile(file, options);
+
+  await ensureDirectory(REGISTRIES_DIR);
+  const path = `${REGISTRIES_DIR}/${id}.json`;
+  await Deno.writeTextFile(path, JSON.stringify(registry, null, 2));
+
+  const unread = registry.entries.filter((entry) => entry.expiresAtText);
+  const undated =
+    registry.entries.filter((entry) => !entry.expiresAt && !entry.expiresAtText)
+      .length;
+  const located =
+    registry.entries.filter((entry) => entry.lat !== undefined || entry.address)
+      .length;
+  console.log(`📥 Imported ${registry.entries.length} entries from ${file}`);
+  console.log(`   📍 ${located} with coordinates or an address`);
+  if (undated > 0) console.log(`   ⚠️  ${undated} without an expiry date`);
+  if (unread.length > 0) {
+    console.log(
+      `   ⚠️  ${unread.length} expiry dates not understood, e.g. "${
+        unread[0].expiresAtText
+      }"; those entries don't count towards the halal score`,
+    );
+  }
+  console.log(`💾 ${certifier} registry -> ${path}`);
+  console.log("=".repeat(60));
+
+  return { path, registry };
+}
+
+function describe(match: CertificationMatch): string {
+  const { certification } = match;
+  const expiry = match.expiresAt
+    ? `${match.expired ? "expired" : "expires"} ${match.expiresAt}`
+    : match.expiryUnknown
+    ? `expiry unknown: "${certification.expiresAtText}"`
+    : "no expiry date";
+  return `[${certification.registry}] ${
+    certification.names.join(" / ")
+  } (${expiry})`;
+}
+
+export interface MatchRegistriesResult {
+  path: string;
+  matches: CertificationMatch[];
+}
+
+/**
+ * Match every imported registry entry to the catalog as of now (YYYY-MM-DD,
+ * defaults to today) and write data/certifications/matches.json
+ */
+export async function matchRegistries(
+  now = new Date().toISOString().slice(0, 10),
+): Promise<MatchRegistriesResult> {
+  const registries = await loadRegistries();
+  if (registries.length === 0) {
+    throw new Error(`No registries in ${REGISTRIES_DIR}; import one first`);
+  }
+  const catalog = await loadCatalog(CATALOG_DIR);
+  if (catalog.length === 0) {
+    throw new Error(`No catalog in ${CATALOG_DIR}; run the processor first`);
+  }
+  const wards = await loadWardBoundaries();
+
+  printHeader();
+
+  const entries = registries.flatMap((registry) => registry.entries);
+  console.log(
+    `📂 ${entries.length} certifications from ${registries.length} registries, ${catalog.length} places`,
+  );
+  const matches = matchCertifications(entries, catalog, {
+    areaNames: wardAreaNames(wards),
+    now,
+  });
+
+  const byStatus = (status: CertificationMatch["status"]) =>
+    matches.filter((match) => match.status === status);
+  const confirmed = byStatus("confirmed");
+  const ambiguous = byStatus("ambiguous");
+  const unmatched = byStatus("unmatched");
+  const names = new Map(catalog.map((place) => [place.placeId, place.name]));
+
+  console.log();
+  console.log(`✅ Confirmed: ${confirmed.length}`);
+  for (const match of confirmed) {
+    const [best] = match.candidates;
+    console.log(
+      `   ${describe(match)} -> ${
+        names.get(best.placeId)
+      } (${best.confidence})`,
+    );
+  }
+  console.log(`🤔 Ambiguous, to review: ${ambiguous.length}`);
+  for (const match of ambiguous) {
+    console.log(`   ${describe(match)}`);
+    for (const candidate of match.candidates) {
+      const distance = candidate.distanceMeters === undefined
+        ? ""
+        : `, ${candidate.distanceMeters}m`;
+      console.log(
+        `      ? ${candidate.name} ${candidate.placeId} (${candidate.confidence}${distance})`,
+      );
+    }
+  }
+  console.log(`❓ No matching place: ${unmatched.length}`);
+  for (const match of unmatched) {
+    console.log(`   ${describe(match)}`);
+  }
+
+  const warnBefore = new Date(
+    new Date(now).getTime() + EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString().slice(0, 10);
+  const expired = matches.filter((match) => match.expired).length;
+  const expiring =
+    matches.filter((match) =>
+      !match.expired && match.expiresAt && match.expiresAt <= warnBefore
+    ).length;
+  console.log();
+  console.log(
+    `📅 ${expired} expired, ${expiring} expiring within ${EXPIRY_WARNING_DAYS} days (as of ${now})`,
+  );
+
+  await ensureDirectory(CERTIFICATIONS_DIR);
+  await Deno.writeTextFile(
+    MATCHES_PATH,
+    JSON.stringify({ matchedAt: now, matches }, null, 2),
+  );
+  console.log(`💾 Matches -> ${MATCHES_PATH}`);
+  console.log("=".repeat(60));
+
+  return { path: MATCHES_PATH, matches };
+}
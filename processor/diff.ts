@@ -0,0 +1,86 @@
+/**
+ * Compare two scrape runs, or a run and the processed catalog
+ * Prints a report of new, gone and changed places per district and writes a
+ * JSON changelog to data/diffs
+ * Usage: yaban diff <before> <after> [--out <file>]
+ *   [--min-rating-change 0.1] [--min-review-jump 20]
+ * A side is a run directory (or its name under data/raw) or "catalog"
+ */
+
+import { ensureDirectory } from "../scraper/storage.ts";
+import { resolveRunDirName } from "../scraper/checkpoint.ts";
+import { CATALOG_DIR, loadCatalog } from "./catalog.ts";
+import { loadRunSnapshots } from "./raw-loader.ts";
+import {
+  DEFAULT_THRESHOLDS,
+  type DiffSide,
+  diffSides,
+  type DiffThresholds,
+  formatDiffReport,
+  sideFromCatalog,
+  sideFromSnapshots,
+  type SnapshotDiff,
+} from "./snapshot-diff.ts";
+
+const RAW_DIR = "./data/raw";
+const DIFFS_DIR = "./data/diffs";
+const CATALOG_SIDE = "catalog";
+
+async function loadSide(arg: string): Promise<DiffSide> {
+  if (arg === CATALOG_SIDE) {
+    const places = await loadCatalog(CATALOG_DIR);
+    if (places.length === 0) {
+      throw new Error(`No catalog in ${CATALOG_DIR}; run the processor first`);
+    }
+    return sideFromCatalog(CATALOG_SIDE, places);
+  }
+
+  // A bare run name refers to data/raw/<name>
+  const runDir = arg.includes("/") ? arg : `${RAW_DIR}/${arg}`;
+  try {
+    const snapshots = await loadRunSnapshots(runDir);
+    if (snapshots.length === 0) {
+      throw new Error(`No district files in ${runDir}`);
+    }
+    return sideFromSnapshots(resolveRunDirName(runDir), snapshots);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new Error(`Run directory not found: ${runDir}`);
+    }
+    throw error;
+  }
+}
+
+export interface DiffOptions {
+  // Run directory, run name under data/raw or "catalog"
+  before: string;
+  after: string;
+  // Defaults to data/diffs/diff-<before>-to-<after>.json
+  outFile?: string;
+  thresholds?: Partial<DiffThresholds>;
+}
+
+export interface DiffResult {
+  path: string;
+  diff: SnapshotDiff;
+}
+
+export async function diffRuns(options: DiffOptions): Promise<DiffResult> {
+  const { outFile } = options;
+  const thresholds = { ...DEFAULT_THRESHOLDS, ...options.thresholds };
+  const before = await loadSide(options.before);
+  const after = await loadSide(options.after);
+
+  const diff = diffSides(before, after, thresholds);
+  console.log(formatDiffReport(diff));
+
+  const changelogPath = outFile ||
+    `${DIFFS_DIR}/diff-${diff.before}-to-${diff.after}.json`;
+  if (!outFile) await ensureDirectory(DIFFS_DIR);
+  await Deno.writeTextFile(changelogPath, JSON.stringify(diff, null, 2));
+
+  console.log();
+  console.log(`💾 Changelog saved to: ${changelogPath}`);
+
+  return { path: changelogPath, diff };
+}
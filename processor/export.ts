@@ -0,0 +1,94 @@
+/**
+ * Export the processed catalog for maps and spreadsheets
+ * Writes GeoJSON, CSV (UTF-8 with BOM, for Excel) and KML (Google My Maps) to
+ * data/exports, filtered and sorted like GET /places
+ * Usage: yaban export [geojson|csv|kml|all] [--out <file>] [--ward Shinjuku] [--min-score 60]
+ *   [--min-rating 4] [--category ramen] [--cuisine indian]
+ *   [--venue-type grocery] [--bbox minLng,minLat,maxLng,maxLat]
+ *   [--q <text>] [--sort score] [--order desc]
+ */
+
+import { ensureDirectory } from "../scraper/storage.ts";
+import { CATALOG_DIR, loadCatalog } from "./catalog.ts";
+import {
+  CatalogQueryError,
+  parseFilters,
+  parseSort,
+  queryCatalog,
+} from "./catalog-query.ts";
+import { type ExportFormat, exportPlaces } from "./catalog-export.ts";
+
+const EXPORTS_DIR = "./data/exports";
+const EXPORT_NAME = "Yaban halal places";
+
+export interface ExportOptions {
+  formats: ExportFormat[];
+  // Only with a single format; defaults to data/exports/places.<format>
+  outFile?: string;
+  // GET /places query parameters, e.g. ward=Shinjuku&minScore=60
+  params: URLSearchParams;
+}
+
+export interface ExportFileResult {
+  format: ExportFormat;
+  path: string;
+  exported: number;
+  skipped: number;
+}
+
+/**
+ * Throws CatalogQueryError for invalid filters, before anything is written
+ */
+export async function exportCatalog(
+  { formats, outFile, params }: ExportOptions,
+): Promise<ExportFileResult[]> {
+  if (outFile && formats.length > 1) {
+    throw new CatalogQueryError("--out needs a single format");
+  }
+  const filters = parseFilters(params);
+  const sort = parseSort(params);
+
+  console.log("=".repeat(60));
+  console.log("🗺️  Yaban - Catalog export");
+  console.log("=".repeat(60));
+
+  const catalog = await loadCatalog(CATALOG_DIR);
+  if (catalog.length === 0) {
+    throw new Error(`No catalog in ${CATALOG_DIR}; run the processor first`);
+  }
+  const places = queryCatalog(catalog, filters, sort);
+  const filterText = [...params].map(([key, value]) => `${key}=${value}`)
+    .join(" ");
+  console.log(
+    `📂 ${places.length} of ${catalog.length} places${
+      filterText ? ` (${filterText})` : ""
+    }`,
+  );
+  console.log();
+
+  if (!outFile) await ensureDirectory(EXPORTS_DIR);
+  const files: ExportFileResult[] = [];
+  for (const format of formats) {
+    const result = exportPlaces(places, format, EXPORT_NAME);
+    const path = outFile || `${EXPORTS_DIR}/places.${format}`;
+    await Deno.writeTextFile(path, result.content);
+    console.log(
+      `💾 ${format.toUpperCase()}: ${result.exported} places -> ${path}`,
+    );
+    if (result.skipped > 0) {
+      console.log(
+        `   ⏭️  ${result.skipped} places without coordinates left out`,
+      );
+    }
+    files.push({
+      format,
+      path,
+      exported: result.exported,
+      skipped: result.skipped,
+    });
+  }
+
+  console.log("=".repeat(60));
+
+  return files;
+}
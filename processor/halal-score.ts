@@ -0,0 +1,396 @@
+/**
+ * Halal score engine
+ * Derives a 0-100 halal confidence score for a place from its listing,
+ * details, reviews and certification registries. Every signal that moves
+ * the score is itemized so the number can be explained. Weights live in
+ * config/halal-score.json; review signals are scaled by each reviewer's
+ * credibility (reviewers.ts).
+ */
+
+import type {
+  PlaceDetails,
+  ScrapedPlace,
+  ScrapedReview,
+} from "../scraper/storage.ts";
+import type { PlaceCertification } from "./certification-match.ts";
+import {
+  CLAIM_CONCEPTS,
+  type ClaimConcept,
+  type ClaimPolarity,
+  detectHalalClaims,
+  type HalalClaim,
+} from "./text-analysis.ts";
+
+export const HALAL_SCORE_CONFIG_PATH = "./config/halal-score.json";
+
+export type SignalSource =
+  | "tags"
+  | "attributes"
+  | "name"
+  | "category"
+  | "reviews"
+  // Claims found by text-analysis.ts, which understands negation
+  | "nameClaims"
+  | "reviewClaims"
+  // Registry certifications matched to the place that have not expired
+  | "certifications";
+
+// Sources matched by keyword, which need terms
+const TERM_SOURCES: SignalSource[] = [
+  "tags",
+  "attributes",
+  "name",
+  "category",
+  "reviews",
+];
+const CLAIM_SOURCES: SignalSource[] = ["nameClaims", "reviewClaims"];
+const SIGNAL_SOURCES: SignalSource[] = [
+  ...TERM_SOURCES,
+  ...CLAIM_SOURCES,
+  "certifications",
+];
+
+export interface SignalConfig {
+  id: string;
+  description: string;
+  source: SignalSource;
+  // Keywords for plain text sources
+  terms?: string[];
+  // Claim sources: which concepts count, and with which polarity
+  concepts?: ClaimConcept[];
+  polarity?: ClaimPolarity;
+  // Phrases that cancel a match in the same text, e.g. "no pork"
+  excludeTerms?: string[];
+  weight: number;
+  // attributes: applied when the attribute is listed as not available
+  unavailableWeight?: number;
+  // reviews: weight applies per matching review, capped at this total
+  maxTotal?: number;
+}
+
+export interface HalalScoreConfig {
+  baseScore: number;
+  signals: SignalConfig[];
+}
+
+export interface ScoreSignal {
+  id: string;
+  description: string;
+  contribution: number;
+  evidence: string[];
+}
+
+export interface HalalScore {
+  score: number;
+  baseScore: number;
+  signals: ScoreSignal[];
+}
+
+export interface ScoreInput {
+  place: Pick<ScrapedPlace, "name" | "category" | "tags">;
+  details?: Pick<PlaceDetails, "attributes">;
+  reviews?: ScrapedReview[];
+  // Reviewer credibility by reviewId; reviews not listed count 1
+  reviewWeights?: Map<string, number>;
+  certifications?: PlaceCertification[];
+}
+
+// Longest evidence excerpt kept per review
+const EXCERPT_LENGTH = 120;
+
+export class HalalScoreConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HalalScoreConfigError";
+  }
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) &&
+    value.every((item) => typeof item === "string" && item.length > 0);
+}
+
+/**
+ * Problems with one signal, each prefixed with the signal's id
+ */
+function signalProblems(
+  signal: Partial<SignalConfig>,
+  index: number,
+): string[] {
+  const problems: string[] = [];
+  const name = typeof signal.id === "string" && signal.id
+    ? `signal "${signal.id}"`
+    : `signal ${index + 1}`;
+
+  if (typeof signal.id !== "string" || !signal.id) {
+    problems.push("id is required");
+  }
+  if (typeof signal.description !== "string") {
+    problems.push("description is required");
+  }
+  if (!SIGNAL_SOURCES.includes(signal.source as SignalSource)) {
+    problems.push(
+      `unknown source "${signal.source}" (one of ${SIGNAL_SOURCES.join(", ")})`,
+    );
+  } else if (
+    TERM_SOURCES.includes(signal.source!) &&
+    (!isStringList(signal.terms) || signal.terms.length === 0)
+  ) {
+    problems.push(`source "${signal.source}" needs terms`);
+  }
+  if (!isNumber(signal.weight)) problems.push("weight must be a number");
+  if (signal.excludeTerms !== undefined && !isStringList(signal.excludeTerms)) {
+    problems.push("excludeTerms must be a list of strings");
+  }
+  if (signal.concepts !== undefined) {
+    const unknown = Array.isArray(signal.concepts)
+      ? signal.concepts.filter((concept) => !CLAIM_CONCEPTS.includes(concept))
+      : [];
+    if (!Array.isArray(signal.concepts)) {
+      problems.push("concepts must be a list");
+    } else if (unknown.length > 0) {
+      problems.push(`unknown concept "${unknown.join('", "')}"`);
+    }
+  }
+  if (
+    signal.polarity !== undefined &&
+    signal.polarity !== "positive" && signal.polarity !== "negative"
+  ) {
+    problems.push(`polarity must be "positive" or "negative"`);
+  }
+  if (
+    signal.unavailableWeight !== undefined &&
+    !isNumber(signal.unavailableWeight)
+  ) {
+    problems.push("unavailableWeight must be a number");
+  }
+  if (signal.maxTotal !== undefined && !isNumber(signal.maxTotal)) {
+    problems.push("maxTotal must be a number");
+  }
+
+  return problems.map((problem) => `${name}: ${problem}`);
+}
+
+/**
+ * Check a parsed score config, so a typo fails the load instead of a score
+ */
+export function validateHalalScoreConfig(data: unknown): HalalScoreConfig {
+  const config = data as Partial<HalalScoreConfig>;
+  if (!config || typeof config !== "object") {
+    throw new HalalScoreConfigError("Score config must be a JSON object");
+  }
+
+  const problems: string[] = [];
+  if (!isNumber(config.baseScore)) {
+    problems.push("baseScore must be a number");
+  }
+  if (!Array.isArray(config.signals)) {
+    problems.push("signals must be a list");
+  } else {
+    const ids = new Set<string>();
+    config.signals.forEach((signal, index) => {
+      if (!signal || typeof signal !== "object") {
+        problems.push(`signal ${index + 1}: must be an object`);
+        return;
+      }
+      problems.push(...signalProblems(signal, index));
+      if (ids.has(signal.id)) {
+        problems.push(`duplicate signal id: ${signal.id}`);
+      }
+      ids.add(signal.id);
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new HalalScoreConfigError(
+      `Invalid score config: ${problems.join("; ")}`,
+    );
+  }
+  return config as HalalScoreConfig;
+}
+
+export async function loadHalalScoreConfig(
+  path = HALAL_SCORE_CONFIG_PATH,
+): Promise<HalalScoreConfig> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new HalalScoreConfigError(
+      `Cannot read score config ${path}: ${(error as Error).message}`,
+    );
+  }
+  return validateHalalScoreConfig(data);
+}
+
+function findTerm(text: string, signal: SignalConfig): string | undefined {
+  const lower = text.toLowerCase();
+  if (signal.excludeTerms?.some((term) => lower.includes(term.toLowerCase()))) {
+    return undefined;
+  }
+  return signal.terms?.find((term) => lower.includes(term.toLowerCase()));
+}
+
+function excerpt(text: string, term: string): string {
+  const index = text.toLowerCase().indexOf(term.toLowerCase());
+  const start = Math.max(0, index - EXCERPT_LENGTH / 2);
+  const snippet = text.slice(start, start + EXCERPT_LENGTH).trim();
+  return `${start > 0 ? "…" : ""}${snippet}${
+    start + EXCERPT_LENGTH < text.length ? "…" : ""
+  }`;
+}
+
+function findClaim(
+  text: string,
+  signal: SignalConfig,
+): HalalClaim | undefined {
+  return detectHalalClaims(text).find((claim) =>
+    (!signal.concepts || signal.concepts.includes(claim.concept)) &&
+    (!signal.polarity || claim.polarity === signal.polarity)
+  );
+}
+
+/**
+ * Sum a review signal over the reviews it matched, each scaled by its
+ * author's credibility
+ */
+function reviewSignal(
+  signal: SignalConfig,
+  input: ScoreInput,
+  match: (text: string) => string | undefined,
+): { contribution: number; evidence: string[] } {
+  let contribution = 0;
+  const evidence: string[] = [];
+
+  for (const review of input.reviews || []) {
+    const matched = review.text ? match(review.text) : undefined;
+    if (!matched) continue;
+    const weight = input.reviewWeights?.get(review.reviewId) ?? 1;
+    contribution += signal.weight * weight;
+    const quote = excerpt(review.text!, matched);
+    evidence.push(
+      weight === 1 ? quote : `${quote} (reviewer weight ${weight})`,
+    );
+  }
+
+  return {
+    contribution: capTotal(Math.round(contribution * 10) / 10, signal),
+    evidence,
+  };
+}
+
+function capTotal(contribution: number, signal: SignalConfig): number {
+  if (signal.maxTotal === undefined) return contribution;
+  return signal.maxTotal < 0
+    ? Math.max(contribution, signal.maxTotal)
+    : Math.min(contribution, signal.maxTotal);
+}
+
+function evaluateSignal(
+  signal: SignalConfig,
+  input: ScoreInput,
+): ScoreSignal | null {
+  const result = (contribution: number, evidence: string[]): ScoreSignal => ({
+    id: signal.id,
+    description: signal.description,
+    contribution,
+    evidence,
+  });
+
+  switch (signal.source) {
+    case "name":
+    case "category": {
+      const text = input.place[signal.source];
+      const term = text ? findTerm(text, signal) : undefined;
+      return term ? result(signal.weight, [text!]) : null;
+    }
+    case "tags": {
+      const tags = (input.place.tags || []).filter((tag) =>
+        findTerm(tag, signal)
+      );
+      return tags.length > 0 ? result(signal.weight, tags) : null;
+    }
+    case "attributes": {
+      const attribute = input.details?.attributes.find((a) =>
+        findTerm(a.name, signal)
+      );
+      if (!attribute) return null;
+      if (attribute.available) {
+        return result(signal.weight, [attribute.name]);
+      }
+      return signal.unavailableWeight
+        ? result(signal.unavailableWeight, [`No ${attribute.name}`])
+        : null;
+    }
+    case "reviews": {
+      const { contribution, evidence } = reviewSignal(
+        signal,
+        input,
+        (text) => findTerm(text, signal),
+      );
+      return evidence.length > 0 ? result(contribution, evidence) : null;
+    }
+    case "nameClaims": {
+      const claim = findClaim(input.place.name, signal);
+      return claim ? result(signal.weight, [claim.span.text]) : null;
+    }
+    case "reviewClaims": {
+      const { contribution, evidence } = reviewSignal(
+        signal,
+        input,
+        (text) => findClaim(text, signal)?.span.text,
+      );
+      return evidence.length > 0 ? result(contribution, evidence) : null;
+    }
+    case "certifications": {
+      const valid = (input.certifications || []).filter((c) =>
+        !c.expired && !c.expiryUnknown
+      );
+      return valid.length > 0
+        ? result(
+          signal.weight,
+          valid.map((c) =>
+            [
+              c.certifier,
+              c.certificateId,
+              c.expiresAt && `until ${c.expiresAt}`,
+            ].filter(Boolean).join(", ")
+          ),
+        )
+        : null;
+    }
+    default:
+      // Configs are validated on load; this guards hand-built ones
+      throw new HalalScoreConfigError(
+        `Signal "${signal.id}": unknown source "${signal.source}"`,
+      );
+  }
+}
+
+/**
+ * Score a place; signals are listed with the largest effect first
+ */
+export function computeHalalScore(
+  input: ScoreInput,
+  config: HalalScoreConfig,
+): HalalScore {
+  const signals = config.signals
+    .map((signal) => evaluateSignal(signal, input))
+    .filter((signal): signal is ScoreSignal => signal !== null)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  const total = signals.reduce(
+    (sum, signal) => sum + signal.contribution,
+    config.baseScore,
+  );
+
+  return {
+    score: Math.round(Math.min(100, Math.max(0, total))),
+    baseScore: config.baseScore,
+    signals,
+  };
+}
@@ -0,0 +1,301 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.8";
+import type { ScrapedReview } from "../scraper/storage.ts";
+import type { PlaceCertification } from "./certification-match.ts";
+import {
+  computeHalalScore,
+  HALAL_SCORE_CONFIG_PATH,
+  type HalalScoreConfig,
+  HalalScoreConfigError,
+  loadHalalScoreConfig,
+  type SignalConfig,
+  validateHalalScoreConfig,
+} from "./halal-score.ts";
+
+function signal(fields: Partial<SignalConfig>): SignalConfig {
+  return {
+    id: fields.source ?? "signal",
+    description: "Test signal",
+    source: "tags",
+    terms: ["halal"],
+    weight: 10,
+    ...fields,
+  };
+}
+
+function config(...signals: SignalConfig[]): HalalScoreConfig {
+  return { baseScore: 20, signals };
+}
+
+function review(text: string, reviewId = text): ScrapedReview {
+  return {
+    reviewId,
+    placeId: "0x1:0xa",
+    authorName: "Aisha",
+    rating: 5,
+    text,
+    scrapedAt: "2026-02-01T00:00:00.000Z",
+  };
+}
+
+function certification(
+  fields: Partial<PlaceCertification>,
+): PlaceCertification {
+  return {
+    registry: "jmhc",
+    certifier: "Japan Muslim Halal Council",
+    certificateId: "JMHC-1",
+    expiresAt: "2027-01-01",
+    expired: false,
+    expiryUnknown: false,
+    confidence: 0.9,
+    ...fields,
+  };
+}
+
+const PLACE = { name: "Ramen Ya", category: "Ramen restaurant", tags: [] };
+
+Deno.test("computeHalalScore: base score when nothing matches", () => {
+  assertEquals(
+    computeHalalScore({ place: PLACE }, config(signal({ source: "tags" }))),
+    { score: 20, baseScore: 20, signals: [] },
+  );
+});
+
+Deno.test("computeHalalScore: listing sources and exclude terms", () => {
+  const score = computeHalalScore(
+    {
+      place: {
+        name: "Halal Ramen Ya",
+        category: "Halal restaurant",
+        tags: ["Halal", "Vegan options"],
+      },
+      details: {
+        attributes: [
+          { group: "Offerings", name: "Halal food", available: true },
+          { group: "Amenities", name: "Prayer room", available: false },
+        ],
+      },
+    },
+    config(
+      signal({ id: "tag", source: "tags", weight: 30 }),
+      signal({ id: "category", source: "category", weight: 20 }),
+      signal({ id: "name", source: "name", weight: 5 }),
+      signal({ id: "food", source: "attributes", terms: ["halal food"] }),
+      signal({
+        id: "prayer",
+        source: "attributes",
+        terms: ["prayer room"],
+        weight: 5,
+        unavailableWeight: -3,
+      }),
+      // "Halal Ramen" excludes the match
+      signal({
+        id: "excluded",
+        source: "name",
+        excludeTerms: ["halal ramen"],
+      }),
+    ),
+  );
+
+  assertEquals(score.signals, [
+    {
+      id: "tag",
+      description: "Test signal",
+      contribution: 30,
+      evidence: ["Halal"],
+    },
+    {
+      id: "category",
+      description: "Test signal",
+      contribution: 20,
+      evidence: ["Halal restaurant"],
+    },
+    {
+      id: "food",
+      description: "Test signal",
+      contribution: 10,
+      evidence: ["Halal food"],
+    },
+    {
+      id: "name",
+      description: "Test signal",
+      contribution: 5,
+      evidence: ["Halal Ramen Ya"],
+    },
+    {
+      id: "prayer",
+      description: "Test signal",
+      contribution: -3,
+      evidence: ["No Prayer room"],
+    },
+  ]);
+  // 20 + 30 + 20 + 10 + 5 - 3
+  assertEquals(score.score, 82);
+});
+
+Deno.test("computeHalalScore: review signals add up to their cap", () => {
+  const score = computeHalalScore(
+    {
+      place: PLACE,
+      reviews: [
+        review("They serve pork ramen here."),
+        review("Pork belly was great."),
+        review("Pork again, and beer."),
+        review("Everything is halal, no pork."),
+        review(""),
+      ],
+    },
+    config(
+      signal({
+        id: "review-pork",
+        source: "reviewClaims",
+        terms: undefined,
+        concepts: ["pork"],
+        polarity: "negative",
+        weight: -10,
+        maxTotal: -25,
+      }),
+      signal({
+        id: "review-keyword",
+        source: "reviews",
+        terms: ["halal"],
+        weight: 3,
+      }),
+    ),
+  );
+
+  const [pork, keyword] = score.signals;
+  assertEquals(pork.id, "review-pork");
+  assertEquals(pork.contribution, -25);
+  assertEquals(pork.evidence.length, 3);
+  assertEquals(keyword.contribution, 3);
+  assertEquals(keyword.evidence, ["Everything is halal, no pork."]);
+  assertEquals(score.score, 0);
+});
+
+Deno.test("computeHalalScore: name claims understand negation", () => {
+  const signals = config(
+    signal({
+      id: "name-halal",
+      source: "nameClaims",
+      terms: undefined,
+      polarity: "positive",
+      weight: 25,
+    }),
+    signal({
+      id: "name-not-halal",
+      source: "nameClaims",
+      terms: undefined,
+      polarity: "negative",
+      weight: -25,
+    }),
+  );
+
+  const halal = computeHalalScore(
+    { place: { name: "Halal Kebab" } },
+    signals,
+  );
+  assertEquals(halal.signals.map((s) => s.id), ["name-halal"]);
+  assertEquals(halal.score, 45);
+
+  const notHalal = computeHalalScore(
+    { place: { name: "Ramen (not halal)" } },
+    signals,
+  );
+  assertEquals(notHalal.signals.map((s) => s.id), ["name-not-halal"]);
+  assertEquals(notHalal.score, 0);
+});
+
+Deno.test("computeHalalScore: only certifications known to be valid count", () => {
+  const signals = config(
+    signal({ id: "certified", source: "certifications", weight: 40 }),
+  );
+
+  const valid = computeHalalScore({
+    place: PLACE,
+    certifications: [
+      certification({}),
+      certification({ certificateId: "JMHC-0", expired: true }),
+      certification({ certificateId: "JMHC-2", expiryUnknown: true }),
+    ],
+  }, signals);
+  assertEquals(valid.signals[0].evidence, [
+    "Japan Muslim Halal Council, JMHC-1, until 2027-01-01",
+  ]);
+  assertEquals(valid.score, 60);
+
+  const expired = computeHalalScore({
+    place: PLACE,
+    certifications: [certification({ expired: true })],
+  }, signals);
+  assertEquals(expired.signals, []);
+});
+
+Deno.test("computeHalalScore: an unknown source names the signal", () => {
+  assertThrows(
+    () =>
+      computeHalalScore(
+        { place: PLACE },
+        config(signal({ id: "typo", source: "tag" as SignalConfig["source"] })),
+      ),
+    HalalScoreConfigError,
+    `Signal "typo": unknown source "tag"`,
+  );
+});
+
+Deno.test("validateHalalScoreConfig: typos name the bad signal", () => {
+  assertThrows(
+    () =>
+      validateHalalScoreConfig({
+        baseScore: 20,
+        signals: [
+          { ...signal({ id: "listing-tag-halal" }), source: "tag" },
+        ],
+      }),
+    HalalScoreConfigError,
+    `signal "listing-tag-halal": unknown source "tag"`,
+  );
+
+  const error = assertThrows(
+    () =>
+      validateHalalScoreConfig({
+        baseScore: 20,
+        signals: [
+          { ...signal({ id: "no-terms" }), terms: [] },
+          {
+            ...signal({ id: "claims", source: "reviewClaims" }),
+            concepts: ["halal", "beer"],
+            polarity: "postive",
+          },
+          { ...signal({ id: "claims" }), weight: "10" },
+          { description: "No id", source: "certifications", weight: 1 },
+        ],
+      }),
+    HalalScoreConfigError,
+  );
+  assertEquals(
+    error.message,
+    "Invalid score config: " + [
+      `signal "no-terms": source "tags" needs terms`,
+      `signal "claims": unknown concept "beer"`,
+      `signal "claims": polarity must be "positive" or "negative"`,
+      `signal "claims": weight must be a number`,
+      "duplicate signal id: claims",
+      "signal 4: id is required",
+    ].join("; "),
+  );
+
+  assertThrows(
+    () => validateHalalScoreConfig({ signals: [] }),
+    HalalScoreConfigError,
+    "baseScore must be a number",
+  );
+  assertThrows(() => validateHalalScoreConfig(null), HalalScoreConfigError);
+});
+
+Deno.test("loadHalalScoreConfig: the bundled config is valid", async () => {
+  const loaded = await loadHalalScoreConfig(
+    new URL(`../${HALAL_SCORE_CONFIG_PATH}`, import.meta.url).pathname,
+  );
+  assertEquals(loaded.signals.length > 0, true);
+});
@@ -0,0 +1,224 @@
+/**
+ * Time-series history of place observations in a local SQLite database
+ * Every place in every raw snapshot is one observation: its rating, review
+ * count and rank in that query's results. Recording the same snapshot twice
+ * is a no-op, so the processor can replay all of data/raw on each run.
+ * With SQLite storage the scrape database already holds every observation;
+ * HistoryStore opens it read-only and nothing is recorded.
+ */
+
+import { DatabaseSync } from "node:sqlite";
+import { SQLITE_DB_PATH } from "../scraper/sqlite-store.ts";
+import { type StorageKind, storageKind } from "../scraper/storage.ts";
+import type { RawSnapshot } from "./raw-loader.ts";
+
+export const HISTORY_DB_PATH = "./data/history.db";
+
+/**
+ * The database that holds the history for a storage backend
+ */
+export function historyDbPath(kind: StorageKind = storageKind()): string {
+  return kind === "sqlite" ? SQLITE_DB_PATH : HISTORY_DB_PATH;
+}
+
+export interface Observation {
+  placeId: string;
+  runId: string;
+  query: string;
+  district?: string;
+  name: string;
+  // 1-based position in the query's results
+  rank: number;
+  rating?: number;
+  totalReviews?: number;
+  observedAt: string;
+}
+
+export interface RatingDrop {
+  placeId: string;
+  name: string;
+  fromRating: number;
+  toRating: number;
+  drop: number;
+  fromObservedAt: string;
+  toObservedAt: string;
+  totalReviews?: number;
+}
+
+export interface RatingDropOptions {
+  // ISO timestamps bounding the period; open-ended when omitted
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS observations (
+    place_id TEXT NOT NULL,
+    run_id TEXT NOT NULL,
+    query TEXT NOT NULL,
+    district TEXT,
+    name TEXT NOT NULL,
+    rank INTEGER NOT NULL,
+    rating REAL,
+    total_reviews INTEGER,
+    observed_at TEXT NOT NULL,
+    PRIMARY KEY (place_id, run_id, query)
+  );
+  CREATE INDEX IF NOT EXISTS observations_observed_at
+    ON observations (observed_at);
+`;
+
+interface ObservationRow {
+  place_id: string;
+  run_id: string;
+  query: string;
+  district: string | null;
+  name: string;
+  rank: number;
+  rating: number | null;
+  total_reviews: number | null;
+  observed_at: string;
+}
+
+function toObservation(row: ObservationRow): Observation {
+  return {
+    placeId: row.place_id,
+    runId: row.run_id,
+    query: row.query,
+    district: row.district ?? undefined,
+    name: row.name,
+    rank: row.rank,
+    rating: row.rating ?? undefined,
+    totalReviews: row.total_reviews ?? undefined,
+    observedAt: row.observed_at,
+  };
+}
+
+export class HistoryStore {
+  private db: DatabaseSync;
+
+  /**
+   * Opens (and creates) the database; with readOnly it must already exist
+   */
+  constructor(path = HISTORY_DB_PATH, options: { readOnly?: boolean } = {}) {
+    this.db = new DatabaseSync(path, { readOnly: options.readOnly ?? false });
+    if (options.readOnly) return;
+    // Lets the server read while the processor writes
+    if (path !== ":memory:") this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Record every place in the snapshots; returns how many were new
+   */
+  recordSnapshots(snapshots: RawSnapshot[]): number {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO observations
+        (place_id, run_id, query, district, name, rank, rating,
+         total_reviews, observed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    let added = 0;
+
+    this.db.exec("BEGIN");
+    try {
+      for (const snapshot of snapshots) {
+        snapshot.places.forEach((place, index) => {
+          if (!place.placeId) return;
+          const result = insert.run(
+            place.placeId,
+            snapshot.runId,
+            snapshot.query,
+            snapshot.district ?? null,
+            place.name,
+            index + 1,
+            place.rating ?? null,
+            place.totalReviews ?? null,
+            place.scrapedAt || snapshot.scrapedAt,
+          );
+          added += Number(result.changes);
+        });
+      }
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+
+    return added;
+  }
+
+  /**
+   * Every observation of a place, oldest first
+   */
+  trend(placeId: string): Observation[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM observations
+      WHERE place_id = ?
+      ORDER BY observed_at, query
+    `).all(placeId) as unknown as ObservationRow[];
+    return rows.map(toObservation);
+  }
+
+  /**
+   * Places whose rating fell the most between their first and last
+   * observation in the period
+   */
+  ratingDrops(options: RatingDropOptions = {}): RatingDrop[] {
+    const rows = this.db.prepare(`
+      WITH rated AS (
+        SELECT *,
+          ROW_NUMBER() OVER (
+            PARTITION BY place_id ORDER BY observed_at ASC
+          ) AS first_n,
+          ROW_NUMBER() OVER (
+            PARTITION BY place_id ORDER BY observed_at DESC
+          ) AS last_n
+        FROM observations
+        WHERE rating IS NOT NULL
+          AND observed_at >= ? AND observed_at <= ?
+      )
+      SELECT
+        latest.place_id AS placeId,
+        latest.name AS name,
+        earliest.rating AS fromRating,
+        latest.rating AS toRating,
+        ROUND(earliest.rating - latest.rating, 2) AS ratingDrop,
+        earliest.observed_at AS fromObservedAt,
+        latest.observed_at AS toObservedAt,
+        latest.total_reviews AS totalReviews
+      FROM rated earliest
+      JOIN rated latest
+        ON latest.place_id = earliest.place_id AND earliest.first_n = 1
+          AND latest.last_n = 1
+      WHERE earliest.rating > latest.rating
+      ORDER BY ratingDrop DESC, latest.name
+      LIMIT ?
+    `).all(
+      options.since ?? "",
+      // Every ISO timestamp sorts before "9"
+      options.until ?? "9",
+      options.limit ?? 50,
+    ) as unknown as (Omit<RatingDrop, "drop" | "totalReviews"> & {
+      ratingDrop: number;
+      totalReviews: number | null;
+    })[];
+
+    return rows.map(({ ratingDrop, totalReviews, ...row }) => ({
+      ...row,
+      drop: ratingDrop,
+      totalReviews: totalReviews ?? undefined,
+    }));
+  }
+
+  count(): number {
+    const row = this.db.prepare("SELECT COUNT(*) AS n FROM observations")
+      .get() as { n: number };
+    return row.n;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,130 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import type { RawSnapshot } from "./raw-loader.ts";
+import { SqliteStore } from "../scraper/sqlite-store.ts";
+import { HistoryStore } from "./history.ts";
+
+function snapshot(
+  runId: string,
+  scrapedAt: string,
+  places: [placeId: string, rating: number, totalReviews: number][],
+): RawSnapshot {
+  return {
+    runId,
+    file: `data/raw/${runId}/places-chuo-tokyo.json`,
+    query: "halal restaurants Chuo tokyo japan",
+    district: "Chuo",
+    scrapedAt,
+    places: places.map(([placeId, rating, totalReviews]) => ({
+      placeId,
+      name: `Place ${placeId}`,
+      rating,
+      totalReviews,
+      url: `https://www.google.com/maps/place/${placeId}`,
+      scrapedAt,
+    })),
+  };
+}
+
+const RUNS = [
+  snapshot("run-1", "2026-01-01T00:00:00.000Z", [
+    ["a", 4.6, 100],
+    ["b", 4.2, 40],
+    ["c", 3.9, 10],
+  ]),
+  snapshot("run-2", "2026-02-01T00:00:00.000Z", [
+    ["b", 3.8, 55],
+    ["a", 4.5, 130],
+    ["c", 4.1, 12],
+  ]),
+  snapshot("run-3", "2026-03-01T00:00:00.000Z", [
+    ["a", 4.0, 180],
+  ]),
+];
+
+Deno.test("HistoryStore: records each snapshot once", () => {
+  const history = new HistoryStore(":memory:");
+  try {
+    assertEquals(history.recordSnapshots(RUNS), 7);
+    assertEquals(history.recordSnapshots(RUNS), 0);
+    assertEquals(history.count(), 7);
+  } finally {
+    history.close();
+  }
+});
+
+Deno.test("HistoryStore: trend of a place, oldest first", () => {
+  const history = new HistoryStore(":memory:");
+  try {
+    history.recordSnapshots(RUNS);
+    const trend = history.trend("a");
+
+    assertEquals(trend.map((o) => o.runId), ["run-1", "run-2", "run-3"]);
+    assertEquals(trend.map((o) => o.rating), [4.6, 4.5, 4.0]);
+    assertEquals(trend.map((o) => o.totalReviews), [100, 130, 180]);
+    assertEquals(trend.map((o) => o.rank), [1, 2, 1]);
+    assertEquals(history.trend("missing"), []);
+  } finally {
+    history.close();
+  }
+});
+
+Deno.test("HistoryStore: largest rating drops within a period", () => {
+  const history = new HistoryStore(":memory:");
+  try {
+    history.recordSnapshots(RUNS);
+
+    const all = history.ratingDrops();
+    assertEquals(all.map((d) => [d.placeId, d.drop]), [["a", 0.6], ["b", 0.4]]);
+    assertEquals(all[0].toObservedAt, "2026-03-01T00:00:00.000Z");
+    assertEquals(all[0].totalReviews, 180);
+
+    const january = history.ratingDrops({
+      until: "2026-02-15T00:00:00.000Z",
+    });
+    assertEquals(january.map((d) => [d.placeId, d.drop]), [
+      ["b", 0.4],
+      ["a", 0.1],
+    ]);
+
+    assertEquals(history.ratingDrops({ limit: 1 }).length, 1);
+  } finally {
+    history.close();
+  }
+});
+
+Deno.test("HistoryStore: reads the observations of a SQLite scrape store", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".db" });
+  const store = new SqliteStore(path);
+  try {
+    for (const run of RUNS) {
+      await store.saveSearch({
+        runId: run.runId,
+        file: "places-chuo-tokyo.json",
+        district: run.district,
+        query: run.query,
+        scrapedAt: run.scrapedAt,
+        places: run.places,
+      });
+    }
+
+    const history = new HistoryStore(path, { readOnly: true });
+    try {
+      assertEquals(history.count(), 7);
+      const trend = history.trend("a");
+      assertEquals(trend.map((o) => o.runId), ["run-1", "run-2", "run-3"]);
+      assertEquals(trend.map((o) => o.rank), [1, 2, 1]);
+      assertEquals(trend[0].district, "Chuo");
+      assertEquals(
+        history.ratingDrops().map((d) => [d.placeId, d.drop]),
+        [["a", 0.6], ["b", 0.4]],
+      );
+    } finally {
+      history.close();
+    }
+  } finally {
+    store.close();
+    await Deno.remove(path);
+    await Deno.remove(`${path}-wal`).catch(() => {});
+    await Deno.remove(`${path}-shm`).catch(() => {});
+  }
+});
@@ -0,0 +1,238 @@
+/**
+ * Main entry point for the data processor
+ * Merges every raw snapshot into one canonical record per place in data/places,
+ * records each observation in the history database, links imported
+ * certification registries to places, classifies venue type and cuisine,
+ * writes reviewer profiles to data/people and the ward density map layer
+ * Usage: yaban process
+ */
+
+import {
+  ensureDirectory,
+  openStore,
+  placeFilename,
+  type ScrapedReview,
+} from "../scraper/storage.ts";
+import { SqliteStore } from "../scraper/sqlite-store.ts";
+import { loadWardBoundaries } from "../scraper/geo.ts";
+import { N03_SOURCE } from "../scraper/ward-import.ts";
+import {
+  assignWards,
+  attachDetails,
+  CATALOG_DIR,
+  districtKey,
+  mergeSnapshots,
+} from "./catalog.ts";
+import { loadRegistries } from "./certification-registry.ts";
+import {
+  certificationsByPlace,
+  matchCertifications,
+  wardAreaNames,
+} from "./certification-match.ts";
+import { computeHalalScore, loadHalalScoreConfig } from "./halal-score.ts";
+import { HISTORY_DB_PATH, HistoryStore } from "./history.ts";
+import { classifyPlace, loadTaxonomyOverrides } from "./taxonomy.ts";
+import {
+  loadPlaceDetails,
+  loadRawSnapshots,
+  loadRunRecords,
+  snapshotsFromSearches,
+} from "./raw-loader.ts";
+import {
+  buildReviewerProfiles,
+  PEOPLE_DIR,
+  personFilename,
+  reviewWeights,
+} from "./reviewers.ts";
+import {
+  WARD_DENSITY_PATH,
+  wardDensities,
+  wardDensityGeoJson,
+} from "./ward-density.ts";
+
+const RAW_DIR = "./data/raw";
+
+async function clearJsonFiles(dir: string): Promise<void> {
+  for await (const entry of Deno.readDir(dir)) {
+    if (entry.isFile && entry.name.endsWith(".json")) {
+      await Deno.remove(`${dir}/${entry.name}`);
+    }
+  }
+}
+
+export interface ProcessResult {
+  places: number;
+  reviewers: number;
+  snapshots: number;
+  runs: number;
+}
+
+export async function processCatalog(): Promise<ProcessResult> {
+  console.log("=".repeat(60));
+  console.log("🧮 Yaban - Data Processor");
+  console.log("=".repeat(60));
+  console.log();
+
+  // Raw data comes from data/raw, or from the database with SQLite storage
+  const store = openStore();
+  const snapshots = store instanceof SqliteStore
+    ? snapshotsFromSearches(store.loadSearches())
+    : await loadRawSnapshots(RAW_DIR);
+  const runs = new Set(snapshots.map((s) => s.runId));
+  console.log(
+    `📂 Loaded ${snapshots.length} snapshots from ${runs.size} runs`,
+  );
+
+  if (store instanceof SqliteStore) {
+    const history = new HistoryStore(store.path, { readOnly: true });
+    console.log(`📈 ${history.count()} observations in ${store.path}`);
+    history.close();
+  } else {
+    const history = new HistoryStore(HISTORY_DB_PATH);
+    const recorded = history.recordSnapshots(snapshots);
+    console.log(
+      `📈 Recorded ${recorded} new observations (${history.count()} in ${HISTORY_DB_PATH})`,
+    );
+    history.close();
+  }
+
+  const places = mergeSnapshots(snapshots);
+  const observations = snapshots.reduce((sum, s) => sum + s.places.length, 0);
+  console.log(
+    `🔗 Merged ${observations} observations into ${places.length} places`,
+  );
+
+  const wards = await loadWardBoundaries();
+  assignWards(places, wards);
+  const located = places.filter((p) => p.ward).length;
+  console.log(`🗺️  Assigned ${located} places to one of ${wards.length} wards`);
+  if (wards.some((ward) => ward.source !== N03_SOURCE)) {
+    console.log(
+      "⚠️  Ward outlines are the rough stand-ins; places near a border may be in the wrong ward (yaban wards import)",
+    );
+  }
+
+  const registries = await loadRegistries();
+  if (registries.length > 0) {
+    const matches = matchCertifications(
+      registries.flatMap((registry) => registry.entries),
+      places,
+      { areaNames: wardAreaNames(wards) },
+    );
+    const certified = certificationsByPlace(matches);
+    for (const place of places) {
+      place.certifications = certified.get(place.placeId);
+    }
+    const review = matches.filter((m) => m.status === "ambiguous").length;
+    console.log(
+      `🕌 Linked ${certified.size} places to ${registries.length} certification registries (${review} entries to review with yaban certifications match)`,
+    );
+  }
+
+  const details = store instanceof SqliteStore
+    ? store.loadPlaceDetails()
+    : await loadPlaceDetails(RAW_DIR);
+  attachDetails(places, details);
+  console.log(`🏪 Attached details for ${details.size} places`);
+
+  const overrides = await loadTaxonomyOverrides();
+  for (const place of places) {
+    place.taxonomy = classifyPlace(
+      place,
+      place.details,
+      overrides.get(place.placeId),
+    );
+  }
+  const withCuisine = places.filter((p) => p.taxonomy?.cuisines.length).length;
+  console.log(
+    `🍽️  Classified ${places.length} places (${withCuisine} with a cuisine, ${overrides.size} overrides)`,
+  );
+
+  const reviews = new Map<string, ScrapedReview[]>();
+  for (const place of places) {
+    reviews.set(place.placeId, await store.loadReviews(place.placeId));
+  }
+  const runRecords = store instanceof SqliteStore
+    ? store.loadRuns()
+    : await loadRunRecords(RAW_DIR);
+  store.close();
+
+  const allReviews = [...reviews.values()].flat();
+  const people = buildReviewerProfiles(allReviews);
+  const weights = reviewWeights(allReviews, people);
+  const flagged = people.filter((person) => person.flags.length > 0).length;
+  console.log(
+    `👥 Profiled ${people.length} reviewers from ${allReviews.length} reviews (${flagged} flagged)`,
+  );
+
+  const scoreConfig = await loadHalalScoreConfig();
+  for (const place of places) {
+    place.halalScore = computeHalalScore(
+      {
+        place,
+        details: place.details,
+        reviews: reviews.get(place.placeId),
+        reviewWeights: weights,
+        certifications: place.certifications,
+      },
+      scoreConfig,
+    );
+  }
+  console.log(`⚖️  Scored ${places.length} places`);
+
+  const densities = wardDensities(wards, runRecords, places);
+  await Deno.writeTextFile(
+    WARD_DENSITY_PATH,
+    JSON.stringify(wardDensityGeoJson(wards, densities)),
+  );
+  const covered = densities.filter((d) => d.reportedPlaces !== undefined);
+  console.log(
+    `📊 Ward density from ${runRecords.length} run summaries (${covered.length} of ${wards.length} wards covered) -> ${WARD_DENSITY_PATH}`,
+  );
+
+  await ensureDirectory(PEOPLE_DIR);
+  await clearJsonFiles(PEOPLE_DIR);
+  for (const person of people) {
+    await Deno.writeTextFile(
+      `${PEOPLE_DIR}/${await personFilename(person.authorId)}`,
+      JSON.stringify(person, null, 2),
+    );
+  }
+
+  await ensureDirectory(CATALOG_DIR);
+  await clearJsonFiles(CATALOG_DIR);
+
+  for (const place of places) {
+    await Deno.writeTextFile(
+      `${CATALOG_DIR}/${placeFilename(place.placeId)}`,
+      JSON.stringify(place, null, 2),
+    );
+  }
+
+  console.log();
+  console.log("=".repeat(60));
+  console.log("✅ Processing complete!");
+  console.log(`🏪 Places written: ${places.length}`);
+  console.log(`👥 Reviewer profiles written: ${people.length}`);
+  console.log(`💾 Output directories: ${CATALOG_DIR}, ${PEOPLE_DIR}`);
+  console.log("=".repeat(60));
+
+  const multiDistrict = places.filter((p) => p.districts.length > 1).length;
+  console.log();
+  console.log(`Places returned by more than one district: ${multiDistrict}`);
+
+  const outsideWard = places.filter((p) =>
+    p.ward && p.districts.length > 0 &&
+    !p.districts.includes(districtKey(p.ward))
+  ).length;
+  console.log(
+    `Places never returned by their own ward's query: ${outsideWard}`,
+  );
+
+  return {
+    places: places.length,
+    reviewers: people.length,
+    snapshots: snapshots.length,
+    runs: runs.size,
+  };
+}
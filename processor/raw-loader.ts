@@ -0,0 +1,210 @@
+/**
+ * Loader for raw scrape output in data/raw
+ * Understands both batch runs (timestamped directories with one file per
+ * district) and single-query files written by JsonStore
+ */
+
+import type {
+  PlaceDetails,
+  RunRecord,
+  ScrapedPlace,
+  SearchResult,
+} from "../scraper/storage.ts";
+
+export interface RawSnapshot {
+  runId: string;
+  file: string;
+  query: string;
+  district?: string;
+  // Set by campaign runs and sweeps
+  campaign?: string;
+  city?: string;
+  template?: string;
+  mode?: "sweep";
+  scrapedAt: string;
+  // Unknown for files written before searches recorded it
+  capped?: boolean;
+  places: ScrapedPlace[];
+}
+
+interface RawFile {
+  query?: string;
+  district?: string;
+  campaign?: string;
+  city?: string;
+  template?: string;
+  mode?: "sweep";
+  scrapedAt?: string;
+  capped?: boolean;
+  places?: ScrapedPlace[];
+}
+
+// places-<area>-<city>[-<template>].json, as named by the campaign
+const DISTRICT_FILE_PATTERN = /^places-.+\.json$/;
+// Place detail records live next to the runs, one file per place
+const DETAILS_DIR_NAME = "details";
+
+async function readRawFile(
+  filepath: string,
+  runId: string,
+): Promise<RawSnapshot | null> {
+  try {
+    const data = JSON.parse(await Deno.readTextFile(filepath)) as RawFile;
+    if (!Array.isArray(data.places)) return null;
+
+    return {
+      runId,
+      file: filepath,
+      query: data.query || "",
+      district: data.district,
+      campaign: data.campaign,
+      city: data.city,
+      template: data.template,
+      mode: data.mode,
+      scrapedAt: data.scrapedAt || "",
+      capped: data.capped,
+      places: data.places,
+    };
+  } catch (error) {
+    console.error(
+      `  ⚠️  Skipping unreadable file ${filepath}:`,
+      (error as Error).message,
+    );
+    return null;
+  }
+}
+
+/**
+ * Read the district files of one batch run, one per campaign search
+ */
+export async function loadRunSnapshots(
+  runDir: string,
+): Promise<RawSnapshot[]> {
+  const runId = runDir.replace(/\/+$/, "").split("/").pop() || runDir;
+  const snapshots: RawSnapshot[] = [];
+
+  for await (const file of Deno.readDir(runDir)) {
+    if (!file.isFile || !DISTRICT_FILE_PATTERN.test(file.name)) continue;
+    const snapshot = await readRawFile(`${runDir}/${file.name}`, runId);
+    if (snapshot) snapshots.push(snapshot);
+  }
+
+  return snapshots.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * Read every snapshot under the raw directory, oldest run first
+ */
+export async function loadRawSnapshots(
+  rawDir = "./data/raw",
+): Promise<RawSnapshot[]> {
+  const snapshots: RawSnapshot[] = [];
+
+  for await (const entry of Deno.readDir(rawDir)) {
+    const entryPath = `${rawDir}/${entry.name}`;
+
+    if (entry.isDirectory && entry.name === DETAILS_DIR_NAME) {
+      continue;
+    } else if (entry.isDirectory) {
+      snapshots.push(...await loadRunSnapshots(entryPath));
+    } else if (entry.isFile && entry.name.endsWith(".json")) {
+      // Single-query output: <query>_<timestamp>.json
+      const snapshot = await readRawFile(
+        entryPath,
+        entry.name.replace(/\.json$/, ""),
+      );
+      if (snapshot) snapshots.push(snapshot);
+    }
+  }
+
+  return snapshots.sort((a, b) =>
+    a.scrapedAt.localeCompare(b.scrapedAt) || a.file.localeCompare(b.file)
+  );
+}
+
+/**
+ * Snapshots from searches kept in the SQLite store, in the shape the JSON
+ * files load as
+ */
+export function snapshotsFromSearches(searches: SearchResult[]): RawSnapshot[] {
+  return searches.map((search) => {
+    const runId = search.runId || search.file.replace(/\.json$/, "");
+    return {
+      runId,
+      file: `${runId}/${search.file}`,
+      query: search.query,
+      district: search.district,
+      campaign: search.campaign,
+      city: search.city,
+      template: search.template,
+      mode: search.mode,
+      scrapedAt: search.scrapedAt,
+      capped: search.capped,
+      places: search.places,
+    };
+  });
+}
+
+/**
+ * Read every PlaceDetails record, keyed by placeId
+ */
+export async function loadPlaceDetails(
+  rawDir = "./data/raw",
+): Promise<Map<string, PlaceDetails>> {
+  const details = new Map<string, PlaceDetails>();
+  const dir = `${rawDir}/${DETAILS_DIR_NAME}`;
+
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+      const { schemaVersion: _schemaVersion, ...record } = JSON.parse(
+        await Deno.readTextFile(`${dir}/${entry.name}`),
+      ) as PlaceDetails & { schemaVersion?: number };
+      details.set(record.placeId, record);
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+
+  return details;
+}
+
+/**
+ * Run summaries (data/raw/<run>/summary.json) in the shape the SQLite store
+ * keeps them, oldest first
+ */
+export async function loadRunRecords(
+  rawDir = "./data/raw",
+): Promise<RunRecord[]> {
+  const runs: RunRecord[] = [];
+
+  for await (const entry of Deno.readDir(rawDir)) {
+    if (!entry.isDirectory || entry.name === DETAILS_DIR_NAME) continue;
+    let summary: Record<string, unknown>;
+    try {
+      const { schemaVersion: _schemaVersion, ...rest } = JSON.parse(
+        await Deno.readTextFile(`${rawDir}/${entry.name}/summary.json`),
+      );
+      summary = rest;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) continue;
+      console.error(
+        `  ⚠️  Skipping unreadable summary in ${entry.name}:`,
+        (error as Error).message,
+      );
+      continue;
+    }
+    runs.push({
+      runId: entry.name,
+      mode: summary.mode === "sweep" ? "sweep" : "batch",
+      campaign: summary.campaign as string | undefined,
+      startedAt: (summary.scrapedAt as string | undefined) || "",
+      finishedAt: summary.finishedAt as string | undefined,
+      summary,
+    });
+  }
+
+  return runs.sort((a, b) =>
+    a.startedAt.localeCompare(b.startedAt) || a.runId.localeCompare(b.runId)
+  );
+}
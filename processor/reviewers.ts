@@ -0,0 +1,333 @@
+/**
+ * Reviewer profiles and credibility weights
+ * Groups reviews by author across places (the Maps contributor id, or the name
+ * when a review has no profile link) and records what the author line and the
+ * review texts say about each reviewer. Credibility scales how much an
+ * author's reviews count as halal evidence in the halal score: 1 is neutral,
+ * Local Guides and authors who review many halal places count more, and
+ * suspicious patterns count less. Every factor is itemized like score signals.
+ */
+
+import type { ScrapedReview } from "../scraper/storage.ts";
+import {
+  classifyText,
+  detectLanguage,
+  type Language,
+} from "./text-analysis.ts";
+
+export const PEOPLE_DIR = "./data/people";
+
+export type ReviewLanguage = Language | "other";
+
+export type ReviewerFlagCode =
+  // Many 5-star "halal" reviews on a single day
+  | "halal_burst"
+  // Same rating on every review
+  | "uniform_ratings"
+  // Says a place is halal and not halal
+  | "contradicting_claims"
+  // The review is the account's only one
+  | "single_review_account";
+
+export interface ReviewerFlag {
+  code: ReviewerFlagCode;
+  message: string;
+}
+
+export interface CredibilityFactor {
+  id: string;
+  description: string;
+  effect: number;
+}
+
+export interface ReviewerProfile {
+  authorId: string;
+  authorName: string;
+  authorUrl?: string;
+  localGuide: boolean;
+  localGuideLevel?: number;
+  // Reviews on the whole account as Maps reports it
+  accountReviewCount?: number;
+  // Reviews we have scraped, and the places they are for
+  reviewCount: number;
+  places: string[];
+  languages: Partial<Record<ReviewLanguage, number>>;
+  // Reviews with a halal claim, and which way they lean
+  halalReviews: number;
+  halalPositive: number;
+  halalNegative: number;
+  averageRating: number;
+  // Standard deviation of the author's star ratings
+  ratingSpread: number;
+  firstReviewAt?: string;
+  lastReviewAt?: string;
+  flags: ReviewerFlag[];
+  credibility: number;
+  credibilityFactors: CredibilityFactor[];
+}
+
+export const MIN_CREDIBILITY = 0.1;
+export const MAX_CREDIBILITY = 1.5;
+
+// 5-star halal reviews by one author on one day that count as a burst
+const BURST_MIN_REVIEWS = 3;
+// Uniform ratings only mean something over a few reviews
+const UNIFORM_MIN_REVIEWS = 3;
+// Relative dates finer than a day; "3 months ago" can't place a burst
+const DAY_PRECISE_DATE =
+  /\b(second|minute|hour|day)s?\s+ago$|^yesterday$|^just now$/i;
+
+/**
+ * Stable key for a review's author: the Maps contributor id when known
+ */
+export function authorId(review: ScrapedReview): string {
+  const contrib = review.authorUrl?.match(/\/contrib\/(\d+)/);
+  return contrib ? contrib[1] : `name:${review.authorName.trim()}`;
+}
+
+/**
+ * File name of a profile in data/people: the contributor id as is, a hash
+ * for name-based ids, which sanitizing would collapse ("name:田中" and
+ * "name:佐藤" are both "name____")
+ */
+export async function personFilename(id: string): Promise<string> {
+  if (/^\d+$/.test(id)) return `${id}.json`;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(id),
+  );
+  const hex = [...new Uint8Array(digest).slice(0, 8)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `name-${hex}.json`;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function publishedDay(review: ScrapedReview): string | undefined {
+  const dateText = review.publishedTimeText?.replace(/^edited\s+/i, "");
+  if (!review.publishedTime || !dateText) return undefined;
+  return DAY_PRECISE_DATE.test(dateText.trim())
+    ? review.publishedTime.slice(0, 10)
+    : undefined;
+}
+
+function detectFlags(
+  reviews: ScrapedReview[],
+  verdicts: Map<ScrapedReview, ReturnType<typeof classifyText>>,
+  profile: Pick<ReviewerProfile, "accountReviewCount" | "ratingSpread">,
+): ReviewerFlag[] {
+  const flags: ReviewerFlag[] = [];
+
+  const perDay = new Map<string, number>();
+  for (const review of reviews) {
+    const day = publishedDay(review);
+    if (day && review.rating === 5 && verdicts.get(review) === "positive") {
+      perDay.set(day, (perDay.get(day) || 0) + 1);
+    }
+  }
+  for (const [day, count] of perDay) {
+    if (count >= BURST_MIN_REVIEWS) {
+      flags.push({
+        code: "halal_burst",
+        message: `${count} five-star halal reviews on ${day}`,
+      });
+    }
+  }
+
+  if (reviews.length >= UNIFORM_MIN_REVIEWS && profile.ratingSpread === 0) {
+    flags.push({
+      code: "uniform_ratings",
+      message: `all ${reviews.length} reviews rate ${reviews[0].rating} stars`,
+    });
+  }
+
+  const leaning = new Map<string, Set<string>>();
+  for (const review of reviews) {
+    const verdict = verdicts.get(review);
+    if (verdict === "none" || verdict === undefined) continue;
+    const verdictsForPlace = leaning.get(review.placeId) || new Set();
+    verdictsForPlace.add(verdict);
+    leaning.set(review.placeId, verdictsForPlace);
+  }
+  const contradicted = [...leaning].filter(([, found]) =>
+    found.has("mixed") || (found.has("positive") && found.has("negative"))
+  );
+  if (contradicted.length > 0) {
+    flags.push({
+      code: "contradicting_claims",
+      message: `says halal and not halal about ${contradicted.length} place${
+        contradicted.length === 1 ? "" : "s"
+      }`,
+    });
+  }
+
+  if (profile.accountReviewCount === 1) {
+    flags.push({
+      code: "single_review_account",
+      message: "the account has written a single review",
+    });
+  }
+
+  return flags;
+}
+
+const FLAG_EFFECTS: Record<ReviewerFlagCode, number> = {
+  halal_burst: -0.7,
+  uniform_ratings: -0.2,
+  contradicting_claims: -0.2,
+  single_review_account: -0.3,
+};
+
+/**
+ * Credibility from the profile: starts at 1, clamped to MIN..MAX_CREDIBILITY
+ */
+function credibilityFactors(
+  profile: Omit<ReviewerProfile, "credibility" | "credibilityFactors">,
+  halalPlaces: number,
+): CredibilityFactor[] {
+  const factors: CredibilityFactor[] = [];
+
+  if (profile.localGuide) {
+    factors.push({
+      id: "local-guide",
+      description: "Google Local Guide",
+      effect: 0.1,
+    });
+  }
+  if ((profile.localGuideLevel ?? 0) >= 5) {
+    factors.push({
+      id: "local-guide-level",
+      description: `Local Guide level ${profile.localGuideLevel}`,
+      effect: 0.1,
+    });
+  }
+  if (halalPlaces > 1) {
+    factors.push({
+      id: "halal-experience",
+      description: `Discusses halal status at ${halalPlaces} places`,
+      effect: Math.min(0.3, round(0.1 * (halalPlaces - 1))),
+    });
+  }
+  for (const flag of profile.flags) {
+    factors.push({
+      id: flag.code,
+      description: flag.message,
+      effect: FLAG_EFFECTS[flag.code],
+    });
+  }
+
+  return factors;
+}
+
+function buildProfile(id: string, reviews: ScrapedReview[]): ReviewerProfile {
+  // Newest author line wins; reviews are scraped at different times
+  const latest = [...reviews].sort((a, b) =>
+    b.scrapedAt.localeCompare(a.scrapedAt)
+  );
+  const withInfo = latest.find((review) =>
+    review.authorLocalGuide !== undefined ||
+    review.authorReviewCount !== undefined
+  );
+
+  const verdicts = new Map(
+    reviews.map((review) => [review, classifyText(review.text || "")]),
+  );
+  const languages: Partial<Record<ReviewLanguage, number>> = {};
+  for (const review of reviews) {
+    if (!review.text) continue;
+    const language = detectLanguage(review.text);
+    languages[language] = (languages[language] || 0) + 1;
+  }
+
+  const ratings = reviews.map((review) => review.rating);
+  const averageRating = ratings.reduce((sum, r) => sum + r, 0) /
+    ratings.length;
+  const ratingSpread = Math.sqrt(
+    ratings.reduce((sum, r) => sum + (r - averageRating) ** 2, 0) /
+      ratings.length,
+  );
+
+  const halal = reviews.filter((review) => verdicts.get(review) !== "none");
+  const dates = reviews
+    .map((review) => review.publishedTime)
+    .filter((date): date is string => Boolean(date))
+    .sort();
+
+  const profile = {
+    authorId: id,
+    authorName: latest[0].authorName,
+    authorUrl: latest.find((review) => review.authorUrl)?.authorUrl,
+    localGuide: withInfo?.authorLocalGuide ?? false,
+    localGuideLevel: withInfo?.authorLevel,
+    accountReviewCount: withInfo?.authorReviewCount,
+    reviewCount: reviews.length,
+    places: [...new Set(reviews.map((review) => review.placeId))].sort(),
+    languages,
+    halalReviews: halal.length,
+    halalPositive: halal.filter((r) => verdicts.get(r) === "positive").length,
+    halalNegative: halal.filter((r) => verdicts.get(r) === "negative").length,
+    averageRating: round(averageRating),
+    ratingSpread: round(ratingSpread),
+    firstReviewAt: dates[0],
+    lastReviewAt: dates[dates.length - 1],
+    flags: [] as ReviewerFlag[],
+  };
+  profile.flags = detectFlags(reviews, verdicts, profile);
+
+  const factors = credibilityFactors(
+    profile,
+    new Set(halal.map((review) => review.placeId)).size,
+  );
+  const credibility = factors.reduce((sum, factor) => sum + factor.effect, 1);
+
+  return {
+    ...profile,
+    credibility: round(
+      Math.min(MAX_CREDIBILITY, Math.max(MIN_CREDIBILITY, credibility)),
+    ),
+    credibilityFactors: factors,
+  };
+}
+
+/**
+ * One profile per author, most reviews first
+ */
+export function buildReviewerProfiles(
+  reviews: ScrapedReview[],
+): ReviewerProfile[] {
+  const byAuthor = new Map<string, ScrapedReview[]>();
+  for (const review of reviews) {
+    const id = authorId(review);
+    const list = byAuthor.get(id) || [];
+    list.push(review);
+    byAuthor.set(id, list);
+  }
+
+  return [...byAuthor]
+    .map(([id, authored]) => buildProfile(id, authored))
+    .sort((a, b) =>
+      b.reviewCount - a.reviewCount || a.authorName.localeCompare(b.authorName)
+    );
+}
+
+/**
+ * Credibility of each review's author, keyed by reviewId
+ */
+export function reviewWeights(
+  reviews: ScrapedReview[],
+  profiles: ReviewerProfile[],
+): Map<string, number> {
+  const credibility = new Map(
+    profiles.map((profile) => [profile.authorId, profile.credibility]),
+  );
+  return new Map(
+    reviews.map((review) => [
+      review.reviewId,
+      credibility.get(authorId(review)) ?? 1,
+    ]),
+  );
+}
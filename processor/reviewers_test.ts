@@ -0,0 +1,184 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import type { ScrapedReview } from "../scraper/storage.ts";
+import { computeHalalScore, type HalalScoreConfig } from "./halal-score.ts";
+import {
+  authorId,
+  buildReviewerProfiles,
+  personFilename,
+  reviewWeights,
+} from "./reviewers.ts";
+
+let nextId = 0;
+
+function review(overrides: Partial<ScrapedReview>): ScrapedReview {
+  return {
+    reviewId: `r${++nextId}`,
+    placeId: "0x1:0xa",
+    authorName: "Aisha",
+    authorUrl: "https://www.google.com/maps/contrib/1001/reviews",
+    rating: 4,
+    text: "Tasty ramen",
+    publishedTime: "2025-11-01T00:00:00.000Z",
+    publishedTimeText: "3 months ago",
+    scrapedAt: "2026-02-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+Deno.test("authorId: contributor id, or the name without a profile link", () => {
+  assertEquals(authorId(review({})), "1001");
+  assertEquals(
+    authorId(review({ authorUrl: undefined, authorName: " Ken " })),
+    "name:Ken",
+  );
+});
+
+Deno.test("personFilename: distinct files for non-ASCII names", async () => {
+  assertEquals(await personFilename("1001"), "1001.json");
+  const names = await Promise.all(
+    ["name:田中", "name:佐藤", "name:أحمد", "name:Ken"].map(personFilename),
+  );
+  assertEquals(new Set(names).size, 4);
+  for (const name of names) {
+    assertEquals(/^name-[0-9a-f]{16}\.json$/.test(name), true, name);
+  }
+  assertEquals(await personFilename("name:田中"), names[0]);
+});
+
+Deno.test("buildReviewerProfiles: groups an author's reviews across places", () => {
+  const [profile] = buildReviewerProfiles([
+    review({
+      placeId: "0x1:0xa",
+      rating: 5,
+      text: "Certified halal, they showed the certificate.",
+      authorLocalGuide: true,
+      authorLevel: 6,
+      authorReviewCount: 87,
+    }),
+    review({
+      placeId: "0x1:0xb",
+      rating: 3,
+      text: "Makanannya halal dan enak.",
+    }),
+    review({ placeId: "0x1:0xc", rating: 4, text: "ハラール認証のお店です" }),
+  ]);
+
+  assertEquals(profile.authorId, "1001");
+  assertEquals(profile.reviewCount, 3);
+  assertEquals(profile.places, ["0x1:0xa", "0x1:0xb", "0x1:0xc"]);
+  assertEquals(profile.localGuide, true);
+  assertEquals(profile.localGuideLevel, 6);
+  assertEquals(profile.accountReviewCount, 87);
+  assertEquals(profile.languages, { en: 1, "id/ms": 1, ja: 1 });
+  assertEquals([profile.halalReviews, profile.halalPositive], [3, 3]);
+  assertEquals(profile.averageRating, 4);
+  assertEquals(profile.flags, []);
+  // Local Guide, level 6 and halal reviews at three places
+  assertEquals(profile.credibilityFactors.map((f) => [f.id, f.effect]), [
+    ["local-guide", 0.1],
+    ["local-guide-level", 0.1],
+    ["halal-experience", 0.2],
+  ]);
+  assertEquals(profile.credibility, 1.4);
+});
+
+Deno.test("buildReviewerProfiles: flags a burst of 5-star halal reviews", () => {
+  const burst = ["0x2:0xa", "0x2:0xb", "0x2:0xc"].map((placeId) =>
+    review({
+      placeId,
+      authorName: "Promo",
+      authorUrl: "https://www.google.com/maps/contrib/2002/reviews",
+      authorReviewCount: 3,
+      rating: 5,
+      text: "100% halal!!!",
+      publishedTime: "2026-01-30T00:00:00.000Z",
+      publishedTimeText: "2 days ago",
+    })
+  );
+  const [profile] = buildReviewerProfiles(burst);
+
+  assertEquals(profile.flags.map((flag) => flag.code), [
+    "halal_burst",
+    "uniform_ratings",
+  ]);
+  assertEquals(
+    profile.flags[0].message,
+    "3 five-star halal reviews on 2026-01-30",
+  );
+  // 1 + 0.2 (halal experience) - 0.7 (burst) - 0.2 (uniform)
+  assertEquals(profile.credibility, 0.3);
+
+  // Month-precise dates can't place reviews on the same day
+  const vague = burst.map((r) => ({ ...r, publishedTimeText: "a month ago" }));
+  assertEquals(
+    buildReviewerProfiles(vague)[0].flags.map((flag) => flag.code),
+    ["uniform_ratings"],
+  );
+});
+
+Deno.test("buildReviewerProfiles: contradictions and single-review accounts", () => {
+  const profiles = buildReviewerProfiles([
+    review({ text: "Halal food, great!" }),
+    review({ text: "Actually not halal, they use mirin." }),
+    review({
+      authorName: "New",
+      authorUrl: "https://www.google.com/maps/contrib/3003/reviews",
+      authorReviewCount: 1,
+      rating: 5,
+    }),
+  ]);
+  const byId = new Map(profiles.map((profile) => [profile.authorId, profile]));
+
+  assertEquals(
+    byId.get("1001")!.flags.map((flag) => flag.code),
+    ["contradicting_claims"],
+  );
+  assertEquals(
+    byId.get("3003")!.flags.map((flag) => flag.code),
+    ["single_review_account"],
+  );
+  assertEquals(byId.get("3003")!.credibility, 0.7);
+});
+
+Deno.test("reviewWeights: scale review evidence in the halal score", () => {
+  const config: HalalScoreConfig = {
+    baseScore: 20,
+    signals: [{
+      id: "review-halal",
+      description: "Reviews say the food is halal",
+      source: "reviewClaims",
+      concepts: ["halal"],
+      polarity: "positive",
+      weight: 10,
+      maxTotal: 30,
+    }],
+  };
+  const trusted = review({ text: "Halal certified kitchen" });
+  const promo = review({
+    authorUrl: "https://www.google.com/maps/contrib/2002/reviews",
+    authorName: "Promo",
+    text: "100% halal",
+  });
+  const weights = reviewWeights([trusted, promo], [
+    { ...buildReviewerProfiles([trusted])[0], credibility: 1.2 },
+    { ...buildReviewerProfiles([promo])[0], credibility: 0.3 },
+  ]);
+  assertEquals(weights.get(promo.reviewId), 0.3);
+
+  const place = { name: "Ramen Ya", tags: [] };
+  const unweighted = computeHalalScore(
+    { place, reviews: [trusted, promo] },
+    config,
+  );
+  const weighted = computeHalalScore(
+    { place, reviews: [trusted, promo], reviewWeights: weights },
+    config,
+  );
+  assertEquals(unweighted.signals[0].contribution, 20);
+  assertEquals(weighted.signals[0].contribution, 15);
+  assertEquals(weighted.score, 35);
+  assertEquals(
+    weighted.signals[0].evidence[1],
+    "100% halal (reviewer weight 0.3)",
+  );
+});
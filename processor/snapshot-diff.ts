@@ -0,0 +1,439 @@
+/**
+ * Snapshot diffing: what changed between two scrape runs, or between a run
+ * and the processed catalog
+ * Places are compared by placeId and reported under their district, keyed by
+ * city and area. A district that only one side searched is skipped rather
+ * than reported as mass openings or closures. A place is only reported gone
+ * when the later search came back short of its result cap; missing from a
+ * capped search, it may just rank past the cap and is reported as out of
+ * range instead. Likewise a place is only new when the earlier search was
+ * short of its cap; otherwise it is reported as newly in range.
+ */
+
+import type { OpenStatus } from "../scraper/storage.ts";
+import { type CatalogPlace, districtKey, filledFields } from "./catalog.ts";
+import type { RawSnapshot } from "./raw-loader.ts";
+
+export interface DiffPlace {
+  placeId: string;
+  name: string;
+  rating?: number;
+  totalReviews?: number;
+  openStatus?: OpenStatus;
+  url: string;
+  // districtKey()s of the searches that returned it
+  districts: string[];
+}
+
+/**
+ * One side of a diff: the places it saw and the districts it searched
+ */
+export interface DiffSide {
+  label: string;
+  places: Map<string, DiffPlace>;
+  districts: Set<string>;
+  // Districts whose search filled its result cap, or didn't record whether
+  // it did
+  capped: Set<string>;
+}
+
+export interface DiffThresholds {
+  // Smallest rating move worth reporting
+  minRatingChange: number;
+  // Smallest increase in review count reported as a jump
+  minReviewJump: number;
+}
+
+export const DEFAULT_THRESHOLDS: DiffThresholds = {
+  minRatingChange: 0.1,
+  minReviewJump: 20,
+};
+
+export type ChangedField = "name" | "rating" | "totalReviews" | "openStatus";
+
+export interface FieldChange {
+  field: ChangedField;
+  before?: string | number;
+  after?: string | number;
+}
+
+export interface PlaceRef {
+  placeId: string;
+  name: string;
+  rating?: number;
+  totalReviews?: number;
+  url: string;
+}
+
+export interface PlaceChange extends PlaceRef {
+  changes: FieldChange[];
+}
+
+export interface DistrictDiff {
+  // districtKey(), e.g. "tokyo/Chuo"
+  district: string;
+  added: PlaceRef[];
+  // New to a search that was capped before: new, or only ranked into the cap
+  newlyInRange: PlaceRef[];
+  removed: PlaceRef[];
+  // Missing from a capped search: gone, or only ranked past the cap
+  outOfRange: PlaceRef[];
+  changed: PlaceChange[];
+}
+
+export interface SnapshotDiff {
+  before: string;
+  after: string;
+  generatedAt: string;
+  thresholds: DiffThresholds;
+  summary: {
+    added: number;
+    newlyInRange: number;
+    removed: number;
+    outOfRange: number;
+    changed: number;
+    // Places that now show as temporarily or permanently closed
+    closed: number;
+    districtsCompared: number;
+  };
+  // Districts searched by only one side, left out of the comparison
+  skippedDistricts: string[];
+  districts: DistrictDiff[];
+}
+
+// Statuses that suggest a place lost its listing or stopped trading
+const CLOSED_STATUSES: OpenStatus[] = [
+  "temporarily_closed",
+  "permanently_closed",
+];
+
+function addPlace(
+  places: Map<string, DiffPlace>,
+  place: Omit<DiffPlace, "districts">,
+  district: string | undefined,
+): void {
+  const existing = places.get(place.placeId);
+  if (existing) {
+    // Later snapshots overwrite fields they carry
+    Object.assign(existing, filledFields(place));
+    if (district && !existing.districts.includes(district)) {
+      existing.districts.push(district);
+    }
+    return;
+  }
+  places.set(place.placeId, {
+    ...place,
+    districts: district ? [district] : [],
+  });
+}
+
+/**
+ * Build a side from the district files of one batch run
+ */
+export function sideFromSnapshots(
+  label: string,
+  snapshots: RawSnapshot[],
+): DiffSide {
+  const side: DiffSide = {
+    label,
+    places: new Map(),
+    districts: new Set(),
+    capped: new Set(),
+  };
+
+  for (const snapshot of snapshots) {
+    const area = snapshot.district ||
+      snapshot.file.match(/places-([^/]+)\.json$/)?.[1];
+    const district = area ? districtKey(area, snapshot.city) : undefined;
+    if (district) {
+      side.districts.add(district);
+      if (snapshot.capped !== false) side.capped.add(district);
+    }
+
+    for (const place of snapshot.places) {
+      if (!place.placeId) continue;
+      addPlace(side.places, {
+        placeId: place.placeId,
+        name: place.name,
+        rating: place.rating,
+        totalReviews: place.totalReviews,
+        openStatus: place.openStatus,
+        url: place.url,
+      }, district);
+    }
+  }
+
+  return side;
+}
+
+/**
+ * Build a side from the processed catalog; every district it was merged
+ * from counts as searched, and as capped since the catalog doesn't say
+ */
+export function sideFromCatalog(
+  label: string,
+  places: CatalogPlace[],
+): DiffSide {
+  const side: DiffSide = {
+    label,
+    places: new Map(),
+    districts: new Set(),
+    capped: new Set(),
+  };
+
+  for (const place of places) {
+    place.districts.forEach((district) => {
+      side.districts.add(district);
+      side.capped.add(district);
+    });
+    side.places.set(place.placeId, {
+      placeId: place.placeId,
+      name: place.name,
+      rating: place.rating,
+      totalReviews: place.totalReviews,
+      openStatus: place.openStatus,
+      url: place.url,
+      districts: [...place.districts],
+    });
+  }
+
+  return side;
+}
+
+function toRef(place: DiffPlace): PlaceRef {
+  return {
+    placeId: place.placeId,
+    name: place.name,
+    rating: place.rating,
+    totalReviews: place.totalReviews,
+    url: place.url,
+  };
+}
+
+function compareFields(
+  before: DiffPlace,
+  after: DiffPlace,
+  thresholds: DiffThresholds,
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  if (before.name !== after.name) {
+    changes.push({ field: "name", before: before.name, after: after.name });
+  }
+  if (
+    before.rating !== undefined && after.rating !== undefined &&
+    // Rounded so 4.3 -> 4.4 is not lost to floating point
+    Math.round(Math.abs(after.rating - before.rating) * 100) >=
+      Math.round(thresholds.minRatingChange * 100)
+  ) {
+    changes.push({
+      field: "rating",
+      before: before.rating,
+      after: after.rating,
+    });
+  }
+  if (
+    before.totalReviews !== undefined && after.totalReviews !== undefined &&
+    after.totalReviews - before.totalReviews >= thresholds.minReviewJump
+  ) {
+    changes.push({
+      field: "totalReviews",
+      before: before.totalReviews,
+      after: after.totalReviews,
+    });
+  }
+  // Only closures and reopenings; open/closed flips with the time of day
+  const wasClosed = CLOSED_STATUSES.includes(before.openStatus!);
+  const isClosed = CLOSED_STATUSES.includes(after.openStatus!);
+  if (
+    after.openStatus !== undefined && before.openStatus !== after.openStatus &&
+    (wasClosed || isClosed)
+  ) {
+    changes.push({
+      field: "openStatus",
+      before: before.openStatus,
+      after: after.openStatus,
+    });
+  }
+
+  return changes;
+}
+
+export function diffSides(
+  before: DiffSide,
+  after: DiffSide,
+  thresholds: DiffThresholds = DEFAULT_THRESHOLDS,
+): SnapshotDiff {
+  const compared = new Set(
+    [...before.districts].filter((district) => after.districts.has(district)),
+  );
+  const skipped = [...new Set([...before.districts, ...after.districts])]
+    .filter((district) => !compared.has(district));
+
+  const districts = new Map<string, DistrictDiff>();
+  const districtDiff = (district: string): DistrictDiff => {
+    let diff = districts.get(district);
+    if (!diff) {
+      diff = {
+        district,
+        added: [],
+        newlyInRange: [],
+        removed: [],
+        outOfRange: [],
+        changed: [],
+      };
+      districts.set(district, diff);
+    }
+    return diff;
+  };
+  // A place is filed under the first of its districts that both sides searched
+  const comparedDistrict = (place: DiffPlace) =>
+    place.districts.find((district) => compared.has(district));
+
+  for (const place of after.places.values()) {
+    const district = comparedDistrict(place);
+    if (!district) continue;
+
+    const previous = before.places.get(place.placeId);
+    if (!previous) {
+      // A capped earlier search may only have ranked it past the cap
+      const capped = place.districts.some((name) => before.capped.has(name));
+      districtDiff(district)[capped ? "newlyInRange" : "added"].push(
+        toRef(place),
+      );
+      continue;
+    }
+
+    const changes = compareFields(previous, place, thresholds);
+    if (changes.length > 0) {
+      districtDiff(district).changed.push({ ...toRef(place), changes });
+    }
+  }
+
+  for (const place of before.places.values()) {
+    if (after.places.has(place.placeId)) continue;
+    // Gone only if every district that used to return it was searched again
+    if (!place.districts.every((district) => compared.has(district))) continue;
+    const district = comparedDistrict(place);
+    if (!district) continue;
+    const capped = place.districts.some((name) => after.capped.has(name));
+    districtDiff(district)[capped ? "outOfRange" : "removed"].push(
+      toRef(place),
+    );
+  }
+
+  const byName = (a: PlaceRef, b: PlaceRef) => a.name.localeCompare(b.name);
+  const sorted = [...districts.values()]
+    .sort((a, b) => a.district.localeCompare(b.district));
+  for (const diff of sorted) {
+    diff.added.sort(byName);
+    diff.newlyInRange.sort(byName);
+    diff.removed.sort(byName);
+    diff.outOfRange.sort(byName);
+    diff.changed.sort(byName);
+  }
+
+  const count = (
+    key: "added" | "newlyInRange" | "removed" | "outOfRange" | "changed",
+  ) => sorted.reduce((sum, diff) => sum + diff[key].length, 0);
+
+  return {
+    before: before.label,
+    after: after.label,
+    generatedAt: new Date().toISOString(),
+    thresholds,
+    summary: {
+      added: count("added"),
+      newlyInRange: count("newlyInRange"),
+      removed: count("removed"),
+      outOfRange: count("outOfRange"),
+      changed: count("changed"),
+      closed: sorted.reduce(
+        (sum, diff) =>
+          sum +
+          diff.changed.filter((place) =>
+            place.changes.some((change) =>
+              change.field === "openStatus" &&
+              CLOSED_STATUSES.includes(change.after as OpenStatus)
+            )
+          ).length,
+        0,
+      ),
+      districtsCompared: compared.size,
+    },
+    skippedDistricts: skipped.sort(),
+    districts: sorted,
+  };
+}
+
+function formatValue(value: string | number | undefined): string {
+  return value === undefined ? "–" : String(value);
+}
+
+function formatChange(change: FieldChange): string {
+  if (change.field === "name") {
+    return `renamed from "${change.before}"`;
+  }
+  if (change.field === "totalReviews") {
+    const jump = (change.after as number) - (change.before as number);
+    return `reviews ${change.before} → ${change.after} (+${jump})`;
+  }
+  if (change.field === "rating") {
+    return `rating ${change.before} → ${change.after}`;
+  }
+  return `status ${formatValue(change.before)} → ${formatValue(change.after)}`;
+}
+
+function formatRef(place: PlaceRef): string {
+  const rating = place.rating !== undefined ? ` ⭐ ${place.rating}` : "";
+  const reviews = place.totalReviews !== undefined
+    ? ` (${place.totalReviews})`
+    : "";
+  return `${place.name}${rating}${reviews}`;
+}
+
+/**
+ * Human-readable report, one section per district with changes
+ */
+export function formatDiffReport(diff: SnapshotDiff): string {
+  const lines: string[] = [
+    `📊 ${diff.before} → ${diff.after}`,
+    `   ${diff.summary.added} new, ${diff.summary.newlyInRange} newly in ` +
+    `range, ${diff.summary.removed} gone, ` +
+    `${diff.summary.outOfRange} out of range, ` +
+    `${diff.summary.changed} changed (${diff.summary.closed} now closed) ` +
+    `across ${diff.summary.districtsCompared} districts`,
+  ];
+  if (diff.skippedDistricts.length > 0) {
+    lines.push(
+      `   ⚠️  Not searched by both: ${diff.skippedDistricts.join(", ")}`,
+    );
+  }
+
+  for (const district of diff.districts) {
+    lines.push("", `📍 ${district.district}`);
+    for (const place of district.added) {
+      lines.push(`   🆕 ${formatRef(place)}`);
+    }
+    for (const place of district.newlyInRange) {
+      lines.push(`   🔎 ${formatRef(place)} (newly in range)`);
+    }
+    for (const place of district.removed) {
+      lines.push(`   ❌ ${formatRef(place)}`);
+    }
+    for (const place of district.outOfRange) {
+      lines.push(`   ❔ ${formatRef(place)} (out of range)`);
+    }
+    for (const place of district.changed) {
+      lines.push(
+        `   ✏️  ${place.name}: ${place.changes.map(formatChange).join("; ")}`,
+      );
+    }
+  }
+
+  if (diff.districts.length === 0) {
+    lines.push("", "✓ No changes");
+  }
+
+  return lines.join("\n");
+}
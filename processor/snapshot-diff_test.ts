@@ -0,0 +1,222 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import type { ScrapedPlace } from "../scraper/storage.ts";
+import type { RawSnapshot } from "./raw-loader.ts";
+import {
+  diffSides,
+  formatDiffReport,
+  sideFromSnapshots,
+} from "./snapshot-diff.ts";
+
+function place(
+  placeId: string,
+  fields: Partial<ScrapedPlace> = {},
+): ScrapedPlace {
+  return {
+    placeId,
+    name: `Place ${placeId}`,
+    rating: 4.5,
+    totalReviews: 100,
+    url: `https://www.google.com/maps/place/${placeId}`,
+    scrapedAt: "2026-01-06T00:00:00.000Z",
+    ...fields,
+  };
+}
+
+function snapshot(
+  runId: string,
+  district: string,
+  places: ScrapedPlace[],
+  capped = false,
+): RawSnapshot {
+  return {
+    runId,
+    file: `data/raw/${runId}/places-${district.toLowerCase()}-tokyo.json`,
+    query: `halal restaurants ${district} tokyo japan`,
+    district,
+    scrapedAt: "2026-01-06T00:00:00.000Z",
+    capped,
+    places,
+  };
+}
+
+Deno.test("diffSides: new, gone and changed places per district", () => {
+  const before = sideFromSnapshots("run-1", [
+    snapshot("run-1", "Chuo", [
+      place("a"),
+      place("b", { rating: 4.3, totalReviews: 50 }),
+      place("gone"),
+    ]),
+  ]);
+  const after = sideFromSnapshots("run-2", [
+    snapshot("run-2", "Chuo", [
+      place("a", { totalReviews: 110 }),
+      place("b", {
+        name: "Place b (Halal)",
+        rating: 4.4,
+        totalReviews: 80,
+        openStatus: "permanently_closed",
+      }),
+      place("new"),
+    ]),
+  ]);
+
+  const diff = diffSides(before, after);
+
+  assertEquals(diff.summary, {
+    added: 1,
+    newlyInRange: 0,
+    removed: 1,
+    outOfRange: 0,
+    changed: 1,
+    closed: 1,
+    districtsCompared: 1,
+  });
+  const [chuo] = diff.districts;
+  assertEquals(chuo.added.map((p) => p.placeId), ["new"]);
+  assertEquals(chuo.removed.map((p) => p.placeId), ["gone"]);
+  // +10 reviews on "a" is under the default jump threshold
+  assertEquals(chuo.changed.map((p) => p.placeId), ["b"]);
+  assertEquals(chuo.changed[0].changes, [
+    { field: "name", before: "Place b", after: "Place b (Halal)" },
+    { field: "rating", before: 4.3, after: 4.4 },
+    { field: "totalReviews", before: 50, after: 80 },
+    { field: "openStatus", before: undefined, after: "permanently_closed" },
+  ]);
+});
+
+Deno.test("sideFromSnapshots: later snapshots fill in, never blank out", () => {
+  const side = sideFromSnapshots("run-1", [
+    snapshot("run-1", "Chuo", [place("a", { openStatus: "open" })]),
+    snapshot("run-1", "Minato", [
+      place("a", {
+        name: "",
+        rating: undefined,
+        totalReviews: 120,
+        openStatus: undefined,
+      }),
+    ]),
+  ]);
+
+  assertEquals(side.places.get("a"), {
+    placeId: "a",
+    name: "Place a",
+    rating: 4.5,
+    totalReviews: 120,
+    openStatus: "open",
+    url: "https://www.google.com/maps/place/a",
+    districts: ["tokyo/Chuo", "tokyo/Minato"],
+  });
+});
+
+Deno.test("diffSides: districts searched by one side are skipped", () => {
+  const before = sideFromSnapshots("run-1", [
+    snapshot("run-1", "Chuo", [place("a")]),
+    snapshot("run-1", "Taito", [place("t"), place("both")]),
+  ]);
+  const after = sideFromSnapshots("run-2", [
+    snapshot("run-2", "Chuo", [place("a")]),
+    snapshot("run-2", "Koto", [place("k")]),
+  ]);
+
+  const diff = diffSides(before, after);
+
+  assertEquals(diff.skippedDistricts, ["tokyo/Koto", "tokyo/Taito"]);
+  assertEquals(diff.districts, []);
+});
+
+Deno.test("diffSides: a place moving to another district is not gone", () => {
+  const before = sideFromSnapshots("run-1", [
+    snapshot("run-1", "Chuo", [place("a")]),
+    snapshot("run-1", "Koto", []),
+  ]);
+  const after = sideFromSnapshots("run-2", [
+    snapshot("run-2", "Chuo", []),
+    snapshot("run-2", "Koto", [place("a")]),
+  ]);
+
+  assertEquals(diffSides(before, after).districts, []);
+});
+
+Deno.test("diffSides: missing from a capped search is out of range", () => {
+  const before = sideFromSnapshots("run-1", [
+    snapshot("run-1", "Chuo", [place("a"), place("b")], true),
+    snapshot("run-1", "Koto", [place("k")]),
+  ]);
+  const after = sideFromSnapshots("run-2", [
+    snapshot("run-2", "Chuo", [place("a"), place("new")], true),
+    // Older files don't say whether the search was capped
+    { ...snapshot("run-2", "Koto", []), capped: undefined },
+  ]);
+
+  const diff = diffSides(before, after);
+
+  assertEquals(diff.summary.removed, 0);
+  assertEquals(diff.summary.outOfRange, 2);
+  assertEquals(
+    diff.districts.map((district) => ({
+      district: district.district,
+      outOfRange: district.outOfRange.map((p) => p.placeId),
+    })),
+    [
+      { district: "tokyo/Chuo", outOfRange: ["b"] },
+      { district: "tokyo/Koto", outOfRange: ["k"] },
+    ],
+  );
+});
+
+Deno.test("diffSides: new to a capped earlier search is newly in range", () => {
+  const before = sideFromSnapshots("run-1", [
+    snapshot("run-1", "Chuo", [place("a")], true),
+    // Runs from before the cap was recorded count as capped
+    { ...snapshot("run-1", "Koto", [place("k")]), capped: undefined },
+    snapshot("run-1", "Taito", [place("t")]),
+  ]);
+  const after = sideFromSnapshots("run-2", [
+    snapshot("run-2", "Chuo", [place("a"), place("c")], true),
+    snapshot("run-2", "Koto", [place("k"), place("k2")]),
+    snapshot("run-2", "Taito", [place("t"), place("t2")]),
+  ]);
+
+  const diff = diffSides(before, after);
+
+  assertEquals(diff.summary.added, 1);
+  assertEquals(diff.summary.newlyInRange, 2);
+  assertEquals(
+    diff.districts.map((district) => ({
+      district: district.district,
+      added: district.added.map((p) => p.placeId),
+      newlyInRange: district.newlyInRange.map((p) => p.placeId),
+    })),
+    [
+      { district: "tokyo/Chuo", added: [], newlyInRange: ["c"] },
+      { district: "tokyo/Koto", added: [], newlyInRange: ["k2"] },
+      { district: "tokyo/Taito", added: ["t2"], newlyInRange: [] },
+    ],
+  );
+  assertEquals(
+    formatDiffReport(diff).includes("🔎 Place c ⭐ 4.5 (100) (newly in range)"),
+    true,
+  );
+});
+
+Deno.test("diffSides: same area name in two cities", () => {
+  const osaka = (runId: string, places: ScrapedPlace[]) => ({
+    ...snapshot(runId, "Chuo", places),
+    file: `data/raw/${runId}/places-chuo-osaka.json`,
+    city: "osaka",
+  });
+  const before = sideFromSnapshots("run-1", [
+    snapshot("run-1", "Chuo", [place("tokyo-a")]),
+    osaka("run-1", [place("osaka-a")]),
+  ]);
+  // Only Tokyo's Chuo was searched again
+  const after = sideFromSnapshots("run-2", [
+    snapshot("run-2", "Chuo", [place("tokyo-a")]),
+  ]);
+
+  const diff = diffSides(before, after);
+
+  assertEquals(diff.summary.districtsCompared, 1);
+  assertEquals(diff.skippedDistricts, ["osaka/Chuo"]);
+  assertEquals(diff.districts, []);
+});
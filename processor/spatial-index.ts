@@ -0,0 +1,128 @@
+/**
+ * Geohash-bucketed spatial index for "what's near me" queries
+ * Places are bucketed by geohash cell once; a radius query only looks at the
+ * cells overlapping the circle's bounding box instead of every place.
+ */
+
+import { haversineDistance } from "../scraper/geo.ts";
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+// Precision 6 cells are ~1.2 km wide and ~0.6 km tall
+const INDEX_PRECISION = 6;
+const CELL_HEIGHT = 180 / 2 ** 15;
+const CELL_WIDTH = 360 / 2 ** 15;
+// Beyond this many cells a full scan is cheaper than the cell lookups
+const MAX_CELLS = 2500;
+const METERS_PER_DEGREE_LAT = 111320;
+
+export interface Located {
+  lat?: number;
+  lng?: number;
+}
+
+export interface NearbyResult<T> {
+  item: T;
+  distance: number;
+}
+
+export function encodeGeohash(
+  lat: number,
+  lng: number,
+  precision = INDEX_PRECISION,
+): string {
+  const latRange: [number, number] = [-90, 90];
+  const lngRange: [number, number] = [-180, 180];
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const coord = evenBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+    value <<= 1;
+    if (coord >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+export class GeohashIndex<T extends Located> {
+  private cells = new Map<string, T[]>();
+  private items: T[] = [];
+
+  constructor(items: T[] = []) {
+    for (const item of items) this.add(item);
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  add(item: T): void {
+    if (item.lat === undefined || item.lng === undefined) return;
+    const hash = encodeGeohash(item.lat, item.lng);
+    const cell = this.cells.get(hash);
+    if (cell) cell.push(item);
+    else this.cells.set(hash, [item]);
+    this.items.push(item);
+  }
+
+  /**
+   * Items within radius meters of a point, nearest first
+   */
+  nearby(
+    lat: number,
+    lng: number,
+    radius: number,
+    predicate: (item: T) => boolean = () => true,
+  ): NearbyResult<T>[] {
+    const results: NearbyResult<T>[] = [];
+    for (const item of this.candidates(lat, lng, radius)) {
+      const distance = haversineDistance(lat, lng, item.lat!, item.lng!);
+      if (distance <= radius && predicate(item)) {
+        results.push({ item, distance: Math.round(distance) });
+      }
+    }
+    return results.sort((a, b) => a.distance - b.distance);
+  }
+
+  private candidates(lat: number, lng: number, radius: number): T[] {
+    const dLat = radius / METERS_PER_DEGREE_LAT;
+    const dLng = radius /
+      (METERS_PER_DEGREE_LAT * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+    const minLat = Math.max(-90, lat - dLat);
+    const maxLat = Math.min(90, lat + dLat);
+    const minLng = lng - dLng;
+    const maxLng = lng + dLng;
+
+    const rows = Math.ceil((maxLat - minLat) / CELL_HEIGHT) + 1;
+    const cols = Math.ceil((maxLng - minLng) / CELL_WIDTH) + 1;
+    if (rows * cols > MAX_CELLS) return this.items;
+
+    const hashes = new Set<string>();
+    for (let row = 0; row <= rows; row++) {
+      const cellLat = Math.min(maxLat, minLat + row * CELL_HEIGHT);
+      for (let col = 0; col <= cols; col++) {
+        const cellLng = Math.min(maxLng, minLng + col * CELL_WIDTH);
+        hashes.add(encodeGeohash(cellLat, cellLng));
+      }
+    }
+
+    return [...hashes].flatMap((hash) => this.cells.get(hash) || []);
+  }
+}
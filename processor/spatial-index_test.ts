@@ -0,0 +1,110 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import { haversineDistance } from "../scraper/geo.ts";
+import { encodeGeohash, GeohashIndex } from "./spatial-index.ts";
+
+interface Point {
+  id: number;
+  lat?: number;
+  lng?: number;
+}
+
+// Seeded so a failure reproduces
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Every located point within radius, checked one by one
+function bruteForce(
+  points: Point[],
+  lat: number,
+  lng: number,
+  radius: number,
+): Point[] {
+  return points.filter((point) =>
+    point.lat !== undefined && point.lng !== undefined &&
+    haversineDistance(lat, lng, point.lat, point.lng) <= radius
+  );
+}
+
+function ids(results: { id: number }[]): number[] {
+  return results.map((result) => result.id).sort((a, b) => a - b);
+}
+
+Deno.test("encodeGeohash: known cells", () => {
+  assertEquals(encodeGeohash(57.64911, 10.40744, 11), "u4pruydqqvj");
+  assertEquals(encodeGeohash(35.6812, 139.7671), "xn76ur");
+});
+
+Deno.test("GeohashIndex: same places as a full scan", () => {
+  const next = random(20260106);
+  // Tokyo's 23 wards and a margin, a dense cluster at Tokyo Station and two
+  // places without coordinates
+  const points: Point[] = [];
+  for (let id = 0; id < 3000; id++) {
+    points.push({
+      id,
+      lat: 35.5 + next() * 0.35,
+      lng: 139.55 + next() * 0.4,
+    });
+  }
+  for (let id = 3000; id < 3100; id++) {
+    points.push({
+      id,
+      lat: 35.6814 + (next() - 0.5) * 0.002,
+      lng: 139.7636 + (next() - 0.5) * 0.002,
+    });
+  }
+  points.push({ id: 3100 }, { id: 3101, lat: 35.68 });
+  const index = new GeohashIndex(points);
+  assertEquals(index.size, 3100);
+
+  for (let query = 0; query < 200; query++) {
+    const lat = 35.5 + next() * 0.35;
+    const lng = 139.55 + next() * 0.4;
+    // Mostly walking distances, now and then one past MAX_CELLS
+    const radius = query % 20 === 0
+      ? 20000 + next() * 30000
+      : 50 + next() * 3000;
+
+    const expected = bruteForce(points, lat, lng, radius);
+    const actual = index.nearby(lat, lng, radius);
+    assertEquals(
+      ids(actual.map(({ item }) => item)),
+      ids(expected),
+      `query ${query}: ${lat}, ${lng}, ${radius} m`,
+    );
+    for (let i = 1; i < actual.length; i++) {
+      assertEquals(actual[i - 1].distance <= actual[i].distance, true);
+    }
+  }
+});
+
+Deno.test("GeohashIndex: radius edges and predicates", () => {
+  const points: Point[] = [
+    { id: 1, lat: 35.6812, lng: 139.7671 },
+    // About 1.1 km north
+    { id: 2, lat: 35.6912, lng: 139.7671 },
+  ];
+  const index = new GeohashIndex(points);
+  const north = haversineDistance(35.6812, 139.7671, 35.6912, 139.7671);
+
+  assertEquals(ids(index.nearby(35.6812, 139.7671, north).map((r) => r.item)), [
+    1,
+    2,
+  ]);
+  assertEquals(
+    ids(index.nearby(35.6812, 139.7671, north - 1).map((r) => r.item)),
+    [1],
+  );
+  assertEquals(
+    index.nearby(35.6812, 139.7671, 5000, (point) => point.id === 2)
+      .map((r) => r.item.id),
+    [2],
+  );
+  assertEquals(index.nearby(0, 0, 5000), []);
+});
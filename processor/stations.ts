@@ -0,0 +1,39 @@
+/**
+ * Offline table of major Tokyo stations for "near this station" searches
+ * Station coordinates are bundled in data/geo/tokyo-stations.json
+ */
+
+export const STATIONS_PATH = "./data/geo/tokyo-stations.json";
+
+export interface Station {
+  name: string;
+  nameJa: string;
+  lat: number;
+  lng: number;
+}
+
+export async function loadStations(path = STATIONS_PATH): Promise<Station[]> {
+  return JSON.parse(await Deno.readTextFile(path)) as Station[];
+}
+
+/**
+ * Normalize "Shin-Okubo Station", "shin okubo" and "新大久保駅" alike
+ */
+function normalizeStationName(name: string): string {
+  return name
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+station$|駅$/, "")
+    .replace(/[\s\-・]/g, "");
+}
+
+export function findStation(
+  stations: Station[],
+  name: string,
+): Station | undefined {
+  const wanted = normalizeStationName(name);
+  return stations.find((station) =>
+    normalizeStationName(station.name) === wanted ||
+    normalizeStationName(station.nameJa) === wanted
+  );
+}
@@ -0,0 +1,47 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import { findStation, loadStations, STATIONS_PATH } from "./stations.ts";
+
+const stations = await loadStations(
+  new URL(`../${STATIONS_PATH}`, import.meta.url).pathname,
+);
+
+function found(name: string): string | undefined {
+  return findStation(stations, name)?.name;
+}
+
+Deno.test("findStation: English, Japanese and suffixed names", () => {
+  for (
+    const alias of [
+      "Shin-Okubo",
+      "shin okubo",
+      "ShinOkubo",
+      "Shin-Okubo Station",
+      "新大久保",
+      "新大久保駅",
+      "ＳＨＩＮ－ＯＫＵＢＯ",
+    ]
+  ) {
+    assertEquals(found(alias), "Shin-Okubo", alias);
+  }
+  assertEquals(
+    found("羽田空港第１・第２ターミナル駅"),
+    "Haneda Airport Terminal 1-2",
+  );
+});
+
+Deno.test("findStation: no partial matches", () => {
+  assertEquals(found("Okubo"), undefined);
+  assertEquals(found("大久保駅"), undefined);
+  assertEquals(found("Shinjuku-sanchome"), undefined);
+  assertEquals(found(""), undefined);
+});
+
+Deno.test("loadStations: the bundled table", () => {
+  assertEquals(stations.length >= 50, true);
+  for (const station of stations) {
+    assertEquals(station.lat > 35.4 && station.lat < 35.9, true, station.name);
+    assertEquals(station.lng > 139.5 && station.lng < 140, true, station.name);
+  }
+  const names = stations.map((station) => station.name);
+  assertEquals(new Set(names).size, names.length);
+});
@@ -0,0 +1,634 @@
+/**
+ * Venue type and cuisine taxonomy
+ * Classifies a place into a fixed set of venue types (restaurant, grocery,
+ * prayer space, ...) and cuisines (ramen, Indian, Middle Eastern, ...) from
+ * keywords in its cleaned category, its name and its About attributes. Each
+ * label gets a confidence and the keywords that produced it. Cuisines form a
+ * small tree so a filter on "japanese" also finds ramen and yakiniku.
+ * Manual overrides in config/taxonomy-overrides.json replace the labels.
+ */
+
+import type { PlaceDetails, ScrapedPlace } from "../scraper/storage.ts";
+
+export const TAXONOMY_OVERRIDES_PATH = "./config/taxonomy-overrides.json";
+
+export type VenueType =
+  | "restaurant"
+  | "cafe"
+  | "grocery"
+  | "butcher"
+  | "prayer_space"
+  | "hotel"
+  | "other";
+
+export type Cuisine =
+  | "japanese"
+  | "ramen"
+  | "yakiniku"
+  | "sushi"
+  | "wagyu"
+  | "south_asian"
+  | "indian"
+  | "nepalese"
+  | "pakistani"
+  | "bangladeshi"
+  | "southeast_asian"
+  | "indonesian"
+  | "malaysian"
+  | "thai"
+  | "middle_eastern"
+  | "turkish"
+  | "persian"
+  | "central_asian"
+  | "chinese"
+  | "korean"
+  | "burgers"
+  | "vegan";
+
+export interface TaxonomyLabel<T extends string> {
+  id: T;
+  confidence: number;
+  evidence: string[];
+}
+
+export interface PlaceTaxonomy {
+  venueType?: TaxonomyLabel<VenueType>;
+  // Most confident first
+  cuisines: TaxonomyLabel<Cuisine>[];
+  overridden?: boolean;
+}
+
+export interface TaxonomyOverride {
+  venueType?: VenueType;
+  cuisines?: Cuisine[];
+  // Why the labels were set by hand
+  note?: string;
+}
+
+interface LabelDefinition<T extends string> {
+  id: T;
+  description: string;
+  parent?: T;
+  // Keywords in the category or name; weight scales the source's weight
+  terms: { terms: string[]; weight?: number }[];
+  // Available About attributes that hint at the label
+  attributes?: string[];
+}
+
+export class TaxonomyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaxonomyError";
+  }
+}
+
+// How much a keyword in each source says about a place
+const SOURCE_WEIGHTS = { category: 0.9, name: 0.7, attribute: 0.4 };
+// Labels below this confidence are dropped
+const MIN_CONFIDENCE = 0.3;
+const MAX_CUISINES = 3;
+
+export const VENUE_TYPES: LabelDefinition<VenueType>[] = [
+  {
+    id: "restaurant",
+    description: "Restaurant",
+    terms: [
+      {
+        terms: [
+          "restaurant",
+          "dining",
+          "diner",
+          "cafeteria",
+          "kitchen",
+          "grill",
+          "bistro",
+          "food court",
+          "steak house",
+          "steakhouse",
+          "kebab shop",
+          "deli",
+          "delicatessen",
+          "izakaya",
+          "レストラン",
+          "料理",
+          "食堂",
+          "居酒屋",
+        ],
+      },
+    ],
+    attributes: ["dine-in", "table service"],
+  },
+  {
+    id: "cafe",
+    description: "Cafe",
+    terms: [
+      {
+        terms: [
+          "cafe",
+          "café",
+          "coffee",
+          "coffee shop",
+          "tea house",
+          "bakery",
+          "dessert",
+          "カフェ",
+          "喫茶",
+        ],
+      },
+    ],
+  },
+  {
+    id: "grocery",
+    description: "Grocery store",
+    terms: [
+      {
+        terms: [
+          "grocery",
+          "grocery store",
+          "supermarket",
+          "mart",
+          "food store",
+          "frozen food store",
+          "health food store",
+          "spices",
+          "スーパー",
+          "食材",
+          "食料品",
+        ],
+      },
+    ],
+    attributes: ["in-store shopping"],
+  },
+  {
+    id: "butcher",
+    description: "Butcher",
+    terms: [
+      { terms: ["butcher", "butcher shop", "meat shop", "精肉", "肉屋"] },
+    ],
+  },
+  {
+    id: "prayer_space",
+    description: "Mosque or prayer space",
+    terms: [
+      {
+        terms: [
+          "mosque",
+          "masjid",
+          "musalla",
+          "musholla",
+          "prayer room",
+          "prayer space",
+          "モスク",
+          "礼拝",
+          "ジャーミイ",
+        ],
+      },
+    ],
+  },
+  {
+    id: "hotel",
+    description: "Hotel",
+    terms: [{ terms: ["hotel", "ryokan", "hostel", "ホテル", "旅館"] }],
+  },
+  {
+    id: "other",
+    description: "Not a place to eat or shop",
+    terms: [
+      {
+        terms: [
+          "corporate office",
+          "office",
+          "exporter",
+          "consultant",
+          "wholesaler",
+          "company",
+          "souvenir store",
+        ],
+      },
+    ],
+  },
+];
+
+export const CUISINES: LabelDefinition<Cuisine>[] = [
+  {
+    id: "japanese",
+    description: "Japanese",
+    terms: [
+      {
+        terms: [
+          "japanese",
+          "washoku",
+          "tempura",
+          "teriyaki",
+          "udon",
+          "soba",
+          "izakaya",
+          "日本料理",
+          "和食",
+          "天ぷら",
+          "居酒屋",
+        ],
+      },
+    ],
+  },
+  {
+    id: "ramen",
+    description: "Ramen",
+    parent: "japanese",
+    terms: [
+      {
+        terms: [
+          "ramen",
+          "mazemen",
+          "tsukemen",
+          "menkan",
+          "ラーメン",
+          "らーめん",
+          "まぜそば",
+          "つけ麺",
+        ],
+      },
+    ],
+  },
+  {
+    id: "yakiniku",
+    description: "Yakiniku",
+    parent: "japanese",
+    terms: [{ terms: ["yakiniku", "焼肉", "焼き肉"] }],
+  },
+  {
+    id: "sushi",
+    description: "Sushi",
+    parent: "japanese",
+    terms: [{ terms: ["sushi", "omakase", "寿司", "鮨", "すし"] }],
+  },
+  {
+    id: "wagyu",
+    description: "Wagyu and beef dishes",
+    parent: "japanese",
+    terms: [
+      {
+        terms: [
+          "wagyu",
+          "steak",
+          "steak house",
+          "steakhouse",
+          "gyukatsu",
+          "sukiyaki",
+          "shabu shabu",
+          "和牛",
+          "ステーキ",
+          "すき焼き",
+          "牛カツ",
+        ],
+      },
+    ],
+  },
+  {
+    id: "south_asian",
+    description: "South Asian",
+    terms: [{ terms: ["south asian", "biryani", "tandoor"], weight: 0.7 }],
+  },
+  {
+    id: "indian",
+    description: "Indian",
+    parent: "south_asian",
+    terms: [
+      { terms: ["indian", "india", "north indian", "south indian", "インド"] },
+      { terms: ["curry", "masala", "naan", "カレー"], weight: 0.5 },
+    ],
+  },
+  {
+    id: "nepalese",
+    description: "Nepalese",
+    parent: "south_asian",
+    terms: [{ terms: ["nepalese", "nepali", "nepal", "momo", "ネパール"] }],
+  },
+  {
+    id: "pakistani",
+    description: "Pakistani",
+    parent: "south_asian",
+    terms: [{ terms: ["pakistani", "pakistan", "パキスタン"] }],
+  },
+  {
+    id: "bangladeshi",
+    description: "Bangladeshi",
+    parent: "south_asian",
+    terms: [{ terms: ["bangladeshi", "bangladesh", "バングラデシュ"] }],
+  },
+  {
+    id: "southeast_asian",
+    description: "Southeast Asian",
+    terms: [{ terms: ["southeast asian"] }],
+  },
+  {
+    id: "indonesian",
+    description: "Indonesian",
+    parent: "southeast_asian",
+    terms: [
+      { terms: ["indonesian", "indonesia", "インドネシア", "padang"] },
+      {
+        terms: ["nasi goreng", "bakso", "warung", "ayam", "bali"],
+        weight: 0.7,
+      },
+    ],
+  },
+  {
+    id: "malaysian",
+    description: "Malaysian",
+    parent: "southeast_asian",
+    terms: [
+      { terms: ["malaysian", "malaysia", "malay", "マレーシア"] },
+      { terms: ["nasi lemak", "laksa"], weight: 0.7 },
+    ],
+  },
+  {
+    id: "thai",
+    description: "Thai",
+    parent: "southeast_asian",
+    terms: [{ terms: ["thai", "タイ料理"] }],
+  },
+  {
+    id: "middle_eastern",
+    description: "Middle Eastern",
+    terms: [
+      {
+        terms: [
+          "middle eastern",
+          "arab",
+          "arabic",
+          "arabian",
+          "lebanese",
+          "egyptian",
+          "moroccan",
+          "syrian",
+          "yemeni",
+          "アラブ",
+          "レバノン",
+        ],
+      },
+      { terms: ["shawarma", "falafel", "hummus"], weight: 0.7 },
+    ],
+  },
+  {
+    id: "turkish",
+    description: "Turkish",
+    parent: "middle_eastern",
+    terms: [
+      { terms: ["turkish", "turkey", "トルコ"] },
+      // Kebab shops in Tokyo are nearly all Turkish döner
+      {
+        terms: ["kebab", "kebap", "doner", "döner", "ケバブ"],
+        weight: 0.7,
+      },
+    ],
+  },
+  {
+    id: "persian",
+    description: "Persian",
+    parent: "middle_eastern",
+    terms: [{ terms: ["persian", "iranian", "ペルシャ", "イラン"] }],
+  },
+  {
+    id: "central_asian",
+    description: "Central Asian and Uyghur",
+    terms: [
+      {
+        terms: [
+          "uzbek",
+          "uzbekistan",
+          "samarkand",
+          "kazakh",
+          "uyghur",
+          "uighur",
+          "ウズベキスタン",
+          "ウイグル",
+        ],
+      },
+    ],
+  },
+  {
+    id: "chinese",
+    description: "Chinese",
+    terms: [
+      {
+        terms: ["chinese", "mandarin", "lanzhou", "中華", "中国料理", "蘭州"],
+      },
+    ],
+  },
+  {
+    id: "korean",
+    description: "Korean",
+    terms: [{ terms: ["korean", "bibimbap", "韓国"] }],
+  },
+  {
+    id: "burgers",
+    description: "Burgers and fast food",
+    terms: [
+      {
+        terms: [
+          "hamburger",
+          "burger",
+          "burgers",
+          "fast food",
+          "fried chicken",
+          "ハンバーガー",
+        ],
+      },
+    ],
+  },
+  {
+    id: "vegan",
+    description: "Vegan and vegetarian",
+    terms: [
+      {
+        terms: [
+          "vegan",
+          "vegetarian",
+          "plant based",
+          "ヴィーガン",
+          "ビーガン",
+          "ベジタリアン",
+        ],
+      },
+    ],
+  },
+];
+
+export const VENUE_TYPE_IDS = VENUE_TYPES.map((type) => type.id);
+export const CUISINE_IDS = CUISINES.map((cuisine) => cuisine.id);
+
+function normalize(text: string): string {
+  return text.normalize("NFKC").toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whole-word match for Latin keywords; Japanese has no word breaks
+ */
+function containsTerm(text: string, term: string): boolean {
+  if (!/^[\p{Script=Latin}\d\s-]+$/u.test(term)) return text.includes(term);
+  return new RegExp(`(?<![\\p{L}\\d])${escapeRegExp(term)}(?![\\p{L}\\d])`, "u")
+    .test(text);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Score every label of a taxonomy; a keyword found in several sources makes
+ * a label more certain (1 - product of the misses)
+ */
+function scoreLabels<T extends string>(
+  definitions: LabelDefinition<T>[],
+  texts: { category?: string; name: string; attributes: string[] },
+): TaxonomyLabel<T>[] {
+  const sources = [
+    {
+      source: "category",
+      text: texts.category ? normalize(texts.category) : "",
+    },
+    { source: "name", text: normalize(texts.name) },
+  ] as const;
+
+  const labels: TaxonomyLabel<T>[] = [];
+  for (const definition of definitions) {
+    let miss = 1;
+    const evidence: string[] = [];
+
+    for (const { source, text } of sources) {
+      if (!text) continue;
+      let best = 0;
+      let found: string | undefined;
+      for (const group of definition.terms) {
+        const term = group.terms.find((term) => containsTerm(text, term));
+        const weight = SOURCE_WEIGHTS[source] * (group.weight ?? 1);
+        if (term && weight > best) {
+          best = weight;
+          found = term;
+        }
+      }
+      if (found) {
+        miss *= 1 - best;
+        evidence.push(`${source}: ${found}`);
+      }
+    }
+
+    const attribute = texts.attributes.find((name) =>
+      definition.attributes?.includes(name)
+    );
+    if (attribute) {
+      miss *= 1 - SOURCE_WEIGHTS.attribute;
+      evidence.push(`attribute: ${attribute}`);
+    }
+
+    const confidence = round(1 - miss);
+    if (confidence >= MIN_CONFIDENCE) {
+      labels.push({ id: definition.id, confidence, evidence });
+    }
+  }
+
+  return labels.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Venue type and cuisines of a place. A place with a cuisine but no venue
+ * keyword is taken to be a restaurant, with less confidence.
+ */
+export function classifyPlace(
+  place: Pick<ScrapedPlace, "name" | "category">,
+  details?: Pick<PlaceDetails, "attributes">,
+  override?: TaxonomyOverride,
+): PlaceTaxonomy {
+  const texts = {
+    category: place.category,
+    name: place.name,
+    attributes: (details?.attributes || [])
+      .filter((attribute) => attribute.available)
+      .map((attribute) => normalize(attribute.name)),
+  };
+
+  const cuisines = scoreLabels(CUISINES, texts).slice(0, MAX_CUISINES);
+  let [venueType] = scoreLabels(VENUE_TYPES, texts);
+  if (!venueType && cuisines.length > 0) {
+    venueType = {
+      id: "restaurant",
+      confidence: round(cuisines[0].confidence * 0.8),
+      evidence: [`cuisine: ${cuisines[0].id}`],
+    };
+  }
+
+  if (!override) return { venueType, cuisines };
+
+  const manual = ["manual override", override.note].filter(Boolean) as string[];
+  return {
+    venueType: override.venueType
+      ? { id: override.venueType, confidence: 1, evidence: manual }
+      : venueType,
+    cuisines: override.cuisines
+      ? override.cuisines.map((id) => ({ id, confidence: 1, evidence: manual }))
+      : cuisines,
+    overridden: true,
+  };
+}
+
+/**
+ * A cuisine and every cuisine under it, e.g. japanese -> ramen, sushi, ...
+ */
+export function cuisineWithChildren(cuisine: Cuisine): Cuisine[] {
+  return [
+    cuisine,
+    ...CUISINES
+      .filter((definition) => definition.parent === cuisine)
+      .flatMap((definition) => cuisineWithChildren(definition.id)),
+  ];
+}
+
+/**
+ * Whether a place's cuisines include the cuisine or one under it
+ */
+export function hasCuisine(
+  taxonomy: PlaceTaxonomy | undefined,
+  cuisine: Cuisine,
+): boolean {
+  const accepted = cuisineWithChildren(cuisine);
+  return (taxonomy?.cuisines || []).some((label) =>
+    accepted.includes(label.id)
+  );
+}
+
+/**
+ * Overrides by placeId; unknown labels are an error so typos don't go
+ * unnoticed
+ */
+export async function loadTaxonomyOverrides(
+  path = TAXONOMY_OVERRIDES_PATH,
+): Promise<Map<string, TaxonomyOverride>> {
+  let data: { overrides?: Record<string, TaxonomyOverride> };
+  try {
+    data = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return new Map();
+    throw error;
+  }
+
+  const overrides = new Map(Object.entries(data.overrides || {}));
+  for (const [placeId, override] of overrides) {
+    if (override.venueType && !VENUE_TYPE_IDS.includes(override.venueType)) {
+      throw new TaxonomyError(
+        `${path}: unknown venueType "${override.venueType}" for ${placeId}`,
+      );
+    }
+    const unknown = override.cuisines?.find((id) => !CUISINE_IDS.includes(id));
+    if (unknown) {
+      throw new TaxonomyError(
+        `${path}: unknown cuisine "${unknown}" for ${placeId}`,
+      );
+    }
+  }
+  return overrides;
+}
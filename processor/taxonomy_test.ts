@@ -0,0 +1,132 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert@1.0.8";
+import {
+  classifyPlace,
+  cuisineWithChildren,
+  hasCuisine,
+  loadTaxonomyOverrides,
+  TaxonomyError,
+} from "./taxonomy.ts";
+
+function ids(taxonomy: ReturnType<typeof classifyPlace>) {
+  return {
+    venueType: taxonomy.venueType?.id,
+    cuisines: taxonomy.cuisines.map((cuisine) => cuisine.id),
+  };
+}
+
+Deno.test("classifyPlace: category and name keywords", () => {
+  const ramen = classifyPlace({
+    name: "Halal Wagyu Ramen Shinjuku-Tei",
+    category: "Ramen restaurant",
+  });
+  assertEquals(ids(ramen), {
+    venueType: "restaurant",
+    cuisines: ["ramen", "wagyu"],
+  });
+  // Category and name agree, so ramen is surer than wagyu
+  assertEquals(ramen.cuisines[0].confidence, 0.97);
+  assertEquals(ramen.cuisines[0].evidence, ["category: ramen", "name: ramen"]);
+
+  assertEquals(
+    ids(classifyPlace({
+      name: "🇮🇳WATAN INDIA FOODS & SPICES 🇮🇳",
+      category: "Indian grocery store",
+    })),
+    { venueType: "grocery", cuisines: ["indian"] },
+  );
+  assertEquals(
+    ids(classifyPlace({ name: "東京ジャーミイ", category: "Mosque" })),
+    { venueType: "prayer_space", cuisines: [] },
+  );
+  assertEquals(
+    ids(classifyPlace({ name: "ＨＡＬＡＬ／ＶＥＧＡＮ Honolu" })),
+    { venueType: "restaurant", cuisines: ["vegan"] },
+  );
+});
+
+Deno.test("classifyPlace: keywords match whole words only", () => {
+  // Neither "deli" in "Delivery" nor "burger" in "Hamburger" is a match
+  assertEquals(
+    ids(classifyPlace({ name: "Sultan Delivery", category: undefined })),
+    { venueType: undefined, cuisines: [] },
+  );
+  assertEquals(
+    classifyPlace({ name: "Hamburger Stand" }).cuisines[0].evidence,
+    ["name: hamburger"],
+  );
+});
+
+Deno.test("classifyPlace: a cuisine alone implies a restaurant", () => {
+  const kebab = classifyPlace({ name: "Saray Kebab" });
+  assertEquals(kebab.cuisines[0].id, "turkish");
+  assertEquals(kebab.cuisines[0].confidence, 0.49);
+  assertEquals(kebab.venueType, {
+    id: "restaurant",
+    confidence: 0.39,
+    evidence: ["cuisine: turkish"],
+  });
+});
+
+Deno.test("classifyPlace: available attributes add confidence", () => {
+  const attributes = [
+    { group: "Service options", name: "In-store shopping", available: true },
+    { group: "Service options", name: "Dine-in", available: false },
+  ];
+  assertEquals(
+    classifyPlace({ name: "EUSA HALAL MART" }, { attributes }).venueType,
+    {
+      id: "grocery",
+      confidence: 0.82,
+      evidence: ["name: mart", "attribute: in-store shopping"],
+    },
+  );
+});
+
+Deno.test("classifyPlace: overrides replace the labels they set", () => {
+  const taxonomy = classifyPlace(
+    { name: "Oasis Route", category: "Restaurant" },
+    undefined,
+    { cuisines: ["central_asian"], note: "Uyghur menu" },
+  );
+  assertEquals(taxonomy.overridden, true);
+  assertEquals(taxonomy.venueType?.id, "restaurant");
+  assertEquals(taxonomy.cuisines, [{
+    id: "central_asian",
+    confidence: 1,
+    evidence: ["manual override", "Uyghur menu"],
+  }]);
+});
+
+Deno.test("hasCuisine: parent cuisines include their children", () => {
+  assertEquals(cuisineWithChildren("japanese"), [
+    "japanese",
+    "ramen",
+    "yakiniku",
+    "sushi",
+    "wagyu",
+  ]);
+  const taxonomy = classifyPlace({ name: "Toribushi Halal Ramen" });
+  assertEquals(hasCuisine(taxonomy, "japanese"), true);
+  assertEquals(hasCuisine(taxonomy, "ramen"), true);
+  assertEquals(hasCuisine(taxonomy, "indian"), false);
+  assertEquals(hasCuisine(undefined, "ramen"), false);
+});
+
+Deno.test("loadTaxonomyOverrides: missing file is empty, typos are errors", async () => {
+  assertEquals((await loadTaxonomyOverrides("/nonexistent.json")).size, 0);
+
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  try {
+    await Deno.writeTextFile(
+      path,
+      JSON.stringify({ overrides: { "0x1:0xa": { cuisines: ["ramne"] } } }),
+    );
+    await assertRejects(
+      () => loadTaxonomyOverrides(path),
+      TaxonomyError,
+      'unknown cuisine "ramne"',
+    );
+  } finally {
+    await Deno.remove(path);
+  }
+});
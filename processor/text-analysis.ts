@@ -0,0 +1,448 @@
+/**
+ * Halal claim detection for review texts and place names
+ * Finds halal-positive and halal-negative statements in English, Japanese,
+ * Indonesian/Malay and Arabic, including negated forms such as "not halal",
+ * "ハラールではない", "bukan halal" or "no pork", and returns the matched spans
+ * so they can be shown as evidence. Questions ("Is this place halal?") and
+ * hedges ("not sure if it's halal") are not claims, unless a question is
+ * answered ("Halal? No.").
+ */
+
+export type Language = "en" | "ja" | "id/ms" | "ar";
+
+export type ClaimConcept =
+  | "halal"
+  | "muslim-friendly"
+  | "certified"
+  | "pork"
+  | "alcohol"
+  | "haram";
+
+export type ClaimPolarity = "positive" | "negative";
+
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface HalalClaim {
+  concept: ClaimConcept;
+  // Effect on halal status after negation is applied
+  polarity: ClaimPolarity;
+  negated: boolean;
+  language: Language;
+  // Whole claim including the negation cue, e.g. "not halal"
+  span: TextSpan;
+  // The keyword alone, e.g. "halal"
+  term: TextSpan;
+}
+
+export type TextVerdict = "positive" | "negative" | "mixed" | "none";
+
+interface LexiconEntry {
+  term: string;
+  concept: ClaimConcept;
+  language: Language;
+}
+
+const CONCEPT_POLARITY: Record<ClaimConcept, ClaimPolarity> = {
+  "halal": "positive",
+  "muslim-friendly": "positive",
+  "certified": "positive",
+  "pork": "negative",
+  "alcohol": "negative",
+  "haram": "negative",
+};
+
+export const CLAIM_CONCEPTS = Object.keys(CONCEPT_POLARITY) as ClaimConcept[];
+
+const LEXICON: LexiconEntry[] = [
+  // English (and Indonesian/Malay, which share "halal" and "haram")
+  { term: "halal", concept: "halal", language: "en" },
+  { term: "muslim friendly", concept: "muslim-friendly", language: "en" },
+  { term: "muslim-friendly", concept: "muslim-friendly", language: "en" },
+  { term: "certified", concept: "certified", language: "en" },
+  { term: "certification", concept: "certified", language: "en" },
+  { term: "certificate", concept: "certified", language: "en" },
+  { term: "pork", concept: "pork", language: "en" },
+  { term: "tonkotsu", concept: "pork", language: "en" },
+  { term: "bacon", concept: "pork", language: "en" },
+  { term: "lard", concept: "pork", language: "en" },
+  { term: "alcohol", concept: "alcohol", language: "en" },
+  { term: "beer", concept: "alcohol", language: "en" },
+  { term: "wine", concept: "alcohol", language: "en" },
+  { term: "mirin", concept: "alcohol", language: "en" },
+  { term: "haram", concept: "haram", language: "en" },
+  // Japanese
+  { term: "ハラール", concept: "halal", language: "ja" },
+  { term: "ハラル", concept: "halal", language: "ja" },
+  { term: "ムスリムフレンドリー", concept: "muslim-friendly", language: "ja" },
+  { term: "認証", concept: "certified", language: "ja" },
+  { term: "豚肉", concept: "pork", language: "ja" },
+  { term: "豚骨", concept: "pork", language: "ja" },
+  { term: "とんこつ", concept: "pork", language: "ja" },
+  { term: "ポーク", concept: "pork", language: "ja" },
+  { term: "ラード", concept: "pork", language: "ja" },
+  { term: "豚", concept: "pork", language: "ja" },
+  { term: "アルコール", concept: "alcohol", language: "ja" },
+  { term: "お酒", concept: "alcohol", language: "ja" },
+  { term: "ビール", concept: "alcohol", language: "ja" },
+  { term: "みりん", concept: "alcohol", language: "ja" },
+  // Indonesian / Malay
+  { term: "ramah muslim", concept: "muslim-friendly", language: "id/ms" },
+  { term: "bersertifikat", concept: "certified", language: "id/ms" },
+  { term: "sertifikat", concept: "certified", language: "id/ms" },
+  { term: "sijil", concept: "certified", language: "id/ms" },
+  { term: "babi", concept: "pork", language: "id/ms" },
+  { term: "khinzir", concept: "pork", language: "id/ms" },
+  { term: "arak", concept: "alcohol", language: "id/ms" },
+  { term: "alkohol", concept: "alcohol", language: "id/ms" },
+  { term: "bir", concept: "alcohol", language: "id/ms" },
+  // Arabic
+  { term: "حلال", concept: "halal", language: "ar" },
+  { term: "شهادة", concept: "certified", language: "ar" },
+  { term: "خنزير", concept: "pork", language: "ar" },
+  { term: "كحول", concept: "alcohol", language: "ar" },
+  { term: "خمر", concept: "alcohol", language: "ar" },
+  { term: "حرام", concept: "haram", language: "ar" },
+];
+
+// Up to two filler words may sit between a cue and the term
+// ("not 100% halal", "doesn't serve any pork"), but not across punctuation
+const FILLER = String.raw`(?:[^\s.,!?;:、。]+\s+){0,2}`;
+
+// "not only halal but also vegan" adds rather than negates
+const NOT_ONLY = String.raw`(?!\s+(?:only|just|merely)(?![\p{L}]))`;
+
+const NEGATION_BEFORE: { language: Language; pattern: RegExp }[] = [
+  {
+    language: "en",
+    pattern: new RegExp(
+      // "no", "without" and "free of" must touch the term: "no doubt it's
+      // halal" is not a negation
+      String
+        .raw`(?<![\p{L}])(?:(?:not|never|isn't|aren't|wasn't|weren't|doesn't|don't|didn't)${NOT_ONLY}\s+${FILLER}|(?:no|without|free of|zero)\s+|non[\s-]?)$`,
+      "iu",
+    ),
+  },
+  {
+    language: "id/ms",
+    pattern: new RegExp(
+      String
+        .raw`(?<![\p{L}])(?:bukan|tidak|tak|belum|tanpa|bebas|takde|tiada)\s+${FILLER}$`,
+      "iu",
+    ),
+  },
+  {
+    language: "ar",
+    pattern: new RegExp(
+      String
+        .raw`(?<![\p{L}])(?:غير|ليس|ليست|بدون|بلا|لا)\s*(?:[^\s.,!?;:،]+\s+)?$`,
+      "u",
+    ),
+  },
+  { language: "ja", pattern: /(?:非|ノン|ノン・)$/ },
+];
+
+const NEGATION_AFTER: { language: Language; pattern: RegExp }[] = [
+  { language: "en", pattern: /^[\s-]?free(?![\p{L}])/iu },
+  {
+    language: "ja",
+    pattern:
+      /^(?:は|が|を)?(?:ではない|じゃない|ではありません|じゃありません|ではなかった|じゃなかった|不使用|なし|無し|抜き|フリー|使用していません|使っていません|使用しておりません|は入っていません|入っていません|ありません|ない)/,
+  },
+];
+
+// A term the writer is unsure about earlier in the same clause ("not sure if
+// it's halal", "ハラールかどうか分かりません") is neither claimed nor denied
+const HEDGE_BEFORE = new RegExp(
+  String
+    .raw`(?<![\p{L}])(?:not\s+(?:sure|certain|clear)|unsure|uncertain|(?:don't|do not|didn't)\s+know|no idea|wonder(?:ing)?|tidak\s+yakin|kurang\s+yakin|entah)(?![\p{L}])[^.!?;,。！？、]*$`,
+  "iu",
+);
+const HEDGE_AFTER =
+  /^(?:な?の?か(?:どうか)?)(?:は|が)?(?:分かりません|わかりません|分からない|わからない|不明)/;
+
+// A term followed by a question mark in the same sentence is asked about, not
+// claimed. Only an answer right after it ("Halal? No.") makes it a claim.
+const QUESTION = /^[^.!。！\n]*?[?？؟]/;
+const ANSWER_NO =
+  /^\s*(?:no|nope|いいえ|tidak|bukan|لا)(?=\s*(?:[.,!;。、，！]|$))/iu;
+const ANSWER_YES = /^\s*(?:yes|yep|はい|ya|نعم)(?![\p{L}])/iu;
+
+// Terms joined into a list share a negation: "don't serve pork or alcohol",
+// "tanpa babi dan arak", "豚肉やアルコールは使用していません". Only terms of the
+// same kind are joined, so "no pork and halal meat" keeps "halal" positive.
+const LIST_GAP = new RegExp(
+  String
+    .raw`^\s*(?:[,、]\s*)?(?:(?:or|and|nor|atau|dan|serta|maupun)\s+|(?:や|と|及び|および|أو|و)\s*|[・/]\s*)(?:any\s+)?$`,
+  "iu",
+);
+// A bare comma only lists when the list goes on or ends after the term: "no
+// pork, alcohol or lard", but not "no pork, alcohol is served"
+const LIST_COMMA = /^\s*[,、]\s*$/;
+const LIST_END = /^\s*(?:[,、.!;。！]|(?:or|and|nor|atau|dan)(?![\p{L}])|$)/iu;
+
+function isList(text: string, a: HalalClaim, b: HalalClaim): boolean {
+  if (CONCEPT_POLARITY[a.concept] !== CONCEPT_POLARITY[b.concept]) {
+    return false;
+  }
+  const gap = text.slice(a.term.end, b.term.start);
+  return LIST_GAP.test(gap) ||
+    (LIST_COMMA.test(gap) &&
+      (b.span.end > b.term.end || LIST_END.test(text.slice(b.term.end))));
+}
+
+function negate(claim: HalalClaim, whole: TextSpan): void {
+  claim.negated = true;
+  claim.polarity = flip(CONCEPT_POLARITY[claim.concept]);
+  claim.span = whole;
+}
+
+// "halal certificate", "ハラール認証" and "certified halal" are one claim; a
+// negation on either part covers both ("no halal certificate",
+// "ハラール認証はありません")
+const COMPOUND_GAP = /^[\s-]*$/;
+
+function isCompound(text: string, a: HalalClaim, b: HalalClaim): boolean {
+  const concepts = [a.concept, b.concept];
+  return concepts.includes("certified") &&
+    (concepts.includes("halal") || concepts.includes("muslim-friendly")) &&
+    COMPOUND_GAP.test(text.slice(a.term.end, b.term.start));
+}
+
+function flip(polarity: ClaimPolarity): ClaimPolarity {
+  return polarity === "positive" ? "negative" : "positive";
+}
+
+// Latin and Arabic terms must stand alone; Japanese has no word boundaries.
+// Arabic attaches the article and some prepositions to the word ("الخمر"),
+// so they are allowed as a prefix. Group 1 holds the prefix.
+const ARABIC_PREFIX = "(?:وال|بال|فال|لل|ال|و|ب|ل|ف)?";
+
+function termPattern(entry: LexiconEntry): RegExp {
+  const escaped = entry.term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (entry.language === "ja") return new RegExp(`()${escaped}`, "g");
+  const prefix = entry.language === "ar" ? ARABIC_PREFIX : "";
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(${prefix})${escaped}(?![\\p{L}\\p{N}])`,
+    "giu",
+  );
+}
+
+const COMPILED = LEXICON
+  // Longer terms first so "豚肉" wins over "豚" and "muslim-friendly" over parts
+  .sort((a, b) => b.term.length - a.term.length)
+  .map((entry) => ({ entry, pattern: termPattern(entry) }));
+
+function span(text: string, start: number, end: number): TextSpan {
+  return { start, end, text: text.slice(start, end) };
+}
+
+// How far back to look for a negation cue
+const LOOKBEHIND = 40;
+
+/**
+ * Find every halal-related claim in a text, in order of appearance
+ */
+export function detectHalalClaims(text: string): HalalClaim[] {
+  const claims: HalalClaim[] = [];
+  const taken: [number, number][] = [];
+
+  for (const { entry, pattern } of COMPILED) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const start = match.index + match[1].length;
+      const end = match.index + match[0].length;
+      if (taken.some(([s, e]) => start < e && end > s)) continue;
+      taken.push([start, end]);
+
+      let language = entry.language;
+      let claimStart = start;
+      let claimEnd = end;
+      let negated = false;
+
+      const before = text.slice(Math.max(0, start - LOOKBEHIND), start);
+      if (HEDGE_BEFORE.test(before) || HEDGE_AFTER.test(text.slice(end))) {
+        continue;
+      }
+      for (const cue of NEGATION_BEFORE) {
+        const cueMatch = before.match(cue.pattern);
+        if (cueMatch) {
+          negated = true;
+          claimStart = start - cueMatch[0].length;
+          // "halal" is shared by English and Indonesian/Malay; the cue decides
+          if (entry.language === "en") language = cue.language;
+          break;
+        }
+      }
+
+      if (!negated) {
+        const after = text.slice(end);
+        for (const cue of NEGATION_AFTER) {
+          const cueMatch = after.match(cue.pattern);
+          if (cueMatch) {
+            negated = true;
+            claimEnd = end + cueMatch[0].length;
+            break;
+          }
+        }
+      }
+
+      const question = text.slice(claimEnd).match(QUESTION);
+      if (question) {
+        const answerStart = claimEnd + question[0].length;
+        const answer = text.slice(answerStart).match(ANSWER_NO);
+        if (answer) {
+          negated = true;
+          claimEnd = answerStart + answer[0].length;
+        } else if (!ANSWER_YES.test(text.slice(answerStart))) {
+          continue;
+        }
+      }
+
+      const basePolarity = CONCEPT_POLARITY[entry.concept];
+      claims.push({
+        concept: entry.concept,
+        polarity: negated ? flip(basePolarity) : basePolarity,
+        negated,
+        language,
+        span: span(text, claimStart, claimEnd),
+        term: span(text, start, end),
+      });
+    }
+  }
+
+  claims.sort((a, b) => a.term.start - b.term.start);
+
+  for (let i = 0; i < claims.length;) {
+    let j = i + 1;
+    while (j < claims.length && isCompound(text, claims[j - 1], claims[j])) {
+      j++;
+    }
+    const compound = claims.slice(i, j);
+    if (compound.length > 1 && compound.some((claim) => claim.negated)) {
+      const whole = span(
+        text,
+        Math.min(...compound.map((claim) => claim.span.start)),
+        Math.max(...compound.map((claim) => claim.span.end)),
+      );
+      for (const claim of compound) negate(claim, whole);
+    }
+    i = j;
+  }
+
+  // A cue before a list reaches forward ("no pork or alcohol"), a cue after
+  // it reaches back ("豚肉やアルコール不使用")
+  for (let i = 1; i < claims.length; i++) {
+    const [previous, claim] = [claims[i - 1], claims[i]];
+    if (
+      previous.negated && !claim.negated &&
+      previous.span.start < previous.term.start && isList(text, previous, claim)
+    ) {
+      negate(claim, span(text, previous.span.start, claim.span.end));
+    }
+  }
+  for (let i = claims.length - 2; i >= 0; i--) {
+    const [claim, next] = [claims[i], claims[i + 1]];
+    if (
+      next.negated && !claim.negated && next.span.end > next.term.end &&
+      isList(text, claim, next)
+    ) {
+      negate(claim, span(text, claim.span.start, next.span.end));
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Overall reading of a text: does it support or contradict halal status?
+ */
+export function classifyText(text: string): TextVerdict {
+  const claims = detectHalalClaims(text);
+  const positive = claims.some((claim) => claim.polarity === "positive");
+  const negative = claims.some((claim) => claim.polarity === "negative");
+  if (positive && negative) return "mixed";
+  if (positive) return "positive";
+  if (negative) return "negative";
+  return "none";
+}
+
+// Common words that tell Indonesian/Malay apart from English in Latin text
+const ID_MS_WORDS = new Set([
+  "ada",
+  "adalah",
+  "boleh",
+  "bukan",
+  "dan",
+  "dari",
+  "dengan",
+  "di",
+  "enak",
+  "harga",
+  "ini",
+  "itu",
+  "jangan",
+  "juga",
+  "kami",
+  "kedai",
+  "makan",
+  "makanan",
+  "makanannya",
+  "pelayanannya",
+  "saya",
+  "sangat",
+  "sebab",
+  "sedap",
+  "sekali",
+  "sini",
+  "sudah",
+  "tak",
+  "tapi",
+  "tidak",
+  "untuk",
+  "yang",
+]);
+
+const EN_WORDS = new Set([
+  "a",
+  "and",
+  "are",
+  "but",
+  "delicious",
+  "food",
+  "for",
+  "good",
+  "great",
+  "i",
+  "is",
+  "it",
+  "not",
+  "of",
+  "place",
+  "the",
+  "this",
+  "to",
+  "very",
+  "was",
+  "we",
+  "with",
+]);
+
+/**
+ * Best guess at the language of a review; "other" for scripts and languages
+ * the claim lexicon doesn't cover (Korean, Chinese without kana, ...)
+ */
+export function detectLanguage(text: string): Language | "other" {
+  if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)) return "ja";
+  if (/\p{Script=Arabic}/u.test(text)) return "ar";
+
+  const words = text.toLowerCase().match(/\p{Script=Latin}+/gu) || [];
+  if (words.length === 0) return "other";
+  const idMs = words.filter((word) => ID_MS_WORDS.has(word)).length;
+  const en = words.filter((word) => EN_WORDS.has(word)).length;
+  return idMs > en ? "id/ms" : "en";
+}
@@ -0,0 +1,124 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import {
+  classifyText,
+  detectHalalClaims,
+  detectLanguage,
+  type TextVerdict,
+} from "./text-analysis.ts";
+
+interface CorpusEntry {
+  language: string;
+  text: string;
+  expected: TextVerdict;
+  // Evidence span of each claim, in order
+  claims: string[];
+}
+
+const corpus: CorpusEntry[] = JSON.parse(
+  await Deno.readTextFile(
+    new URL("./fixtures/halal-claims-corpus.json", import.meta.url),
+  ),
+);
+
+for (const [i, entry] of corpus.entries()) {
+  Deno.test(`classifyText corpus #${i + 1} (${entry.language}): ${entry.expected}`, () => {
+    assertEquals(classifyText(entry.text), entry.expected, entry.text);
+    assertEquals(
+      detectHalalClaims(entry.text).map((claim) => claim.span.text),
+      entry.claims,
+      entry.text,
+    );
+  });
+}
+
+Deno.test("detectHalalClaims: negation covers a whole compound", () => {
+  const claims = detectHalalClaims("They have no halal certificate.");
+  assertEquals(
+    claims.map(({ concept, polarity, negated, span, term }) => ({
+      concept,
+      polarity,
+      negated,
+      span: [span.start, span.end],
+      term: term.text,
+    })),
+    [
+      {
+        concept: "halal",
+        polarity: "negative",
+        negated: true,
+        span: [10, 30],
+        term: "halal",
+      },
+      {
+        concept: "certified",
+        polarity: "negative",
+        negated: true,
+        span: [10, 30],
+        term: "certificate",
+      },
+    ],
+  );
+});
+
+Deno.test("detectHalalClaims: questions only count when answered", () => {
+  assertEquals(detectHalalClaims("Is this place halal?"), []);
+  assertEquals(detectHalalClaims("ハラールですか？"), []);
+  const [answered] = detectHalalClaims("Halal? No.");
+  assertEquals(answered.span, { start: 0, end: 9, text: "Halal? No" });
+  assertEquals(answered.polarity, "negative");
+  assertEquals(
+    detectHalalClaims("Halal? Yes, they showed us.").map((claim) =>
+      claim.polarity
+    ),
+    ["positive"],
+  );
+});
+
+Deno.test("detectHalalClaims: a negation carries across a list", () => {
+  const polarities = (text: string) =>
+    detectHalalClaims(text).map(({ concept, polarity }) =>
+      `${concept}:${polarity}`
+    );
+  assertEquals(polarities("No pork, alcohol or lard."), [
+    "pork:positive",
+    "alcohol:positive",
+    "pork:positive",
+  ]);
+  assertEquals(polarities("بدون خنزير أو كحول"), [
+    "pork:positive",
+    "alcohol:positive",
+  ]);
+  // Not a list: the comma ends the negated phrase, or the terms differ
+  assertEquals(polarities("No pork, alcohol is served though."), [
+    "pork:positive",
+    "alcohol:negative",
+  ]);
+  assertEquals(polarities("No pork and halal meat."), [
+    "pork:positive",
+    "halal:positive",
+  ]);
+  assertEquals(polarities("They don't have pork and serve beer."), [
+    "pork:positive",
+    "alcohol:negative",
+  ]);
+});
+
+Deno.test("detectHalalClaims: hedged terms are no claim", () => {
+  assertEquals(detectHalalClaims("I don't know whether the meat is halal"), []);
+  assertEquals(detectHalalClaims("Tidak yakin apakah halal."), []);
+  // The hedge stays in its clause
+  assertEquals(
+    detectHalalClaims("Not sure about parking, but it's halal.").map((claim) =>
+      claim.polarity
+    ),
+    ["positive"],
+  );
+});
+
+Deno.test("detectLanguage: every corpus sentence", () => {
+  for (const entry of corpus) {
+    assertEquals(detectLanguage(entry.text), entry.language, entry.text);
+  }
+  assertEquals(detectLanguage("할랄 음식이 맛있어요"), "other");
+  assertEquals(detectLanguage("清真拉面很好吃"), "other");
+});
@@ -0,0 +1,197 @@
+/**
+ * Place density per ward for the map's choropleth
+ * Counts come from the district summaries of batch runs: each ward takes its
+ * latest run, and within that run the best search among the campaign's query
+ * templates. A search counts the places inside the ward (placesInDistrict);
+ * runs from before ward outlines only have every place the query returned.
+ * Such a count, or one from a search that hit its result cap (or didn't
+ * record whether it did), is only a lower bound: it is given as
+ * minPlacesPerKm2 and left out of placesPerKm2. Areas are the official ones
+ * the outlines carry. The catalog's own count and average halal score per
+ * ward sit alongside.
+ */
+
+import type { WardBoundary } from "../scraper/geo.ts";
+import type { RunRecord } from "../scraper/storage.ts";
+import type { CatalogPlace } from "./catalog.ts";
+
+export const WARD_DENSITY_PATH = "./data/ward-density.geojson";
+
+// Campaign city the ward outlines belong to; other cities reuse ward names
+const CITY_ID = "tokyo";
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LNG_AT_EQUATOR = 111.32;
+
+export interface WardDensity {
+  name: string;
+  nameJa?: string;
+  areaKm2: number;
+  // Latest run whose summary covers the ward
+  runId?: string;
+  scrapedAt?: string;
+  reportedPlaces?: number;
+  // false when reportedPlaces counts everything the query returned
+  insideWard?: boolean;
+  // A search filled its result cap, or didn't record whether it did
+  capped?: boolean;
+  // Only when reportedPlaces is a full count of the ward's places
+  placesPerKm2?: number;
+  // Instead of placesPerKm2 when reportedPlaces may undercount
+  minPlacesPerKm2?: number;
+  catalogPlaces: number;
+  averageHalalScore: number | null;
+}
+
+interface DistrictSummary {
+  name?: string;
+  city?: string;
+  status?: string;
+  placesFound?: number;
+  placesInDistrict?: number;
+  capped?: boolean;
+}
+
+type Ring = [number, number][];
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Area of a lng/lat ring in km², on a plane scaled at the ring's latitude;
+ * close enough at ward size
+ */
+function ringAreaKm2(ring: Ring): number {
+  const midLat = ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length;
+  const kmX = KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos(midLat * Math.PI / 180);
+  let twiceArea = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    twiceArea += ring[j][0] * kmX * ring[i][1] * KM_PER_DEGREE_LAT -
+      ring[i][0] * kmX * ring[j][1] * KM_PER_DEGREE_LAT;
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+export function wardAreaKm2(ward: WardBoundary): number {
+  return ward.polygons.reduce(
+    (sum, [outer, ...holes]) =>
+      sum + ringAreaKm2(outer) -
+      holes.reduce((total, hole) => total + ringAreaKm2(hole), 0),
+    0,
+  );
+}
+
+interface Coverage {
+  places: number;
+  insideWard: boolean;
+  capped: boolean;
+}
+
+/**
+ * Density per ward, in the order of the outlines
+ */
+export function wardDensities(
+  wards: WardBoundary[],
+  runs: RunRecord[],
+  places: CatalogPlace[],
+): WardDensity[] {
+  const byName = new Map<string, WardBoundary>();
+  for (const ward of wards) {
+    byName.set(ward.name.toLowerCase(), ward);
+    if (ward.nameJa) byName.set(ward.nameJa, ward);
+  }
+
+  // Later runs replace earlier ones ward by ward
+  const reported = new Map<
+    string,
+    Coverage & { runId: string; scrapedAt?: string }
+  >();
+  const ordered = [...runs].sort((a, b) =>
+    a.startedAt.localeCompare(b.startedAt)
+  );
+  for (const run of ordered) {
+    if (run.mode !== "batch") continue;
+    const districts = run.summary.districts;
+    if (!Array.isArray(districts)) continue;
+
+    const inRun = new Map<string, Coverage>();
+    for (const district of districts as DistrictSummary[]) {
+      if (district.status !== "success" || !district.name) continue;
+      if (district.city && district.city !== CITY_ID) continue;
+      const ward = byName.get(district.name.toLowerCase()) ??
+        byName.get(district.name);
+      if (!ward) continue;
+
+      const insideWard = district.placesInDistrict !== undefined;
+      const count = district.placesInDistrict ?? district.placesFound ?? 0;
+      const previous = inRun.get(ward.name);
+      inRun.set(ward.name, {
+        places: Math.max(previous?.places ?? 0, count),
+        insideWard: (previous?.insideWard ?? true) && insideWard,
+        capped: (previous?.capped ?? false) || district.capped !== false,
+      });
+    }
+
+    for (const [name, coverage] of inRun) {
+      reported.set(name, {
+        runId: run.runId,
+        scrapedAt: (run.summary.scrapedAt as string | undefined) ??
+          run.startedAt,
+        ...coverage,
+      });
+    }
+  }
+
+  return wards.map((ward) => {
+    const inWard = places.filter((place) => place.ward === ward.name);
+    const scores = inWard.flatMap((place) =>
+      place.halalScore ? [place.halalScore.score] : []
+    );
+    const areaKm2 = ward.areaKm2 ?? wardAreaKm2(ward);
+    const coverage = reported.get(ward.name);
+    const density = coverage && areaKm2 > 0
+      ? round(coverage.places / areaKm2, 2)
+      : undefined;
+    const complete = coverage?.insideWard && !coverage.capped;
+
+    return {
+      name: ward.name,
+      nameJa: ward.nameJa,
+      areaKm2: round(areaKm2, 2),
+      runId: coverage?.runId,
+      scrapedAt: coverage?.scrapedAt,
+      reportedPlaces: coverage?.places,
+      insideWard: coverage?.insideWard,
+      capped: coverage?.capped,
+      placesPerKm2: complete ? density : undefined,
+      minPlacesPerKm2: complete ? undefined : density,
+      catalogPlaces: inWard.length,
+      averageHalalScore: scores.length > 0
+        ? round(
+          scores.reduce((sum, score) => sum + score, 0) / scores.length,
+          1,
+        )
+        : null,
+    };
+  });
+}
+
+/**
+ * Ward outlines as a GeoJSON FeatureCollection with the density as
+ * properties
+ */
+export function wardDensityGeoJson(
+  wards: WardBoundary[],
+  densities: WardDensity[],
+) {
+  const byName = new Map(densities.map((density) => [density.name, density]));
+  return {
+    type: "FeatureCollection",
+    features: wards.map((ward) => ({
+      type: "Feature",
+      properties: byName.get(ward.name) ?? { name: ward.name },
+      geometry: { type: "MultiPolygon", coordinates: ward.polygons },
+    })),
+  };
+}
@@ -0,0 +1,184 @@
+import { assertAlmostEquals, assertEquals } from "jsr:@std/assert@1.0.8";
+import type { WardBoundary } from "../scraper/geo.ts";
+import type { RunRecord } from "../scraper/storage.ts";
+import type { CatalogPlace } from "./catalog.ts";
+import { wardAreaKm2, wardDensities } from "./ward-density.ts";
+
+// 0.01° squares near Tokyo: about 1.00 km by 1.11 km
+function square(lng: number, lat: number): [number, number][][] {
+  return [[
+    [lng, lat],
+    [lng + 0.01, lat],
+    [lng + 0.01, lat + 0.01],
+    [lng, lat + 0.01],
+    [lng, lat],
+  ]];
+}
+
+const WARDS: WardBoundary[] = [
+  { name: "Shinjuku", nameJa: "新宿区", polygons: [square(139.70, 35.69)] },
+  { name: "Chuo", nameJa: "中央区", polygons: [square(139.77, 35.67)] },
+];
+
+function run(
+  runId: string,
+  startedAt: string,
+  districts: Record<string, unknown>[],
+): RunRecord {
+  return {
+    runId,
+    mode: "batch",
+    startedAt,
+    summary: { scrapedAt: startedAt, districts },
+  };
+}
+
+function place(ward: string, score: number): CatalogPlace {
+  return {
+    placeId: `${ward}-${score}`,
+    name: "Place",
+    url: "https://maps.google.com",
+    ward,
+    districts: [ward],
+    queries: [],
+    runs: [],
+    firstSeenAt: "",
+    lastSeenAt: "",
+    halalScore: { score, baseScore: 0, signals: [] },
+  };
+}
+
+Deno.test("wardAreaKm2: planar area at the ward's latitude", () => {
+  assertAlmostEquals(wardAreaKm2(WARDS[0]), 1.0, 0.02);
+});
+
+Deno.test("wardDensities: latest run per ward, best template per run", () => {
+  const runs = [
+    // Newer run, two templates for Shinjuku; only Shinjuku was searched
+    run("2026-02-01-10-00", "2026-02-01T10:00:00.000Z", [
+      {
+        name: "Shinjuku",
+        city: "tokyo",
+        status: "success",
+        placesFound: 40,
+        placesInDistrict: 12,
+        capped: false,
+      },
+      {
+        name: "Shinjuku",
+        city: "tokyo",
+        status: "success",
+        placesFound: 30,
+        placesInDistrict: 18,
+        capped: false,
+      },
+      // Osaka's Chuo is not Tokyo's
+      {
+        name: "Chuo",
+        city: "osaka",
+        status: "success",
+        placesFound: 99,
+        placesInDistrict: 99,
+      },
+    ]),
+    // Older run, from before placesInDistrict
+    run("2026-01-06-16-44", "2026-01-06T16:44:00.000Z", [
+      { name: "Shinjuku", status: "success", placesFound: 50 },
+      { name: "Chuo", status: "success", placesFound: 20 },
+      { name: "Unknown Ward", status: "success", placesFound: 5 },
+    ]),
+    run("2026-03-01-10-00", "2026-03-01T10:00:00.000Z", [
+      { name: "Chuo", city: "tokyo", status: "error", placesFound: 0 },
+    ]),
+  ];
+  const places = [
+    place("Shinjuku", 60),
+    place("Shinjuku", 41),
+    place("Chuo", 30),
+  ];
+
+  const [shinjuku, chuo] = wardDensities(WARDS, runs, places);
+  assertEquals(shinjuku.runId, "2026-02-01-10-00");
+  assertEquals(shinjuku.reportedPlaces, 18);
+  assertEquals(shinjuku.insideWard, true);
+  assertEquals(shinjuku.capped, false);
+  assertAlmostEquals(shinjuku.placesPerKm2!, 18, 0.5);
+  assertEquals(shinjuku.minPlacesPerKm2, undefined);
+  assertEquals(shinjuku.catalogPlaces, 2);
+  assertEquals(shinjuku.averageHalalScore, 50.5);
+
+  // The failed search in the newest run doesn't replace the older count
+  assertEquals(chuo.runId, "2026-01-06-16-44");
+  assertEquals(chuo.reportedPlaces, 20);
+  assertEquals(chuo.insideWard, false);
+  // Every place the query returned is no count of the ward's own
+  assertEquals(chuo.placesPerKm2, undefined);
+  assertAlmostEquals(chuo.minPlacesPerKm2!, 20, 0.5);
+});
+
+Deno.test("wardDensities: a capped search is only a lower bound", () => {
+  const runs = [
+    run("2026-02-01-10-00", "2026-02-01T10:00:00.000Z", [
+      {
+        name: "Shinjuku",
+        city: "tokyo",
+        status: "success",
+        placesFound: 10,
+        placesInDistrict: 8,
+        capped: false,
+      },
+      {
+        name: "Shinjuku",
+        city: "tokyo",
+        status: "success",
+        placesFound: 52,
+        placesInDistrict: 40,
+        capped: true,
+      },
+      // No cap recorded
+      {
+        name: "Chuo",
+        city: "tokyo",
+        status: "success",
+        placesFound: 20,
+        placesInDistrict: 15,
+      },
+    ]),
+  ];
+
+  const [shinjuku, chuo] = wardDensities(WARDS, runs, []);
+  assertEquals(shinjuku.reportedPlaces, 40);
+  assertEquals(shinjuku.capped, true);
+  assertEquals(shinjuku.placesPerKm2, undefined);
+  assertAlmostEquals(shinjuku.minPlacesPerKm2!, 40, 1);
+  assertEquals(chuo.capped, true);
+  assertEquals(chuo.placesPerKm2, undefined);
+});
+
+Deno.test("wardDensities: the official area wins over the outline's", () => {
+  const wards = [{ ...WARDS[0], areaKm2: 18.22 }];
+  const runs = [
+    run("2026-02-01-10-00", "2026-02-01T10:00:00.000Z", [
+      {
+        name: "Shinjuku",
+        city: "tokyo",
+        status: "success",
+        placesFound: 40,
+        placesInDistrict: 36,
+        capped: false,
+      },
+    ]),
+  ];
+
+  const [shinjuku] = wardDensities(wards, runs, []);
+  assertEquals(shinjuku.areaKm2, 18.22);
+  assertEquals(shinjuku.placesPerKm2, 1.98);
+});
+
+Deno.test("wardDensities: wards no run covered keep their catalog count", () => {
+  const [shinjuku] = wardDensities(WARDS, [], [place("Shinjuku", 70)]);
+  assertEquals(shinjuku.reportedPlaces, undefined);
+  assertEquals(shinjuku.placesPerKm2, undefined);
+  assertEquals(shinjuku.catalogPlaces, 1);
+  assertEquals(shinjuku.averageHalalScore, 70);
+});
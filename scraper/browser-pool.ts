@@ -0,0 +1,106 @@
+/**
+ * Worker pool sharing one browser between several scrapers
+ * Each worker owns an isolated browser context that is reused from task to
+ * task and recycled after a failure. If the browser itself dies it is
+ * relaunched for the next context.
+ */
+
+import type { Browser } from "npm:puppeteer@23.11.1";
+import { GoogleMapsScraper } from "./maps-scraper.ts";
+
+export interface PoolWorker {
+  id: number;
+  scraper: GoogleMapsScraper;
+  // Replace the worker's context with a fresh one
+  recycle(): Promise<void>;
+}
+
+export class BrowserPool {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private workers: PoolWorker[] = [];
+  private stopped = false;
+
+  constructor(
+    private readonly size: number,
+    private readonly headless = true,
+    private readonly slowMo = 50,
+  ) {}
+
+  private getBrowser(): Promise<Browser> {
+    if (this.browser?.connected) return Promise.resolve(this.browser);
+
+    // Workers recycling at the same time share one relaunch
+    this.launching ??= GoogleMapsScraper.launchBrowser(
+      this.headless,
+      this.slowMo,
+    ).then((browser) => {
+      this.browser = browser;
+      this.launching = null;
+      return browser;
+    }, (error) => {
+      this.launching = null;
+      throw error;
+    });
+    return this.launching;
+  }
+
+  // Tests swap in scrapers that never open a page
+  protected async createScraper(): Promise<GoogleMapsScraper> {
+    const scraper = new GoogleMapsScraper();
+    await scraper.initializeInContext(await this.getBrowser());
+    return scraper;
+  }
+
+  /**
+   * Run handler over every task with `size` workers; tasks are handed out in
+   * order. The handler does its own retries and error reporting.
+   */
+  async run<T>(
+    tasks: T[],
+    handler: (task: T, worker: PoolWorker) => Promise<void>,
+  ): Promise<void> {
+    console.log(`🚀 Launching browser with ${this.size} worker(s)...`);
+    let next = 0;
+
+    const work = async (id: number) => {
+      const worker: PoolWorker = {
+        id,
+        scraper: await this.createScraper(),
+        recycle: async () => {
+          await worker.scraper.close().catch(() => {});
+          worker.scraper = await this.createScraper();
+        },
+      };
+      this.workers.push(worker);
+
+      while (!this.stopped && next < tasks.length) {
+        await handler(tasks[next++], worker);
+      }
+
+      await worker.scraper.close().catch(() => {});
+    };
+
+    await Promise.all(
+      Array.from(
+        { length: Math.min(this.size, tasks.length) },
+        (_, id) => work(id + 1),
+      ),
+    );
+  }
+
+  /**
+   * Stop handing out tasks and close the browser
+   */
+  async close(): Promise<void> {
+    this.stopped = true;
+    await Promise.all(
+      this.workers.map((worker) => worker.scraper.close().catch(() => {})),
+    );
+    this.workers = [];
+    if (this.browser) {
+      await this.browser.close();
+      this.browser = null;
+    }
+  }
+}
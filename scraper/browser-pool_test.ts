@@ -0,0 +1,79 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import { BrowserPool } from "./browser-pool.ts";
+import { GoogleMapsScraper } from "./maps-scraper.ts";
+
+/**
+ * A pool whose scrapers never launch Chrome
+ */
+class OfflinePool extends BrowserPool {
+  created = 0;
+
+  protected override createScraper(): Promise<GoogleMapsScraper> {
+    this.created++;
+    return Promise.resolve(new GoogleMapsScraper());
+  }
+}
+
+function tick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 1));
+}
+
+Deno.test("BrowserPool: no more searches at once than workers", async () => {
+  const pool = new OfflinePool(3);
+  const tasks = Array.from({ length: 10 }, (_, i) => i);
+  const handled: number[] = [];
+  const workers = new Set<number>();
+  let running = 0;
+  let peak = 0;
+
+  await pool.run(tasks, async (task, worker) => {
+    running++;
+    peak = Math.max(peak, running);
+    workers.add(worker.id);
+    await tick();
+    handled.push(task);
+    running--;
+  });
+  await pool.close();
+
+  assertEquals(pool.created, 3);
+  assertEquals(peak, 3);
+  assertEquals([...workers].sort(), [1, 2, 3]);
+  assertEquals(handled.sort((a, b) => a - b), tasks);
+});
+
+Deno.test("BrowserPool: no idle workers for a short list", async () => {
+  const pool = new OfflinePool(4);
+  const workers: number[] = [];
+  await pool.run(["a", "b"], async (_, worker) => {
+    workers.push(worker.id);
+    await tick();
+  });
+  await pool.close();
+
+  assertEquals(pool.created, 2);
+  assertEquals(workers.sort(), [1, 2]);
+});
+
+Deno.test("BrowserPool: close stops handing out tasks", async () => {
+  const pool = new OfflinePool(1);
+  const handled: number[] = [];
+  await pool.run([0, 1, 2, 3, 4], async (task) => {
+    handled.push(task);
+    if (task === 2) await pool.close();
+  });
+
+  assertEquals(handled, [0, 1, 2]);
+});
+
+Deno.test("BrowserPool: recycle gives the worker a new scraper", async () => {
+  const pool = new OfflinePool(1);
+  await pool.run([0], async (_, worker) => {
+    const before = worker.scraper;
+    await worker.recycle();
+    assertEquals(worker.scraper === before, false);
+  });
+  await pool.close();
+
+  assertEquals(pool.created, 2);
+});
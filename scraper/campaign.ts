@@ -0,0 +1,239 @@
+/**
+ * Declarative batch campaigns
+ * A campaign file lists cities with their areas, query templates, max results
+ * and pacing. The batch runner expands it into one search per
+ * (city, area, template), e.g. config/campaigns/tokyo-halal.json
+ */
+
+export const CAMPAIGNS_DIR = "./config/campaigns";
+export const DEFAULT_CAMPAIGN_PATH = `${CAMPAIGNS_DIR}/tokyo-halal.json`;
+
+const DEFAULT_FILE_PATTERN = "places-{area}-{city}-{template}.json";
+
+export interface CampaignTemplate {
+  id: string;
+  // Placeholders: {area}, {city}
+  query: string;
+  // Output file name; placeholders {area}, {city}, {template} are slugified
+  file?: string;
+}
+
+export interface CampaignCity {
+  id: string;
+  name: string;
+  areas: string[];
+  // GeoJSON outlines of the areas, used to count places really inside one
+  boundaries?: string;
+}
+
+export interface CampaignPacing {
+  // Browser contexts searching in parallel
+  concurrency: number;
+  // Page loads per minute across all workers
+  requestsPerMinute: number;
+  // Random jitter added to every page load, [min, max] milliseconds
+  delayMs: [number, number];
+  // Random wait between retries of a failed search
+  retryDelayMs: [number, number];
+  // Global pause when Google throttles: first pause and cap, milliseconds
+  backoffMs: [number, number];
+  maxRetries: number;
+  // Puppeteer slowMo
+  slowMo: number;
+}
+
+export interface Campaign {
+  name: string;
+  description?: string;
+  maxResults: number;
+  pacing: CampaignPacing;
+  templates: CampaignTemplate[];
+  cities: CampaignCity[];
+}
+
+export interface CampaignTask {
+  city: CampaignCity;
+  area: string;
+  template: CampaignTemplate;
+  query: string;
+  file: string;
+}
+
+const DEFAULT_PACING: CampaignPacing = {
+  concurrency: 1,
+  requestsPerMinute: 12,
+  delayMs: [3000, 5000],
+  retryDelayMs: [5000, 8000],
+  backoffMs: [30000, 300000],
+  maxRetries: 3,
+  slowMo: 50,
+};
+
+export class CampaignError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CampaignError";
+  }
+}
+
+/**
+ * Lowercase, ASCII-safe token for file names; "Shin-Okubo" -> "shin-okubo"
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function fillTemplate(
+  pattern: string,
+  values: Record<string, string>,
+): string {
+  return pattern.replace(
+    /\{(\w+)\}/g,
+    (placeholder, key: string) => values[key] ?? placeholder,
+  );
+}
+
+function isRange(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 &&
+    value.every((n) => typeof n === "number" && n >= 0) &&
+    value[0] <= value[1];
+}
+
+function isCount(value: unknown, min: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min;
+}
+
+/**
+ * Check a parsed campaign file and fill in default pacing
+ */
+export function validateCampaign(data: unknown): Campaign {
+  const campaign = data as Partial<Campaign>;
+  const problems: string[] = [];
+
+  if (!campaign || typeof campaign !== "object") {
+    throw new CampaignError("Campaign must be a JSON object");
+  }
+  if (typeof campaign.name !== "string" || !campaign.name) {
+    problems.push("name is required");
+  }
+  if (
+    typeof campaign.maxResults !== "number" || campaign.maxResults < 1
+  ) {
+    problems.push("maxResults must be a positive number");
+  }
+  if (!Array.isArray(campaign.templates) || campaign.templates.length === 0) {
+    problems.push("templates must list at least one query template");
+  } else {
+    const ids = new Set<string>();
+    for (const template of campaign.templates) {
+      if (!template?.id || !template.query) {
+        problems.push("every template needs an id and a query");
+        continue;
+      }
+      if (ids.has(template.id)) {
+        problems.push(`duplicate template id: ${template.id}`);
+      }
+      ids.add(template.id);
+    }
+  }
+  if (!Array.isArray(campaign.cities) || campaign.cities.length === 0) {
+    problems.push("cities must list at least one city");
+  } else {
+    for (const city of campaign.cities) {
+      if (!city?.id || !city.name) {
+        problems.push("every city needs an id and a name");
+        if (!city) continue;
+      }
+      if (!Array.isArray(city.areas) || city.areas.length === 0) {
+        problems.push(`city ${city.id} must list at least one area`);
+      }
+    }
+  }
+
+  const pacing = { ...DEFAULT_PACING, ...campaign.pacing };
+  if (!isRange(pacing.delayMs)) {
+    problems.push("pacing.delayMs must be [min, max]");
+  }
+  if (!isRange(pacing.retryDelayMs)) {
+    problems.push("pacing.retryDelayMs must be [min, max]");
+  }
+  if (!isRange(pacing.backoffMs)) {
+    problems.push("pacing.backoffMs must be [min, max]");
+  }
+  if (!isCount(pacing.concurrency, 1)) {
+    problems.push("pacing.concurrency must be a whole number, at least 1");
+  }
+  if (
+    typeof pacing.requestsPerMinute !== "number" ||
+    pacing.requestsPerMinute <= 0
+  ) {
+    problems.push("pacing.requestsPerMinute must be positive");
+  }
+  if (!isCount(pacing.maxRetries, 1)) {
+    problems.push("pacing.maxRetries must be a whole number, at least 1");
+  }
+
+  if (problems.length > 0) {
+    throw new CampaignError(`Invalid campaign: ${problems.join("; ")}`);
+  }
+
+  return { ...campaign, pacing } as Campaign;
+}
+
+export async function loadCampaign(
+  path = DEFAULT_CAMPAIGN_PATH,
+): Promise<Campaign> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new CampaignError(
+      `Cannot read campaign ${path}: ${(error as Error).message}`,
+    );
+  }
+  return validateCampaign(data);
+}
+
+/**
+ * One search per city, area and template, in file order
+ */
+export function expandCampaign(campaign: Campaign): CampaignTask[] {
+  const tasks: CampaignTask[] = [];
+  const files = new Set<string>();
+
+  for (const city of campaign.cities) {
+    for (const area of city.areas) {
+      for (const template of campaign.templates) {
+        const file = fillTemplate(template.file || DEFAULT_FILE_PATTERN, {
+          area: slugify(area),
+          city: slugify(city.id),
+          template: slugify(template.id),
+        });
+        if (files.has(file)) {
+          throw new CampaignError(
+            `Two searches would write ${file}; add {template} to the file pattern`,
+          );
+        }
+        files.add(file);
+
+        tasks.push({
+          city,
+          area,
+          template,
+          query: fillTemplate(template.query, { area, city: city.name }),
+          file,
+        });
+      }
+    }
+  }
+
+  return tasks;
+}
+
+export function randomDelay([min, max]: [number, number]): number {
+  return min + Math.floor(Math.random() * (max - min));
+}
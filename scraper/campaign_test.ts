@@ -0,0 +1,185 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.8";
+import {
+  type Campaign,
+  CampaignError,
+  CAMPAIGNS_DIR,
+  expandCampaign,
+  loadCampaign,
+  slugify,
+  validateCampaign,
+} from "./campaign.ts";
+
+function campaign(fields: Record<string, unknown> = {}): unknown {
+  return {
+    name: "test",
+    maxResults: 20,
+    templates: [
+      { id: "halal", query: "halal restaurants {area} {city} japan" },
+      {
+        id: "mosque",
+        query: "mosque near {area}",
+        file: "mosques-{area}.json",
+      },
+    ],
+    cities: [
+      { id: "tokyo", name: "Tokyo", areas: ["Shibuya", "Shin-Okubo"] },
+      { id: "osaka", name: "Osaka", areas: ["Namba"] },
+    ],
+    ...fields,
+  };
+}
+
+function problems(data: unknown): string {
+  return assertThrows(() => validateCampaign(data), CampaignError).message;
+}
+
+Deno.test("slugify: file-safe tokens", () => {
+  assertEquals(slugify("Shin-Okubo"), "shin-okubo");
+  assertEquals(slugify("  Halal / Ramen! "), "halal-ramen");
+  assertEquals(slugify("新宿区"), "新宿区");
+  assertEquals(slugify("ＴＯＫＹＯ"), "tokyo");
+});
+
+Deno.test("validateCampaign: default pacing fills the gaps", () => {
+  const valid = validateCampaign(campaign({ pacing: { concurrency: 2 } }));
+  assertEquals(valid.pacing.concurrency, 2);
+  assertEquals(valid.pacing.requestsPerMinute, 12);
+  assertEquals(valid.pacing.delayMs, [3000, 5000]);
+  assertEquals(valid.pacing.maxRetries, 3);
+});
+
+Deno.test("validateCampaign: every problem is reported at once", () => {
+  assertEquals(
+    problems({
+      maxResults: 0,
+      templates: [
+        { id: "halal", query: "halal {area}" },
+        { id: "halal", query: "halal food {area}" },
+        { query: "no id" },
+        null,
+      ],
+      cities: [{ id: "tokyo", name: "Tokyo", areas: [] }, { areas: ["X"] }],
+      pacing: {
+        concurrency: 0,
+        requestsPerMinute: "15",
+        delayMs: [5000, 3000],
+        retryDelayMs: [1],
+        backoffMs: [-1, 10],
+        maxRetries: 1.5,
+      },
+    }),
+    "Invalid campaign: " + [
+      "name is required",
+      "maxResults must be a positive number",
+      "duplicate template id: halal",
+      "every template needs an id and a query",
+      "every template needs an id and a query",
+      "city tokyo must list at least one area",
+      "every city needs an id and a name",
+      "pacing.delayMs must be [min, max]",
+      "pacing.retryDelayMs must be [min, max]",
+      "pacing.backoffMs must be [min, max]",
+      "pacing.concurrency must be a whole number, at least 1",
+      "pacing.requestsPerMinute must be positive",
+      "pacing.maxRetries must be a whole number, at least 1",
+    ].join("; "),
+  );
+});
+
+Deno.test("validateCampaign: missing lists and non-objects", () => {
+  assertEquals(
+    problems(campaign({ templates: [], cities: "tokyo" })),
+    "Invalid campaign: templates must list at least one query template; " +
+      "cities must list at least one city",
+  );
+  assertEquals(
+    problems(campaign({ cities: [null] })),
+    "Invalid campaign: every city needs an id and a name",
+  );
+  assertEquals(problems(null), "Campaign must be a JSON object");
+  assertEquals(problems("tokyo"), "Campaign must be a JSON object");
+});
+
+Deno.test("expandCampaign: one search per city, area and template", () => {
+  const tasks = expandCampaign(validateCampaign(campaign()));
+  assertEquals(
+    tasks.map((task) => [task.city.id, task.area, task.query, task.file]),
+    [
+      [
+        "tokyo",
+        "Shibuya",
+        "halal restaurants Shibuya Tokyo japan",
+        "places-shibuya-tokyo-halal.json",
+      ],
+      ["tokyo", "Shibuya", "mosque near Shibuya", "mosques-shibuya.json"],
+      [
+        "tokyo",
+        "Shin-Okubo",
+        "halal restaurants Shin-Okubo Tokyo japan",
+        "places-shin-okubo-tokyo-halal.json",
+      ],
+      [
+        "tokyo",
+        "Shin-Okubo",
+        "mosque near Shin-Okubo",
+        "mosques-shin-okubo.json",
+      ],
+      [
+        "osaka",
+        "Namba",
+        "halal restaurants Namba Osaka japan",
+        "places-namba-osaka-halal.json",
+      ],
+      ["osaka", "Namba", "mosque near Namba", "mosques-namba.json"],
+    ],
+  );
+  assertEquals(tasks[0].template.id, "halal");
+});
+
+Deno.test("expandCampaign: two searches can't share a file", () => {
+  const clash = validateCampaign(campaign({
+    templates: [
+      { id: "a", query: "halal {area}", file: "places-{area}.json" },
+      { id: "b", query: "halal food {area}", file: "places-{area}.json" },
+    ],
+  }));
+  assertThrows(
+    () => expandCampaign(clash),
+    CampaignError,
+    "Two searches would write places-shibuya.json",
+  );
+});
+
+Deno.test("loadCampaign: bundled campaigns expand cleanly", async () => {
+  const expected: Record<string, number> = {
+    "tokyo-halal.json": 23,
+    "japan-cities.json": 95,
+  };
+  for (const [file, searches] of Object.entries(expected)) {
+    const loaded: Campaign = await loadCampaign(
+      new URL(`../${CAMPAIGNS_DIR}/${file}`, import.meta.url).pathname,
+    );
+    assertEquals(expandCampaign(loaded).length, searches, file);
+  }
+});
+
+Deno.test("loadCampaign: unreadable files are campaign errors", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/broken.json`, "{");
+    await Deno.writeTextFile(`${dir}/invalid.json`, "{}");
+    for (const name of ["broken.json", "missing.json"]) {
+      const error = await loadCampaign(`${dir}/${name}`).catch((e) => e);
+      assertEquals(error instanceof CampaignError, true, name);
+      assertEquals(
+        error.message.startsWith(`Cannot read campaign ${dir}/${name}`),
+        true,
+      );
+    }
+    const invalid = await loadCampaign(`${dir}/invalid.json`).catch((e) => e);
+    assertEquals(invalid instanceof CampaignError, true);
+    assertEquals(invalid.message.startsWith("Invalid campaign: "), true);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,188 @@
+/**
+ * Parsing rules for Google Maps search result cards
+ * The browser side only collects the card's visible text lines and ARIA
+ * labels; everything else happens here so the rules can run without a page
+ */
+
+import type { OpenStatus, ScrapedPlace } from "./storage.ts";
+
+export interface RawResultCard {
+  url: string;
+  name: string;
+  // Visible text of the card, one entry per rendered line (innerText)
+  lines: string[];
+  // aria-label values found inside the card
+  labels: string[];
+}
+
+export type ParsedCard = Pick<
+  ScrapedPlace,
+  | "rating"
+  | "totalReviews"
+  | "category"
+  | "priceLevel"
+  | "address"
+  | "openStatus"
+  | "openStatusText"
+  | "tags"
+>;
+
+const RATING_LINE = /^(\d(?:[.,]\d)?)\s*(?:\(([\d,.]+)\))?\s*(?:·|$)/;
+const NO_REVIEWS_LINE = /^No reviews/i;
+const PRICE_TOKEN =
+  /^(?:[¥$€£₩]{1,4}|[¥$€£₩]\s?[\d,]+(?:\s?[–-]\s?[¥$€£₩]?\s?[\d,]+|\+)?)$/;
+const STATUS_PREFIXES: [RegExp, OpenStatus][] = [
+  [/^Permanently closed/i, "permanently_closed"],
+  [/^Temporarily closed/i, "temporarily_closed"],
+  [/^Closes soon/i, "closing_soon"],
+  [/^Opens soon/i, "opening_soon"],
+  [/^Open 24 hours/i, "open"],
+  [/^Open\b/i, "open"],
+  [/^Closed\b/i, "closed"],
+];
+// Cards show a review snippet or an ad marker on some lines; neither is data
+const IGNORED_LINE = /^(?:["“「]|Sponsored$|Ad$)/;
+// Tags are short labels such as "Halal", "Dine-in" or "Vegan options"
+const MAX_TAG_LENGTH = 30;
+
+function splitParts(line: string): string[] {
+  return line
+    .split("·")
+    // Google renders icon glyphs (e.g. wheelchair) as private-use characters
+    .map((part) => part.replace(/[\uE000-\uF8FF]/g, "").trim())
+    .filter((part) => part.length > 0);
+}
+
+function parseNumber(text: string): number {
+  return parseInt(text.replace(/[,.]/g, ""));
+}
+
+export function parseOpenStatus(line: string): OpenStatus | undefined {
+  const match = STATUS_PREFIXES.find(([pattern]) => pattern.test(line));
+  return match ? match[1] : undefined;
+}
+
+export function isPriceToken(text: string): boolean {
+  return PRICE_TOKEN.test(text.replace(/\s+/g, ""));
+}
+
+function parseLabels(
+  labels: string[],
+): Pick<ParsedCard, "rating" | "totalReviews"> {
+  let rating: number | undefined;
+  let totalReviews: number | undefined;
+
+  for (const label of labels) {
+    const ratingMatch = label.match(/([\d.]+)\s+stars?/);
+    if (ratingMatch && rating === undefined) {
+      rating = parseFloat(ratingMatch[1]);
+    }
+    const reviewMatch = label.match(/([\d,]+)\s+reviews?/i);
+    if (reviewMatch && totalReviews === undefined) {
+      totalReviews = parseNumber(reviewMatch[1]);
+    }
+  }
+
+  return { rating, totalReviews };
+}
+
+/**
+ * Turn a card's text lines into typed fields. Lines are expected in the order
+ * Google renders them: name, rating (optionally with price), category ·
+ * address, open status, then service options/tags.
+ */
+export function parseResultCard(card: RawResultCard): ParsedCard {
+  const parsed: ParsedCard = parseLabels(card.labels);
+  const tags: string[] = [];
+  let categoryLineSeen = false;
+
+  const lines = card.lines
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && line !== card.name);
+
+  for (const line of lines) {
+    if (IGNORED_LINE.test(line)) continue;
+
+    const ratingMatch = line.match(RATING_LINE);
+    if (ratingMatch || NO_REVIEWS_LINE.test(line)) {
+      if (ratingMatch) {
+        parsed.rating ??= parseFloat(ratingMatch[1].replace(",", "."));
+        if (ratingMatch[2]) {
+          parsed.totalReviews ??= parseNumber(ratingMatch[2]);
+        }
+      }
+      // The price band sometimes follows the rating on the same line
+      const price = splitParts(line).slice(1).find(isPriceToken);
+      if (price) parsed.priceLevel ??= price;
+      continue;
+    }
+
+    const status = parseOpenStatus(line);
+    if (status) {
+      parsed.openStatus = status;
+      parsed.openStatusText = splitParts(line).join(" · ");
+      continue;
+    }
+
+    const parts = splitParts(line);
+    if (parts.length === 0) continue;
+
+    if (!categoryLineSeen) {
+      categoryLineSeen = true;
+      const rest: string[] = [];
+      for (const part of parts.slice(1)) {
+        if (isPriceToken(part)) {
+          parsed.priceLevel ??= part;
+        } else {
+          rest.push(part);
+        }
+      }
+      if (!isPriceToken(parts[0])) {
+        parsed.category = parts[0];
+      } else {
+        parsed.priceLevel ??= parts[0];
+      }
+      if (rest.length > 0) {
+        parsed.address = rest[rest.length - 1];
+      }
+      continue;
+    }
+
+    for (const part of parts) {
+      if (part.length <= MAX_TAG_LENGTH && !tags.includes(part)) {
+        tags.push(part);
+      }
+    }
+  }
+
+  if (tags.length > 0) {
+    parsed.tags = tags;
+  }
+
+  return parsed;
+}
+
+export interface LegacyCategory {
+  category?: string;
+  // Only in the card text, e.g. "(326)"; legacy snapshots never stored it
+  totalReviews?: number;
+}
+
+/**
+ * Recover the category and review count from snapshots taken before card
+ * parsing existed, where the category holds the whole card text, e.g.
+ * "Name  4.9(326)Halal restaurant"
+ */
+export function cleanLegacyCategory(
+  name: string,
+  category: string | undefined,
+): LegacyCategory {
+  if (!category || !category.startsWith(name)) return { category };
+  const text = category.slice(name.length).trim();
+  const rating = text.match(/^(?:\d(?:\.\d)?|No reviews)\s*(?:\(([\d,]+)\))?/);
+  const count = rating?.[1];
+  return {
+    category: text.slice(rating?.[0].length ?? 0).trim() || undefined,
+    totalReviews: count ? parseInt(count.replaceAll(",", ""), 10) : undefined,
+  };
+}
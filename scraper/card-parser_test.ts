@@ -0,0 +1,109 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import {
+  cleanLegacyCategory,
+  type ParsedCard,
+  parseResultCard,
+  type RawResultCard,
+} from "./card-parser.ts";
+
+const FIXTURES = new URL("./fixtures/cards/", import.meta.url);
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(
+      /&#x([0-9a-f]+);/gi,
+      (_, hex) => String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&amp;/g, "&");
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+/**
+ * What the page side collects from a saved card: each child <div> of the
+ * article renders as one innerText line, and every aria-label except the
+ * place link's
+ */
+function cardFromHtml(html: string): RawResultCard {
+  const article = html.match(
+    /<div role="article"[^>]*>([\s\S]*)<\/div>\s*<\/div>\s*<\/div>/,
+  )![1];
+  const link = article.match(/<a [^>]*>/)![0];
+  const lines = [...article.matchAll(/<div>([\s\S]*?)<\/div>/g)].map((
+    [, inner],
+  ) =>
+    decodeEntities(inner.replace(/<[^>]+>/g, "")).replace(/\s+/g, " ").trim()
+  );
+  const labels = [...article.matchAll(/<[^>]+aria-label="[^"]*"[^>]*>/g)]
+    .map(([tag]) => tag)
+    .filter((tag) => tag !== link)
+    .map((tag) => attribute(tag, "aria-label")!);
+
+  return {
+    url: attribute(link, "href")!,
+    name: attribute(link, "aria-label")!,
+    lines,
+    labels,
+  };
+}
+
+const fixtures: string[] = [];
+for await (const entry of Deno.readDir(FIXTURES)) {
+  if (entry.name.endsWith(".html")) fixtures.push(entry.name.slice(0, -5));
+}
+fixtures.sort();
+
+for (const fixture of fixtures) {
+  const card = cardFromHtml(
+    await Deno.readTextFile(new URL(`${fixture}.html`, FIXTURES)),
+  );
+  const expected: ParsedCard = JSON.parse(
+    await Deno.readTextFile(new URL(`${fixture}.expected.json`, FIXTURES)),
+  );
+
+  Deno.test(`parseResultCard: ${fixture}`, () => {
+    // Compared as stored: fields left undefined are dropped
+    assertEquals(JSON.parse(JSON.stringify(parseResultCard(card))), expected);
+  });
+
+  Deno.test(`cleanLegacyCategory: ${fixture}`, () => {
+    // Snapshots from before card parsing kept the card's whole text
+    const rating = expected.rating === undefined
+      ? "No reviews"
+      : `${expected.rating}` +
+        (expected.totalReviews === undefined
+          ? ""
+          : `(${expected.totalReviews.toLocaleString("en-US")})`);
+    assertEquals(
+      cleanLegacyCategory(
+        card.name,
+        `${card.name}  ${rating}${expected.category}`,
+      ),
+      {
+        category: expected.category,
+        totalReviews: expected.totalReviews,
+      },
+    );
+    assertEquals(
+      cleanLegacyCategory(card.name, expected.category),
+      { category: expected.category },
+    );
+  });
+}
+
+Deno.test("cleanLegacyCategory: a card with no category keeps its review count", () => {
+  assertEquals(cleanLegacyCategory("Ankara", "Ankara  3.9(326)"), {
+    category: undefined,
+    totalReviews: 326,
+  });
+  assertEquals(cleanLegacyCategory("Ankara", "Ankara  4.2(1,204)Turkish"), {
+    category: "Turkish",
+    totalReviews: 1204,
+  });
+  assertEquals(cleanLegacyCategory("Ankara", undefined), {
+    category: undefined,
+  });
+});
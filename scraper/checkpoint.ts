@@ -0,0 +1,209 @@
+/**
+ * Checkpoint manifest for batch runs
+ * Written to <run dir>/checkpoint.json after every search so an interrupted
+ * or partly failed run can be resumed in the same directory
+ */
+
+import type { FailureClass } from "./errors.ts";
+import type { PageState } from "./page-state.ts";
+
+export interface DistrictResult {
+  // Area searched, e.g. "Shibuya"
+  name: string;
+  city?: string;
+  template?: string;
+  query: string;
+  placesFound: number;
+  // Only known for cities with area outlines
+  placesInDistrict?: number;
+  // placesFound reached the result cap, so places ranked past it are missing
+  capped?: boolean;
+  status: "success" | "error";
+  error?: string;
+  // Typed failure of the last attempt: consent, captcha, empty_feed, ...
+  errorClass?: FailureClass;
+  // Failure class of each failed attempt, including ones later retried
+  failedAttempts?: FailureClass[];
+  // What the page showed: results, single_place, no_results, ...
+  pageState?: PageState;
+  file?: string;
+  attempts?: number;
+  completedAt?: string;
+}
+
+export interface Checkpoint {
+  campaign?: string;
+  campaignFile?: string;
+  outputDirectory: string;
+  startedAt: string;
+  updatedAt: string;
+  maxResults: number;
+  districts: DistrictResult[];
+}
+
+/**
+ * A search of the run, identified by its output file
+ */
+export interface CheckpointTask {
+  name: string;
+  file: string;
+}
+
+/**
+ * Runs from before campaigns recorded no file; match those by area name
+ */
+function isResultFor(result: DistrictResult, task: CheckpointTask): boolean {
+  return result.file ? result.file === task.file : result.name === task.name;
+}
+
+const CHECKPOINT_FILE = "checkpoint.json";
+
+/**
+ * Accept "2026-01-07-07-26", "data/raw/2026-01-07-07-26" or "./data/raw/..."
+ */
+export function resolveRunDirName(dir: string): string {
+  return dir.replace(/\/+$/, "").split("/").pop() || dir;
+}
+
+// Workers save after every search; queued saves never overlap
+let saving: Promise<void> = Promise.resolve();
+
+/**
+ * Write the checkpoint to a temp file and rename it into place, so a crash
+ * mid-write leaves the previous checkpoint intact
+ */
+export function saveCheckpoint(
+  outputPath: string,
+  checkpoint: Checkpoint,
+): Promise<void> {
+  const save = saving.then(async () => {
+    checkpoint.updatedAt = new Date().toISOString();
+    const path = `${outputPath}/${CHECKPOINT_FILE}`;
+    await Deno.writeTextFile(
+      `${path}.tmp`,
+      JSON.stringify(checkpoint, null, 2),
+    );
+    await Deno.rename(`${path}.tmp`, path);
+  });
+  // A failed save is the caller's error, not the next save's
+  saving = save.catch(() => {});
+  return save;
+}
+
+/**
+ * Parsed JSON file, or null if it is missing or not valid JSON. A half-written
+ * file is treated as absent so the run is rebuilt from what else is on disk.
+ */
+async function readJson<T>(path: string): Promise<T | null> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`⚠️  Ignoring corrupt ${path}: ${message}`);
+    return null;
+  }
+}
+
+/**
+ * The run's checkpoint.json, or null if it has none
+ */
+export function readCheckpoint(outputPath: string): Promise<Checkpoint | null> {
+  return readJson<Checkpoint>(`${outputPath}/${CHECKPOINT_FILE}`);
+}
+
+/**
+ * Load the manifest of a run. Runs from before checkpoints existed are
+ * reconstructed from summary.json or, failing that, from the output files
+ * already on disk.
+ */
+export async function loadCheckpoint(
+  outputPath: string,
+  tasks: CheckpointTask[],
+): Promise<Checkpoint> {
+  const manifest = await readCheckpoint(outputPath);
+  if (manifest) return manifest;
+
+  const summary = await readJson<{
+    scrapedAt: string;
+    outputDirectory: string;
+    districts: DistrictResult[];
+  }>(`${outputPath}/summary.json`);
+
+  const checkpoint: Checkpoint = {
+    outputDirectory: resolveRunDirName(outputPath),
+    startedAt: summary?.scrapedAt || new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    maxResults: 0,
+    districts: [],
+  };
+
+  for (const task of tasks) {
+    const recorded = summary?.districts.find((d) => isResultFor(d, task));
+    if (recorded) {
+      checkpoint.districts.push({ ...recorded, file: task.file });
+      continue;
+    }
+
+    const saved = await readJson<
+      { query: string; places: { length: number }; scrapedAt: string }
+    >(`${outputPath}/${task.file}`);
+    if (saved) {
+      checkpoint.districts.push({
+        name: task.name,
+        query: saved.query,
+        placesFound: saved.places.length,
+        status: "success",
+        file: task.file,
+        completedAt: saved.scrapedAt,
+      });
+    }
+  }
+
+  return checkpoint;
+}
+
+/**
+ * Searches that still need running: never attempted, failed, or marked
+ * successful but with the output file missing
+ */
+export async function pendingTasks<T extends CheckpointTask>(
+  outputPath: string,
+  checkpoint: Checkpoint,
+  tasks: T[],
+): Promise<T[]> {
+  const pending: T[] = [];
+
+  for (const task of tasks) {
+    const result = checkpoint.districts.find((d) => isResultFor(d, task));
+    if (result?.status === "success") {
+      try {
+        await Deno.stat(`${outputPath}/${task.file}`);
+        continue;
+      } catch {
+        // Output is gone; scrape it again
+      }
+    }
+    pending.push(task);
+  }
+
+  return pending;
+}
+
+/**
+ * Replace the entry for a search, or add it
+ */
+export function recordDistrict(
+  checkpoint: Checkpoint,
+  result: DistrictResult,
+): void {
+  const index = checkpoint.districts.findIndex((d) => d.file === result.file);
+  if (index >= 0) checkpoint.districts[index] = result;
+  else checkpoint.districts.push(result);
+}
@@ -0,0 +1,188 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import {
+  type Checkpoint,
+  type CheckpointTask,
+  type DistrictResult,
+  loadCheckpoint,
+  pendingTasks,
+  readCheckpoint,
+  recordDistrict,
+  resolveRunDirName,
+  saveCheckpoint,
+} from "./checkpoint.ts";
+
+const TASKS: CheckpointTask[] = [
+  { name: "Shibuya", file: "places-shibuya-tokyo.json" },
+  { name: "Shinjuku", file: "places-shinjuku-tokyo.json" },
+  { name: "Chuo", file: "places-chuo-tokyo.json" },
+];
+
+function result(
+  task: CheckpointTask,
+  fields: Partial<DistrictResult> = {},
+): DistrictResult {
+  return {
+    name: task.name,
+    query: `halal restaurant in ${task.name}`,
+    placesFound: 10,
+    status: "success",
+    file: task.file,
+    ...fields,
+  };
+}
+
+function checkpoint(districts: DistrictResult[]): Checkpoint {
+  return {
+    outputDirectory: "2026-01-07-07-26",
+    startedAt: "2026-01-07T07:26:00.000Z",
+    updatedAt: "2026-01-07T07:26:00.000Z",
+    maxResults: 120,
+    districts,
+  };
+}
+
+async function withRunDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  try {
+    await fn(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+async function writeSearch(dir: string, task: CheckpointTask, places: number) {
+  await Deno.writeTextFile(
+    `${dir}/${task.file}`,
+    JSON.stringify({
+      query: `halal restaurant in ${task.name}`,
+      places: Array.from({ length: places }, (_, i) => ({ placeId: `${i}` })),
+      scrapedAt: "2026-01-07T07:30:00.000Z",
+    }),
+  );
+}
+
+Deno.test("resolveRunDirName: bare names and paths", () => {
+  assertEquals(resolveRunDirName("2026-01-07-07-26"), "2026-01-07-07-26");
+  assertEquals(
+    resolveRunDirName("./data/raw/2026-01-07-07-26/"),
+    "2026-01-07-07-26",
+  );
+});
+
+Deno.test("saveCheckpoint: concurrent saves leave one whole file", async () => {
+  await withRunDir(async (dir) => {
+    const manifest = checkpoint([]);
+    // Workers record their search and save without waiting on each other
+    await Promise.all(
+      TASKS.flatMap((task) =>
+        Array.from({ length: 10 }, (_, attempt) => {
+          recordDistrict(manifest, result(task, { attempts: attempt + 1 }));
+          return saveCheckpoint(dir, manifest);
+        })
+      ),
+    );
+
+    const saved = await readCheckpoint(dir);
+    assertEquals(saved, manifest);
+    assertEquals(saved?.districts.length, 3);
+    const files = [];
+    for await (const entry of Deno.readDir(dir)) files.push(entry.name);
+    assertEquals(files, ["checkpoint.json"]);
+  });
+});
+
+Deno.test("saveCheckpoint: a failed save doesn't block the next", async () => {
+  await withRunDir(async (dir) => {
+    let failed = false;
+    await saveCheckpoint(`${dir}/missing`, checkpoint([])).catch(() => {
+      failed = true;
+    });
+    assertEquals(failed, true);
+    await saveCheckpoint(dir, checkpoint([result(TASKS[0])]));
+    assertEquals((await readCheckpoint(dir))?.districts.length, 1);
+  });
+});
+
+Deno.test("loadCheckpoint: the saved manifest", async () => {
+  await withRunDir(async (dir) => {
+    const manifest = checkpoint([result(TASKS[0])]);
+    await saveCheckpoint(dir, manifest);
+    assertEquals(await loadCheckpoint(dir, TASKS), manifest);
+  });
+});
+
+Deno.test("loadCheckpoint: rebuilt from summary.json and output files", async () => {
+  await withRunDir(async (dir) => {
+    // Summaries from before campaigns record no file
+    await Deno.writeTextFile(
+      `${dir}/summary.json`,
+      JSON.stringify({
+        scrapedAt: "2026-01-06T16:44:00.000Z",
+        outputDirectory: "2026-01-06-16-44",
+        districts: [
+          { ...result(TASKS[0]), file: undefined },
+          result(TASKS[1], { status: "error", placesFound: 0 }),
+        ],
+      }),
+    );
+    await writeSearch(dir, TASKS[2], 4);
+
+    const rebuilt = await loadCheckpoint(dir, TASKS);
+    assertEquals(rebuilt.outputDirectory, resolveRunDirName(dir));
+    assertEquals(rebuilt.startedAt, "2026-01-06T16:44:00.000Z");
+    assertEquals(rebuilt.districts, [
+      result(TASKS[0]),
+      result(TASKS[1], { status: "error", placesFound: 0 }),
+      {
+        name: "Chuo",
+        query: "halal restaurant in Chuo",
+        placesFound: 4,
+        status: "success",
+        file: "places-chuo-tokyo.json",
+        completedAt: "2026-01-07T07:30:00.000Z",
+      },
+    ]);
+  });
+});
+
+Deno.test("loadCheckpoint: a corrupt checkpoint falls back to the rebuild", async () => {
+  await withRunDir(async (dir) => {
+    await saveCheckpoint(dir, checkpoint([result(TASKS[0])]));
+    // Cut off mid-write
+    const text = await Deno.readTextFile(`${dir}/checkpoint.json`);
+    await Deno.writeTextFile(`${dir}/checkpoint.json`, text.slice(0, 100));
+    await Deno.writeTextFile(`${dir}/summary.json`, "{");
+    await writeSearch(dir, TASKS[0], 7);
+    await Deno.writeTextFile(`${dir}/${TASKS[1].file}`, '{"query": "hal');
+
+    const rebuilt = await loadCheckpoint(dir, TASKS);
+    assertEquals(rebuilt.districts.map((d) => [d.name, d.placesFound]), [
+      ["Shibuya", 7],
+    ]);
+  });
+});
+
+Deno.test("pendingTasks: failed, missing and unsaved searches", async () => {
+  await withRunDir(async (dir) => {
+    const tasks = [...TASKS, { name: "Minato", file: "places-minato.json" }];
+    await writeSearch(dir, TASKS[0], 3);
+    const manifest = checkpoint([
+      // Saved
+      result(TASKS[0]),
+      // Marked done, but the file is gone
+      result(TASKS[1]),
+      result(TASKS[2], { status: "error", error: "Timeout" }),
+      // Minato was never attempted
+    ]);
+
+    assertEquals(await pendingTasks(dir, manifest, tasks), tasks.slice(1));
+  });
+});
+
+Deno.test("pendingTasks: legacy results match by area name", async () => {
+  await withRunDir(async (dir) => {
+    await writeSearch(dir, TASKS[0], 3);
+    const manifest = checkpoint([{ ...result(TASKS[0]), file: undefined }]);
+    assertEquals(await pendingTasks(dir, manifest, TASKS), TASKS.slice(1));
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Parsing rules for the Google Maps place panel
+ * Like card-parser.ts, the browser only collects labels and text; the rules
+ * that turn them into a PlaceDetails record live here
+ */
+
+import type { OpeningHours, PlaceAttribute, PlaceDetails } from "./storage.ts";
+
+export interface RawPlacePanel {
+  name: string;
+  url: string;
+  // aria-labels of the info rows, keyed by their data-item-id
+  items: Record<string, string>;
+  website?: string;
+  // aria-label of the weekly hours table ("Monday, 11 AM to 10 PM; ...")
+  hoursLabel?: string;
+  // aria-labels and texts that may carry a photo count
+  photoLabels: string[];
+  // About tab: section heading plus the aria-label of each entry
+  aboutSections: { heading: string; entries: string[] }[];
+}
+
+export type ParsedPlacePanel = Omit<
+  PlaceDetails,
+  "placeId" | "url" | "scrapedAt"
+>;
+
+const DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+const POSITIVE_PREFIX =
+  /^(?:Has|Serves|Offers|Accepts|Good for|Popular for|Is|Allows)\s+/i;
+const NEGATIVE_PREFIX =
+  /^(?:No|Doesn't have|Does not have|Doesn't offer|Does not offer|Doesn't serve|Not)\s+/i;
+
+/**
+ * Strip the "Address: " style prefix Google puts in front of info row labels
+ */
+export function stripLabelPrefix(
+  label: string | undefined,
+): string | undefined {
+  if (!label) return undefined;
+  const value = label.replace(/^[^:]{1,20}:\s*/, "").trim();
+  return value || undefined;
+}
+
+/**
+ * Parse the weekly hours label, e.g.
+ * "Monday, 11 AM to 10 PM; Tuesday, Closed. Hide open hours for the week"
+ */
+export function parseOpeningHours(label: string): OpeningHours[] {
+  const hours: OpeningHours[] = [];
+  const body = label.replace(/\.?\s*Hide open hours.*$/i, "");
+
+  for (const entry of body.split(";")) {
+    const match = entry.trim().match(/^([A-Za-z]+),\s*(.+)$/);
+    if (!match || !DAYS.includes(match[1])) continue;
+    hours.push({
+      day: match[1],
+      hours: match[2].replace(/\s+/g, " ").replace(/\.$/, "").trim(),
+    });
+  }
+
+  return hours;
+}
+
+export function parsePhotoCount(labels: string[]): number | undefined {
+  for (const label of labels) {
+    const match = label.match(/([\d,]+)\+?\s+photos?/i);
+    if (match) return parseInt(match[1].replace(/,/g, ""));
+  }
+  return undefined;
+}
+
+/**
+ * Turn an About entry label such as "Has halal food" or "No prayer room" into
+ * an attribute with its availability
+ */
+export function parseAttribute(group: string, label: string): PlaceAttribute {
+  const text = label.trim();
+  const negative = text.match(NEGATIVE_PREFIX);
+  if (negative) {
+    return {
+      group,
+      name: capitalize(text.slice(negative[0].length)),
+      available: false,
+    };
+  }
+  const positive = text.match(POSITIVE_PREFIX);
+  return {
+    group,
+    name: capitalize(positive ? text.slice(positive[0].length) : text),
+    available: true,
+  };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function parseAttributes(
+  sections: RawPlacePanel["aboutSections"],
+): PlaceAttribute[] {
+  return sections.flatMap((section) =>
+    section.entries
+      .filter((entry) => entry.trim().length > 0)
+      .map((entry) => parseAttribute(section.heading, entry))
+  );
+}
+
+/**
+ * Turn what the browser collected from a place panel into its details
+ */
+export function parsePlacePanel(panel: RawPlacePanel): ParsedPlacePanel {
+  const phone = Object.entries(panel.items).find(([id]) =>
+    id.startsWith("phone:")
+  );
+  return {
+    name: panel.name,
+    fullAddress: stripLabelPrefix(panel.items["address"]),
+    phone: stripLabelPrefix(phone?.[1]),
+    website: panel.website,
+    plusCode: stripLabelPrefix(panel.items["oloc"]),
+    openingHours: panel.hoursLabel
+      ? parseOpeningHours(panel.hoursLabel)
+      : undefined,
+    photoCount: parsePhotoCount(panel.photoLabels),
+    attributes: parseAttributes(panel.aboutSections),
+  };
+}
@@ -0,0 +1,167 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import {
+  parseAttribute,
+  parseOpeningHours,
+  parsePhotoCount,
+  parsePlacePanel,
+  type RawPlacePanel,
+  stripLabelPrefix,
+} from "./detail-parser.ts";
+
+const PLACE_PAGE = new URL("./fixtures/pages/place.html", import.meta.url);
+
+function decodeEntities(text: string): string {
+  return text.replace(/&amp;/g, "&");
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+function innerText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * What the page side collects from a saved place panel: the info rows by
+ * data-item-id, the hours label, photo labels and the About tab's regions
+ */
+function panelFromHtml(html: string): RawPlacePanel {
+  const items: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<[^>]+data-item-id="[^"]*"[^>]*>/g)) {
+    const id = attribute(tag, "data-item-id")!;
+    const label = attribute(tag, "aria-label");
+    if (label && !items[id]) items[id] = label.trim();
+  }
+  const website = html.match(/<a [^>]*data-item-id="authority"[^>]*>/)?.[0];
+  const hours = html.match(/<[^>]+aria-label="[^"]*Hide open hours[^"]*"/)
+    ?.[0];
+  const photoLabels = [
+    ...html.matchAll(
+      /<(\w+) [^>]*aria-label="([^"]*hoto[^"]*)"[^>]*>([\s\S]*?)<\/\1>/g,
+    ),
+  ].map(([, , label, inner]) => `${label} ${innerText(inner)}`);
+  const aboutSections = [
+    ...html.matchAll(
+      /<div role="region"[^>]*>\s*<h2>([^<]*)<\/h2>([\s\S]*?)<\/ul>/g,
+    ),
+  ].map(([, heading, list]) => ({
+    heading,
+    entries: [...list.matchAll(/<li>([\s\S]*?)<\/li>/g)].map(([, entry]) =>
+      attribute(entry, "aria-label") ?? innerText(entry)
+    ),
+  }));
+
+  return {
+    name: innerText(html.match(/<h1>([\s\S]*?)<\/h1>/)![1]),
+    url: "https://www.google.com/maps/place/fixture",
+    items,
+    website: website ? attribute(website, "href") : undefined,
+    hoursLabel: hours ? attribute(hours, "aria-label") : undefined,
+    photoLabels,
+    aboutSections,
+  };
+}
+
+Deno.test("parsePlacePanel: saved place panel", async () => {
+  const details = parsePlacePanel(
+    panelFromHtml(await Deno.readTextFile(PLACE_PAGE)),
+  );
+
+  assertEquals(details.name, "Halal Wagyu Ramen Shinjuku-Tei Ginza Tokyo");
+  assertEquals(
+    details.fullAddress,
+    "4 Chome-10-3 Ginza, Chuo City, Tokyo 104-0061",
+  );
+  assertEquals(details.phone, "03-1234-5678");
+  assertEquals(details.website, "https://halal-ramen.example.jp/");
+  assertEquals(details.plusCode, "MQ9H+JC Chuo City, Tokyo");
+  assertEquals(details.photoCount, 1234);
+  assertEquals(details.openingHours?.length, 7);
+  assertEquals(details.openingHours?.[0], {
+    day: "Monday",
+    hours: "11 AM to 10 PM",
+  });
+  assertEquals(details.openingHours?.[6], { day: "Sunday", hours: "Closed" });
+  assertEquals(details.attributes, [
+    { group: "Offerings", name: "Halal food", available: true },
+    { group: "Offerings", name: "Alcohol", available: false },
+    { group: "Offerings", name: "Vegetarian options", available: true },
+    { group: "Amenities", name: "Prayer room", available: true },
+    { group: "Amenities", name: "Kids", available: true },
+  ]);
+});
+
+Deno.test("parsePlacePanel: a bare panel leaves the details empty", () => {
+  assertEquals(
+    parsePlacePanel({
+      name: "Kebab Stand",
+      url: "https://www.google.com/maps/place/x",
+      items: {},
+      photoLabels: [],
+      aboutSections: [],
+    }),
+    {
+      name: "Kebab Stand",
+      fullAddress: undefined,
+      phone: undefined,
+      website: undefined,
+      plusCode: undefined,
+      openingHours: undefined,
+      photoCount: undefined,
+      attributes: [],
+    },
+  );
+});
+
+Deno.test("stripLabelPrefix: info row labels", () => {
+  assertEquals(stripLabelPrefix("Phone: 03-1234-5678"), "03-1234-5678");
+  assertEquals(stripLabelPrefix("Plus code: MQ9H+JC"), "MQ9H+JC");
+  // Colons later in the value stay
+  assertEquals(
+    stripLabelPrefix("Address: 1 Chome, Floor 2: Room 3"),
+    "1 Chome, Floor 2: Room 3",
+  );
+  assertEquals(stripLabelPrefix("Address: "), undefined);
+  assertEquals(stripLabelPrefix(undefined), undefined);
+});
+
+Deno.test("parseOpeningHours: split hours and unknown days", () => {
+  assertEquals(
+    parseOpeningHours(
+      "Monday, 11 AM to 3 PM, 5 to 10 PM; Funday, 9 AM to 5 PM; " +
+        "Sunday, Open 24 hours. Hide open hours for the week",
+    ),
+    [
+      { day: "Monday", hours: "11 AM to 3 PM, 5 to 10 PM" },
+      { day: "Sunday", hours: "Open 24 hours" },
+    ],
+  );
+  assertEquals(parseOpeningHours(""), []);
+});
+
+Deno.test("parsePhotoCount: first label with a count", () => {
+  assertEquals(parsePhotoCount(["Photo of Kebab Stand", "999+ photos"]), 999);
+  assertEquals(parsePhotoCount(["1 photo"]), 1);
+  assertEquals(parsePhotoCount(["See photos"]), undefined);
+});
+
+Deno.test("parseAttribute: positive, negative and plain labels", () => {
+  assertEquals(parseAttribute("Offerings", "Serves halal food"), {
+    group: "Offerings",
+    name: "Halal food",
+    available: true,
+  });
+  assertEquals(parseAttribute("Amenities", "Doesn't have prayer room"), {
+    group: "Amenities",
+    name: "Prayer room",
+    available: false,
+  });
+  assertEquals(parseAttribute("Payments", "credit cards"), {
+    group: "Payments",
+    name: "Credit cards",
+    available: true,
+  });
+});
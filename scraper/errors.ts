@@ -0,0 +1,62 @@
+/**
+ * Typed scraper failures
+ * Each carries a failure class so callers can react differently (back off,
+ * retry in a fresh context, give up) and record what went wrong
+ */
+
+import type { PageState } from "./page-state.ts";
+
+export type FailureClass =
+  | "consent"
+  | "captcha"
+  | "empty_feed"
+  | "timeout"
+  | "error";
+
+export class ScrapeError extends Error {
+  constructor(
+    public readonly failureClass: FailureClass,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ScrapeError";
+  }
+}
+
+export type ThrottleReason = "captcha" | "empty_feed";
+
+/**
+ * Google is likely rate limiting us: a CAPTCHA or an empty result feed.
+ * Callers should back off before trying again.
+ */
+export class ThrottledError extends ScrapeError {
+  constructor(public readonly reason: ThrottleReason, message?: string) {
+    super(reason, message || `Throttled by Google (${reason})`);
+    this.name = "ThrottledError";
+  }
+}
+
+/**
+ * The consent interstitial could not be accepted; a fresh context usually
+ * gets a clean page
+ */
+export class ConsentError extends ScrapeError {
+  constructor(message = "Could not accept the Google consent page") {
+    super("consent", message);
+    this.name = "ConsentError";
+  }
+}
+
+/**
+ * The expected page never appeared; lastState is what was showing instead
+ */
+export class PageTimeoutError extends ScrapeError {
+  constructor(public readonly lastState: PageState, message: string) {
+    super("timeout", `${message} (page state: ${lastState})`);
+    this.name = "PageTimeoutError";
+  }
+}
+
+export function failureClassOf(error: unknown): FailureClass {
+  return error instanceof ScrapeError ? error.failureClass : "error";
+}
@@ -1,36 +1,40 @@
 /**
- * Batch scraper for all Tokyo districts
- * Creates a timestamped directory and scrapes halal restaurants across all Tokyo wards
+ * Batch scraper driven by a campaign file
+ * Runs every (city, area, query template) search of the campaign into a
+ * timestamped directory; the default campaign covers all Tokyo wards
+ * Usage: yaban batch [--max <results>] [--no-headless] [--campaign <file>]
+ *        [--concurrency <workers>] [--resume <run dir>]
+ * Searches run on a pool of browser contexts behind one shared rate limiter
+ * --max overrides the campaign's maxResults. With --resume, searches already
+ * saved in that run are skipped and only failed or missing ones are run again
  */
 
-import { GoogleMapsScraper } from "./maps-scraper.ts";
-
-// Tokyo's 23 special wards + major districts
-const TOKYO_DISTRICTS = [
-  "Chiyoda",
-  "Chuo",
-  "Minato",
-  "Shinjuku",
-  "Bunkyo",
-  "Taito",
-  "Sumida",
-  "Koto",
-  "Shinagawa",
-  "Meguro",
-  "Ota",
-  "Setagaya",
-  "Shibuya",
-  "Nakano",
-  "Suginami",
-  "Toshima",
-  "Kita",
-  "Arakawa",
-  "Itabashi",
-  "Nerima",
-  "Adachi",
-  "Katsushika",
-  "Edogawa",
-];
+import {
+  type CampaignTask,
+  DEFAULT_CAMPAIGN_PATH,
+  expandCampaign,
+  loadCampaign,
+  randomDelay,
+} from "./campaign.ts";
+import { BrowserPool, type PoolWorker } from "./browser-pool.ts";
+import {
+  type Checkpoint,
+  loadCheckpoint,
+  pendingTasks,
+  readCheckpoint,
+  recordDistrict,
+  resolveRunDirName,
+  saveCheckpoint,
+} from "./checkpoint.ts";
+import { assignWard, loadWardBoundaries, type WardBoundary } from "./geo.ts";
+import {
+  ConsentError,
+  type FailureClass,
+  failureClassOf,
+  ThrottledError,
+} from "./errors.ts";
+import { RateLimiter } from "./rate-limiter.ts";
+import { openStore } from "./storage.ts";
 
 function getTimestampedDirName(): string {
   const now = new Date();
@@ -52,192 +56,399 @@ async function ensureDirectory(path: string): Promise<void> {
   }
 }
 
-async function saveBatchData(
-  outputDir: string,
-  district: string,
-  data: unknown,
-): Promise<void> {
-  const filename = `places-${district.toLowerCase()}-tokyo.json`;
-  const filepath = `${outputDir}/${filename}`;
-  const jsonData = JSON.stringify(data, null, 2);
-  await Deno.writeTextFile(filepath, jsonData);
-  console.log(`   💾 Saved to ${filename}`);
+function countBy(values: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const value of values) counts[value] = (counts[value] || 0) + 1;
+  return counts;
 }
 
-async function main() {
-  const maxResults = parseInt(Deno.args[0] || "20");
-  const headlessArg = Deno.args[1] || "true";
-  const headless = headlessArg !== "false";
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0 ? `${h}h ${m}m ${s}s` : m > 0 ? `${m}m ${s}s` : `${s}s`;
+}
+
+export interface BatchOptions {
+  // Overrides the campaign's maxResults
+  maxResults?: number;
+  headless: boolean;
+  campaignFile?: string;
+  // Overrides the campaign's pacing.concurrency
+  concurrency?: number;
+  // Run directory to resume, e.g. 2024-05-01-10-30 or data/raw/2024-05-01-10-30
+  resume?: string;
+}
+
+export type BatchResult = Awaited<ReturnType<typeof runBatch>>;
+
+export async function runBatch(options: BatchOptions) {
+  const { headless, resume: resumeDir } = options;
+  let { campaignFile } = options;
+
+  // Resume into the given run directory, or create a new timestamped one
+  const outputDirName = resumeDir
+    ? resolveRunDirName(resumeDir)
+    : getTimestampedDirName();
+  const outputPath = `./data/raw/${outputDirName}`;
+
+  if (resumeDir) {
+    try {
+      await Deno.stat(outputPath);
+    } catch {
+      throw new Error(`Run directory not found: data/raw/${outputDirName}`);
+    }
+    // A resumed run keeps the campaign it was started with
+    campaignFile ??= (await readCheckpoint(outputPath))?.campaignFile;
+  }
+  campaignFile ??= DEFAULT_CAMPAIGN_PATH;
+
+  const campaign = await loadCampaign(campaignFile);
+  const maxResults = options.maxResults ?? campaign.maxResults;
+  const { pacing } = campaign;
+  const concurrency = options.concurrency
+    ? Math.max(1, Math.floor(options.concurrency))
+    : pacing.concurrency;
+  const tasks = expandCampaign(campaign);
+
+  let checkpoint: Checkpoint;
+  let tasksToRun: CampaignTask[];
+
+  if (resumeDir) {
+    checkpoint = await loadCheckpoint(
+      outputPath,
+      tasks.map((task) => ({
+        name: task.area,
+        file: task.file,
+      })),
+    );
+    checkpoint.campaign = campaign.name;
+    checkpoint.campaignFile = campaignFile;
+    checkpoint.maxResults = maxResults;
+    tasksToRun = await pendingTasks(
+      outputPath,
+      checkpoint,
+      tasks.map((task) => ({ ...task, name: task.area })),
+    );
+  } else {
+    checkpoint = {
+      campaign: campaign.name,
+      campaignFile,
+      outputDirectory: outputDirName,
+      startedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      maxResults,
+      districts: [],
+    };
+    tasksToRun = tasks;
+  }
 
   console.log("=".repeat(70));
-  console.log("🗾  Yaban - Tokyo-wide Halal Restaurant Scraper");
+  console.log("🗾  Yaban - Batch Halal Place Scraper");
   console.log("=".repeat(70));
-  console.log(`Districts to scrape: ${TOKYO_DISTRICTS.length}`);
-  console.log(`Max results per district: ${maxResults}`);
+  console.log(`Campaign: ${campaign.name} (${campaignFile})`);
+  console.log(
+    `Cities: ${campaign.cities.map((city) => city.name).join(", ")}`,
+  );
+  console.log(`Query templates: ${campaign.templates.length}`);
+  console.log(`Searches to run: ${tasksToRun.length}`);
+  if (resumeDir) {
+    console.log(
+      `Resuming run: ${outputDirName} (${
+        tasks.length - tasksToRun.length
+      } already done)`,
+    );
+  }
+  console.log(`Max results per search: ${maxResults}`);
+  console.log(
+    `Workers: ${concurrency}, rate limit: ${pacing.requestsPerMinute} requests/min`,
+  );
   console.log(`Headless mode: ${headless}`);
   console.log("=".repeat(70));
   console.log();
 
-  // Create timestamped output directory
-  const outputDirName = getTimestampedDirName();
-  const outputPath = `./data/raw/${outputDirName}`;
   await ensureDirectory(outputPath);
-  console.log(`📁 Created output directory: data/raw/${outputDirName}`);
+  console.log(
+    `📁 ${
+      resumeDir ? "Using" : "Created"
+    } output directory: data/raw/${outputDirName}`,
+  );
   console.log();
 
   let isShuttingDown = false;
-  let currentScraper: GoogleMapsScraper | null = null;
+  const store = openStore();
+  const limiter = new RateLimiter({
+    requestsPerMinute: pacing.requestsPerMinute,
+    burst: concurrency,
+    jitterMs: pacing.delayMs,
+    backoffMs: pacing.backoffMs,
+  });
+  const pool = new BrowserPool(concurrency, headless, pacing.slowMo);
+
+  // Summary covers every search of the run, including resumed ones, in
+  // campaign order; timing and request rate are for this session
+  const writeSummary = async (interrupted: boolean) => {
+    const districts = tasks.flatMap((task) =>
+      checkpoint.districts.filter((d) => d.file === task.file)
+    );
+    const stats = limiter.stats();
+    const results = {
+      campaign: campaign.name,
+      campaignFile,
+      scrapedAt: checkpoint.startedAt,
+      finishedAt: new Date().toISOString(),
+      outputDirectory: outputDirName,
+      concurrency,
+      durationSeconds: Math.round(stats.elapsedMs / 1000),
+      requests: stats.requests,
+      requestsPerMinute: stats.requestsPerMinute,
+      throttleEvents: stats.throttleEvents,
+      // Searches that finally failed, by failure class
+      failures: countBy(
+        districts.flatMap((d) => d.errorClass ? [d.errorClass] : []),
+      ),
+      // What the last page looked like, e.g. how many searches hit a
+      // single-place redirect or a "no results" page
+      pageStates: countBy(
+        districts.flatMap((d) => d.pageState ? [d.pageState] : []),
+      ),
+      totalDistricts: tasks.length,
+      completed: !interrupted &&
+        districts.filter((d) => d.status === "success").length ===
+          tasks.length,
+      interrupted,
+      districts,
+    };
+    await store.saveRun({
+      runId: outputDirName,
+      mode: "batch",
+      startedAt: checkpoint.startedAt,
+      finishedAt: results.finishedAt,
+      campaign: campaign.name,
+      summary: results,
+    });
+    return results;
+  };
 
-  // Setup signal handling for graceful shutdown (Ctrl+C)
-  const handleShutdown = async () => {
+  // Ctrl+C stops handing out searches; the run is then finalized below and
+  // returned as interrupted, so the caller decides how to exit
+  let interrupt = () => {};
+  const interrupted = new Promise<void>((resolve) => interrupt = resolve);
+  const handleShutdown = () => {
     if (isShuttingDown) return;
     isShuttingDown = true;
-
     console.log("\n\n⚠️  Received shutdown signal (Ctrl+C)...");
-    console.log("🛑 Cleaning up and closing browser...");
+    interrupt();
+  };
 
+  const shutDown = async () => {
+    console.log("🛑 Cleaning up and closing browser...");
     try {
-      if (currentScraper) {
-        await currentScraper.close();
-        console.log("✓ Browser closed successfully");
-      }
+      await pool.close();
+      console.log("✓ Browser closed successfully");
     } catch (error) {
       console.error("Error closing browser:", error);
     }
 
-    console.log("👋 Exiting gracefully");
-    Deno.exit(0);
+    await saveCheckpoint(outputPath, checkpoint);
+    const results = await writeSummary(true);
+    store.close();
+    console.log("✓ Checkpoint and summary saved");
+    console.log(`   Resume with: yaban batch --resume ${outputDirName}`);
+    return results;
   };
 
-  // Listen for SIGINT (Ctrl+C)
-  Deno.addSignalListener("SIGINT", handleShutdown);
+  // Area outlines let the summary count places that are really in an area,
+  // not just places the area's query returned
+  const boundaries = new Map<string, WardBoundary[]>();
+  for (const city of campaign.cities) {
+    if (city.boundaries) {
+      boundaries.set(city.id, await loadWardBoundaries(city.boundaries));
+    }
+  }
 
-  const results = {
-    scrapedAt: new Date().toISOString(),
-    outputDirectory: outputDirName,
-    totalDistricts: TOKYO_DISTRICTS.length,
-    districts: [] as {
-      name: string;
-      query: string;
-      placesFound: number;
-      status: "success" | "error";
-      error?: string;
-    }[],
-  };
+  let started = 0;
 
-  const MAX_RETRIES = 3;
+  const runTask = async (task: CampaignTask, worker: PoolWorker) => {
+    const { query } = task;
+    const label = `${task.area}, ${task.city.name}`;
+    const progress = `[${++started}/${tasksToRun.length}]`;
+    // Workers interleave their output, so every line names the search
+    const prefix = `   [${worker.id}] ${task.area}/${task.template.id}:`;
 
-  try {
-    for (let i = 0; i < TOKYO_DISTRICTS.length; i++) {
-      const district = TOKYO_DISTRICTS[i];
-      const query = `halal restaurants ${district} tokyo japan`;
-      const progress = `[${i + 1}/${TOKYO_DISTRICTS.length}]`;
+    console.log(
+      `${progress} 🔍 Worker ${worker.id} scraping: ${label} (${task.template.id})`,
+    );
+    console.log(`   Query: "${query}"`);
+
+    let lastError: Error | null = null;
+    let success = false;
+    let attempt = 0;
+    // Failure class of every failed attempt, e.g. ["consent", "captcha"]
+    const failedAttempts: FailureClass[] = [];
+
+    // Retry loop
+    while (attempt < pacing.maxRetries && !success && !isShuttingDown) {
+      attempt++;
+      if (attempt > 1) {
+        console.log(
+          `${prefix} 🔄 Retry attempt ${attempt}/${pacing.maxRetries}`,
+        );
+      }
+
+      try {
+        await limiter.acquire();
 
-      console.log(`${progress} 🔍 Scraping: ${district}`);
-      console.log(`   Query: "${query}"`);
+        // Scrape places
+        const places = await worker.scraper.searchPlaces(query, maxResults);
 
-      let lastError: Error | null = null;
-      let success = false;
+        const pageState = worker.scraper.lastPageState ?? undefined;
 
-      // Retry loop
-      for (let attempt = 1; attempt <= MAX_RETRIES && !success; attempt++) {
-        if (attempt > 1) {
-          console.log(`   🔄 Retry attempt ${attempt}/${MAX_RETRIES}`);
+        // An empty feed is often a soft block; only the last attempt is
+        // trusted to mean "no results". Google's own "no results" page is
+        // believed straight away.
+        if (
+          places.length === 0 && pageState === "results" &&
+          attempt < pacing.maxRetries
+        ) {
+          throw new ThrottledError("empty_feed", "Result feed was empty");
         }
+        limiter.recordSuccess();
+
+        // Save results for this search
+        const saved = await store.saveSearch({
+          runId: outputDirName,
+          file: task.file,
+          campaign: campaign.name,
+          city: task.city.id,
+          district: task.area,
+          template: task.template.id,
+          query,
+          scrapedAt: new Date().toISOString(),
+          capped: places.length >= maxResults,
+          places,
+        });
+        console.log(`${prefix} 💾 Saved to ${saved}`);
+
+        const wards = boundaries.get(task.city.id);
+        const placesInDistrict = wards
+          ? places.filter((place) =>
+            place.lat !== undefined && place.lng !== undefined &&
+            assignWard(place.lat, place.lng, wards) === task.area
+          ).length
+          : undefined;
+
+        recordDistrict(checkpoint, {
+          name: task.area,
+          city: task.city.id,
+          template: task.template.id,
+          query,
+          placesFound: places.length,
+          placesInDistrict,
+          capped: places.length >= maxResults,
+          status: "success",
+          pageState,
+          failedAttempts: failedAttempts.length > 0
+            ? failedAttempts
+            : undefined,
+          file: task.file,
+          attempts: attempt,
+          completedAt: new Date().toISOString(),
+        });
+
+        console.log(
+          placesInDistrict === undefined
+            ? `${prefix} ✅ Found ${places.length} places`
+            : `${prefix} ✅ Found ${places.length} places (${placesInDistrict} inside ${task.area})`,
+        );
+        success = true;
+      } catch (error) {
+        // Closing the browser on Ctrl+C fails the search; it stays pending
+        if (isShuttingDown) return;
+        lastError = error as Error;
+        failedAttempts.push(failureClassOf(error));
+        console.error(
+          `${prefix} ⚠️  Attempt ${attempt} failed (${failureClassOf(error)}):`,
+          lastError.message,
+        );
 
-        // Create a fresh browser instance for each attempt
-        const scraper = new GoogleMapsScraper();
-        currentScraper = scraper;
+        // Throttling pauses every worker; a stuck consent page only needs
+        // this worker's fresh context below
+        if (error instanceof ThrottledError) {
+          limiter.backoff(error.reason);
+        } else if (error instanceof ConsentError) {
+          console.log(`${prefix} 🍪 Retrying in a fresh context`);
+        }
 
+        // Start the next attempt from a clean context
         try {
-          // Initialize browser
-          await scraper.initialize(headless, 50);
-
-          // Scrape places
-          const places = await scraper.searchPlaces(query, maxResults);
-
-          // Save results for this district
-          await saveBatchData(outputPath, district, {
-            district,
-            query,
-            scrapedAt: new Date().toISOString(),
-            totalResults: places.length,
-            places,
-          });
-
-          results.districts.push({
-            name: district,
-            query,
-            placesFound: places.length,
-            status: "success",
-          });
-
-          console.log(`   ✅ Found ${places.length} places`);
-          success = true;
-        } catch (error) {
-          lastError = error;
+          await worker.recycle();
+        } catch (recycleError) {
           console.error(
-            `   ⚠️  Attempt ${attempt} failed:`,
-            error.message,
+            `${prefix} Error recycling browser context:`,
+            (recycleError as Error).message,
           );
+        }
 
-          // If not the last attempt, wait before retrying
-          if (attempt < MAX_RETRIES) {
-            const retryDelay = 5000 + Math.floor(Math.random() * 3000);
-            console.log(
-              `   ⏳ Waiting ${Math.floor(retryDelay / 1000)}s before retry...`,
-            );
-            await new Promise((resolve) => setTimeout(resolve, retryDelay));
-          }
-        } finally {
-          // Always close the browser after each attempt
-          try {
-            await scraper.close();
-            currentScraper = null;
-          } catch (error) {
-            console.error("Error closing browser:", error.message);
-          }
+        // If not the last attempt, wait before retrying
+        if (attempt < pacing.maxRetries) {
+          const retryDelay = randomDelay(pacing.retryDelayMs);
+          console.log(
+            `${prefix} ⏳ Waiting ${
+              Math.floor(retryDelay / 1000)
+            }s before retry...`,
+          );
+          await new Promise((resolve) => setTimeout(resolve, retryDelay));
         }
       }
+    }
 
-      // If all retries failed, record the error
-      if (!success && lastError) {
-        console.error(
-          `   ❌ All ${MAX_RETRIES} attempts failed for ${district}`,
-        );
-        results.districts.push({
-          name: district,
-          query,
-          placesFound: 0,
-          status: "error",
-          error: lastError.message,
-        });
-      }
+    // If all retries failed, record the error
+    if (!success && lastError) {
+      console.error(
+        `${prefix} ❌ All ${attempt} attempts failed for ${label}`,
+      );
+      recordDistrict(checkpoint, {
+        name: task.area,
+        city: task.city.id,
+        template: task.template.id,
+        query,
+        placesFound: 0,
+        status: "error",
+        error: lastError.message,
+        errorClass: failureClassOf(lastError),
+        pageState: worker.scraper.lastPageState ?? undefined,
+        failedAttempts,
+        file: task.file,
+        attempts: attempt,
+        completedAt: new Date().toISOString(),
+      });
+    }
 
-      console.log();
+    // Checkpoint after every search so a crash loses at most one per worker
+    await saveCheckpoint(outputPath, checkpoint);
+  };
 
-      // Add delay before next district (3-5 seconds)
-      if (i < TOKYO_DISTRICTS.length - 1) {
-        const delay = 3000 + Math.floor(Math.random() * 2000);
-        console.log(
-          `   ⏳ Waiting ${
-            Math.floor(delay / 1000)
-          } seconds before next district...`,
-        );
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        console.log();
-      }
+  Deno.addSignalListener("SIGINT", handleShutdown);
+  try {
+    const running = pool.run(tasksToRun, runTask);
+    await Promise.race([running, interrupted]);
+    if (isShuttingDown) {
+      // Searches cut off by the closing browser wind down on their own
+      running.catch(() => {});
+      return await shutDown();
     }
+    await pool.close();
 
     // Save summary file
-    const summaryPath = `${outputPath}/summary.json`;
-    await Deno.writeTextFile(summaryPath, JSON.stringify(results, null, 2));
+    const results = await writeSummary(false);
+    store.close();
 
     // Print final summary
     console.log("=".repeat(70));
     console.log("✅ Batch scraping complete!");
     console.log("=".repeat(70));
-    console.log(`📊 Total districts scraped: ${results.districts.length}`);
+    console.log(`📊 Total searches run: ${results.districts.length}`);
     console.log(
       `✓  Successful: ${
         results.districts.filter((d) => d.status === "success").length
@@ -253,26 +464,57 @@ async function main() {
         results.districts.reduce((sum, d) => sum + d.placesFound, 0)
       }`,
     );
+    console.log(
+      `⏱️  Run time: ${
+        formatDuration(results.durationSeconds)
+      } with ${concurrency} worker(s)`,
+    );
+    console.log(
+      `📈 Requests: ${results.requests} (${results.requestsPerMinute}/min, ${results.throttleEvents} throttle pauses)`,
+    );
     console.log(`📁 Output directory: data/raw/${outputDirName}`);
     console.log("=".repeat(70));
 
-    // Show top districts by number of results
+    if (!results.completed) {
+      console.log();
+      console.log(
+        `Some searches failed. Retry them with: yaban batch --resume ${outputDirName}`,
+      );
+    }
+
+    // Show top searches by number of results
     console.log();
-    console.log("Top districts by number of halal restaurants:");
+    console.log("Top searches by number of places:");
     const topDistricts = [...results.districts]
       .filter((d) => d.status === "success")
-      .sort((a, b) => b.placesFound - a.placesFound)
+      .sort((a, b) =>
+        (b.placesInDistrict ?? b.placesFound) -
+        (a.placesInDistrict ?? a.placesFound)
+      )
       .slice(0, 5);
 
     topDistricts.forEach((d, i) => {
-      console.log(`${i + 1}. ${d.name}: ${d.placesFound} places`);
+      const where = `${d.name}${d.city ? `, ${d.city}` : ""}`;
+      const template = d.template ? ` [${d.template}]` : "";
+      console.log(
+        d.placesInDistrict === undefined
+          ? `${i + 1}. ${where}${template}: ${d.placesFound} places`
+          : `${
+            i + 1
+          }. ${where}${template}: ${d.placesInDistrict} places in ward (${d.placesFound} returned)`,
+      );
     });
+
+    return results;
   } catch (error) {
     console.error("❌ Fatal error during batch scraping:", error);
+    await pool.close().catch(() => {});
+    // Finalize what we have so the run can be resumed
+    await saveCheckpoint(outputPath, checkpoint);
+    await writeSummary(true);
+    store.close();
     throw error;
+  } finally {
+    Deno.removeSignalListener("SIGINT", handleShutdown);
   }
 }
-
-if (import.meta.main) {
-  main();
-}
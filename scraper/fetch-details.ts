@@ -0,0 +1,111 @@
+/**
+ * Detail scraper: opens each place panel and stores a PlaceDetails record
+ * Usage: yaban details [placeId|url ...] [--no-headless]
+ * Without places, every catalog place in data/places without details is scraped
+ */
+
+import { GoogleMapsScraper } from "./maps-scraper.ts";
+import { openStore, type ScrapeStore } from "./storage.ts";
+
+const PLACES_DIR = "./data/places";
+
+async function findPlacesWithoutDetails(
+  store: ScrapeStore,
+): Promise<string[]> {
+  const targets: string[] = [];
+
+  for await (const entry of Deno.readDir(PLACES_DIR)) {
+    if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+
+    const place = JSON.parse(
+      await Deno.readTextFile(`${PLACES_DIR}/${entry.name}`),
+    ) as { placeId: string; url?: string };
+    if (await store.hasPlaceDetails(place.placeId)) continue;
+    targets.push(place.url || place.placeId);
+  }
+
+  return targets;
+}
+
+export interface FetchDetailsOptions {
+  // Place ids or URLs; defaults to catalog places without details
+  targets?: string[];
+  headless: boolean;
+}
+
+export interface FetchDetailsResult {
+  saved: number;
+  failed: string[];
+  // Places attempted
+  targets: number;
+}
+
+export async function fetchDetails(
+  { targets: given, headless }: FetchDetailsOptions,
+): Promise<FetchDetailsResult> {
+  const store = openStore();
+  const targets = given?.length ? given : await findPlacesWithoutDetails(store);
+
+  console.log("=".repeat(60));
+  console.log("🏪 Yaban - Place Detail Scraper");
+  console.log("=".repeat(60));
+  console.log(`Places to scrape: ${targets.length}`);
+  console.log(`Headless: ${headless}`);
+  console.log("=".repeat(60));
+  console.log();
+
+  if (targets.length === 0) {
+    console.log("Nothing to do: every catalog place already has details");
+    store.close();
+    return { saved: 0, failed: [], targets: 0 };
+  }
+
+  const scraper = new GoogleMapsScraper();
+  let saved = 0;
+  const failed: string[] = [];
+
+  try {
+    await scraper.initialize(headless, 50);
+
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i];
+      console.log(`[${i + 1}/${targets.length}] ${target}`);
+
+      try {
+        const details = await scraper.scrapePlaceDetails(target);
+        console.log(
+          `✓ Saved details to ${await store.savePlaceDetails(details)}`,
+        );
+        saved++;
+      } catch (error) {
+        console.error(`   ❌ Failed:`, (error as Error).message);
+        failed.push(target);
+      }
+
+      // Pace requests between places (2-4 seconds)
+      if (i < targets.length - 1) {
+        const delay = 2000 + Math.floor(Math.random() * 2000);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      console.log();
+    }
+  } finally {
+    await scraper.close();
+    store.close();
+  }
+
+  console.log("=".repeat(60));
+  console.log("✅ Detail scraping complete!");
+  console.log(`✓  Saved: ${saved}`);
+  console.log(`✗  Failed: ${failed.length}`);
+  console.log(`💾 Storage: ${store.kind}`);
+  console.log("=".repeat(60));
+
+  if (failed.length > 0) {
+    console.log();
+    console.log("Failed places:");
+    failed.forEach((target) => console.log(`  - ${target}`));
+  }
+
+  return { saved, failed, targets: targets.length };
+}
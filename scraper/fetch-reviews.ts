@@ -0,0 +1,109 @@
+/**
+ * Review scraper: collects reviews per place into the configured store
+ * (data/reviews/<placeId>.json by default)
+ * Usage: yaban reviews [placeId|url ...] [--max 50] [--sort newest] [--no-headless]
+ * Sort is one of: newest (default), relevant, highest, lowest
+ * Without places, every catalog place in data/places is scraped. Re-runs are
+ * incremental: reviews already stored are not fetched again.
+ */
+
+import { parsePlaceId } from "./geo.ts";
+import { GoogleMapsScraper } from "./maps-scraper.ts";
+import { REVIEW_SORT_LABELS, type ReviewSort } from "./review-parser.ts";
+import { openStore } from "./storage.ts";
+
+const PLACES_DIR = "./data/places";
+
+async function loadCatalogTargets(): Promise<string[]> {
+  const targets: string[] = [];
+  for await (const entry of Deno.readDir(PLACES_DIR)) {
+    if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+    const place = JSON.parse(
+      await Deno.readTextFile(`${PLACES_DIR}/${entry.name}`),
+    ) as { placeId: string };
+    targets.push(place.placeId);
+  }
+  return targets;
+}
+
+export interface FetchReviewsOptions {
+  // Place ids or URLs; defaults to every catalog place
+  targets?: string[];
+  maxReviews: number;
+  sort: ReviewSort;
+  headless: boolean;
+}
+
+export interface FetchReviewsResult {
+  added: number;
+  failed: string[];
+  // Places attempted
+  targets: number;
+}
+
+export async function fetchReviews(
+  { targets: given, maxReviews, sort, headless }: FetchReviewsOptions,
+): Promise<FetchReviewsResult> {
+  const targets = given?.length ? given : await loadCatalogTargets();
+
+  console.log("=".repeat(60));
+  console.log("💬 Yaban - Review Scraper");
+  console.log("=".repeat(60));
+  console.log(`Places to scrape: ${targets.length}`);
+  console.log(`Max reviews per place: ${maxReviews}`);
+  console.log(`Sort: ${REVIEW_SORT_LABELS[sort]}`);
+  console.log(`Headless: ${headless}`);
+  console.log("=".repeat(60));
+  console.log();
+
+  const scraper = new GoogleMapsScraper();
+  const store = openStore();
+  let added = 0;
+  const failed: string[] = [];
+
+  try {
+    await scraper.initialize(headless, 50);
+
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i];
+      console.log(`[${i + 1}/${targets.length}] ${target}`);
+
+      try {
+        // Place URLs carry the id; cid and short links only reveal it once
+        // the page is open, so those are fetched in full
+        const knownId = target.startsWith("http")
+          ? parsePlaceId(target)
+          : target;
+        const stored = knownId ? await store.loadReviews(knownId) : [];
+        const { placeId, reviews } = await scraper.scrapeReviews(target, {
+          maxReviews,
+          sort,
+          knownReviewIds: new Set(stored.map((review) => review.reviewId)),
+        });
+        added += await store.saveReviews(placeId, reviews);
+      } catch (error) {
+        console.error(`   ❌ Failed:`, (error as Error).message);
+        failed.push(target);
+      }
+
+      // Pace requests between places (2-4 seconds)
+      if (i < targets.length - 1) {
+        const delay = 2000 + Math.floor(Math.random() * 2000);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      console.log();
+    }
+  } finally {
+    await scraper.close();
+    store.close();
+  }
+
+  console.log("=".repeat(60));
+  console.log("✅ Review scraping complete!");
+  console.log(`💬 New reviews: ${added}`);
+  console.log(`✗  Failed places: ${failed.length}`);
+  console.log(`💾 Storage: ${store.kind}`);
+  console.log("=".repeat(60));
+
+  return { added, failed, targets: targets.length };
+}
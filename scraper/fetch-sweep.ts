@@ -0,0 +1,145 @@
+/**
+ * Grid sweep: searches an area tile by tile to find more places than a single
+ * query returns
+ * Usage: yaban sweep <ward|minLng,minLat,maxLng,maxLat> [--query <query>]
+ *   [--max 120] [--tile-size 2000] [--no-headless]
+ * Saves the merged places as run sweep-<area>-<timestamp>, with a summary
+ * reporting coverage per tile (data/raw/<run>/summary.json with JSON storage)
+ */
+
+import { slugify } from "./campaign.ts";
+import { loadWardBoundaries } from "./geo.ts";
+import { type BoundingBox, boundingBoxOf, parseBoundingBox } from "./grid.ts";
+import { GoogleMapsScraper } from "./maps-scraper.ts";
+import { openStore } from "./storage.ts";
+
+export interface SweepArea {
+  name: string;
+  bbox: BoundingBox;
+}
+
+/**
+ * A ward name (English or Japanese) or a minLng,minLat,maxLng,maxLat bbox
+ */
+export async function resolveArea(
+  area: string,
+): Promise<SweepArea | undefined> {
+  const bbox = parseBoundingBox(area);
+  if (bbox) return { name: "bbox", bbox };
+
+  const wards = await loadWardBoundaries();
+  const ward = wards.find((w) =>
+    w.name.toLowerCase() === area.toLowerCase() || w.nameJa === area
+  );
+  return ward ? { name: ward.name, bbox: boundingBoxOf(ward) } : undefined;
+}
+
+export interface SweepOptions {
+  area: SweepArea;
+  query: string;
+  maxResultsPerTile: number;
+  tileSizeMeters: number;
+  headless: boolean;
+}
+
+export interface SweepResult {
+  runId: string;
+  places: number;
+  tiles: number;
+  tilesFailed: number;
+  tilesSaturated: string[];
+}
+
+export async function sweepArea(
+  { area, query, maxResultsPerTile, tileSizeMeters, headless }: SweepOptions,
+): Promise<SweepResult> {
+  console.log("=".repeat(60));
+  console.log("🗺️  Yaban - Grid Sweep");
+  console.log("=".repeat(60));
+  console.log(`Area: ${area.name}`);
+  console.log(`Query: ${query}`);
+  console.log(`Max results per tile: ${maxResultsPerTile}`);
+  console.log(`Initial tile size: ${tileSizeMeters} m`);
+  console.log(`Headless: ${headless}`);
+  console.log("=".repeat(60));
+  console.log();
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const outputDirName = `sweep-${slugify(area.name)}-${timestamp}`;
+  const scraper = new GoogleMapsScraper();
+  const store = openStore();
+
+  try {
+    await scraper.initialize(headless, 50);
+    const startedAt = new Date().toISOString();
+    const { places, tiles } = await scraper.sweep(query, area.bbox, {
+      tileSizeMeters,
+      maxResultsPerTile,
+    });
+
+    const saturated = tiles.filter((tile) => tile.saturated && !tile.split);
+    await store.saveSearch({
+      runId: outputDirName,
+      file: `places-${slugify(area.name)}-sweep.json`,
+      district: area.name === "bbox" ? undefined : area.name,
+      query,
+      mode: "sweep",
+      scrapedAt: startedAt,
+      capped: saturated.length > 0,
+      places,
+    });
+
+    const finishedAt = new Date().toISOString();
+    await store.saveRun({
+      runId: outputDirName,
+      mode: "sweep",
+      startedAt,
+      finishedAt,
+      summary: {
+        mode: "sweep",
+        area: area.name,
+        bbox: area.bbox,
+        query,
+        scrapedAt: startedAt,
+        finishedAt,
+        maxResultsPerTile,
+        tileSizeMeters,
+        totalPlaces: places.length,
+        tilesSearched: tiles.length,
+        tilesFailed: tiles.filter((tile) => tile.error).length,
+        // Tiles still at the cap after splitting: coverage there is partial
+        tilesSaturated: saturated.map((tile) => tile.id),
+        tiles,
+      },
+    });
+
+    console.log();
+    console.log("=".repeat(60));
+    console.log("✅ Sweep complete!");
+    console.log(`📊 Unique places: ${places.length}`);
+    console.log(`🧩 Tiles searched: ${tiles.length}`);
+    console.log(
+      `⚠️  Tiles still saturated: ${saturated.length}${
+        saturated.length > 0
+          ? ` (${saturated.map((tile) => tile.id).join(", ")})`
+          : ""
+      }`,
+    );
+    console.log(`📁 Run: ${outputDirName} (${store.kind})`);
+    console.log("=".repeat(60));
+
+    return {
+      runId: outputDirName,
+      places: places.length,
+      tiles: tiles.length,
+      tilesFailed: tiles.filter((tile) => tile.error).length,
+      tilesSaturated: saturated.map((tile) => tile.id),
+    };
+  } catch (error) {
+    console.error("❌ Error during sweep:", error);
+    throw error;
+  } finally {
+    await scraper.close();
+    store.close();
+  }
+}
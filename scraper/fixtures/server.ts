@@ -0,0 +1,209 @@
+/**
+ * Local stand-in for Google Maps used by the offline test suite
+ * Serves the saved pages in scraper/fixtures/pages on a random port; point
+ * GoogleMapsScraper's baseUrl at it. Search queries pick the page:
+ *
+ *   "... consent ..."     consent interstitial until it is accepted (cookie)
+ *   "... captcha ..."     redirect to the /sorry/ CAPTCHA page
+ *   "... no results ..."  Google's "can't find" page
+ *   "... single ..."      redirect straight to the place page
+ *   anything else         results feed built from scraper/fixtures/cards
+ *                         plus generated filler cards
+ *
+ * Usage: deno run --allow-net --allow-read scraper/fixtures/server.ts [port]
+ */
+
+const FIXTURES_DIR = new URL(".", import.meta.url).pathname;
+const PAGES_DIR = `${FIXTURES_DIR}pages`;
+const CARDS_DIR = `${FIXTURES_DIR}cards`;
+
+// The place every place URL, cid link and single-place redirect resolves to
+export const FIXTURE_PLACE_ID = "0x60188bc9548ab18f:0x8d79cd1f7b8bf906";
+export const FIXTURE_PLACE_NAME = "Halal Wagyu Ramen Shinjuku-Tei Ginza Tokyo";
+// Generated cards appended after the saved card fixtures
+export const FILLER_CARDS = 21;
+
+export interface FixtureServer {
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+function placePath(placeId = FIXTURE_PLACE_ID): string {
+  return `/maps/place/${
+    encodeURIComponent(FIXTURE_PLACE_NAME).replace(/%20/g, "+")
+  }/data=!4m7!3m6!1s${placeId}!8m2!3d35.6690593!4d139.7585623!16s%2Fg%2F11m5_j8b7m`;
+}
+
+/**
+ * The article markup inside each saved card fixture, in file name order
+ */
+async function loadCardFixtures(): Promise<string[]> {
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(CARDS_DIR)) {
+    if (entry.isFile && entry.name.endsWith(".html")) names.push(entry.name);
+  }
+
+  const cards: string[] = [];
+  for (const name of names.sort()) {
+    const html = await Deno.readTextFile(`${CARDS_DIR}/${name}`);
+    const match = html.match(/<div role="feed">\s*([\s\S]*)<\/div>\s*$/);
+    if (match) cards.push(match[1]);
+  }
+  return cards;
+}
+
+function fillerCard(n: number): string {
+  const name = `Fixture Halal Kitchen ${n}`;
+  // Relative hrefs, as Google renders them; the scraper prefixes its baseUrl
+  const href = `/maps/place/${
+    name.replace(/ /g, "+")
+  }/data=!4m7!3m6!1s0x6018f10000000000:0x${
+    n.toString(16).padStart(4, "0")
+  }!8m2!3d35.69${n}!4d139.70${n}!16s`;
+  return `
+  <div>
+    <div role="article" aria-label="${name}">
+      <a href="${href}" aria-label="${name}"></a>
+      <div>${name}</div>
+      <div><span role="img" aria-label="4.${n % 10} stars ${
+    n * 3
+  } Reviews"><span>4.${n % 10}</span><span>(${n * 3})</span></span></div>
+      <div><span>Halal restaurant</span><span> · </span><span>${n}-1 Shinjuku</span></div>
+      <div><span>Open</span><span> · Closes 11 PM</span></div>
+    </div>
+  </div>`;
+}
+
+function html(body: string, status = 200, headers: HeadersInit = {}): Response {
+  return new Response(body, {
+    status,
+    headers: { "content-type": "text/html; charset=utf-8", ...headers },
+  });
+}
+
+function redirect(location: string, headers: HeadersInit = {}): Response {
+  return new Response(null, { status: 302, headers: { location, ...headers } });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export function createFixtureHandler(
+  pages: Record<string, string>,
+  cards: string[],
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const url = new URL(request.url);
+    const path = url.pathname;
+    const consented = (request.headers.get("cookie") || "").includes(
+      "CONSENT=YES",
+    );
+
+    if (path === "/consent") {
+      return html(
+        pages.consent.replaceAll(
+          "__CONTINUE__",
+          escapeHtml(url.searchParams.get("continue") || "/maps"),
+        ),
+      );
+    }
+    if (path === "/consent/save" && request.method === "POST") {
+      const form = await request.formData();
+      const next = String(form.get("continue") || "/maps");
+      return new Response(null, {
+        status: 303,
+        headers: {
+          location: next,
+          "set-cookie": `CONSENT=${
+            form.get("choice") === "accept" ? "YES" : "NO"
+          }; Path=/`,
+        },
+      });
+    }
+    if (path.startsWith("/sorry/")) {
+      return html(pages.captcha, 429);
+    }
+
+    const search = path.match(/^\/maps\/search\/([^/]+)/);
+    if (search) {
+      const query = decodeURIComponent(search[1].replace(/\+/g, " "));
+      const q = query.toLowerCase();
+
+      if (q.includes("consent") && !consented) {
+        return redirect(
+          `/consent?continue=${encodeURIComponent(path + url.search)}`,
+        );
+      }
+      if (q.includes("captcha")) {
+        return redirect(
+          `/sorry/index?continue=${encodeURIComponent(path)}`,
+        );
+      }
+      if (q.includes("no results")) {
+        return html(pages.noResults.replaceAll("__QUERY__", escapeHtml(query)));
+      }
+      if (q.includes("single")) {
+        return redirect(placePath());
+      }
+
+      const feed = [
+        ...cards,
+        ...Array.from({ length: FILLER_CARDS }, (_, i) => fillerCard(i + 1)),
+      ];
+      return html(
+        pages.results
+          .replaceAll("__QUERY__", escapeHtml(query))
+          // Keep "</" out of the inline script
+          .replace(
+            "__CARDS__",
+            JSON.stringify(feed).replace(/<\//g, "<\\/"),
+          ),
+      );
+    }
+
+    // cid links redirect to the canonical place URL, like Maps does
+    if (path === "/maps" && url.searchParams.has("cid")) {
+      const cid = BigInt(url.searchParams.get("cid")!);
+      return redirect(
+        placePath(`${FIXTURE_PLACE_ID.split(":")[0]}:0x${cid.toString(16)}`),
+      );
+    }
+    if (path.startsWith("/maps/place/")) {
+      return html(pages.place);
+    }
+
+    return html("<h1>Not found</h1>", 404);
+  };
+}
+
+export async function startFixtureServer(port = 0): Promise<FixtureServer> {
+  const read = (name: string) => Deno.readTextFile(`${PAGES_DIR}/${name}`);
+  const pages = {
+    results: await read("results.html"),
+    place: await read("place.html"),
+    consent: await read("consent.html"),
+    captcha: await read("captcha.html"),
+    noResults: await read("no-results.html"),
+  };
+  const handler = createFixtureHandler(pages, await loadCardFixtures());
+
+  const { promise: listening, resolve } = Promise.withResolvers<number>();
+  const server = Deno.serve({
+    hostname: "127.0.0.1",
+    port,
+    onListen: (addr) => resolve(addr.port),
+  }, handler);
+  const actualPort = await listening;
+
+  return {
+    baseUrl: `http://127.0.0.1:${actualPort}`,
+    close: () => server.shutdown(),
+  };
+}
+
+if (import.meta.main) {
+  const server = await startFixtureServer(parseInt(Deno.args[0] || "8900"));
+  console.log(`🧪 Fixture server listening on ${server.baseUrl}`);
+}
@@ -0,0 +1,140 @@
+/**
+ * Offline geo helpers: place ids and coordinates from Google Maps URLs and
+ * ward assignment
+ *
+ * Ward boundaries are read from data/geo/tokyo-wards.geojson. Until it is
+ * replaced by the MLIT administrative boundaries (`yaban wards import`, see
+ * ward-import.ts), the bundled file holds rough stand-ins: Voronoi cells
+ * around each ward's centre, which put many places near a border in the
+ * neighbouring ward. Each ward's official area is in `areaKm2` either way.
+ * Any FeatureCollection of Polygon/MultiPolygon features with a `name`
+ * property can be used for other cities.
+ */
+
+export const WARD_BOUNDARIES_PATH = "./data/geo/tokyo-wards.geojson";
+
+type Ring = [number, number][];
+
+export interface WardBoundary {
+  name: string;
+  nameJa?: string;
+  // Municipality code, e.g. 13101
+  code?: string;
+  // Official area; outlines simplified for lookups measure it poorly
+  areaKm2?: number;
+  // The collection's `source`; the N03 attribution once imported
+  source?: string;
+  polygons: Ring[][];
+}
+
+interface GeoJsonFeature {
+  properties: {
+    name: string;
+    nameJa?: string;
+    code?: string;
+    areaKm2?: number;
+  };
+  geometry:
+    | { type: "Polygon"; coordinates: Ring[] }
+    | { type: "MultiPolygon"; coordinates: Ring[][] };
+}
+
+/**
+ * Read the `!1s<placeId>` segment of a place URL; cid and short links have
+ * none until Maps redirects them
+ */
+export function parsePlaceId(url: string): string | undefined {
+  return url.match(/!1s([^!]+)/)?.[1];
+}
+
+/**
+ * Read the `!3d<lat>!4d<lng>` pair Google Maps embeds in place URLs
+ */
+export function parseCoordinates(
+  url: string,
+): { lat: number; lng: number } | undefined {
+  const match = url.match(/!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/);
+  if (!match) return undefined;
+  return { lat: parseFloat(match[1]), lng: parseFloat(match[2]) };
+}
+
+export async function loadWardBoundaries(
+  path = WARD_BOUNDARIES_PATH,
+): Promise<WardBoundary[]> {
+  const data = JSON.parse(await Deno.readTextFile(path)) as {
+    source?: string;
+    features: GeoJsonFeature[];
+  };
+
+  return data.features.map((feature) => ({
+    name: feature.properties.name,
+    nameJa: feature.properties.nameJa,
+    code: feature.properties.code,
+    areaKm2: feature.properties.areaKm2,
+    source: data.source,
+    polygons: feature.geometry.type === "Polygon"
+      ? [feature.geometry.coordinates]
+      : feature.geometry.coordinates,
+  }));
+}
+
+function pointInRing(lng: number, lat: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (
+      (yi > lat) !== (yj > lat) &&
+      lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Ray-casting test; the first ring of each polygon is the outer boundary,
+ * the rest are holes
+ */
+export function pointInPolygon(
+  lat: number,
+  lng: number,
+  polygon: Ring[],
+): boolean {
+  const [outer, ...holes] = polygon;
+  if (!outer || !pointInRing(lng, lat, outer)) return false;
+  return !holes.some((hole) => pointInRing(lng, lat, hole));
+}
+
+/**
+ * Name of the ward a point physically lies in, or undefined outside all wards
+ */
+export function assignWard(
+  lat: number,
+  lng: number,
+  wards: WardBoundary[],
+): string | undefined {
+  return wards.find((ward) =>
+    ward.polygons.some((polygon) => pointInPolygon(lat, lng, polygon))
+  )?.name;
+}
+
+const EARTH_RADIUS_M = 6371008.8;
+
+/**
+ * Great-circle distance in meters
+ */
+export function haversineDistance(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
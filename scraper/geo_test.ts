@@ -0,0 +1,98 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import {
+  assignWard,
+  loadWardBoundaries,
+  parseCoordinates,
+  parsePlaceId,
+  type WardBoundary,
+} from "./geo.ts";
+import { N03_SOURCE } from "./ward-import.ts";
+
+const BOUNDARIES = new URL("../data/geo/tokyo-wards.geojson", import.meta.url);
+
+interface KnownLocation {
+  name: string;
+  lat: number;
+  lng: number;
+  // null outside the 23 wards
+  ward: string | null;
+}
+
+const locations: KnownLocation[] = JSON.parse(
+  await Deno.readTextFile(
+    new URL("./fixtures/ward-locations.json", import.meta.url),
+  ),
+);
+const bundled = JSON.parse(await Deno.readTextFile(BOUNDARIES));
+
+const SQUARE: WardBoundary = {
+  name: "Square",
+  polygons: [[
+    [[139.0, 35.0], [139.1, 35.0], [139.1, 35.1], [139.0, 35.1], [139.0, 35.0]],
+    // Hole in the middle
+    [[139.04, 35.04], [139.06, 35.04], [139.06, 35.06], [139.04, 35.06], [
+      139.04,
+      35.04,
+    ]],
+  ]],
+};
+
+Deno.test("parseCoordinates: !3d/!4d pair of a place URL", () => {
+  assertEquals(
+    parseCoordinates(
+      "https://www.google.com/maps/place/X/data=!4m7!3m6!1s0x6:0x8!8m2!3d35.6690593!4d139.7585623!16s",
+    ),
+    { lat: 35.6690593, lng: 139.7585623 },
+  );
+  assertEquals(
+    parseCoordinates("https://www.google.com/maps/place/X"),
+    undefined,
+  );
+});
+
+Deno.test("parsePlaceId: !1s segment of a place URL", () => {
+  assertEquals(
+    parsePlaceId(
+      "https://www.google.com/maps/place/X/data=!4m7!3m6!1s0x60188bc9548ab18f:0x8d79cd1f7b8bf906!8m2!3d35.66!4d139.75",
+    ),
+    "0x60188bc9548ab18f:0x8d79cd1f7b8bf906",
+  );
+  assertEquals(
+    parsePlaceId("https://maps.google.com/?cid=10194340131585566982"),
+    undefined,
+  );
+});
+
+Deno.test("assignWard: outer ring counts, holes and outside don't", () => {
+  assertEquals(assignWard(35.02, 139.02, [SQUARE]), "Square");
+  assertEquals(assignWard(35.05, 139.05, [SQUARE]), undefined);
+  assertEquals(assignWard(35.2, 139.02, [SQUARE]), undefined);
+});
+
+Deno.test("bundled wards: 23 wards with code and official area", async () => {
+  const wards = await loadWardBoundaries(BOUNDARIES.pathname);
+  assertEquals(wards.length, 23);
+  for (const ward of wards) {
+    assertEquals(/^131\d\d$/.test(ward.code ?? ""), true, ward.name);
+    assertEquals((ward.areaKm2 ?? 0) > 0, true, ward.name);
+    assertEquals(ward.source, bundled.source, ward.name);
+  }
+});
+
+// The rough stand-in outlines misplace places near borders and reach past the
+// 23 wards; this only holds once the administrative boundaries are imported
+// (yaban wards import)
+Deno.test({
+  name: "assignWard: known locations fall in their ward",
+  ignore: bundled.source !== N03_SOURCE,
+  async fn() {
+    const wards = await loadWardBoundaries(BOUNDARIES.pathname);
+    const wrong = locations.flatMap((location) => {
+      const ward = assignWard(location.lat, location.lng, wards) ?? null;
+      return ward === location.ward
+        ? []
+        : [`${location.name}: ${ward} instead of ${location.ward}`];
+    });
+    assertEquals(wrong, []);
+  },
+});
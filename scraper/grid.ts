@@ -0,0 +1,160 @@
+/**
+ * Map tiling for geographic sweeps
+ * A bounding box is cut into a grid of tiles; each tile is searched at a fixed
+ * map viewport, and a tile that returns as many results as Google will give
+ * is split into four quadrants and searched again.
+ */
+
+import { haversineDistance, type WardBoundary } from "./geo.ts";
+
+export interface BoundingBox {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+export interface MapViewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+export interface Tile {
+  // "0-1" for the top-level grid cell in row 0, column 1; quadrants append
+  // ".0" to ".3" (NW, NE, SW, SE)
+  id: string;
+  depth: number;
+  bbox: BoundingBox;
+}
+
+// Map area of the 1366x768 browser viewport, minus the results panel
+const MAP_WIDTH_PX = 960;
+const MAP_HEIGHT_PX = 768;
+const TILE_SIZE_PX = 256;
+const MIN_ZOOM = 10;
+const MAX_ZOOM = 19;
+
+/**
+ * Parse "minLng,minLat,maxLng,maxLat", the order the API's bbox filter uses
+ */
+export function parseBoundingBox(value: string): BoundingBox | undefined {
+  const parts = value.split(",").map((part) => parseFloat(part));
+  if (parts.length !== 4 || parts.some(isNaN)) return undefined;
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (minLng >= maxLng || minLat >= maxLat) return undefined;
+  return { minLat, minLng, maxLat, maxLng };
+}
+
+export function boundingBoxOf(boundary: WardBoundary): BoundingBox {
+  const points = boundary.polygons.flatMap((polygon) => polygon[0]);
+  return {
+    minLat: Math.min(...points.map(([, lat]) => lat)),
+    minLng: Math.min(...points.map(([lng]) => lng)),
+    maxLat: Math.max(...points.map(([, lat]) => lat)),
+    maxLng: Math.max(...points.map(([lng]) => lng)),
+  };
+}
+
+export function containsPoint(
+  bbox: BoundingBox,
+  lat: number,
+  lng: number,
+): boolean {
+  return lat >= bbox.minLat && lat <= bbox.maxLat &&
+    lng >= bbox.minLng && lng <= bbox.maxLng;
+}
+
+/**
+ * Cut a box into square-ish tiles of about tileSizeMeters on a side
+ */
+export function gridTiles(bbox: BoundingBox, tileSizeMeters: number): Tile[] {
+  const midLat = (bbox.minLat + bbox.maxLat) / 2;
+  const heightM = haversineDistance(
+    bbox.minLat,
+    bbox.minLng,
+    bbox.maxLat,
+    bbox.minLng,
+  );
+  const widthM = haversineDistance(midLat, bbox.minLng, midLat, bbox.maxLng);
+  const rows = Math.max(1, Math.ceil(heightM / tileSizeMeters));
+  const cols = Math.max(1, Math.ceil(widthM / tileSizeMeters));
+  const latStep = (bbox.maxLat - bbox.minLat) / rows;
+  const lngStep = (bbox.maxLng - bbox.minLng) / cols;
+
+  const tiles: Tile[] = [];
+  // Row 0 is the northernmost, like the map reads
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      tiles.push({
+        id: `${row}-${col}`,
+        depth: 0,
+        bbox: {
+          minLat: bbox.maxLat - (row + 1) * latStep,
+          maxLat: bbox.maxLat - row * latStep,
+          minLng: bbox.minLng + col * lngStep,
+          maxLng: bbox.minLng + (col + 1) * lngStep,
+        },
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Four quadrants: NW, NE, SW, SE
+ */
+export function splitTile(tile: Tile): Tile[] {
+  const { minLat, minLng, maxLat, maxLng } = tile.bbox;
+  const midLat = (minLat + maxLat) / 2;
+  const midLng = (minLng + maxLng) / 2;
+  const quadrants: BoundingBox[] = [
+    { minLat: midLat, maxLat, minLng, maxLng: midLng },
+    { minLat: midLat, maxLat, minLng: midLng, maxLng },
+    { minLat, maxLat: midLat, minLng, maxLng: midLng },
+    { minLat, maxLat: midLat, minLng: midLng, maxLng },
+  ];
+  return quadrants.map((bbox, i) => ({
+    id: `${tile.id}.${i}`,
+    depth: tile.depth + 1,
+    bbox,
+  }));
+}
+
+function mercatorY(lat: number): number {
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return Math.log((1 + sin) / (1 - sin)) / 2;
+}
+
+/**
+ * Center and the highest zoom at which the whole tile fits the map area
+ */
+export function tileViewport(tile: Tile): MapViewport {
+  const { minLat, minLng, maxLat, maxLng } = tile.bbox;
+  const lngFraction = (maxLng - minLng) / 360;
+  const latFraction = (mercatorY(maxLat) - mercatorY(minLat)) / (2 * Math.PI);
+  const zoomX = Math.log2(MAP_WIDTH_PX / TILE_SIZE_PX / lngFraction);
+  const zoomY = Math.log2(MAP_HEIGHT_PX / TILE_SIZE_PX / latFraction);
+  const zoom = Math.min(
+    MAX_ZOOM,
+    Math.max(MIN_ZOOM, Math.floor(Math.min(zoomX, zoomY))),
+  );
+
+  return {
+    lat: (minLat + maxLat) / 2,
+    lng: (minLng + maxLng) / 2,
+    zoom,
+  };
+}
+
+/**
+ * Shortest side of a tile in meters
+ */
+export function tileSizeMeters(tile: Tile): number {
+  const { minLat, minLng, maxLat, maxLng } = tile.bbox;
+  const midLat = (minLat + maxLat) / 2;
+  return Math.min(
+    haversineDistance(minLat, minLng, maxLat, minLng),
+    haversineDistance(midLat, minLng, midLat, maxLng),
+  );
+}
@@ -0,0 +1,205 @@
+import { assertAlmostEquals, assertEquals } from "jsr:@std/assert@1.0.8";
+import {
+  type BoundingBox,
+  boundingBoxOf,
+  containsPoint,
+  gridTiles,
+  parseBoundingBox,
+  splitTile,
+  type Tile,
+  tileSizeMeters,
+  tileViewport,
+} from "./grid.ts";
+
+// Shinjuku ward's bounding box, about 6.6 km wide and 5.4 km tall
+const SHINJUKU: BoundingBox = {
+  minLat: 35.6814,
+  minLng: 139.6731,
+  maxLat: 35.7296,
+  maxLng: 139.7457,
+};
+
+// Map area the viewport is fitted to, as in grid.ts
+const MAP_WIDTH_PX = 960;
+const MAP_HEIGHT_PX = 768;
+
+function mercatorY(lat: number): number {
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return Math.log((1 + sin) / (1 - sin)) / 2;
+}
+
+function inverseMercatorY(y: number): number {
+  return (Math.atan(Math.sinh(y)) * 180) / Math.PI;
+}
+
+/**
+ * What the map shows at a viewport: the inverse of tileViewport
+ */
+function visibleBox(lat: number, lng: number, zoom: number): BoundingBox {
+  const worldPx = 256 * 2 ** zoom;
+  const lngSpan = (MAP_WIDTH_PX / worldPx) * 360;
+  const ySpan = (MAP_HEIGHT_PX / worldPx) * 2 * Math.PI;
+  const y = mercatorY(lat);
+  return {
+    minLat: inverseMercatorY(y - ySpan / 2),
+    maxLat: inverseMercatorY(y + ySpan / 2),
+    minLng: lng - lngSpan / 2,
+    maxLng: lng + lngSpan / 2,
+  };
+}
+
+function inside(inner: BoundingBox, outer: BoundingBox): boolean {
+  return inner.minLat >= outer.minLat && inner.maxLat <= outer.maxLat &&
+    inner.minLng >= outer.minLng && inner.maxLng <= outer.maxLng;
+}
+
+function area(bbox: BoundingBox): number {
+  return (bbox.maxLat - bbox.minLat) * (bbox.maxLng - bbox.minLng);
+}
+
+Deno.test("parseBoundingBox: lng,lat order and bad boxes", () => {
+  assertEquals(parseBoundingBox("139.69,35.68,139.71,35.71"), {
+    minLat: 35.68,
+    minLng: 139.69,
+    maxLat: 35.71,
+    maxLng: 139.71,
+  });
+  assertEquals(parseBoundingBox("139.71,35.68,139.69,35.71"), undefined);
+  assertEquals(parseBoundingBox("139.69,35.68,139.71"), undefined);
+  assertEquals(parseBoundingBox("a,b,c,d"), undefined);
+});
+
+Deno.test("boundingBoxOf: outer rings of every polygon", () => {
+  assertEquals(
+    boundingBoxOf({
+      name: "Test",
+      nameJa: "テスト",
+      polygons: [
+        [[[139.7, 35.7], [139.71, 35.7], [139.7, 35.71], [139.7, 35.7]]],
+        [[[139.8, 35.6], [139.81, 35.6], [139.8, 35.62], [139.8, 35.6]]],
+      ],
+    }),
+    { minLat: 35.6, minLng: 139.7, maxLat: 35.71, maxLng: 139.81 },
+  );
+});
+
+Deno.test("gridTiles: tiles cover the box edge to edge", () => {
+  const tiles = gridTiles(SHINJUKU, 1000);
+  // 5.4 km tall and 6.6 km wide at 1 km tiles
+  assertEquals(tiles.length, 6 * 7);
+  assertEquals(tiles[0].id, "0-0");
+  assertEquals(tiles.at(-1)!.id, "5-6");
+  assertEquals(tiles.every((tile) => tile.depth === 0), true);
+  for (const tile of tiles) {
+    assertEquals(tileSizeMeters(tile) <= 1000, true, tile.id);
+    assertEquals(tileSizeMeters(tile) > 800, true, tile.id);
+  }
+
+  // Row 0 is the north edge, column 0 the west edge
+  assertAlmostEquals(tiles[0].bbox.maxLat, SHINJUKU.maxLat, 1e-12);
+  assertAlmostEquals(tiles[0].bbox.minLng, SHINJUKU.minLng, 1e-12);
+  assertAlmostEquals(tiles.at(-1)!.bbox.minLat, SHINJUKU.minLat, 1e-12);
+  assertAlmostEquals(tiles.at(-1)!.bbox.maxLng, SHINJUKU.maxLng, 1e-12);
+
+  // Neighbours share their edges, so no strip is left unsearched
+  const byId = new Map(tiles.map((tile) => [tile.id, tile]));
+  for (const tile of tiles) {
+    const [row, col] = tile.id.split("-").map(Number);
+    const east = byId.get(`${row}-${col + 1}`);
+    const south = byId.get(`${row + 1}-${col}`);
+    if (east) assertAlmostEquals(east.bbox.minLng, tile.bbox.maxLng, 1e-12);
+    if (south) assertAlmostEquals(south.bbox.maxLat, tile.bbox.minLat, 1e-12);
+  }
+  const total = tiles.reduce((sum, tile) => sum + area(tile.bbox), 0);
+  assertAlmostEquals(total, area(SHINJUKU), 1e-12);
+
+  // Corners and edges of the box fall in some tile
+  for (
+    const [lat, lng] of [
+      [SHINJUKU.minLat, SHINJUKU.minLng],
+      [SHINJUKU.maxLat, SHINJUKU.maxLng],
+      [SHINJUKU.minLat, (SHINJUKU.minLng + SHINJUKU.maxLng) / 2],
+      [35.7, 139.7],
+    ]
+  ) {
+    assertEquals(
+      tiles.some((tile) => containsPoint(tile.bbox, lat, lng)),
+      true,
+      `${lat}, ${lng}`,
+    );
+  }
+});
+
+Deno.test("gridTiles: a box smaller than a tile is one tile", () => {
+  const small = {
+    minLat: 35.7,
+    minLng: 139.7,
+    maxLat: 35.701,
+    maxLng: 139.701,
+  };
+  assertEquals(gridTiles(small, 1000), [
+    { id: "0-0", depth: 0, bbox: small },
+  ]);
+});
+
+Deno.test("splitTile: quadrants, ids and depth", () => {
+  const [tile] = gridTiles(SHINJUKU, 10000);
+  const quadrants = splitTile(tile);
+  assertEquals(quadrants.map((q) => [q.id, q.depth]), [
+    ["0-0.0", 1],
+    ["0-0.1", 1],
+    ["0-0.2", 1],
+    ["0-0.3", 1],
+  ]);
+  const [nw, ne, sw, se] = quadrants.map((q) => q.bbox);
+  assertEquals(nw.maxLat, SHINJUKU.maxLat);
+  assertEquals(nw.minLng, SHINJUKU.minLng);
+  assertEquals(ne.maxLng, SHINJUKU.maxLng);
+  assertEquals(sw.minLat, SHINJUKU.minLat);
+  assertEquals(se.minLat, sw.minLat);
+  assertEquals(nw.minLat, sw.maxLat);
+  assertEquals(nw.maxLng, ne.minLng);
+
+  // Three splits deep: 64 tiles at an eighth of the size, same area
+  let tiles: Tile[] = [tile];
+  for (let depth = 1; depth <= 3; depth++) tiles = tiles.flatMap(splitTile);
+  assertEquals(tiles.length, 64);
+  assertEquals(tiles[0].id, "0-0.0.0.0");
+  assertEquals(tiles.at(-1)!.id, "0-0.3.3.3");
+  assertEquals(tiles.every((t) => t.depth === 3), true);
+  assertEquals(tiles.every((t) => inside(t.bbox, tile.bbox)), true);
+  const total = tiles.reduce((sum, t) => sum + area(t.bbox), 0);
+  assertAlmostEquals(total, area(tile.bbox), 1e-12);
+  assertAlmostEquals(
+    tileSizeMeters(tiles[0]),
+    tileSizeMeters(tile) / 8,
+    5,
+  );
+});
+
+Deno.test("tileViewport: the tile fits at the chosen zoom and not closer", () => {
+  let tiles = gridTiles(SHINJUKU, 2000);
+  for (let depth = 0; depth <= 4; depth++) {
+    for (const tile of tiles) {
+      const { lat, lng, zoom } = tileViewport(tile);
+      assertAlmostEquals(lat, (tile.bbox.minLat + tile.bbox.maxLat) / 2);
+      assertAlmostEquals(lng, (tile.bbox.minLng + tile.bbox.maxLng) / 2);
+      assertEquals(inside(tile.bbox, visibleBox(lat, lng, zoom)), true);
+      // One zoom closer, an edge of the tile is cut off
+      assertEquals(inside(tile.bbox, visibleBox(lat, lng, zoom + 1)), false);
+    }
+    tiles = tiles.flatMap(splitTile);
+  }
+});
+
+Deno.test("tileViewport: zoom stays within the map's range", () => {
+  const kanto = { minLat: 34.5, minLng: 138.5, maxLat: 37, maxLng: 141 };
+  assertEquals(tileViewport({ id: "0-0", depth: 0, bbox: kanto }).zoom, 10);
+  const doorway = {
+    minLat: 35.7,
+    minLng: 139.7,
+    maxLat: 35.70001,
+    maxLng: 139.70001,
+  };
+  assertEquals(tileViewport({ id: "0-0", depth: 0, bbox: doorway }).zoom, 19);
+});
@@ -1,16 +1,27 @@
 /**
- * Main entry point for the Google Maps scraper
- * Usage: deno run --allow-net --allow-write --allow-read --allow-env --allow-run scraper/main.ts
+ * Single search scrape for the Google Maps scraper
+ * Runs one query and saves the results as a raw snapshot
+ * Usage: yaban scrape [query] [--max 20] [--no-headless]
  */
 
 import { GoogleMapsScraper } from "./maps-scraper.ts";
-import { generateFilename, saveRawData } from "./storage.ts";
+import { generateFilename, openStore, type ScrapedPlace } from "./storage.ts";
 
-async function main() {
-  const query = Deno.args[0] || "halal restaurants in Tokyo";
-  const maxResults = parseInt(Deno.args[1] || "20");
-  const headless = Deno.args[2] !== "false"; // Set to false to see the browser
+export interface ScrapeOptions {
+  query: string;
+  maxResults: number;
+  // false shows the browser
+  headless: boolean;
+}
+
+export interface ScrapeResult {
+  file: string;
+  places: ScrapedPlace[];
+}
 
+export async function scrapeSearch(
+  { query, maxResults, headless }: ScrapeOptions,
+): Promise<ScrapeResult> {
   console.log("=".repeat(60));
   console.log("🍽️  Yaban - Google Maps Scraper");
   console.log("=".repeat(60));
@@ -21,25 +32,27 @@ async function main() {
   console.log();
 
   const scraper = new GoogleMapsScraper();
+  const store = openStore();
 
   try {
     await scraper.initialize(headless, 50);
     const places = await scraper.searchPlaces(query, maxResults);
 
     // Save results
-    const filename = generateFilename(query);
-    await saveRawData(filename, {
+    const saved = await store.saveSearch({
+      file: generateFilename(query),
       query,
       scrapedAt: new Date().toISOString(),
-      totalResults: places.length,
+      capped: places.length >= maxResults,
       places,
     });
+    console.log(`✓ Saved data to ${saved}`);
 
     console.log();
     console.log("=".repeat(60));
     console.log("✅ Scraping complete!");
     console.log(`📊 Total places scraped: ${places.length}`);
-    console.log(`💾 Data saved to: data/raw/${filename}`);
+    console.log(`💾 Data saved to: ${saved}`);
     console.log("=".repeat(60));
 
     // Show preview of first few results
@@ -48,19 +61,25 @@ async function main() {
       console.log("Preview of results:");
       places.slice(0, 3).forEach((place, i) => {
         console.log(`\n${i + 1}. ${place.name}`);
-        console.log(`   ⭐ Rating: ${place.rating || "N/A"} (${place.totalReviews || 0} reviews)`);
+        console.log(
+          `   ⭐ Rating: ${place.rating || "N/A"} (${
+            place.totalReviews || 0
+          } reviews)`,
+        );
         console.log(`   📍 Category: ${place.category || "N/A"}`);
         console.log(`   💰 Price: ${place.priceLevel || "N/A"}`);
+        console.log(`   🏠 Address: ${place.address || "N/A"}`);
+        console.log(`   🕒 Status: ${place.openStatusText || "N/A"}`);
+        console.log(`   🏷️  Tags: ${place.tags?.join(", ") || "N/A"}`);
       });
     }
+
+    return { file: saved, places };
   } catch (error) {
     console.error("❌ Error during scraping:", error);
     throw error;
   } finally {
     await scraper.close();
+    store.close();
   }
 }
-
-if (import.meta.main) {
-  main();
-}
@@ -1,10 +1,52 @@
+/// <reference lib="dom" />
 /**
  * Google Maps scraper using Puppeteer
  * Scrapes restaurant listings and basic information
  */
 
-import puppeteer, { type Browser, type Page } from "npm:puppeteer@23.11.1";
-import type { ScrapedPlace } from "./storage.ts";
+import puppeteer, {
+  type Browser,
+  type BrowserContext,
+  type Page,
+} from "npm:puppeteer@23.11.1";
+import { parseResultCard } from "./card-parser.ts";
+import {
+  parsePlacePanel,
+  type RawPlacePanel,
+  stripLabelPrefix,
+} from "./detail-parser.ts";
+import {
+  ConsentError,
+  type FailureClass,
+  failureClassOf,
+  PageTimeoutError,
+  ScrapeError,
+  ThrottledError,
+} from "./errors.ts";
+import { parseCoordinates } from "./geo.ts";
+import {
+  type BoundingBox,
+  containsPoint,
+  gridTiles,
+  type MapViewport,
+  splitTile,
+  type Tile,
+  tileSizeMeters,
+  tileViewport,
+} from "./grid.ts";
+import {
+  classifyPageState,
+  CONSENT_ACCEPT_LABELS,
+  type PageSnapshot,
+  type PageState,
+} from "./page-state.ts";
+import {
+  parseReview,
+  type RawReview,
+  REVIEW_SORT_LABELS,
+  type ReviewSort,
+} from "./review-parser.ts";
+import type { PlaceDetails, ScrapedPlace, ScrapedReview } from "./storage.ts";
 
 export interface ScrapeOptions {
   query: string;
@@ -13,13 +55,93 @@ export interface ScrapeOptions {
   slowMo?: number;
 }
 
+export interface ReviewScrapeOptions {
+  maxReviews?: number;
+  sort?: ReviewSort;
+  // Reviews already stored for the place; they are skipped in the result
+  knownReviewIds?: Set<string>;
+}
+
+export interface SweepOptions {
+  // Side of the initial grid tiles
+  tileSizeMeters?: number;
+  // Results loaded per tile; a tile that reaches it counts as saturated
+  maxResultsPerTile?: number;
+  // How many times a saturated tile may be split into quadrants
+  maxDepth?: number;
+  // Tiles are not split below this size
+  minTileMeters?: number;
+  // Random wait between tiles, [min, max] milliseconds
+  tileDelayMs?: [number, number];
+}
+
+export interface TileCoverage {
+  id: string;
+  depth: number;
+  bbox: BoundingBox;
+  viewport: MapViewport;
+  resultsFound: number;
+  // Results whose coordinates fall inside the tile
+  placesInTile: number;
+  // Results not already found by an earlier tile
+  newPlaces: number;
+  // Hit the per-tile cap, so the tile probably holds more places
+  saturated: boolean;
+  // Saturated and searched again as four quadrants
+  split: boolean;
+  pageState?: PageState;
+  error?: string;
+  errorClass?: FailureClass;
+}
+
+export interface SweepResult {
+  places: ScrapedPlace[];
+  tiles: TileCoverage[];
+}
+
+export interface ScraperOptions {
+  // Origin serving Google Maps; the test suite points this at its fixture
+  // server. Defaults to MAPS_BASE_URL, then https://www.google.com
+  baseUrl?: string;
+  // Multiplier for the built-in waits, so fixture tests run quickly
+  delayFactor?: number;
+}
+
+export const DEFAULT_BASE_URL = "https://www.google.com";
+
 export class GoogleMapsScraper {
+  private readonly baseUrl: string;
+  private readonly delayFactor: number;
   private browser: Browser | null = null;
   private page: Page | null = null;
 
+  private context: BrowserContext | null = null;
+  private pageState: PageState | null = null;
+
+  constructor(options: ScraperOptions = {}) {
+    this.baseUrl = (options.baseUrl || Deno.env.get("MAPS_BASE_URL") ||
+      DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.delayFactor = options.delayFactor ?? 1;
+  }
+
   async initialize(headless = true, slowMo = 100): Promise<void> {
     console.log("🚀 Launching browser...");
-    this.browser = await puppeteer.launch({
+    this.browser = await GoogleMapsScraper.launchBrowser(headless, slowMo);
+    await this.setupPage(await this.browser.newPage());
+    console.log("✓ Browser initialized");
+  }
+
+  /**
+   * Use an isolated context of a browser shared with other scrapers;
+   * close() then only closes the context
+   */
+  async initializeInContext(browser: Browser): Promise<void> {
+    this.context = await browser.createBrowserContext();
+    await this.setupPage(await this.context.newPage());
+  }
+
+  static launchBrowser(headless = true, slowMo = 100): Promise<Browser> {
+    return puppeteer.launch({
       headless,
       slowMo,
       args: [
@@ -31,8 +153,10 @@ export class GoogleMapsScraper {
       ],
       ignoreDefaultArgs: ["--enable-automation"],
     });
+  }
 
-    this.page = await this.browser.newPage();
+  private async setupPage(page: Page): Promise<void> {
+    this.page = page;
 
     // Set realistic viewport and user agent
     await this.page.setViewport({ width: 1366, height: 768 });
@@ -50,17 +174,29 @@ export class GoogleMapsScraper {
         get: () => false,
       });
     });
-
-    console.log("✓ Browser initialized");
   }
 
-  async searchPlaces(query: string, maxResults = 20): Promise<ScrapedPlace[]> {
+  /**
+   * Search and collect the result list; with a viewport the map is fixed at
+   * that center and zoom, which limits results to roughly the visible area
+   */
+  async searchPlaces(
+    query: string,
+    maxResults = 20,
+    viewport?: MapViewport,
+  ): Promise<ScrapedPlace[]> {
     if (!this.page) {
       throw new Error("Browser not initialized. Call initialize() first.");
     }
 
-    const searchUrl = `https://www.google.com/maps/search/${
+    const searchUrl = `${this.baseUrl}/maps/search/${
       encodeURIComponent(query)
+    }${
+      viewport
+        ? `/@${viewport.lat.toFixed(6)},${
+          viewport.lng.toFixed(6)
+        },${viewport.zoom}z`
+        : ""
     }`;
     console.log(`🔍 Searching: ${query}`);
     console.log(`📍 URL: ${searchUrl}`);
@@ -74,43 +210,668 @@ export class GoogleMapsScraper {
     // Give time for page to load and stabilize
     await this.delay(4000);
 
-    // Wait for results to load
-    await this.waitForResults();
+    // Wait for a result list, or one of the pages that replace it
+    const state = await this.waitForPageState(
+      ["results", "single_place", "no_results"],
+      "Timeout waiting for results feed",
+    );
+
+    if (state === "no_results") {
+      console.log("✓ Google Maps found no results");
+      return [];
+    }
+    if (state === "single_place") {
+      console.log("↪️  Search redirected to a single place");
+      const place = await this.extractSinglePlace();
+      console.log(`✓ Found 1 place: ${place.name}`);
+      return [place];
+    }
+
+    console.log("✓ Results loaded");
+    await this.delay(3000);
 
     // Scroll to load more results
     await this.scrollResults(maxResults);
 
     // Extract place data
-    const places = await this.extractPlaces(query);
+    const places = await this.extractPlaces();
 
     console.log(`✓ Found ${places.length} places`);
     return places;
   }
 
-  private async waitForResults(): Promise<void> {
+  /**
+   * Search a bounding box tile by tile to get past the per-query result cap
+   * Tiles that hit the cap are split into quadrants until maxDepth or
+   * minTileMeters; results are merged by placeId
+   */
+  async sweep(
+    query: string,
+    bbox: BoundingBox,
+    options: SweepOptions = {},
+  ): Promise<SweepResult> {
+    const {
+      tileSizeMeters: initialSize = 2000,
+      maxResultsPerTile = 120,
+      maxDepth = 3,
+      minTileMeters = 250,
+      tileDelayMs = [2000, 4000],
+    } = options;
+
+    const queue: Tile[] = gridTiles(bbox, initialSize);
+    const places = new Map<string, ScrapedPlace>();
+    const tiles: TileCoverage[] = [];
+    console.log(`🗺️  Sweeping ${queue.length} tiles for: ${query}`);
+
+    while (queue.length > 0) {
+      const tile = queue.shift()!;
+      const viewport = tileViewport(tile);
+      console.log(
+        `\n🧭 Tile ${tile.id} (depth ${tile.depth}, zoom ${viewport.zoom}, ${queue.length} queued)`,
+      );
+
+      const coverage: TileCoverage = {
+        id: tile.id,
+        depth: tile.depth,
+        bbox: tile.bbox,
+        viewport,
+        resultsFound: 0,
+        placesInTile: 0,
+        newPlaces: 0,
+        saturated: false,
+        split: false,
+      };
+
+      try {
+        const results = await this.searchPlaces(
+          query,
+          maxResultsPerTile,
+          viewport,
+        );
+        coverage.resultsFound = results.length;
+        coverage.pageState = this.pageState ?? undefined;
+        for (const place of results) {
+          if (
+            place.lat !== undefined && place.lng !== undefined &&
+            containsPoint(tile.bbox, place.lat, place.lng)
+          ) {
+            coverage.placesInTile++;
+          }
+          if (!places.has(place.placeId)) {
+            places.set(place.placeId, place);
+            coverage.newPlaces++;
+          }
+        }
+
+        coverage.saturated = results.length >= maxResultsPerTile;
+        if (
+          coverage.saturated && tile.depth < maxDepth &&
+          tileSizeMeters(tile) / 2 >= minTileMeters
+        ) {
+          coverage.split = true;
+          queue.push(...splitTile(tile));
+          console.log(`  🔪 Saturated, splitting into 4 tiles`);
+        } else if (coverage.saturated) {
+          console.log(`  ⚠️  Saturated at the smallest tile size`);
+        }
+      } catch (error) {
+        coverage.error = (error as Error).message;
+        coverage.errorClass = failureClassOf(error);
+        coverage.pageState = this.pageState ?? undefined;
+        console.error(`  ❌ Tile ${tile.id} failed:`, coverage.error);
+      }
+
+      tiles.push(coverage);
+
+      if (queue.length > 0) {
+        const [min, max] = tileDelayMs;
+        await this.delay(min + Math.floor(Math.random() * (max - min)));
+      }
+    }
+
+    console.log(
+      `\n✓ Sweep complete: ${places.size} unique places from ${tiles.length} tiles`,
+    );
+    return { places: [...places.values()], tiles };
+  }
+
+  /**
+   * Open a place panel and collect its full details
+   * Accepts a place URL or a placeId as stored on ScrapedPlace
+   */
+  async scrapePlaceDetails(target: string): Promise<PlaceDetails> {
+    if (!this.page) {
+      throw new Error("Browser not initialized. Call initialize() first.");
+    }
+
+    await this.openPlace(target);
+    const panel = await this.extractPlacePanel();
+
+    // Attributes only render once the About tab is opened
+    if (await this.openTab("About")) {
+      panel.aboutSections = await this.extractAboutSections();
+    }
+
+    const finalUrl = this.page.url();
+
+    const details: PlaceDetails = {
+      placeId: this.resolvePlaceId(target),
+      ...parsePlacePanel(panel),
+      url: finalUrl,
+      scrapedAt: new Date().toISOString(),
+    };
+
+    console.log(
+      `✓ Collected details for ${details.name} (${details.attributes.length} attributes)`,
+    );
+    return details;
+  }
+
+  /**
+   * Collect up to maxReviews reviews from a place's Reviews tab
+   * With sort "newest" and knownReviewIds, scrolling stops at the first review
+   * that is already stored, so re-runs only fetch what is new
+   */
+  async scrapeReviews(
+    target: string,
+    options: ReviewScrapeOptions = {},
+  ): Promise<{ placeId: string; reviews: ScrapedReview[] }> {
+    if (!this.page) {
+      throw new Error("Browser not initialized. Call initialize() first.");
+    }
+
+    const maxReviews = options.maxReviews ?? 50;
+    const sort = options.sort ?? "newest";
+    const known = options.knownReviewIds ?? new Set<string>();
+
+    await this.openPlace(target);
+    const placeId = this.resolvePlaceId(target);
+
+    if (!(await this.openTab("Reviews"))) {
+      throw new Error("Reviews tab not found");
+    }
+    await this.sortReviews(sort);
+    await this.scrollReviews(maxReviews, sort === "newest" ? known : undefined);
+    await this.expandReviewTexts();
+
+    const now = new Date();
+    const raw = await this.extractReviews();
+    const reviews = raw
+      .slice(0, maxReviews)
+      .map((review) => parseReview(review, placeId, now))
+      .filter((review) => !known.has(review.reviewId));
+
+    console.log(`✓ Collected ${reviews.length} new reviews`);
+    return { placeId, reviews };
+  }
+
+  private async openPlace(target: string): Promise<void> {
+    if (!this.page) return;
+
+    const placeUrl = this.resolvePlaceUrl(target);
+    console.log(`🏪 Opening place: ${placeUrl}`);
+
+    await this.page.goto(placeUrl, {
+      waitUntil: "domcontentloaded",
+      timeout: 60000,
+    });
+
+    // Give time for page to load and stabilize
+    await this.delay(4000);
+
+    await this.waitForPageState(
+      ["single_place"],
+      "Timeout waiting for place panel",
+    );
+    console.log("✓ Place panel loaded");
+    await this.delay(2000);
+  }
+
+  /**
+   * Prefer the id in the current URL: Maps redirects cid links to it
+   */
+  private resolvePlaceId(target: string): string {
+    const match = (this.page?.url() || "").match(/!1s([^!]+)/) ||
+      target.match(/!1s([^!]+)/) ||
+      target.match(/^(0x[0-9a-f]+:0x[0-9a-f]+)$/i);
+    return match ? match[1] : target;
+  }
+
+  private async sortReviews(sort: ReviewSort): Promise<void> {
+    if (!this.page) return;
+
+    const label = REVIEW_SORT_LABELS[sort];
+    const opened = await this.page.evaluate(() => {
+      const button = document.querySelector(
+        'button[aria-label*="Sort reviews"], button[aria-label="Most relevant"]',
+      );
+      if (button instanceof HTMLElement) {
+        button.click();
+        return true;
+      }
+      return false;
+    }).catch(() => false);
+
+    if (!opened) {
+      console.log("  ⚠️  Sort menu not found, keeping default order");
+      return;
+    }
+    await this.delay(1000);
+
+    const selected = await this.page.evaluate((itemLabel) => {
+      const items = document.querySelectorAll('[role="menuitemradio"]');
+      for (const item of Array.from(items)) {
+        if ((item.textContent || "").trim().startsWith(itemLabel)) {
+          (item as HTMLElement).click();
+          return true;
+        }
+      }
+      return false;
+    }, label).catch(() => false);
+
+    if (selected) {
+      console.log(`✓ Sorted reviews by: ${label}`);
+      await this.delay(2000);
+    } else {
+      console.log(`  ⚠️  Sort option "${label}" not found`);
+    }
+  }
+
+  private async loadedReviewIds(): Promise<string[]> {
+    if (!this.page) return [];
+
+    return await this.page.evaluate(() =>
+      Array.from(document.querySelectorAll("div[data-review-id][aria-label]"))
+        .map((el) => el.getAttribute("data-review-id") || "")
+        .filter((id, i, ids) => id && ids.indexOf(id) === i)
+    ).catch(() => []);
+  }
+
+  private async scrollReviews(
+    maxReviews: number,
+    stopAtIds?: Set<string>,
+  ): Promise<void> {
     if (!this.page) return;
 
-    // Poll for the selector instead of using waitForSelector (avoids frame issues)
+    console.log(`📜 Scrolling to load up to ${maxReviews} reviews...`);
+
+    let previousCount = 0;
+    let noNewResultsCount = 0;
+    const maxNoNewResults = 3;
+
+    while (noNewResultsCount < maxNoNewResults) {
+      const ids = await this.loadedReviewIds();
+      console.log(`  Current reviews: ${ids.length}`);
+
+      if (ids.length >= maxReviews) {
+        console.log(`✓ Reached target of ${maxReviews} reviews`);
+        break;
+      }
+      if (stopAtIds && ids.some((id) => stopAtIds.has(id))) {
+        console.log("✓ Reached reviews that are already stored");
+        break;
+      }
+
+      if (ids.length === previousCount) {
+        noNewResultsCount++;
+      } else {
+        noNewResultsCount = 0;
+        previousCount = ids.length;
+      }
+
+      // The reviews list scrolls inside the nearest scrollable ancestor
+      await this.page.evaluate(() => {
+        let el = document.querySelector("div[data-review-id]")?.parentElement;
+        while (el && el.scrollHeight <= el.clientHeight) {
+          el = el.parentElement;
+        }
+        if (el) el.scrollTop = el.scrollHeight;
+      }).catch(() => {
+        console.log("  ⚠️  Frame detached during scroll, continuing...");
+      });
+
+      await this.delay(2000);
+    }
+  }
+
+  /**
+   * Click every "More" button so truncated review texts are complete
+   */
+  private async expandReviewTexts(): Promise<void> {
+    if (!this.page) return;
+
+    const expanded = await this.page.evaluate(() => {
+      const buttons = document.querySelectorAll(
+        'div[data-review-id] button[aria-label="See more"], div[data-review-id] button[aria-expanded="false"]',
+      );
+      buttons.forEach((button) => (button as HTMLElement).click());
+      return buttons.length;
+    }).catch(() => 0);
+
+    if (expanded > 0) {
+      console.log(`✓ Expanded ${expanded} truncated reviews`);
+      await this.delay(1000);
+    }
+  }
+
+  private async extractReviews(): Promise<RawReview[]> {
+    if (!this.page) return [];
+
+    return await this.page.evaluate(() => {
+      const results: {
+        reviewId: string;
+        authorName: string;
+        authorUrl?: string;
+        authorInfo?: string;
+        ratingLabel: string;
+        dateText: string;
+        text: string;
+      }[] = [];
+      const seen = new Set<string>();
+      const datePattern = /(\bago|^yesterday|^just now)$/i;
+      // "Local Guide · 87 reviews" or just "3 reviews"
+      const authorInfoPattern = /\blocal guide\b|^[\d,]+\s+reviews?\b/i;
+
+      document.querySelectorAll("div[data-review-id][aria-label]").forEach(
+        (el) => {
+          const reviewId = el.getAttribute("data-review-id") || "";
+          if (!reviewId || seen.has(reviewId)) return;
+          seen.add(reviewId);
+
+          const authorName = el.getAttribute("aria-label") || "";
+          const spans = Array.from(el.querySelectorAll("span"))
+            // Owner responses are nested in the review block; skip them
+            .filter((span) =>
+              !span.closest('[aria-label*="Response from the owner"]')
+            )
+            .map((span) => (span as HTMLElement).innerText?.trim() || "");
+          const dateText = spans.find((text) => datePattern.test(text)) || "";
+          const author = el.querySelector('[data-href*="/contrib/"]');
+          const authorInfo = ((author as HTMLElement | null)?.innerText || "")
+            .split("\n")
+            .map((line) => line.trim())
+            .find((line) => authorInfoPattern.test(line));
+          const text = spans
+            .filter((t) =>
+              t !== authorName && t !== dateText && t !== authorInfo
+            )
+            .reduce(
+              (longest, t) => t.length > longest.length ? t : longest,
+              "",
+            );
+
+          results.push({
+            reviewId,
+            authorName,
+            authorUrl: author?.getAttribute("data-href") || undefined,
+            authorInfo,
+            ratingLabel: el.querySelector('[role="img"][aria-label*="star"]')
+              ?.getAttribute("aria-label") || "",
+            dateText,
+            text,
+          });
+        },
+      );
+
+      return results;
+    });
+  }
+
+  private resolvePlaceUrl(target: string): string {
+    if (target.startsWith("http")) return target;
+
+    // Hex ids ("0x...:0x...") carry the CID in their second half
+    const hexMatch = target.match(/^0x[0-9a-f]+:(0x[0-9a-f]+)$/i);
+    if (hexMatch) {
+      return `${this.baseUrl}/maps?cid=${BigInt(hexMatch[1])}&hl=en`;
+    }
+
+    return `${this.baseUrl}/maps/place/?q=place_id:${
+      encodeURIComponent(target)
+    }&hl=en`;
+  }
+
+  private async extractPlacePanel(): Promise<RawPlacePanel> {
+    if (!this.page) throw new Error("Browser not initialized");
+
+    return await this.page.evaluate(() => {
+      const main = document.querySelector('div[role="main"]') || document.body;
+
+      const items: Record<string, string> = {};
+      main.querySelectorAll("[data-item-id]").forEach((el) => {
+        const id = el.getAttribute("data-item-id") || "";
+        const label = el.getAttribute("aria-label") ||
+          (el as HTMLElement).innerText || "";
+        if (id && label && !items[id]) items[id] = label.trim();
+      });
+
+      const websiteEl = main.querySelector('a[data-item-id="authority"]');
+      const hoursEl = main.querySelector(
+        '[aria-label*="Hide open hours"], table[aria-label*="Monday"]',
+      );
+
+      const photoLabels = Array.from(
+        main.querySelectorAll(
+          'button[aria-label*="hoto"], [aria-label*="hoto"]',
+        ),
+      ).map((el) =>
+        `${el.getAttribute("aria-label") || ""} ${
+          (el as HTMLElement).innerText || ""
+        }`
+      );
+
+      return {
+        name: main.querySelector("h1")?.textContent?.trim() || "",
+        url: location.href,
+        items,
+        website: websiteEl?.getAttribute("href") || undefined,
+        hoursLabel: hoursEl?.getAttribute("aria-label") || undefined,
+        photoLabels,
+        aboutSections: [],
+      };
+    });
+  }
+
+  private async extractAboutSections(): Promise<
+    RawPlacePanel["aboutSections"]
+  > {
+    if (!this.page) return [];
+
+    return await this.page.evaluate(() => {
+      const sections: { heading: string; entries: string[] }[] = [];
+      const main = document.querySelector('div[role="main"]') || document.body;
+
+      main.querySelectorAll('div[role="region"]').forEach((region) => {
+        const heading = region.querySelector("h2")?.textContent?.trim() ||
+          region.getAttribute("aria-label") || "";
+        const entries = Array.from(region.querySelectorAll("li"))
+          .map((li) =>
+            li.querySelector("[aria-label]")?.getAttribute("aria-label") ||
+            li.textContent?.trim() || ""
+          );
+        if (entries.length > 0) sections.push({ heading, entries });
+      });
+
+      return sections;
+    });
+  }
+
+  /**
+   * Click a place panel tab ("Overview", "Reviews", "About") by its label
+   */
+  private async openTab(name: string): Promise<boolean> {
+    if (!this.page) return false;
+
+    const clicked = await this.page.evaluate((tabName) => {
+      const tabs = document.querySelectorAll('button[role="tab"]');
+      for (const tab of Array.from(tabs)) {
+        const label = tab.getAttribute("aria-label") || tab.textContent || "";
+        if (label.trim().startsWith(tabName)) {
+          (tab as HTMLElement).click();
+          return true;
+        }
+      }
+      return false;
+    }, name).catch(() => false);
+
+    if (clicked) await this.delay(2000);
+    return clicked;
+  }
+
+  /**
+   * State of the page after the last navigation, for run summaries
+   */
+  get lastPageState(): PageState | null {
+    return this.pageState;
+  }
+
+  private async snapshotPage(): Promise<PageSnapshot> {
+    if (!this.page) throw new Error("Browser not initialized");
+
+    return await this.page.evaluate((acceptLabels) => {
+      const main = document.querySelector('div[role="main"]');
+      const buttons = Array.from(document.querySelectorAll("button"));
+      return {
+        url: location.href,
+        hasFeed: document.querySelector('[role="feed"]') !== null,
+        placeTitle: main?.querySelector("h1")?.textContent?.trim() ||
+          undefined,
+        hasConsentForm:
+          document.querySelector('form[action*="consent.google"]') !== null ||
+          buttons.some((button) =>
+            acceptLabels.includes(
+              (button.innerText || button.getAttribute("aria-label") || "")
+                .trim(),
+            )
+          ),
+        hasCaptcha: document.querySelector(
+          '#captcha-form, iframe[src*="recaptcha"]',
+        ) !== null,
+        panelText: (main as HTMLElement | null)?.innerText?.slice(0, 2000) ||
+          "",
+      };
+    }, CONSENT_ACCEPT_LABELS);
+  }
+
+  /**
+   * Click the consent page's accept button; Maps reloads afterwards
+   */
+  private async acceptConsent(): Promise<boolean> {
+    if (!this.page) return false;
+
+    const clicked = await this.page.evaluate((acceptLabels) => {
+      const button = Array.from(document.querySelectorAll("button")).find(
+        (el) =>
+          acceptLabels.includes(
+            (el.innerText || el.getAttribute("aria-label") || "").trim(),
+          ),
+      ) ||
+        // The consent form's last button accepts in any language
+        Array.from(
+          document.querySelectorAll('form[action*="consent"] button'),
+        ).at(-1);
+      if (!button) return false;
+      (button as HTMLElement).click();
+      return true;
+    }, CONSENT_ACCEPT_LABELS).catch(() => false);
+
+    if (clicked) {
+      console.log("🍪 Accepted Google consent page");
+      await this.page.waitForNavigation({
+        waitUntil: "domcontentloaded",
+        timeout: 15000,
+      }).catch(() => {});
+      await this.delay(3000);
+    }
+    return clicked;
+  }
+
+  /**
+   * Poll until the page shows one of the wanted states, clearing consent
+   * walls on the way. CAPTCHAs and timeouts throw typed errors.
+   */
+  private async waitForPageState(
+    wanted: PageState[],
+    timeoutMessage: string,
+  ): Promise<PageState> {
+    if (!this.page) throw new Error("Browser not initialized");
+
+    // Poll instead of using waitForSelector (avoids frame issues)
     const maxAttempts = 30;
-    let attempts = 0;
+    const maxConsentClicks = 2;
+    let consentClicks = 0;
+    let state: PageState = "loading";
 
-    while (attempts < maxAttempts) {
+    for (let attempts = 0; attempts < maxAttempts; attempts++) {
       try {
-        const feedExists = await this.page.$('[role="feed"]');
-        if (feedExists) {
-          console.log("✓ Results loaded");
-          await this.delay(3000);
-          return;
+        state = classifyPageState(await this.snapshotPage());
+      } catch (_error) {
+        // Frame navigated mid-evaluate; poll again
+        state = "loading";
+      }
+      this.pageState = state;
+
+      if (wanted.includes(state)) return state;
+
+      if (state === "captcha") {
+        throw new ThrottledError("captcha", "Google is showing a CAPTCHA");
+      }
+      if (state === "consent") {
+        if (consentClicks >= maxConsentClicks || !await this.acceptConsent()) {
+          throw new ConsentError();
         }
-      } catch (error) {
-        // Ignore errors and retry
+        consentClicks++;
+        continue;
       }
 
-      attempts++;
       await this.delay(1000);
     }
 
-    throw new Error("Timeout waiting for results feed");
+    throw new PageTimeoutError(state, timeoutMessage);
+  }
+
+  /**
+   * A search that jumped straight to a place: read it from the place panel
+   */
+  private async extractSinglePlace(): Promise<ScrapedPlace> {
+    if (!this.page) throw new Error("Browser not initialized");
+
+    await this.delay(2000);
+    const panel = await this.extractPlacePanel();
+    const header = await this.page.evaluate(() => {
+      const main = document.querySelector('div[role="main"]');
+      return {
+        labels: Array.from(
+          main?.querySelectorAll(
+            '[role="img"][aria-label], span[aria-label*="review"]',
+          ) || [],
+        ).map((el) => el.getAttribute("aria-label") || ""),
+        category: main?.querySelector('button[jsaction*="category"]')
+          ?.textContent?.trim() || undefined,
+      };
+    });
+
+    const url = this.page.url();
+    const placeId = url.match(/!1s([^!]+)/)?.[1];
+    if (!placeId || !panel.name) {
+      throw new ScrapeError("error", "Single place page without a place id");
+    }
+
+    return {
+      placeId,
+      name: panel.name,
+      ...parseResultCard({
+        url,
+        name: panel.name,
+        lines: [],
+        labels: header.labels,
+      }),
+      category: header.category,
+      address: stripLabelPrefix(panel.items["address"]),
+      ...parseCoordinates(url),
+      url,
+      scrapedAt: new Date().toISOString(),
+    };
   }
 
   private async scrollResults(maxResults: number): Promise<void> {
@@ -176,7 +937,7 @@ export class GoogleMapsScraper {
         // Wait for new content to load
         await this.delay(2000);
       } catch (error) {
-        console.log("  ⚠️  Error during scrolling:", error.message);
+        console.log("  ⚠️  Error during scrolling:", (error as Error).message);
         await this.delay(2000);
       }
     }
@@ -184,7 +945,7 @@ export class GoogleMapsScraper {
     console.log("✓ Scrolling complete");
   }
 
-  private async extractPlaces(query: string): Promise<ScrapedPlace[]> {
+  private async extractPlaces(): Promise<ScrapedPlace[]> {
     if (!this.page) return [];
 
     console.log("📊 Extracting place data...");
@@ -192,8 +953,14 @@ export class GoogleMapsScraper {
     // Add small delay to ensure frames are stable before extraction
     await this.delay(1000);
 
-    const places = await this.page.evaluate((searchQuery) => {
-      const results: ScrapedPlace[] = [];
+    // Collect raw card text in the page; parsing happens in card-parser.ts
+    const cards = await this.page.evaluate(() => {
+      const results: {
+        url: string;
+        name: string;
+        lines: string[];
+        labels: string[];
+      }[] = [];
       const feed = document.querySelector('[role="feed"]');
       if (!feed) return results;
 
@@ -201,106 +968,67 @@ export class GoogleMapsScraper {
       const placeLinks = feed.querySelectorAll('a[href*="/maps/place/"]');
 
       placeLinks.forEach((link) => {
-        try {
-          // Extract URL
-          const url = link.getAttribute("href") || "";
-
-          // Generate place ID from URL
-          const placeIdMatch = url.match(/!1s([^!]+)/);
-          const placeId = placeIdMatch ? placeIdMatch[1] : "";
-
-          // Extract place name from aria-label
-          const name = link.getAttribute("aria-label") || "";
-
-          // Find the parent container to extract other details
-          let container = link.closest('div[role="article"]');
-          if (!container) {
-            // Try alternative structure
-            container = link.parentElement?.parentElement?.parentElement;
-          }
-
-          let rating = undefined;
-          let totalReviews = undefined;
-          let category = undefined;
-          let priceLevel = undefined;
+        // Find the parent container to extract other details
+        const container = link.closest('div[role="article"]') ||
+          link.parentElement?.parentElement?.parentElement;
 
-          if (container) {
-            // Extract rating
-            const ratingEl = container.querySelector(
-              'span[role="img"][aria-label*="stars"]',
-            );
-            if (!ratingEl) {
-              // Try alternative: look for aria-label with rating pattern
-              const spans = container.querySelectorAll("span[aria-label]");
-              spans.forEach((span) => {
-                const label = span.getAttribute("aria-label") || "";
-                const ratingMatch = label.match(/([\d.]+)\s+stars/);
-                if (ratingMatch && !rating) {
-                  rating = parseFloat(ratingMatch[1]);
-                }
-              });
-            } else {
-              const ratingText = ratingEl.getAttribute("aria-label") || "";
-              const ratingMatch = ratingText.match(/([\d.]+)\s+stars/);
-              rating = ratingMatch ? parseFloat(ratingMatch[1]) : undefined;
-            }
-
-            // Extract review count
-            const reviewEl = container.querySelector(
-              'span[aria-label*="reviews"]',
-            );
-            if (reviewEl) {
-              const reviewText = reviewEl.getAttribute("aria-label") || "";
-              const reviewMatch = reviewText.match(/([\d,]+)\s+reviews/);
-              totalReviews = reviewMatch
-                ? parseInt(reviewMatch[1].replace(/,/g, ""))
-                : undefined;
-            }
-
-            // Extract category from text content
-            const textDivs = container.querySelectorAll("div");
-            textDivs.forEach((div) => {
-              const text = div.textContent || "";
-              // Categories often contain "·" separator
-              if (text.includes("·") && !category) {
-                const parts = text.split("·");
-                category = parts[0].trim();
-              }
-            });
-          }
+        const lines = container instanceof HTMLElement
+          ? container.innerText.split("\n")
+          : [];
+        const labels = container
+          ? Array.from(container.querySelectorAll("[aria-label]"))
+            .filter((el) => el !== link)
+            .map((el) => el.getAttribute("aria-label") || "")
+          : [];
 
-          if (name && placeId) {
-            results.push({
-              placeId,
-              name,
-              rating,
-              totalReviews,
-              category,
-              priceLevel,
-              url: url.startsWith("http")
-                ? url
-                : `https://www.google.com${url}`,
-              scrapedAt: new Date().toISOString(),
-            });
-          }
-        } catch (error) {
-          console.error("Error extracting place:", error);
-        }
+        results.push({
+          url: link.getAttribute("href") || "",
+          name: link.getAttribute("aria-label") || "",
+          lines,
+          labels,
+        });
       });
 
       return results;
-    }, query);
+    });
+
+    const places: ScrapedPlace[] = [];
+    for (const card of cards) {
+      // Generate place ID from URL
+      const placeIdMatch = card.url.match(/!1s([^!]+)/);
+      const placeId = placeIdMatch ? placeIdMatch[1] : "";
+      if (!card.name || !placeId) continue;
+
+      try {
+        places.push({
+          placeId,
+          name: card.name,
+          ...parseResultCard(card),
+          ...parseCoordinates(card.url),
+          url: card.url.startsWith("http")
+            ? card.url
+            : `${this.baseUrl}${card.url}`,
+          scrapedAt: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("Error extracting place:", error);
+      }
+    }
 
     return places;
   }
 
   async close(): Promise<void> {
+    if (this.context) {
+      await this.context.close();
+      this.context = null;
+    }
     if (this.browser) {
       await this.browser.close();
     }
   }
 
   private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    return new Promise((resolve) => setTimeout(resolve, ms * this.delayFactor));
   }
 }
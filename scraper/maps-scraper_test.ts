@@ -0,0 +1,210 @@
+/**
+ * Scraper regression suite against saved Maps-like pages
+ * Runs headless Chrome against the local fixture server, so no network is
+ * needed. A failure here after refreshing a fixture means Google's markup
+ * moved and the selectors or parsers need updating.
+ * Set SKIP_BROWSER_TESTS=1 where Chrome cannot run.
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+} from "jsr:@std/assert@1.0.8";
+import { ThrottledError } from "./errors.ts";
+import {
+  FILLER_CARDS,
+  FIXTURE_PLACE_ID,
+  FIXTURE_PLACE_NAME,
+  startFixtureServer,
+} from "./fixtures/server.ts";
+import { GoogleMapsScraper } from "./maps-scraper.ts";
+
+const CARDS_DIR = new URL("./fixtures/cards/", import.meta.url).pathname;
+
+// Built-in waits are scaled down; the fixture pages respond in ~150 ms
+const DELAY_FACTOR = 0.2;
+
+async function loadExpectedCards(): Promise<Record<string, unknown>[]> {
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(CARDS_DIR)) {
+    if (entry.name.endsWith(".expected.json")) names.push(entry.name);
+  }
+  // Same order as the fixture server puts the cards in the feed
+  return await Promise.all(
+    names.sort().map(async (name) =>
+      JSON.parse(await Deno.readTextFile(`${CARDS_DIR}${name}`))
+    ),
+  );
+}
+
+function pick(
+  value: Record<string, unknown>,
+  keys: string[],
+): Record<string, unknown> {
+  return Object.fromEntries(keys.map((key) => [key, value[key]]));
+}
+
+Deno.test({
+  name: "GoogleMapsScraper against fixture pages",
+  ignore: Deno.env.get("SKIP_BROWSER_TESTS") === "1",
+  // Puppeteer keeps pipes and timers open between steps
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async (t) => {
+    const server = await startFixtureServer();
+    const scraper = new GoogleMapsScraper({
+      baseUrl: server.baseUrl,
+      delayFactor: DELAY_FACTOR,
+    });
+
+    try {
+      await scraper.initialize(true, 0);
+
+      await t.step("results feed: scrolls and parses every card", async () => {
+        const expected = await loadExpectedCards();
+        const places = await scraper.searchPlaces("halal restaurants", 100);
+
+        assertEquals(scraper.lastPageState, "results");
+        assertEquals(places.length, expected.length + FILLER_CARDS);
+        expected.forEach((card, i) => {
+          assertEquals(
+            pick(places[i] as unknown as Record<string, unknown>, [
+              ...Object.keys(card),
+            ]),
+            card,
+            `card fixture #${i + 1} (${places[i].name})`,
+          );
+        });
+
+        // Filler cards use relative links, like Google's own markup
+        const filler = places[expected.length];
+        assertEquals(filler.name, "Fixture Halal Kitchen 1");
+        assert(filler.url.startsWith(`${server.baseUrl}/maps/place/`));
+        assertEquals(filler.placeId, "0x6018f10000000000:0x0001");
+        assertEquals(filler.lat, 35.691);
+        assertEquals(filler.lng, 139.701);
+        assertEquals(filler.category, "Halal restaurant");
+        assertEquals(filler.totalReviews, 3);
+      });
+
+      await t.step("results feed: stops scrolling at maxResults", async () => {
+        const places = await scraper.searchPlaces("halal restaurants", 10);
+        assert(places.length >= 10 && places.length < 25);
+      });
+
+      await t.step("consent page is accepted automatically", async () => {
+        const places = await scraper.searchPlaces("halal consent ramen", 5);
+        assertEquals(scraper.lastPageState, "results");
+        assert(places.length >= 5);
+      });
+
+      await t.step("CAPTCHA raises a ThrottledError", async () => {
+        const error = await assertRejects(
+          () => scraper.searchPlaces("halal captcha ramen", 5),
+          ThrottledError,
+        );
+        assertEquals(error.reason, "captcha");
+        assertEquals(scraper.lastPageState, "captcha");
+      });
+
+      await t.step("no-results page returns an empty list", async () => {
+        const places = await scraper.searchPlaces("halal no results here", 5);
+        assertEquals(places, []);
+        assertEquals(scraper.lastPageState, "no_results");
+      });
+
+      await t.step("single-place redirect yields that place", async () => {
+        const places = await scraper.searchPlaces("halal single ginza", 5);
+        assertEquals(scraper.lastPageState, "single_place");
+        assertEquals(places.length, 1);
+        assertEquals(places[0].placeId, FIXTURE_PLACE_ID);
+        assertEquals(places[0].name, FIXTURE_PLACE_NAME);
+        assertEquals(places[0].rating, 4.9);
+        assertEquals(places[0].totalReviews, 2345);
+        assertEquals(places[0].category, "Ramen restaurant");
+        assertEquals(
+          places[0].address,
+          "4 Chome-10-3 Ginza, Chuo City, Tokyo 104-0061",
+        );
+        assertEquals(places[0].lat, 35.6690593);
+      });
+
+      await t.step("place details from the panel and About tab", async () => {
+        const details = await scraper.scrapePlaceDetails(FIXTURE_PLACE_ID);
+
+        assertEquals(details.placeId, FIXTURE_PLACE_ID);
+        assertEquals(details.name, FIXTURE_PLACE_NAME);
+        assertEquals(details.phone, "03-1234-5678");
+        assertEquals(details.website, "https://halal-ramen.example.jp/");
+        assertEquals(details.plusCode, "MQ9H+JC Chuo City, Tokyo");
+        assertEquals(details.photoCount, 1234);
+        assertEquals(details.openingHours?.length, 7);
+        assertEquals(details.openingHours?.[6], {
+          day: "Sunday",
+          hours: "Closed",
+        });
+        assertEquals(details.attributes, [
+          { group: "Offerings", name: "Halal food", available: true },
+          { group: "Offerings", name: "Alcohol", available: false },
+          { group: "Offerings", name: "Vegetarian options", available: true },
+          { group: "Amenities", name: "Prayer room", available: true },
+          { group: "Amenities", name: "Kids", available: true },
+        ]);
+      });
+
+      await t.step("reviews: sort, scroll, expand and parse", async () => {
+        const { placeId, reviews } = await scraper.scrapeReviews(
+          FIXTURE_PLACE_ID,
+          { maxReviews: 12, sort: "newest" },
+        );
+
+        assertEquals(placeId, FIXTURE_PLACE_ID);
+        assertEquals(reviews.length, 12);
+        assertEquals(reviews[0].authorName, "Reviewer 1");
+        assertEquals(reviews[0].rating, 5);
+        assertEquals(reviews[0].publishedTimeText, "a week ago");
+        assert(reviews[0].authorUrl?.includes("/maps/contrib/"));
+        assertEquals(reviews[0].authorLocalGuide, true);
+        assertEquals(reviews[0].authorLevel, 6);
+        assertEquals(reviews[0].authorReviewCount, 87);
+        assertEquals(reviews[1].authorLocalGuide, false);
+        assertEquals(reviews[1].authorReviewCount, 2);
+        // "See more" was expanded and the owner's response left out
+        assertEquals(
+          reviews[0].text,
+          "Certified halal ramen, the staff showed us the certificate. No alcohol served.",
+        );
+        assertEquals(reviews[1].text, "Tasty wagyu broth, visit number 2.");
+      });
+
+      await t.step("reviews: stop at the first stored review", async () => {
+        const all = await scraper.scrapeReviews(FIXTURE_PLACE_ID, {
+          maxReviews: 12,
+          sort: "newest",
+        });
+        const known = new Set([all.reviews[3].reviewId]);
+        const { reviews } = await scraper.scrapeReviews(FIXTURE_PLACE_ID, {
+          maxReviews: 12,
+          sort: "newest",
+          knownReviewIds: known,
+        });
+
+        assert(reviews.length < 12);
+        assert(reviews.every((review) => !known.has(review.reviewId)));
+      });
+
+      await t.step("unknown page times out with a typed error", async () => {
+        const error = await assertRejects(() =>
+          scraper.scrapePlaceDetails(`${server.baseUrl}/nowhere`)
+        );
+        assertInstanceOf(error, Error);
+        assertEquals((error as Error).name, "PageTimeoutError");
+      });
+    } finally {
+      await scraper.close();
+      await server.close();
+    }
+  },
+});
@@ -0,0 +1,69 @@
+/**
+ * Classification of what Google Maps is showing after a navigation
+ * The browser collects a PageSnapshot of a few cheap signals; the rules that
+ * decide between a result list, a single place, a real "no results" page and
+ * the interstitials (consent, CAPTCHA) live here so they run without a page
+ */
+
+export type PageState =
+  | "results"
+  | "single_place"
+  | "no_results"
+  | "consent"
+  | "captcha"
+  | "loading";
+
+export interface PageSnapshot {
+  url: string;
+  hasFeed: boolean;
+  // Title of an open place panel (div[role="main"] h1)
+  placeTitle?: string;
+  // A form posting to consent.google.* or an "Accept all" style button
+  hasConsentForm: boolean;
+  // #captcha-form or a reCAPTCHA frame
+  hasCaptcha: boolean;
+  // Visible text of the side panel, for the "can't find" message
+  panelText: string;
+}
+
+const NO_RESULTS_TEXT = [
+  /Google Maps can['’]t find/i,
+  /No results found/i,
+  /Make sure your search is spelled correctly/i,
+  /見つかりませんでした/,
+  /結果が見つかりません/,
+];
+
+export function classifyPageState(snapshot: PageSnapshot): PageState {
+  const url = snapshot.url;
+
+  if (url.includes("/sorry/") || snapshot.hasCaptcha) return "captcha";
+  if (/^https?:\/\/consent\.google\./.test(url) || snapshot.hasConsentForm) {
+    return "consent";
+  }
+  if (snapshot.hasFeed) return "results";
+  // A search for a unique name jumps straight to the place
+  if (url.includes("/maps/place/") && snapshot.placeTitle) {
+    return "single_place";
+  }
+  if (NO_RESULTS_TEXT.some((pattern) => pattern.test(snapshot.panelText))) {
+    return "no_results";
+  }
+  return "loading";
+}
+
+/**
+ * Labels of the consent page's accept button across the languages Google
+ * serves EU visitors
+ */
+export const CONSENT_ACCEPT_LABELS = [
+  "Accept all",
+  "Alle akzeptieren",
+  "Tout accepter",
+  "Aceptar todo",
+  "Accetta tutto",
+  "Alles accepteren",
+  "Zaakceptuj wszystko",
+  "Aceitar tudo",
+  "すべて同意",
+];
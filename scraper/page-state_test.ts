@@ -0,0 +1,70 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import { classifyPageState, type PageSnapshot } from "./page-state.ts";
+
+const blank: PageSnapshot = {
+  url: "https://www.google.com/maps/search/halal+ramen",
+  hasFeed: false,
+  hasConsentForm: false,
+  hasCaptcha: false,
+  panelText: "",
+};
+
+Deno.test("classifyPageState: result feed", () => {
+  assertEquals(classifyPageState({ ...blank, hasFeed: true }), "results");
+});
+
+Deno.test("classifyPageState: nothing rendered yet is loading", () => {
+  assertEquals(classifyPageState(blank), "loading");
+});
+
+Deno.test("classifyPageState: consent by host or by form", () => {
+  assertEquals(
+    classifyPageState({
+      ...blank,
+      url: "https://consent.google.com/ml?continue=https://www.google.com/maps",
+    }),
+    "consent",
+  );
+  assertEquals(
+    classifyPageState({ ...blank, hasConsentForm: true }),
+    "consent",
+  );
+});
+
+Deno.test("classifyPageState: CAPTCHA wins over everything else", () => {
+  assertEquals(
+    classifyPageState({
+      ...blank,
+      url: "https://www.google.com/sorry/index?continue=x",
+    }),
+    "captcha",
+  );
+  assertEquals(
+    classifyPageState({ ...blank, hasFeed: true, hasCaptcha: true }),
+    "captcha",
+  );
+});
+
+Deno.test("classifyPageState: single-place redirect needs the title", () => {
+  const url =
+    "https://www.google.com/maps/place/Halal+Ramen/data=!4m7!3m6!1s0x1:0x2";
+  assertEquals(
+    classifyPageState({ ...blank, url, placeTitle: "Halal Ramen" }),
+    "single_place",
+  );
+  assertEquals(classifyPageState({ ...blank, url }), "loading");
+});
+
+Deno.test("classifyPageState: Google's no-results message", () => {
+  assertEquals(
+    classifyPageState({
+      ...blank,
+      panelText: "Google Maps can't find halal sushi in Nerima",
+    }),
+    "no_results",
+  );
+  assertEquals(
+    classifyPageState({ ...blank, panelText: "結果が見つかりませんでした" }),
+    "no_results",
+  );
+});
@@ -0,0 +1,123 @@
+/**
+ * Shared token-bucket rate limiter for all scraper workers
+ * Every page load takes a token; tokens refill at requestsPerMinute with a
+ * small burst allowance, and each request also waits a random jitter. When a
+ * worker reports throttling, everyone pauses for an exponentially growing
+ * backoff.
+ */
+
+export interface RateLimiterOptions {
+  requestsPerMinute: number;
+  // Tokens that can accumulate while idle
+  burst?: number;
+  // Extra random wait per request, [min, max] milliseconds
+  jitterMs?: [number, number];
+  // Global pause after throttling: first pause and cap, in milliseconds
+  backoffMs?: [number, number];
+  // Clock and timer; tests pass fake ones
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface RateLimiterStats {
+  requests: number;
+  throttleEvents: number;
+  elapsedMs: number;
+  requestsPerMinute: number;
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private backoffUntil = 0;
+  private backoffLevel = 0;
+  private readonly startedAt: number;
+  private requests = 0;
+  private throttleEvents = 0;
+  private readonly now: () => number;
+  private readonly delay: (ms: number) => Promise<void>;
+
+  constructor(private readonly options: RateLimiterOptions) {
+    this.now = options.now ?? Date.now;
+    this.delay = options.sleep ??
+      ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.tokens = this.burst;
+    this.lastRefill = this.startedAt = this.now();
+  }
+
+  private get burst(): number {
+    return Math.max(1, this.options.burst ?? 1);
+  }
+
+  private refill(now: number): void {
+    const perMs = this.options.requestsPerMinute / 60000;
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + (now - this.lastRefill) * perMs,
+    );
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wait until a request may be made
+   */
+  async acquire(): Promise<void> {
+    while (true) {
+      const now = this.now();
+      if (now < this.backoffUntil) {
+        await this.delay(this.backoffUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens--;
+        break;
+      }
+
+      const perMs = this.options.requestsPerMinute / 60000;
+      await this.delay(Math.ceil((1 - this.tokens) / perMs));
+    }
+
+    const [min, max] = this.options.jitterMs ?? [0, 0];
+    if (max > 0) await this.delay(min + Math.random() * (max - min));
+    this.requests++;
+  }
+
+  /**
+   * Pause every worker; repeated throttling doubles the pause up to the cap
+   */
+  backoff(reason: string): number {
+    const [base, cap] = this.options.backoffMs ?? [30000, 300000];
+    this.backoffLevel++;
+    this.throttleEvents++;
+    const pause = Math.min(cap, base * 2 ** (this.backoffLevel - 1)) *
+      (0.8 + Math.random() * 0.4);
+    this.backoffUntil = Math.max(this.backoffUntil, this.now() + pause);
+    console.log(
+      `   🐢 Throttling suspected (${reason}); all workers pause ${
+        Math.round(pause / 1000)
+      }s`,
+    );
+    return pause;
+  }
+
+  /**
+   * A clean response lets the backoff wind down again
+   */
+  recordSuccess(): void {
+    this.backoffLevel = Math.max(0, this.backoffLevel - 1);
+  }
+
+  stats(): RateLimiterStats {
+    const elapsedMs = this.now() - this.startedAt;
+    return {
+      requests: this.requests,
+      throttleEvents: this.throttleEvents,
+      elapsedMs,
+      requestsPerMinute: elapsedMs > 0
+        ? Math.round((this.requests / elapsedMs) * 60000 * 100) / 100
+        : 0,
+    };
+  }
+}
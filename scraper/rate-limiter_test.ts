@@ -0,0 +1,92 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import { RateLimiter, type RateLimiterOptions } from "./rate-limiter.ts";
+
+/**
+ * A limiter on a fake clock that only moves while it sleeps
+ */
+function fakeLimiter(options: RateLimiterOptions) {
+  const clock = { time: 0 };
+  const limiter = new RateLimiter({
+    ...options,
+    now: () => clock.time,
+    sleep: (ms) => {
+      clock.time += ms;
+      return Promise.resolve();
+    },
+  });
+  // Time each acquire returned at
+  const acquire = async (count: number) => {
+    const times: number[] = [];
+    for (let i = 0; i < count; i++) {
+      await limiter.acquire();
+      times.push(clock.time);
+    }
+    return times;
+  };
+  return { clock, limiter, acquire };
+}
+
+Deno.test("RateLimiter: burst first, then one token per interval", async () => {
+  const { acquire } = fakeLimiter({ requestsPerMinute: 60, burst: 2 });
+  assertEquals(await acquire(5), [0, 0, 1000, 2000, 3000]);
+});
+
+Deno.test("RateLimiter: idle time refills no more than the burst", async () => {
+  const { clock, acquire } = fakeLimiter({ requestsPerMinute: 30, burst: 3 });
+  assertEquals(await acquire(3), [0, 0, 0]);
+  clock.time += 10 * 60000;
+  assertEquals(await acquire(4), [600000, 600000, 600000, 602000]);
+});
+
+Deno.test("RateLimiter: jitter delays a request but doesn't stack", async () => {
+  const { acquire } = fakeLimiter({
+    requestsPerMinute: 60,
+    jitterMs: [400, 400],
+  });
+  // The next token is due at 1000 whether or not 400 ms were spent waiting
+  assertEquals(await acquire(3), [400, 1400, 2400]);
+});
+
+Deno.test("RateLimiter: throttling pauses everyone, doubling to the cap", async () => {
+  const { limiter, acquire } = fakeLimiter({
+    requestsPerMinute: 600,
+    burst: 1,
+    backoffMs: [1000, 3000],
+  });
+  await acquire(1);
+
+  const first = limiter.backoff("captcha");
+  assertEquals(first >= 800 && first <= 1200, true, `${first}`);
+  const second = limiter.backoff("captcha");
+  assertEquals(second >= 1600 && second <= 2400, true, `${second}`);
+  const third = limiter.backoff("captcha");
+  assertEquals(third >= 2400 && third <= 3600, true, `${third}`);
+
+  // The longest pause wins; the next request waits it out
+  const [resumed] = await acquire(1);
+  assertEquals(resumed, Math.max(first, second, third));
+
+  // Each success winds the backoff down a level: from the third to the first,
+  // so the next throttle pauses at the second level again
+  limiter.recordSuccess();
+  limiter.recordSuccess();
+  const after = limiter.backoff("empty_feed");
+  assertEquals(after >= 1600 && after <= 2400, true, `${after}`);
+});
+
+Deno.test("RateLimiter: stats", async () => {
+  const { clock, limiter, acquire } = fakeLimiter({
+    requestsPerMinute: 12,
+    burst: 1,
+  });
+  assertEquals(limiter.stats().requestsPerMinute, 0);
+  await acquire(4);
+  limiter.backoff("captcha");
+  clock.time = 60000;
+  assertEquals(limiter.stats(), {
+    requests: 4,
+    throttleEvents: 1,
+    elapsedMs: 60000,
+    requestsPerMinute: 4,
+  });
+});
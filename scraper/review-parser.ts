@@ -0,0 +1,147 @@
+/**
+ * Parsing rules for Google Maps reviews
+ * Converts the relative dates Maps shows ("3 months ago") into timestamps, the
+ * line under the author's name ("Local Guide · 87 reviews") into profile
+ * fields and raw review blocks into ScrapedReview records
+ */
+
+import type { ScrapedReview } from "./storage.ts";
+
+export type ReviewSort = "newest" | "relevant" | "highest" | "lowest";
+
+// Labels of the entries in the "Sort reviews" menu
+export const REVIEW_SORT_LABELS: Record<ReviewSort, string> = {
+  relevant: "Most relevant",
+  newest: "Newest",
+  highest: "Highest rating",
+  lowest: "Lowest rating",
+};
+
+export interface RawReview {
+  reviewId: string;
+  authorName: string;
+  authorUrl?: string;
+  // "Local Guide · Level 6 · 87 reviews · 120 photos"
+  authorInfo?: string;
+  ratingLabel: string;
+  dateText: string;
+  text: string;
+}
+
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Units of the Japanese interface ("3 か月前"), by their English name
+const JAPANESE_UNITS: Record<string, string> = {
+  秒: "second",
+  分: "minute",
+  時間: "hour",
+  日: "day",
+  週間: "week",
+  か月: "month",
+  ヶ月: "month",
+  カ月: "month",
+  ケ月: "month",
+  年: "year",
+};
+
+/**
+ * Convert "3 months ago", "a year ago", "Edited 2 weeks ago" or "yesterday",
+ * or the Japanese "3 か月前" and "昨日", into an ISO timestamp relative to
+ * `now`. Months and years are calendar based, so "a month ago" on March 31 is
+ * the last day of February.
+ */
+export function parseRelativeDate(
+  text: string,
+  now = new Date(),
+): string | undefined {
+  const cleaned = text.normalize("NFKC").trim().toLowerCase()
+    .replace(/^(?:edited\s+|編集済み:?\s*)/, "");
+
+  if (/^(just now|moments? ago|たった今)$/.test(cleaned)) {
+    return now.toISOString();
+  }
+  if (cleaned === "yesterday" || cleaned === "昨日") {
+    return new Date(now.getTime() - UNIT_MS.day).toISOString();
+  }
+
+  const english = cleaned.match(
+    /^(a|an|\d+)\s+(second|minute|hour|day|week|month|year)s?\s+ago$/,
+  );
+  const japanese = cleaned.match(
+    /^(\d+)\s*(秒|分|時間|日|週間|か月|ヶ月|カ月|ケ月|年)前$/,
+  );
+  if (!english && !japanese) return undefined;
+
+  const [, count, unitName] = (english ?? japanese)!;
+  const amount = count === "a" || count === "an" ? 1 : parseInt(count);
+  const unit = english ? unitName : JAPANESE_UNITS[unitName];
+
+  if (unit === "month" || unit === "year") {
+    const date = new Date(now.getTime());
+    const months = unit === "year" ? amount * 12 : amount;
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() - months);
+    // Clamp to the end of shorter months instead of rolling over
+    const lastDay = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+    ).getUTCDate();
+    date.setUTCDate(Math.min(day, lastDay));
+    return date.toISOString();
+  }
+
+  return new Date(now.getTime() - amount * UNIT_MS[unit]).toISOString();
+}
+
+export interface AuthorInfo {
+  localGuide: boolean;
+  level?: number;
+  // Reviews on the whole account, not just this place
+  reviewCount?: number;
+}
+
+/**
+ * Read the author line Maps shows under a reviewer's name
+ */
+export function parseAuthorInfo(text: string): AuthorInfo {
+  const level = text.match(/\blevel\s+(\d+)/i);
+  const reviews = text.match(/([\d,]+)\s+reviews?\b/i);
+  return {
+    localGuide: /\blocal guide\b/i.test(text),
+    level: level ? parseInt(level[1]) : undefined,
+    reviewCount: reviews ? parseInt(reviews[1].replace(/,/g, "")) : undefined,
+  };
+}
+
+export function parseReview(
+  raw: RawReview,
+  placeId: string,
+  now = new Date(),
+): ScrapedReview {
+  const ratingMatch = raw.ratingLabel.match(
+    /(\d(?:\.\d)?)\s*(?:\/\s*5\s*)?stars?/i,
+  );
+
+  const author = raw.authorInfo ? parseAuthorInfo(raw.authorInfo) : undefined;
+
+  return {
+    reviewId: raw.reviewId,
+    placeId,
+    authorName: raw.authorName,
+    authorUrl: raw.authorUrl,
+    authorLocalGuide: author?.localGuide,
+    authorLevel: author?.level,
+    authorReviewCount: author?.reviewCount,
+    rating: ratingMatch ? parseFloat(ratingMatch[1]) : 0,
+    text: raw.text.trim() || undefined,
+    publishedTime: parseRelativeDate(raw.dateText, now),
+    publishedTimeText: raw.dateText.trim() || undefined,
+    scrapedAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,104 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import {
+  parseAuthorInfo,
+  parseRelativeDate,
+  parseReview,
+} from "./review-parser.ts";
+
+const NOW = new Date("2026-03-31T12:00:00.000Z");
+
+const RELATIVE_DATES: [string, string | undefined][] = [
+  ["just now", "2026-03-31T12:00:00.000Z"],
+  ["yesterday", "2026-03-30T12:00:00.000Z"],
+  ["5 minutes ago", "2026-03-31T11:55:00.000Z"],
+  ["an hour ago", "2026-03-31T11:00:00.000Z"],
+  ["3 days ago", "2026-03-28T12:00:00.000Z"],
+  ["a week ago", "2026-03-24T12:00:00.000Z"],
+  ["Edited 2 weeks ago", "2026-03-17T12:00:00.000Z"],
+  // Calendar months, clamped to the end of February
+  ["a month ago", "2026-02-28T12:00:00.000Z"],
+  ["2 months ago", "2026-01-31T12:00:00.000Z"],
+  ["a year ago", "2025-03-31T12:00:00.000Z"],
+  ["たった今", "2026-03-31T12:00:00.000Z"],
+  ["昨日", "2026-03-30T12:00:00.000Z"],
+  ["3 時間前", "2026-03-31T09:00:00.000Z"],
+  ["4日前", "2026-03-27T12:00:00.000Z"],
+  ["1 週間前", "2026-03-24T12:00:00.000Z"],
+  ["2 か月前", "2026-01-31T12:00:00.000Z"],
+  ["１ヶ月前", "2026-02-28T12:00:00.000Z"],
+  ["編集済み: 1 年前", "2025-03-31T12:00:00.000Z"],
+  ["", undefined],
+  ["March 2024", undefined],
+  ["2 fortnights ago", undefined],
+  ["in 3 days", undefined],
+  ["数か月前", undefined],
+];
+
+for (const [text, expected] of RELATIVE_DATES) {
+  Deno.test(`parseRelativeDate: "${text}"`, () => {
+    assertEquals(parseRelativeDate(text, NOW), expected);
+  });
+}
+
+Deno.test("parseAuthorInfo: Local Guide line and plain review count", () => {
+  assertEquals(
+    parseAuthorInfo("Local Guide · Level 6 · 1,087 reviews · 120 photos"),
+    { localGuide: true, level: 6, reviewCount: 1087 },
+  );
+  assertEquals(parseAuthorInfo("1 review"), {
+    localGuide: false,
+    level: undefined,
+    reviewCount: 1,
+  });
+});
+
+Deno.test("parseReview: raw review block to a record", () => {
+  assertEquals(
+    parseReview(
+      {
+        reviewId: "r1",
+        authorName: "Reviewer 1",
+        authorUrl: "https://www.google.com/maps/contrib/1/reviews",
+        authorInfo: "Local Guide · Level 6 · 87 reviews",
+        ratingLabel: "4 stars",
+        dateText: " a week ago ",
+        text: "  Certified halal ramen.  ",
+      },
+      "place-1",
+      NOW,
+    ),
+    {
+      reviewId: "r1",
+      placeId: "place-1",
+      authorName: "Reviewer 1",
+      authorUrl: "https://www.google.com/maps/contrib/1/reviews",
+      authorLocalGuide: true,
+      authorLevel: 6,
+      authorReviewCount: 87,
+      rating: 4,
+      text: "Certified halal ramen.",
+      publishedTime: "2026-03-24T12:00:00.000Z",
+      publishedTimeText: "a week ago",
+      scrapedAt: "2026-03-31T12:00:00.000Z",
+    },
+  );
+});
+
+Deno.test("parseReview: unreadable rating and date stay empty", () => {
+  const review = parseReview(
+    {
+      reviewId: "r2",
+      authorName: "Reviewer 2",
+      ratingLabel: "",
+      dateText: "",
+      text: "",
+    },
+    "place-1",
+    NOW,
+  );
+  assertEquals(review.rating, 0);
+  assertEquals(review.text, undefined);
+  assertEquals(review.publishedTime, undefined);
+  assertEquals(review.publishedTimeText, undefined);
+  assertEquals(review.authorLocalGuide, undefined);
+});
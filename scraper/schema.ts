@@ -0,0 +1,469 @@
+/**
+ * Runtime schemas for raw scrape output
+ * Search files, run summaries, place details and review files carry the
+ * schemaVersion they were written with; files from before versioning count
+ * as version 1. validateRawFile checks a parsed file against its schema and
+ * flags values that type-check but are probably wrong.
+ */
+
+// Bump when the shape of a written file changes
+export const RAW_SCHEMA_VERSION = 2;
+// Files written before schemaVersion was stamped
+export const LEGACY_SCHEMA_VERSION = 1;
+
+export type RawFileKind = "search" | "summary" | "details" | "reviews";
+
+export type IssueCode =
+  | "invalid_json"
+  | "unknown_file"
+  | "missing_field"
+  | "wrong_type"
+  | "bad_value"
+  | "newer_schema"
+  | "old_schema"
+  | "rating_range"
+  | "empty_place_id"
+  | "category_has_name"
+  | "duplicate_place"
+  | "count_mismatch";
+
+export interface ValidationIssue {
+  code: IssueCode;
+  // Errors break loading; warnings are suspicious values
+  level: "error" | "warning";
+  // Where in the file, e.g. "places[3].rating"; empty for the whole file
+  path: string;
+  message: string;
+}
+
+export interface FileReport {
+  path: string;
+  kind?: RawFileKind;
+  schemaVersion?: number;
+  // Places, districts, tiles or reviews in the file
+  records: number;
+  issues: ValidationIssue[];
+}
+
+type FieldType = "string" | "number" | "boolean" | "string[]" | "array";
+
+interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  values?: readonly string[];
+}
+
+type Schema = Record<string, FieldSpec>;
+
+const OPEN_STATUSES = [
+  "open",
+  "closed",
+  "closing_soon",
+  "opening_soon",
+  "temporarily_closed",
+  "permanently_closed",
+] as const;
+
+const PLACE_SCHEMA: Schema = {
+  placeId: { type: "string", required: true },
+  name: { type: "string", required: true },
+  address: { type: "string" },
+  rating: { type: "number" },
+  totalReviews: { type: "number" },
+  category: { type: "string" },
+  priceLevel: { type: "string" },
+  openStatus: { type: "string", values: OPEN_STATUSES },
+  openStatusText: { type: "string" },
+  tags: { type: "string[]" },
+  lat: { type: "number" },
+  lng: { type: "number" },
+  url: { type: "string", required: true },
+  scrapedAt: { type: "string", required: true },
+};
+
+// Single queries have no district; campaign runs and sweeps do
+const SEARCH_SCHEMA: Schema = {
+  schemaVersion: { type: "number" },
+  query: { type: "string", required: true },
+  district: { type: "string" },
+  campaign: { type: "string" },
+  city: { type: "string" },
+  template: { type: "string" },
+  mode: { type: "string", values: ["sweep"] },
+  scrapedAt: { type: "string", required: true },
+  totalResults: { type: "number" },
+  places: { type: "array", required: true },
+};
+
+const BATCH_SUMMARY_SCHEMA: Schema = {
+  schemaVersion: { type: "number" },
+  campaign: { type: "string" },
+  scrapedAt: { type: "string", required: true },
+  finishedAt: { type: "string" },
+  outputDirectory: { type: "string", required: true },
+  totalDistricts: { type: "number", required: true },
+  completed: { type: "boolean" },
+  interrupted: { type: "boolean" },
+  districts: { type: "array", required: true },
+};
+
+const DISTRICT_RESULT_SCHEMA: Schema = {
+  name: { type: "string", required: true },
+  city: { type: "string" },
+  template: { type: "string" },
+  query: { type: "string", required: true },
+  placesFound: { type: "number", required: true },
+  placesInDistrict: { type: "number" },
+  status: { type: "string", required: true, values: ["success", "error"] },
+  error: { type: "string" },
+  file: { type: "string" },
+  attempts: { type: "number" },
+  completedAt: { type: "string" },
+};
+
+const SWEEP_SUMMARY_SCHEMA: Schema = {
+  schemaVersion: { type: "number" },
+  mode: { type: "string", required: true, values: ["sweep"] },
+  area: { type: "string", required: true },
+  query: { type: "string", required: true },
+  scrapedAt: { type: "string", required: true },
+  finishedAt: { type: "string" },
+  totalPlaces: { type: "number", required: true },
+  tilesSearched: { type: "number" },
+  tilesFailed: { type: "number" },
+  tilesSaturated: { type: "string[]" },
+  tiles: { type: "array", required: true },
+};
+
+const DETAILS_SCHEMA: Schema = {
+  schemaVersion: { type: "number" },
+  placeId: { type: "string", required: true },
+  name: { type: "string", required: true },
+  fullAddress: { type: "string" },
+  phone: { type: "string" },
+  website: { type: "string" },
+  plusCode: { type: "string" },
+  openingHours: { type: "array" },
+  photoCount: { type: "number" },
+  attributes: { type: "array", required: true },
+  url: { type: "string", required: true },
+  scrapedAt: { type: "string", required: true },
+};
+
+const REVIEW_FILE_SCHEMA: Schema = {
+  schemaVersion: { type: "number" },
+  placeId: { type: "string", required: true },
+  updatedAt: { type: "string", required: true },
+  totalReviews: { type: "number", required: true },
+  reviews: { type: "array", required: true },
+};
+
+const REVIEW_SCHEMA: Schema = {
+  reviewId: { type: "string", required: true },
+  placeId: { type: "string", required: true },
+  authorName: { type: "string", required: true },
+  authorUrl: { type: "string" },
+  authorLocalGuide: { type: "boolean" },
+  authorLevel: { type: "number" },
+  authorReviewCount: { type: "number" },
+  rating: { type: "number", required: true },
+  text: { type: "string" },
+  publishedTime: { type: "string" },
+  publishedTimeText: { type: "string" },
+  scrapedAt: { type: "string", required: true },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case "string[]":
+      return Array.isArray(value) &&
+        value.every((item) => typeof item === "string");
+    case "array":
+      return Array.isArray(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "string":
+      return typeof value === "string";
+  }
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check a record's fields against a schema; unknown fields are allowed so
+ * newer optional fields don't fail older validators
+ */
+function checkFields(
+  record: unknown,
+  schema: Schema,
+  path: string,
+  issues: ValidationIssue[],
+): record is Record<string, unknown> {
+  if (!isObject(record)) {
+    issues.push({
+      code: "wrong_type",
+      level: "error",
+      path,
+      message: "expected an object",
+    });
+    return false;
+  }
+
+  for (const [key, spec] of Object.entries(schema)) {
+    const value = record[key];
+    if (value === undefined || value === null) {
+      if (spec.required) {
+        issues.push({
+          code: "missing_field",
+          level: "error",
+          path: join(path, key),
+          message: "is required",
+        });
+      }
+    } else if (!hasType(value, spec.type)) {
+      issues.push({
+        code: "wrong_type",
+        level: "error",
+        path: join(path, key),
+        message: `expected ${spec.type}, got ${JSON.stringify(value)}`,
+      });
+    } else if (spec.values && !spec.values.includes(value as string)) {
+      issues.push({
+        code: "bad_value",
+        level: "error",
+        path: join(path, key),
+        message: `expected one of ${spec.values.join(", ")}, got "${value}"`,
+      });
+    }
+  }
+  return true;
+}
+
+function checkRating(
+  rating: unknown,
+  path: string,
+  issues: ValidationIssue[],
+): void {
+  if (typeof rating === "number" && (rating < 1 || rating > 5)) {
+    issues.push({
+      code: "rating_range",
+      level: "warning",
+      path,
+      message: `rating ${rating} is outside 1-5`,
+    });
+  }
+}
+
+function checkPlaceId(
+  placeId: unknown,
+  path: string,
+  issues: ValidationIssue[],
+): void {
+  if (typeof placeId === "string" && placeId.trim() === "") {
+    issues.push({
+      code: "empty_place_id",
+      level: "warning",
+      path,
+      message: "placeId is empty",
+    });
+  }
+}
+
+function checkPlace(
+  place: unknown,
+  path: string,
+  issues: ValidationIssue[],
+): void {
+  if (!checkFields(place, PLACE_SCHEMA, path, issues)) return;
+
+  checkPlaceId(place.placeId, join(path, "placeId"), issues);
+  checkRating(place.rating, join(path, "rating"), issues);
+
+  // The card parser once captured the whole card text as the category:
+  // "<name>  4.9Halal restaurant"
+  const { name, category } = place;
+  if (
+    typeof name === "string" && typeof category === "string" && name &&
+    category.toLowerCase().includes(name.toLowerCase())
+  ) {
+    issues.push({
+      code: "category_has_name",
+      level: "warning",
+      path: join(path, "category"),
+      message: `category contains the place name: "${category}"`,
+    });
+  }
+}
+
+function checkSearch(
+  data: Record<string, unknown>,
+  issues: ValidationIssue[],
+): number {
+  checkFields(data, SEARCH_SCHEMA, "", issues);
+  if (!Array.isArray(data.places)) return 0;
+
+  const seen = new Set<string>();
+  data.places.forEach((place, index) => {
+    const path = `places[${index}]`;
+    checkPlace(place, path, issues);
+
+    const placeId = isObject(place) ? place.placeId : undefined;
+    if (typeof placeId !== "string" || !placeId) return;
+    if (seen.has(placeId)) {
+      issues.push({
+        code: "duplicate_place",
+        level: "warning",
+        path,
+        message: `${placeId} appears more than once`,
+      });
+    }
+    seen.add(placeId);
+  });
+
+  if (
+    typeof data.totalResults === "number" &&
+    data.totalResults !== data.places.length
+  ) {
+    issues.push({
+      code: "count_mismatch",
+      level: "warning",
+      path: "totalResults",
+      message:
+        `totalResults is ${data.totalResults} but the file has ${data.places.length} places`,
+    });
+  }
+  return data.places.length;
+}
+
+function checkSummary(
+  data: Record<string, unknown>,
+  issues: ValidationIssue[],
+): number {
+  if (data.mode === "sweep") {
+    checkFields(data, SWEEP_SUMMARY_SCHEMA, "", issues);
+    return Array.isArray(data.tiles) ? data.tiles.length : 0;
+  }
+
+  checkFields(data, BATCH_SUMMARY_SCHEMA, "", issues);
+  if (!Array.isArray(data.districts)) return 0;
+  data.districts.forEach((district, index) =>
+    checkFields(district, DISTRICT_RESULT_SCHEMA, `districts[${index}]`, issues)
+  );
+  return data.districts.length;
+}
+
+function checkDetails(
+  data: Record<string, unknown>,
+  issues: ValidationIssue[],
+): number {
+  checkFields(data, DETAILS_SCHEMA, "", issues);
+  checkPlaceId(data.placeId, "placeId", issues);
+  return 1;
+}
+
+function checkReviews(
+  data: Record<string, unknown>,
+  issues: ValidationIssue[],
+): number {
+  checkFields(data, REVIEW_FILE_SCHEMA, "", issues);
+  checkPlaceId(data.placeId, "placeId", issues);
+  if (!Array.isArray(data.reviews)) return 0;
+
+  data.reviews.forEach((review, index) => {
+    const path = `reviews[${index}]`;
+    if (!checkFields(review, REVIEW_SCHEMA, path, issues)) return;
+    checkRating(review.rating, join(path, "rating"), issues);
+    if (review.placeId !== data.placeId) {
+      issues.push({
+        code: "bad_value",
+        level: "error",
+        path: join(path, "placeId"),
+        message: `review belongs to ${review.placeId}, not ${data.placeId}`,
+      });
+    }
+  });
+  return data.reviews.length;
+}
+
+/**
+ * Which kind of raw file this is, from its name and contents
+ */
+export function rawFileKind(
+  filename: string,
+  data: Record<string, unknown>,
+): RawFileKind | undefined {
+  if (filename === "summary.json") return "summary";
+  if (Array.isArray(data.places)) return "search";
+  if (Array.isArray(data.reviews)) return "reviews";
+  if (Array.isArray(data.attributes)) return "details";
+  return undefined;
+}
+
+/**
+ * Validate one parsed raw file; path is only used for the report
+ */
+export function validateRawFile(path: string, data: unknown): FileReport {
+  const issues: ValidationIssue[] = [];
+  const report: FileReport = { path, records: 0, issues };
+
+  if (!isObject(data)) {
+    issues.push({
+      code: "wrong_type",
+      level: "error",
+      path: "",
+      message: "file must hold a JSON object",
+    });
+    return report;
+  }
+
+  const kind = rawFileKind(path.split("/").pop() || path, data);
+  if (!kind) {
+    issues.push({
+      code: "unknown_file",
+      level: "error",
+      path: "",
+      message: "not a search, summary, details or reviews file",
+    });
+    return report;
+  }
+  report.kind = kind;
+
+  const version = typeof data.schemaVersion === "number"
+    ? data.schemaVersion
+    : LEGACY_SCHEMA_VERSION;
+  report.schemaVersion = version;
+  if (version > RAW_SCHEMA_VERSION) {
+    issues.push({
+      code: "newer_schema",
+      level: "error",
+      path: "schemaVersion",
+      message:
+        `written by schema version ${version}, newer than this code (${RAW_SCHEMA_VERSION})`,
+    });
+  } else if (version < RAW_SCHEMA_VERSION) {
+    issues.push({
+      code: "old_schema",
+      level: "warning",
+      path: "schemaVersion",
+      message:
+        `written by schema version ${version} (current ${RAW_SCHEMA_VERSION})`,
+    });
+  }
+
+  const check = {
+    search: checkSearch,
+    summary: checkSummary,
+    details: checkDetails,
+    reviews: checkReviews,
+  }[kind];
+  report.records = check(data, issues);
+  return report;
+}
@@ -0,0 +1,142 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import {
+  type FileReport,
+  RAW_SCHEMA_VERSION,
+  validateRawFile,
+} from "./schema.ts";
+
+const PLACE = {
+  placeId: "0x1:0xa",
+  name: "Halal Ramen",
+  rating: 4.6,
+  totalReviews: 120,
+  category: "Ramen restaurant",
+  url: "https://www.google.com/maps/place/Halal+Ramen/data=!1s0x1:0xa",
+  scrapedAt: "2026-01-06T07:45:00.000Z",
+};
+
+function search(places: unknown[], extra: Record<string, unknown> = {}) {
+  return {
+    schemaVersion: RAW_SCHEMA_VERSION,
+    district: "Chuo",
+    query: "halal restaurants Chuo tokyo japan",
+    scrapedAt: "2026-01-06T07:45:00.000Z",
+    totalResults: places.length,
+    places,
+    ...extra,
+  };
+}
+
+function codes(report: FileReport): string[] {
+  return report.issues.map((issue) => `${issue.path} ${issue.code}`);
+}
+
+Deno.test("validateRawFile: current search file passes", () => {
+  const report = validateRawFile("run/places-chuo-tokyo.json", search([PLACE]));
+  assertEquals(report.kind, "search");
+  assertEquals(report.schemaVersion, RAW_SCHEMA_VERSION);
+  assertEquals(report.records, 1);
+  assertEquals(report.issues, []);
+
+  // Single-query output has no district
+  const { district: _district, ...single } = search([PLACE]);
+  assertEquals(validateRawFile("query.json", single).issues, []);
+});
+
+Deno.test("validateRawFile: flags suspicious place values", () => {
+  const report = validateRawFile(
+    "run/places-chuo-tokyo.json",
+    search([
+      { ...PLACE, rating: 0 },
+      { ...PLACE, placeId: "" },
+      { ...PLACE, category: "Halal Ramen  4.6Ramen restaurant" },
+      PLACE,
+    ], { totalResults: 20 }),
+  );
+
+  assertEquals(codes(report), [
+    "places[0].rating rating_range",
+    "places[1].placeId empty_place_id",
+    "places[2].category category_has_name",
+    "places[2] duplicate_place",
+    "places[3] duplicate_place",
+    "totalResults count_mismatch",
+  ]);
+  assertEquals(report.issues.every((issue) => issue.level === "warning"), true);
+});
+
+Deno.test("validateRawFile: malformed records are errors", () => {
+  const report = validateRawFile(
+    "run/places-chuo-tokyo.json",
+    search([
+      { ...PLACE, rating: "4.6", openStatus: "maybe" },
+      { name: "No id", scrapedAt: PLACE.scrapedAt, url: PLACE.url },
+      "not a place",
+    ]),
+  );
+
+  assertEquals(codes(report), [
+    "places[0].rating wrong_type",
+    "places[0].openStatus bad_value",
+    "places[1].placeId missing_field",
+    "places[2] wrong_type",
+  ]);
+  assertEquals(report.issues.every((issue) => issue.level === "error"), true);
+});
+
+Deno.test("validateRawFile: schema versions", () => {
+  const { schemaVersion: _version, ...legacy } = search([PLACE]);
+  const old = validateRawFile("run/places-chuo-tokyo.json", legacy);
+  assertEquals(old.schemaVersion, 1);
+  assertEquals(codes(old), ["schemaVersion old_schema"]);
+
+  const newer = validateRawFile(
+    "run/places-chuo-tokyo.json",
+    search([PLACE], { schemaVersion: RAW_SCHEMA_VERSION + 1 }),
+  );
+  assertEquals(codes(newer), ["schemaVersion newer_schema"]);
+  assertEquals(newer.issues[0].level, "error");
+});
+
+Deno.test("validateRawFile: summaries, reviews and unknown files", () => {
+  const summary = validateRawFile("run/summary.json", {
+    schemaVersion: RAW_SCHEMA_VERSION,
+    scrapedAt: "2026-01-06T07:44:59.874Z",
+    outputDirectory: "run",
+    totalDistricts: 2,
+    districts: [
+      {
+        name: "Chuo",
+        query: "halal restaurants Chuo tokyo japan",
+        placesFound: 20,
+        status: "success",
+      },
+      { name: "Minato", query: "halal restaurants Minato", status: "done" },
+    ],
+  });
+  assertEquals(summary.kind, "summary");
+  assertEquals(codes(summary), [
+    "districts[1].placesFound missing_field",
+    "districts[1].status bad_value",
+  ]);
+
+  const reviews = validateRawFile("reviews/0x1_0xa.json", {
+    schemaVersion: RAW_SCHEMA_VERSION,
+    placeId: "0x1:0xa",
+    updatedAt: "2026-01-07T00:00:00.000Z",
+    totalReviews: 1,
+    reviews: [{
+      reviewId: "r1",
+      placeId: "0x1:0xa",
+      authorName: "Aisha",
+      rating: 6,
+      scrapedAt: "2026-01-07T00:00:00.000Z",
+    }],
+  });
+  assertEquals(reviews.kind, "reviews");
+  assertEquals(codes(reviews), ["reviews[0].rating rating_range"]);
+
+  assertEquals(codes(validateRawFile("notes.json", { hello: "world" })), [
+    " unknown_file",
+  ]);
+});
@@ -0,0 +1,539 @@
+/**
+ * SQLite backend for ScrapeStore
+ * One database file instead of a JSON file per search, place and review
+ * list. Tables: runs, districts (one row per search in a run), places,
+ * place_observations (a place as one search saw it) and reviews.
+ * place_observations is also the history: the observations view has the
+ * shape of processor/history.ts's table, so HistoryStore reads this database
+ * directly instead of keeping a copy in data/history.db.
+ * The schema is versioned with PRAGMA user_version; MIGRATIONS upgrades an
+ * older database step by step when it is opened.
+ */
+
+import { DatabaseSync, type SQLInputValue } from "node:sqlite";
+import {
+  mergeReviews,
+  type PlaceDetails,
+  type RunRecord,
+  type ScrapedPlace,
+  type ScrapedReview,
+  type ScrapeStore,
+  type SearchResult,
+} from "./storage.ts";
+
+export const SQLITE_DB_PATH = "./data/yaban.db";
+
+// Each entry upgrades the schema by one version; never edit a shipped one,
+// append a new migration instead
+export const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE runs (
+    run_id TEXT PRIMARY KEY,
+    -- batch, sweep or single (one query outside a run)
+    mode TEXT NOT NULL,
+    campaign TEXT,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    summary TEXT
+  );
+
+  CREATE TABLE districts (
+    id INTEGER PRIMARY KEY,
+    run_id TEXT NOT NULL REFERENCES runs (run_id) ON DELETE CASCADE,
+    file TEXT NOT NULL,
+    district TEXT,
+    city TEXT,
+    template TEXT,
+    query TEXT NOT NULL,
+    scraped_at TEXT NOT NULL,
+    total_results INTEGER NOT NULL,
+    UNIQUE (run_id, file)
+  );
+
+  CREATE TABLE places (
+    place_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    lat REAL,
+    lng REAL,
+    -- Null for places only known from their details
+    first_seen_at TEXT,
+    last_seen_at TEXT,
+    details TEXT,
+    details_scraped_at TEXT
+  );
+
+  CREATE TABLE place_observations (
+    district_id INTEGER NOT NULL REFERENCES districts (id) ON DELETE CASCADE,
+    place_id TEXT NOT NULL REFERENCES places (place_id),
+    rank INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    address TEXT,
+    rating REAL,
+    total_reviews INTEGER,
+    category TEXT,
+    price_level TEXT,
+    open_status TEXT,
+    open_status_text TEXT,
+    tags TEXT,
+    lat REAL,
+    lng REAL,
+    url TEXT NOT NULL,
+    scraped_at TEXT NOT NULL,
+    PRIMARY KEY (district_id, place_id)
+  );
+  CREATE INDEX place_observations_place
+    ON place_observations (place_id, scraped_at);
+
+  CREATE TABLE reviews (
+    review_id TEXT PRIMARY KEY,
+    place_id TEXT NOT NULL,
+    author_name TEXT NOT NULL,
+    author_url TEXT,
+    rating REAL NOT NULL,
+    text TEXT,
+    published_time TEXT,
+    published_time_text TEXT,
+    scraped_at TEXT NOT NULL
+  );
+  CREATE INDEX reviews_place ON reviews (place_id, published_time);
+  `,
+  // Reviewer profile line: "Local Guide · Level 6 · 87 reviews"
+  `
+  ALTER TABLE reviews ADD COLUMN author_local_guide INTEGER;
+  ALTER TABLE reviews ADD COLUMN author_level INTEGER;
+  ALTER TABLE reviews ADD COLUMN author_review_count INTEGER;
+  `,
+  // Whether a search filled its result cap; null for older searches
+  `
+  ALTER TABLE districts ADD COLUMN capped INTEGER;
+  `,
+  // The history HistoryStore reads, one row per place, run and query
+  `
+  CREATE VIEW observations AS
+    SELECT o.place_id, d.run_id, d.query, d.district, o.name,
+      MIN(o.rank) AS rank, o.rating, o.total_reviews,
+      o.scraped_at AS observed_at
+    FROM place_observations o
+    JOIN districts d ON d.id = o.district_id
+    GROUP BY o.place_id, d.run_id, d.query;
+  `,
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+interface ObservationRow {
+  run_id: string;
+  file: string;
+  campaign: string | null;
+  city: string | null;
+  district: string | null;
+  template: string | null;
+  mode: string;
+  query: string;
+  search_scraped_at: string;
+  capped: number | null;
+  place_id: string | null;
+  name: string | null;
+  address: string | null;
+  rating: number | null;
+  total_reviews: number | null;
+  category: string | null;
+  price_level: string | null;
+  open_status: string | null;
+  open_status_text: string | null;
+  tags: string | null;
+  lat: number | null;
+  lng: number | null;
+  url: string | null;
+  scraped_at: string | null;
+}
+
+interface ReviewRow {
+  review_id: string;
+  place_id: string;
+  author_name: string;
+  author_url: string | null;
+  author_local_guide: number | null;
+  author_level: number | null;
+  author_review_count: number | null;
+  rating: number;
+  text: string | null;
+  published_time: string | null;
+  published_time_text: string | null;
+  scraped_at: string;
+}
+
+// SQLite has no undefined; optional fields are stored as NULL
+function nullable(value: string | number | undefined): SQLInputValue {
+  return value ?? null;
+}
+
+function optional<T>(value: T | null): T | undefined {
+  return value ?? undefined;
+}
+
+// Drop absent fields so records match what the JSON files hold
+function compact<T extends object>(record: T): T {
+  return Object.fromEntries(
+    Object.entries(record).filter(([, value]) => value !== undefined),
+  ) as T;
+}
+
+function toPlace(row: ObservationRow): ScrapedPlace {
+  return compact({
+    placeId: row.place_id!,
+    name: row.name!,
+    address: optional(row.address),
+    rating: optional(row.rating),
+    totalReviews: optional(row.total_reviews),
+    category: optional(row.category),
+    priceLevel: optional(row.price_level),
+    openStatus: optional(row.open_status) as ScrapedPlace["openStatus"],
+    openStatusText: optional(row.open_status_text),
+    tags: row.tags ? JSON.parse(row.tags) : undefined,
+    lat: optional(row.lat),
+    lng: optional(row.lng),
+    url: row.url!,
+    scrapedAt: row.scraped_at!,
+  });
+}
+
+function toReview(row: ReviewRow): ScrapedReview {
+  return compact({
+    reviewId: row.review_id,
+    placeId: row.place_id,
+    authorName: row.author_name,
+    authorUrl: optional(row.author_url),
+    authorLocalGuide: row.author_local_guide === null
+      ? undefined
+      : row.author_local_guide === 1,
+    authorLevel: optional(row.author_level),
+    authorReviewCount: optional(row.author_review_count),
+    rating: row.rating,
+    text: optional(row.text),
+    publishedTime: optional(row.published_time),
+    publishedTimeText: optional(row.published_time_text),
+    scrapedAt: row.scraped_at,
+  });
+}
+
+export class SqliteStore implements ScrapeStore {
+  readonly kind = "sqlite";
+  private db: DatabaseSync;
+
+  constructor(readonly path = SQLITE_DB_PATH) {
+    if (path !== ":memory:") {
+      const dir = path.split("/").slice(0, -1).join("/");
+      if (dir) Deno.mkdirSync(dir, { recursive: true });
+    }
+    this.db = new DatabaseSync(path);
+    this.db.exec("PRAGMA foreign_keys = ON");
+    if (path !== ":memory:") this.db.exec("PRAGMA journal_mode = WAL");
+    this.migrate();
+  }
+
+  get schemaVersion(): number {
+    const row = this.db.prepare("PRAGMA user_version").get() as {
+      user_version: number;
+    };
+    return row.user_version;
+  }
+
+  private migrate(): void {
+    const current = this.schemaVersion;
+    if (current > SCHEMA_VERSION) {
+      throw new Error(
+        `${this.path} has schema version ${current}, newer than this code (${SCHEMA_VERSION})`,
+      );
+    }
+
+    for (let version = current; version < SCHEMA_VERSION; version++) {
+      this.transaction(() => {
+        this.db.exec(MIGRATIONS[version]);
+        this.db.exec(`PRAGMA user_version = ${version + 1}`);
+      });
+      console.log(`🗄️  Migrated ${this.path} to schema version ${version + 1}`);
+    }
+  }
+
+  private transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  saveSearch(result: SearchResult): Promise<string> {
+    // A single query is its own run, named like its JSON file
+    const runId = result.runId ?? result.file.replace(/\.json$/, "");
+    const mode = result.mode ?? (result.runId ? "batch" : "single");
+
+    this.transaction(() => {
+      this.db.prepare(`
+        INSERT OR IGNORE INTO runs (run_id, mode, campaign, started_at)
+        VALUES (?, ?, ?, ?)
+      `).run(runId, mode, nullable(result.campaign), result.scrapedAt);
+
+      // A retried or resumed search replaces what it saved before
+      this.db.prepare("DELETE FROM districts WHERE run_id = ? AND file = ?")
+        .run(runId, result.file);
+      const district = this.db.prepare(`
+        INSERT INTO districts
+          (run_id, file, district, city, template, query, scraped_at,
+           total_results, capped)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        runId,
+        result.file,
+        nullable(result.district),
+        nullable(result.city),
+        nullable(result.template),
+        result.query,
+        result.scrapedAt,
+        result.places.length,
+        result.capped === undefined ? null : Number(result.capped),
+      );
+
+      const upsertPlace = this.db.prepare(`
+        INSERT INTO places (place_id, name, url, lat, lng, first_seen_at,
+          last_seen_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (place_id) DO UPDATE SET
+          name = CASE WHEN excluded.last_seen_at >= IFNULL(last_seen_at, '')
+            THEN excluded.name ELSE name END,
+          url = CASE WHEN excluded.last_seen_at >= IFNULL(last_seen_at, '')
+            THEN excluded.url ELSE url END,
+          lat = IFNULL(excluded.lat, lat),
+          lng = IFNULL(excluded.lng, lng),
+          first_seen_at = MIN(IFNULL(first_seen_at, excluded.first_seen_at),
+            excluded.first_seen_at),
+          last_seen_at = MAX(IFNULL(last_seen_at, ''), excluded.last_seen_at)
+      `);
+      // The same place twice in one feed keeps its first rank
+      const insertObservation = this.db.prepare(`
+        INSERT OR IGNORE INTO place_observations
+          (district_id, place_id, rank, name, address, rating, total_reviews,
+           category, price_level, open_status, open_status_text, tags, lat,
+           lng, url, scraped_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      result.places.forEach((place, index) => {
+        if (!place.placeId) return;
+        const seenAt = place.scrapedAt || result.scrapedAt;
+        upsertPlace.run(
+          place.placeId,
+          place.name,
+          place.url,
+          nullable(place.lat),
+          nullable(place.lng),
+          seenAt,
+          seenAt,
+        );
+        insertObservation.run(
+          district.lastInsertRowid,
+          place.placeId,
+          index + 1,
+          place.name,
+          nullable(place.address),
+          nullable(place.rating),
+          nullable(place.totalReviews),
+          nullable(place.category),
+          nullable(place.priceLevel),
+          nullable(place.openStatus),
+          nullable(place.openStatusText),
+          place.tags ? JSON.stringify(place.tags) : null,
+          nullable(place.lat),
+          nullable(place.lng),
+          place.url,
+          seenAt,
+        );
+      });
+    });
+
+    return Promise.resolve(`${this.path} (${runId}/${result.file})`);
+  }
+
+  saveRun(run: RunRecord): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO runs (run_id, mode, campaign, started_at, finished_at,
+        summary)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (run_id) DO UPDATE SET
+        mode = excluded.mode,
+        campaign = excluded.campaign,
+        started_at = excluded.started_at,
+        finished_at = excluded.finished_at,
+        summary = excluded.summary
+    `).run(
+      run.runId,
+      run.mode,
+      nullable(run.campaign),
+      run.startedAt,
+      nullable(run.finishedAt),
+      JSON.stringify(run.summary),
+    );
+    return Promise.resolve();
+  }
+
+  savePlaceDetails(details: PlaceDetails): Promise<string> {
+    this.db.prepare(`
+      INSERT INTO places (place_id, name, url, details, details_scraped_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (place_id) DO UPDATE SET
+        details = excluded.details,
+        details_scraped_at = excluded.details_scraped_at
+    `).run(
+      details.placeId,
+      details.name,
+      details.url,
+      JSON.stringify(details),
+      details.scrapedAt,
+    );
+    return Promise.resolve(`${this.path} (${details.placeId})`);
+  }
+
+  hasPlaceDetails(placeId: string): Promise<boolean> {
+    const row = this.db.prepare(
+      "SELECT 1 FROM places WHERE place_id = ? AND details IS NOT NULL",
+    ).get(placeId);
+    return Promise.resolve(row !== undefined);
+  }
+
+  loadReviews(placeId: string): Promise<ScrapedReview[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM reviews
+      WHERE place_id = ?
+      ORDER BY published_time DESC, rowid
+    `).all(placeId) as unknown as ReviewRow[];
+    return Promise.resolve(rows.map(toReview));
+  }
+
+  async saveReviews(
+    placeId: string,
+    reviews: ScrapedReview[],
+  ): Promise<number> {
+    const { added } = mergeReviews(await this.loadReviews(placeId), reviews);
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO reviews
+        (review_id, place_id, author_name, author_url, author_local_guide,
+         author_level, author_review_count, rating, text, published_time,
+         published_time_text, scraped_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.transaction(() => {
+      for (const review of added) {
+        insert.run(
+          review.reviewId,
+          placeId,
+          review.authorName,
+          nullable(review.authorUrl),
+          review.authorLocalGuide === undefined
+            ? null
+            : Number(review.authorLocalGuide),
+          nullable(review.authorLevel),
+          nullable(review.authorReviewCount),
+          review.rating,
+          nullable(review.text),
+          nullable(review.publishedTime),
+          nullable(review.publishedTimeText),
+          review.scrapedAt,
+        );
+      }
+    });
+
+    console.log(`✓ Saved ${added.length} new reviews to ${this.path}`);
+    return added.length;
+  }
+
+  /**
+   * Every saved search, oldest first, as the JSON files would hold it
+   */
+  loadSearches(): SearchResult[] {
+    const rows = this.db.prepare(`
+      SELECT d.run_id, d.file, r.campaign, d.city, d.district, d.template,
+        r.mode, d.query, d.scraped_at AS search_scraped_at, d.capped, o.*
+      FROM districts d
+      JOIN runs r ON r.run_id = d.run_id
+      LEFT JOIN place_observations o ON o.district_id = d.id
+      ORDER BY d.scraped_at, d.run_id, d.file, o.rank
+    `).all() as unknown as ObservationRow[];
+
+    const searches = new Map<string, SearchResult>();
+    for (const row of rows) {
+      const key = `${row.run_id}/${row.file}`;
+      let search = searches.get(key);
+      if (!search) {
+        search = compact<SearchResult>({
+          runId: row.run_id,
+          file: row.file,
+          campaign: optional(row.campaign),
+          city: optional(row.city),
+          district: optional(row.district),
+          template: optional(row.template),
+          mode: row.mode === "sweep" ? "sweep" : undefined,
+          query: row.query,
+          scrapedAt: row.search_scraped_at,
+          capped: row.capped === null ? undefined : row.capped === 1,
+          places: [],
+        });
+        searches.set(key, search);
+      }
+      if (row.place_id) search.places.push(toPlace(row));
+    }
+
+    return [...searches.values()];
+  }
+
+  /**
+   * Batch and sweep runs that saved a summary, oldest first
+   */
+  loadRuns(): RunRecord[] {
+    const rows = this.db.prepare(`
+      SELECT run_id, mode, campaign, started_at, finished_at, summary
+      FROM runs
+      WHERE summary IS NOT NULL AND mode IN ('batch', 'sweep')
+      ORDER BY started_at, run_id
+    `).all() as {
+      run_id: string;
+      mode: RunRecord["mode"];
+      campaign: string | null;
+      started_at: string;
+      finished_at: string | null;
+      summary: string;
+    }[];
+
+    return rows.map((row) =>
+      compact<RunRecord>({
+        runId: row.run_id,
+        mode: row.mode,
+        campaign: optional(row.campaign),
+        startedAt: row.started_at,
+        finishedAt: optional(row.finished_at),
+        summary: JSON.parse(row.summary),
+      })
+    );
+  }
+
+  /**
+   * Every PlaceDetails record, keyed by placeId
+   */
+  loadPlaceDetails(): Map<string, PlaceDetails> {
+    const rows = this.db.prepare(
+      "SELECT details FROM places WHERE details IS NOT NULL",
+    ).all() as { details: string }[];
+    const details = rows.map((row) => JSON.parse(row.details) as PlaceDetails);
+    return new Map(details.map((record) => [record.placeId, record]));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,203 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.8";
+import { DatabaseSync } from "node:sqlite";
+import { RAW_SCHEMA_VERSION } from "./schema.ts";
+import { MIGRATIONS, SCHEMA_VERSION, SqliteStore } from "./sqlite-store.ts";
+import {
+  JsonStore,
+  type ScrapedPlace,
+  type ScrapedReview,
+  type SearchResult,
+} from "./storage.ts";
+
+const PLACES: ScrapedPlace[] = [
+  {
+    placeId: "0x1:0xa",
+    name: "Halal Ramen",
+    address: "1-1 Ginza",
+    rating: 4.6,
+    totalReviews: 120,
+    category: "Ramen restaurant",
+    openStatus: "open",
+    openStatusText: "Open · Closes 10 PM",
+    tags: ["Halal"],
+    lat: 35.67,
+    lng: 139.76,
+    url: "https://www.google.com/maps/place/Halal+Ramen/data=!1s0x1:0xa",
+    scrapedAt: "2026-01-06T07:45:00.000Z",
+  },
+  {
+    placeId: "0x1:0xb",
+    name: "Kebab Stand",
+    url: "https://www.google.com/maps/place/Kebab+Stand/data=!1s0x1:0xb",
+    scrapedAt: "2026-01-06T07:45:01.000Z",
+  },
+];
+
+const SEARCH: SearchResult = {
+  runId: "2026-01-06-16-44",
+  file: "places-chuo-tokyo.json",
+  campaign: "Tokyo halal",
+  city: "tokyo",
+  district: "Chuo",
+  template: "halal-restaurants",
+  query: "halal restaurants Chuo tokyo japan",
+  scrapedAt: "2026-01-06T07:45:00.000Z",
+  places: PLACES,
+};
+
+function review(id: string, publishedTime: string): ScrapedReview {
+  return {
+    reviewId: id,
+    placeId: "0x1:0xa",
+    authorName: `Author ${id}`,
+    rating: 5,
+    text: "Halal certified",
+    publishedTime,
+    publishedTimeText: "a month ago",
+    scrapedAt: "2026-01-07T00:00:00.000Z",
+  };
+}
+
+Deno.test("SqliteStore: searches round-trip", async () => {
+  const store = new SqliteStore(":memory:");
+  try {
+    assertEquals(store.schemaVersion, SCHEMA_VERSION);
+    await store.saveSearch(SEARCH);
+    assertEquals(store.loadSearches(), [SEARCH]);
+
+    // Saving the same search again replaces it
+    await store.saveSearch({ ...SEARCH, places: PLACES.slice(1) });
+    assertEquals(store.loadSearches()[0].places, PLACES.slice(1));
+  } finally {
+    store.close();
+  }
+});
+
+Deno.test("SqliteStore: single queries become their own run", async () => {
+  const store = new SqliteStore(":memory:");
+  try {
+    const file = "halal-ramen_2026-01-05T12-30-45-123Z.json";
+    await store.saveSearch({
+      file,
+      query: "halal ramen",
+      scrapedAt: "2026-01-05T12:30:45.123Z",
+      places: PLACES,
+    });
+    const [search] = store.loadSearches();
+    assertEquals(search.runId, file.replace(/\.json$/, ""));
+    assertEquals(search.places.length, 2);
+  } finally {
+    store.close();
+  }
+});
+
+Deno.test("SqliteStore: reviews merge and details", async () => {
+  const store = new SqliteStore(":memory:");
+  try {
+    const older = review("r1", "2025-12-01T00:00:00.000Z");
+    const newer = {
+      ...review("r2", "2026-01-01T00:00:00.000Z"),
+      authorLocalGuide: true,
+      authorLevel: 6,
+      authorReviewCount: 87,
+    };
+
+    assertEquals(await store.saveReviews("0x1:0xa", [older]), 1);
+    assertEquals(await store.saveReviews("0x1:0xa", [older, newer]), 1);
+    assertEquals(await store.loadReviews("0x1:0xa"), [newer, older]);
+
+    assertEquals(await store.hasPlaceDetails("0x1:0xa"), false);
+    const details = {
+      placeId: "0x1:0xa",
+      name: "Halal Ramen",
+      phone: "03-1234-5678",
+      attributes: [{ group: "Offerings", name: "Halal food", available: true }],
+      url: PLACES[0].url,
+      scrapedAt: "2026-01-07T00:00:00.000Z",
+    };
+    await store.savePlaceDetails(details);
+    assertEquals(await store.hasPlaceDetails("0x1:0xa"), true);
+    assertEquals(store.loadPlaceDetails().get("0x1:0xa"), details);
+  } finally {
+    store.close();
+  }
+});
+
+Deno.test("SqliteStore: refuses a database from newer code", () => {
+  const path = Deno.makeTempFileSync({ suffix: ".db" });
+  try {
+    new SqliteStore(path).close();
+    const db = new DatabaseSync(path);
+    db.exec(`PRAGMA user_version = ${SCHEMA_VERSION + 1}`);
+    db.close();
+
+    assertThrows(() => new SqliteStore(path), Error, "newer than this code");
+  } finally {
+    Deno.removeSync(path);
+    for (const suffix of ["-wal", "-shm"]) {
+      try {
+        Deno.removeSync(path + suffix);
+      } catch {
+        // Only present while a connection is open
+      }
+    }
+  }
+});
+
+Deno.test("SqliteStore: upgrades a version 1 database", async () => {
+  const path = Deno.makeTempFileSync({ suffix: ".db" });
+  try {
+    const db = new DatabaseSync(path);
+    db.exec(MIGRATIONS[0]);
+    db.exec("PRAGMA user_version = 1");
+    db.prepare(`
+      INSERT INTO reviews (review_id, place_id, author_name, rating, scraped_at)
+      VALUES ('r1', '0x1:0xa', 'Author r1', 5, '2026-01-07T00:00:00.000Z')
+    `).run();
+    db.close();
+
+    const store = new SqliteStore(path);
+    try {
+      assertEquals(store.schemaVersion, SCHEMA_VERSION);
+      assertEquals(await store.loadReviews("0x1:0xa"), [{
+        reviewId: "r1",
+        placeId: "0x1:0xa",
+        authorName: "Author r1",
+        rating: 5,
+        scrapedAt: "2026-01-07T00:00:00.000Z",
+      }]);
+    } finally {
+      store.close();
+    }
+  } finally {
+    for (const suffix of ["", "-wal", "-shm"]) {
+      try {
+        Deno.removeSync(path + suffix);
+      } catch {
+        // Only present while a connection is open
+      }
+    }
+  }
+});
+
+Deno.test("JsonStore: writes the same file layout as before", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const store = new JsonStore(`${dir}/raw`, `${dir}/reviews`);
+    const path = await store.saveSearch(SEARCH);
+    assertEquals(path, `${dir}/raw/${SEARCH.runId}/${SEARCH.file}`);
+
+    const { runId: _runId, file: _file, ...meta } = SEARCH;
+    assertEquals(JSON.parse(await Deno.readTextFile(path)), {
+      schemaVersion: RAW_SCHEMA_VERSION,
+      ...meta,
+      totalResults: PLACES.length,
+    });
+
+    const older = review("r1", "2025-12-01T00:00:00.000Z");
+    assertEquals(await store.saveReviews("0x1:0xa", [older]), 1);
+    assertEquals(await store.saveReviews("0x1:0xa", [older]), 0);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -1,7 +1,20 @@
 /**
- * Storage utilities for saving scraped data to JSON files
+ * Storage for scraped data
+ * Scrapers write through a ScrapeStore: JSON files under data/ (default) or
+ * the SQLite database in sqlite-store.ts, chosen with YABAN_STORAGE
  */
 
+import { RAW_SCHEMA_VERSION } from "./schema.ts";
+import { SqliteStore } from "./sqlite-store.ts";
+
+export type OpenStatus =
+  | "open"
+  | "closed"
+  | "closing_soon"
+  | "opening_soon"
+  | "temporarily_closed"
+  | "permanently_closed";
+
 export interface ScrapedPlace {
   placeId: string;
   name: string;
@@ -10,6 +23,37 @@ export interface ScrapedPlace {
   totalReviews?: number;
   category?: string;
   priceLevel?: string;
+  openStatus?: OpenStatus;
+  openStatusText?: string;
+  tags?: string[];
+  lat?: number;
+  lng?: number;
+  url: string;
+  scrapedAt: string;
+}
+
+export interface OpeningHours {
+  day: string;
+  hours: string;
+}
+
+export interface PlaceAttribute {
+  // About tab section, e.g. "Dining options" or "Amenities"
+  group: string;
+  name: string;
+  available: boolean;
+}
+
+export interface PlaceDetails {
+  placeId: string;
+  name: string;
+  fullAddress?: string;
+  phone?: string;
+  website?: string;
+  plusCode?: string;
+  openingHours?: OpeningHours[];
+  photoCount?: number;
+  attributes: PlaceAttribute[];
   url: string;
   scrapedAt: string;
 }
@@ -19,20 +63,226 @@ export interface ScrapedReview {
   placeId: string;
   authorName: string;
   authorUrl?: string;
+  // From the line under the author's name, when Maps shows one
+  authorLocalGuide?: boolean;
+  authorLevel?: number;
+  authorReviewCount?: number;
   rating: number;
   text?: string;
   publishedTime?: string;
+  // Date as Maps displayed it ("3 months ago"); publishedTime is derived from it
+  publishedTimeText?: string;
+  scrapedAt: string;
+}
+
+export interface ReviewFile {
+  // Missing in files from before versioning
+  schemaVersion?: number;
+  placeId: string;
+  updatedAt: string;
+  totalReviews: number;
+  reviews: ScrapedReview[];
+}
+
+export type StorageKind = "json" | "sqlite";
+
+// Selects the backend for openStore(); JSON files unless set to "sqlite"
+export const STORAGE_ENV = "YABAN_STORAGE";
+
+export const RAW_DIR = "./data/raw";
+export const REVIEWS_DIR = "./data/reviews";
+
+/**
+ * The places one search returned, with where it belongs
+ */
+export interface SearchResult {
+  // Batch or sweep run directory; single queries have none
+  runId?: string;
+  file: string;
+  campaign?: string;
+  city?: string;
+  district?: string;
+  template?: string;
+  mode?: "sweep";
+  query: string;
   scrapedAt: string;
+  // The search filled its result cap, so places ranked past it are missing
+  capped?: boolean;
+  places: ScrapedPlace[];
 }
 
-export async function saveRawData(
-  filename: string,
-  data: unknown,
-): Promise<void> {
-  const filepath = `./data/raw/${filename}`;
-  const jsonData = JSON.stringify(data, null, 2);
-  await Deno.writeTextFile(filepath, jsonData);
-  console.log(`✓ Saved data to ${filepath}`);
+/**
+ * A batch or sweep run; summary is what the run reports when it ends
+ */
+export interface RunRecord {
+  runId: string;
+  mode: "batch" | "sweep";
+  startedAt: string;
+  finishedAt?: string;
+  campaign?: string;
+  summary: Record<string, unknown>;
+}
+
+/**
+ * Where scrapers write what they collect
+ */
+export interface ScrapeStore {
+  readonly kind: StorageKind;
+  // Returns where the search ended up, for logging
+  saveSearch(result: SearchResult): Promise<string>;
+  saveRun(run: RunRecord): Promise<void>;
+  savePlaceDetails(details: PlaceDetails): Promise<string>;
+  hasPlaceDetails(placeId: string): Promise<boolean>;
+  loadReviews(placeId: string): Promise<ScrapedReview[]>;
+  // Merges with the stored reviews; returns how many were new
+  saveReviews(placeId: string, reviews: ScrapedReview[]): Promise<number>;
+  close(): void;
+}
+
+/**
+ * Merge new reviews into stored ones, newest first
+ */
+export function mergeReviews(
+  existing: ScrapedReview[],
+  reviews: ScrapedReview[],
+): { merged: ScrapedReview[]; added: ScrapedReview[] } {
+  const known = new Set(existing.map((review) => review.reviewId));
+  const added = reviews.filter((review) => !known.has(review.reviewId));
+  const merged = [...existing, ...added].sort((a, b) =>
+    (b.publishedTime || "").localeCompare(a.publishedTime || "")
+  );
+  return { merged, added };
+}
+
+/**
+ * One pretty-printed JSON file per search, place and review list under data/,
+ * each stamped with the schemaVersion it was written with
+ */
+export class JsonStore implements ScrapeStore {
+  readonly kind = "json";
+
+  constructor(
+    private rawDir = RAW_DIR,
+    private reviewsDir = REVIEWS_DIR,
+  ) {}
+
+  async saveSearch(result: SearchResult): Promise<string> {
+    const { runId, file, places, ...meta } = result;
+    const dir = runId ? `${this.rawDir}/${runId}` : this.rawDir;
+    await ensureDirectory(dir);
+
+    const filepath = `${dir}/${file}`;
+    await Deno.writeTextFile(
+      filepath,
+      JSON.stringify(
+        {
+          schemaVersion: RAW_SCHEMA_VERSION,
+          ...meta,
+          totalResults: places.length,
+          places,
+        },
+        null,
+        2,
+      ),
+    );
+    return filepath;
+  }
+
+  async saveRun(run: RunRecord): Promise<void> {
+    const dir = `${this.rawDir}/${run.runId}`;
+    await ensureDirectory(dir);
+    await Deno.writeTextFile(
+      `${dir}/summary.json`,
+      JSON.stringify(
+        { schemaVersion: RAW_SCHEMA_VERSION, ...run.summary },
+        null,
+        2,
+      ),
+    );
+  }
+
+  async savePlaceDetails(details: PlaceDetails): Promise<string> {
+    await ensureDirectory(this.detailsDir);
+    const filepath = `${this.detailsDir}/${placeFilename(details.placeId)}`;
+    await Deno.writeTextFile(
+      filepath,
+      JSON.stringify(
+        { schemaVersion: RAW_SCHEMA_VERSION, ...details },
+        null,
+        2,
+      ),
+    );
+    return filepath;
+  }
+
+  async hasPlaceDetails(placeId: string): Promise<boolean> {
+    try {
+      await Deno.stat(`${this.detailsDir}/${placeFilename(placeId)}`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async loadReviews(placeId: string): Promise<ScrapedReview[]> {
+    try {
+      const data = JSON.parse(
+        await Deno.readTextFile(
+          `${this.reviewsDir}/${placeFilename(placeId)}`,
+        ),
+      ) as ReviewFile;
+      return data.reviews;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+  }
+
+  async saveReviews(
+    placeId: string,
+    reviews: ScrapedReview[],
+  ): Promise<number> {
+    const { merged, added } = mergeReviews(
+      await this.loadReviews(placeId),
+      reviews,
+    );
+
+    await ensureDirectory(this.reviewsDir);
+    const filepath = `${this.reviewsDir}/${placeFilename(placeId)}`;
+    const file: ReviewFile = {
+      schemaVersion: RAW_SCHEMA_VERSION,
+      placeId,
+      updatedAt: new Date().toISOString(),
+      totalReviews: merged.length,
+      reviews: merged,
+    };
+    await Deno.writeTextFile(filepath, JSON.stringify(file, null, 2));
+    console.log(`✓ Saved ${added.length} new reviews to ${filepath}`);
+    return added.length;
+  }
+
+  close(): void {}
+
+  private get detailsDir(): string {
+    return `${this.rawDir}/details`;
+  }
+}
+
+export function storageKind(): StorageKind {
+  const value = Deno.env.get(STORAGE_ENV) || "json";
+  if (value !== "json" && value !== "sqlite") {
+    throw new Error(
+      `${STORAGE_ENV} must be "json" or "sqlite", not "${value}"`,
+    );
+  }
+  return value;
+}
+
+/**
+ * The store selected by YABAN_STORAGE
+ */
+export function openStore(kind = storageKind()): ScrapeStore {
+  return kind === "sqlite" ? new SqliteStore() : new JsonStore();
 }
 
 export function generateFilename(query: string): string {
@@ -40,3 +290,17 @@ export function generateFilename(query: string): string {
   const sanitized = query.toLowerCase().replace(/\s+/g, "-");
   return `${sanitized}_${timestamp}.json`;
 }
+
+export function placeFilename(placeId: string): string {
+  return `${placeId.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`;
+}
+
+export async function ensureDirectory(path: string): Promise<void> {
+  try {
+    await Deno.mkdir(path, { recursive: true });
+  } catch (error) {
+    if (!(error instanceof Deno.errors.AlreadyExists)) {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Check raw scrape output against the schemas in schema.ts
+ * Scans data/raw and data/reviews and reports malformed records, suspicious
+ * values and files written by older schema versions
+ * Usage: yaban validate [dir ...] [--verbose]
+ * Exits with status 1 if any file has errors
+ */
+
+import {
+  type FileReport,
+  type IssueCode,
+  RAW_SCHEMA_VERSION,
+  validateRawFile,
+} from "./schema.ts";
+import { RAW_DIR, REVIEWS_DIR } from "./storage.ts";
+
+// Resume state of a batch run, not scrape output
+const SKIPPED_FILES = new Set(["checkpoint.json"]);
+// Issues printed per file unless --verbose
+const MAX_ISSUES_SHOWN = 5;
+
+async function* jsonFiles(dir: string): AsyncGenerator<string> {
+  const entries: Deno.DirEntry[] = [];
+  for await (const entry of Deno.readDir(dir)) entries.push(entry);
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const path = `${dir}/${entry.name}`;
+    if (entry.isDirectory) {
+      yield* jsonFiles(path);
+    } else if (
+      entry.isFile && entry.name.endsWith(".json") &&
+      !SKIPPED_FILES.has(entry.name)
+    ) {
+      yield path;
+    }
+  }
+}
+
+async function validateFile(path: string): Promise<FileReport> {
+  try {
+    return validateRawFile(path, JSON.parse(await Deno.readTextFile(path)));
+  } catch (error) {
+    return {
+      path,
+      records: 0,
+      issues: [{
+        code: "invalid_json",
+        level: "error",
+        path: "",
+        message: (error as Error).message,
+      }],
+    };
+  }
+}
+
+function printReport(report: FileReport, verbose: boolean): void {
+  const hasErrors = report.issues.some((issue) => issue.level === "error");
+  const version = report.schemaVersion ? `, v${report.schemaVersion}` : "";
+  console.log(
+    `${hasErrors ? "❌" : "⚠️ "} ${report.path} (${
+      report.kind || "unknown"
+    }${version})`,
+  );
+
+  const shown = verbose
+    ? report.issues
+    : report.issues.slice(0, MAX_ISSUES_SHOWN);
+  for (const issue of shown) {
+    const icon = issue.level === "error" ? "❌" : "⚠️ ";
+    const where = issue.path ? `${issue.path}: ` : "";
+    console.log(`   ${icon} ${where}${issue.message}`);
+  }
+  if (shown.length < report.issues.length) {
+    console.log(`   ... ${report.issues.length - shown.length} more`);
+  }
+}
+
+export interface ValidateOptions {
+  // Defaults to data/raw and data/reviews
+  dirs?: string[];
+  verbose: boolean;
+}
+
+export interface ValidateResult {
+  reports: FileReport[];
+  records: number;
+  errors: number;
+  warnings: number;
+}
+
+export async function validateDirs(
+  { dirs: given, verbose }: ValidateOptions,
+): Promise<ValidateResult> {
+  const dirs = given?.length ? given : [RAW_DIR, REVIEWS_DIR];
+
+  console.log("=".repeat(60));
+  console.log("🔍 Yaban - Validate raw scrape output");
+  console.log("=".repeat(60));
+  console.log(`Directories: ${dirs.join(", ")}`);
+  console.log(`Current schema version: ${RAW_SCHEMA_VERSION}`);
+  console.log();
+
+  const reports: FileReport[] = [];
+  for (const dir of dirs) {
+    try {
+      for await (const path of jsonFiles(dir)) {
+        reports.push(await validateFile(path));
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      console.log(`⏭️  ${dir} does not exist, skipping`);
+    }
+  }
+
+  const codes = new Map<IssueCode, number>();
+  const versions = new Map<number, number>();
+  let errors = 0;
+  let warnings = 0;
+
+  for (const report of reports) {
+    if (report.schemaVersion) {
+      versions.set(
+        report.schemaVersion,
+        (versions.get(report.schemaVersion) || 0) + 1,
+      );
+    }
+    for (const issue of report.issues) {
+      codes.set(issue.code, (codes.get(issue.code) || 0) + 1);
+      if (issue.level === "error") errors++;
+      else warnings++;
+    }
+    if (report.issues.length > 0) printReport(report, verbose);
+  }
+
+  const records = reports.reduce((sum, report) => sum + report.records, 0);
+  const outdated = reports.filter((report) =>
+    report.schemaVersion && report.schemaVersion < RAW_SCHEMA_VERSION
+  );
+
+  console.log();
+  console.log("=".repeat(60));
+  console.log(`📊 Checked ${reports.length} files, ${records} records`);
+  console.log(`   ❌ Errors: ${errors}`);
+  console.log(`   ⚠️  Warnings: ${warnings}`);
+  for (const [code, count] of [...codes].sort((a, b) => b[1] - a[1])) {
+    console.log(`      ${code}: ${count}`);
+  }
+  if (versions.size > 0) {
+    const byVersion = [...versions].sort((a, b) => a[0] - b[0])
+      .map(([version, count]) => `v${version}: ${count}`).join(", ");
+    console.log(`🗂️  Schema versions: ${byVersion}`);
+  }
+  if (outdated.length > 0) {
+    console.log(
+      `🕰️  ${outdated.length} files were written by an older schema version`,
+    );
+  }
+  console.log("=".repeat(60));
+
+  return { reports, records, errors, warnings };
+}
@@ -0,0 +1,236 @@
+/**
+ * Tokyo ward outlines from the MLIT administrative boundary data
+ * (国土数値情報 行政区域, N03; https://nlftp.mlit.go.jp/ksj/). An N03 GeoJSON
+ * file has one feature per polygon, tagged with the municipality code
+ * (N03_007). The polygons of each of the 23 special wards are merged into a
+ * MultiPolygon, simplified and written in the format geo.ts reads, with the
+ * ward's official area.
+ * Usage: yaban wards import <N03 GeoJSON file>
+ */
+
+import { WARD_BOUNDARIES_PATH } from "./geo.ts";
+
+type Ring = [number, number][];
+
+// Attribution the N03 terms of use require; also marks an imported file
+export const N03_SOURCE =
+  "「国土数値情報（行政区域データ）」（国土交通省）を加工して作成";
+
+// About 20 m in latitude; borders stay well inside a city block
+export const DEFAULT_TOLERANCE_DEG = 0.0002;
+// ~1 m
+const COORDINATE_DIGITS = 5;
+
+export interface WardInfo {
+  code: string;
+  name: string;
+  nameJa: string;
+  // Official area (GSI, 全国都道府県市区町村別面積調)
+  areaKm2: number;
+}
+
+export const TOKYO_WARDS: WardInfo[] = [
+  { code: "13101", name: "Chiyoda", nameJa: "千代田区", areaKm2: 11.66 },
+  { code: "13102", name: "Chuo", nameJa: "中央区", areaKm2: 10.21 },
+  { code: "13103", name: "Minato", nameJa: "港区", areaKm2: 20.37 },
+  { code: "13104", name: "Shinjuku", nameJa: "新宿区", areaKm2: 18.22 },
+  { code: "13105", name: "Bunkyo", nameJa: "文京区", areaKm2: 11.29 },
+  { code: "13106", name: "Taito", nameJa: "台東区", areaKm2: 10.11 },
+  { code: "13107", name: "Sumida", nameJa: "墨田区", areaKm2: 13.77 },
+  { code: "13108", name: "Koto", nameJa: "江東区", areaKm2: 43.01 },
+  { code: "13109", name: "Shinagawa", nameJa: "品川区", areaKm2: 22.84 },
+  { code: "13110", name: "Meguro", nameJa: "目黒区", areaKm2: 14.67 },
+  { code: "13111", name: "Ota", nameJa: "大田区", areaKm2: 61.86 },
+  { code: "13112", name: "Setagaya", nameJa: "世田谷区", areaKm2: 58.05 },
+  { code: "13113", name: "Shibuya", nameJa: "渋谷区", areaKm2: 15.11 },
+  { code: "13114", name: "Nakano", nameJa: "中野区", areaKm2: 15.59 },
+  { code: "13115", name: "Suginami", nameJa: "杉並区", areaKm2: 34.06 },
+  { code: "13116", name: "Toshima", nameJa: "豊島区", areaKm2: 13.01 },
+  { code: "13117", name: "Kita", nameJa: "北区", areaKm2: 20.61 },
+  { code: "13118", name: "Arakawa", nameJa: "荒川区", areaKm2: 10.16 },
+  { code: "13119", name: "Itabashi", nameJa: "板橋区", areaKm2: 32.22 },
+  { code: "13120", name: "Nerima", nameJa: "練馬区", areaKm2: 48.08 },
+  { code: "13121", name: "Adachi", nameJa: "足立区", areaKm2: 53.25 },
+  { code: "13122", name: "Katsushika", nameJa: "葛飾区", areaKm2: 34.80 },
+  { code: "13123", name: "Edogawa", nameJa: "江戸川区", areaKm2: 49.90 },
+];
+
+export class WardImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WardImportError";
+  }
+}
+
+interface N03Feature {
+  properties: Record<string, string | null>;
+  geometry:
+    | { type: "Polygon"; coordinates: Ring[] }
+    | { type: "MultiPolygon"; coordinates: Ring[][] }
+    | null;
+}
+
+export interface WardFeatureCollection {
+  type: "FeatureCollection";
+  source: string;
+  features: {
+    type: "Feature";
+    properties: WardInfo;
+    geometry: { type: "MultiPolygon"; coordinates: Ring[][] };
+  }[];
+}
+
+function perpendicularDistance(
+  [x, y]: [number, number],
+  [x1, y1]: [number, number],
+  [x2, y2]: [number, number],
+): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(x - x1, y - y1);
+  return Math.abs(dy * x - dx * y + x2 * y1 - y2 * x1) / length;
+}
+
+function douglasPeucker(points: Ring, tolerance: number): Ring {
+  if (points.length < 3) return points;
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = perpendicularDistance(
+      points[i],
+      points[0],
+      points[points.length - 1],
+    );
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+  if (maxDistance <= tolerance) return [points[0], points[points.length - 1]];
+  return [
+    ...douglasPeucker(points.slice(0, index + 1), tolerance).slice(0, -1),
+    ...douglasPeucker(points.slice(index), tolerance),
+  ];
+}
+
+/**
+ * Douglas-Peucker on a closed ring, rounded to ~1 m. Returns undefined when
+ * the ring collapses, e.g. an islet smaller than the tolerance.
+ */
+export function simplifyRing(ring: Ring, tolerance: number): Ring | undefined {
+  const factor = 10 ** COORDINATE_DIGITS;
+  const round = ([lng, lat]: [number, number]): [number, number] => [
+    Math.round(lng * factor) / factor,
+    Math.round(lat * factor) / factor,
+  ];
+  // Split at the point farthest from the start so both halves are open paths
+  const open = ring.slice(0, -1);
+  if (open.length < 3) return undefined;
+  let far = 0;
+  for (let i = 1; i < open.length; i++) {
+    if (
+      Math.hypot(open[i][0] - open[0][0], open[i][1] - open[0][1]) >
+        Math.hypot(open[far][0] - open[0][0], open[far][1] - open[0][1])
+    ) {
+      far = i;
+    }
+  }
+  const simplified = [
+    ...douglasPeucker(open.slice(0, far + 1), tolerance).slice(0, -1),
+    ...douglasPeucker([...open.slice(far), open[0]], tolerance),
+  ]
+    .map(round)
+    .filter((point, i, points) =>
+      i === 0 || point[0] !== points[i - 1][0] || point[1] !== points[i - 1][1]
+    );
+
+  // A ring needs three distinct corners plus the closing point
+  return simplified.length >= 4 ? simplified : undefined;
+}
+
+/**
+ * The 23 wards out of an N03 FeatureCollection; throws when one is missing,
+ * e.g. for a file of another prefecture
+ */
+export function wardsFromN03(
+  collection: { features?: N03Feature[] },
+  tolerance = DEFAULT_TOLERANCE_DEG,
+): WardFeatureCollection {
+  if (!Array.isArray(collection.features)) {
+    throw new WardImportError("Not a GeoJSON FeatureCollection");
+  }
+
+  const polygons = new Map<string, Ring[][]>();
+  for (const feature of collection.features) {
+    const code = feature.properties?.N03_007;
+    if (!code || !feature.geometry) continue;
+    const list = polygons.get(code) || [];
+    list.push(
+      ...(feature.geometry.type === "Polygon"
+        ? [feature.geometry.coordinates]
+        : feature.geometry.coordinates),
+    );
+    polygons.set(code, list);
+  }
+
+  const missing = TOKYO_WARDS.filter((ward) => !polygons.has(ward.code));
+  if (missing.length > 0) {
+    throw new WardImportError(
+      `No polygons for ${
+        missing.map((ward) => `${ward.nameJa} (${ward.code})`).join(", ")
+      }; is this the Tokyo (13) N03 file?`,
+    );
+  }
+
+  return {
+    type: "FeatureCollection",
+    source: N03_SOURCE,
+    features: TOKYO_WARDS.map((ward) => {
+      const simplified = polygons.get(ward.code)!.flatMap((rings) => {
+        const [outer, ...holes] = rings.map((ring) =>
+          simplifyRing(ring, tolerance)
+        );
+        if (!outer) return [];
+        return [[outer, ...holes.filter((hole) => hole !== undefined)]];
+      });
+      if (simplified.length === 0) {
+        throw new WardImportError(
+          `${ward.nameJa} vanished at tolerance ${tolerance}`,
+        );
+      }
+      return {
+        type: "Feature",
+        properties: { ...ward },
+        geometry: { type: "MultiPolygon", coordinates: simplified },
+      };
+    }),
+  };
+}
+
+/**
+ * Read an N03 GeoJSON file and write the ward outlines over the bundled ones
+ */
+export async function importWardBoundaries(
+  file: string,
+  { tolerance = DEFAULT_TOLERANCE_DEG, output = WARD_BOUNDARIES_PATH } = {},
+): Promise<{ path: string; wards: number; vertices: number }> {
+  const wards = wardsFromN03(
+    JSON.parse(await Deno.readTextFile(file)),
+    tolerance,
+  );
+  await Deno.writeTextFile(output, JSON.stringify(wards));
+
+  const vertices = wards.features.reduce(
+    (sum, feature) =>
+      sum + feature.geometry.coordinates.flat().reduce(
+        (total, ring) => total + ring.length,
+        0,
+      ),
+    0,
+  );
+  console.log(
+    `🗾 ${wards.features.length} wards, ${vertices} vertices -> ${output}`,
+  );
+  return { path: output, wards: wards.features.length, vertices };
+}
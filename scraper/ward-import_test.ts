@@ -0,0 +1,89 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1.0.8";
+import {
+  N03_SOURCE,
+  simplifyRing,
+  TOKYO_WARDS,
+  WardImportError,
+  wardsFromN03,
+} from "./ward-import.ts";
+
+type Ring = [number, number][];
+
+/** A square ring with extra points along its edges */
+function square(lng: number, lat: number, size: number): Ring {
+  const ring: Ring = [];
+  for (let i = 0; i < 10; i++) ring.push([lng + size * i / 10, lat]);
+  for (let i = 0; i < 10; i++) ring.push([lng + size, lat + size * i / 10]);
+  for (let i = 0; i < 10; i++) {
+    ring.push([lng + size * (1 - i / 10), lat + size]);
+  }
+  for (let i = 0; i < 10; i++) ring.push([lng, lat + size * (1 - i / 10)]);
+  ring.push([lng, lat]);
+  return ring;
+}
+
+/** N03-shaped features: one per polygon, tagged with the municipality code */
+function n03Features(codes: string[]) {
+  return codes.flatMap((code, i) => [
+    {
+      type: "Feature",
+      properties: { N03_001: "東京都", N03_004: "区", N03_007: code },
+      geometry: {
+        type: "Polygon" as const,
+        coordinates: [square(139 + i * 0.1, 35.6, 0.05)],
+      },
+    },
+    // An islet far below the tolerance
+    {
+      type: "Feature",
+      properties: { N03_001: "東京都", N03_004: "区", N03_007: code },
+      geometry: {
+        type: "Polygon" as const,
+        coordinates: [square(139 + i * 0.1, 35.5, 0.00001)],
+      },
+    },
+  ]);
+}
+
+Deno.test("simplifyRing: straight edges reduce to the corners", () => {
+  assertEquals(simplifyRing(square(139, 35, 0.05), 0.0002), [
+    [139, 35],
+    [139.05, 35],
+    [139.05, 35.05],
+    [139, 35.05],
+    [139, 35],
+  ]);
+  assertEquals(simplifyRing(square(139, 35, 0.00001), 0.0002), undefined);
+});
+
+Deno.test("wardsFromN03: one MultiPolygon per ward with code and area", () => {
+  const wards = wardsFromN03({
+    features: [
+      ...n03Features(TOKYO_WARDS.map((ward) => ward.code)),
+      // Tama municipalities are skipped
+      ...n03Features(["13201"]),
+    ],
+  });
+
+  assertEquals(wards.source, N03_SOURCE);
+  assertEquals(wards.features.length, 23);
+  const [chiyoda] = wards.features;
+  assertEquals(chiyoda.properties, {
+    code: "13101",
+    name: "Chiyoda",
+    nameJa: "千代田区",
+    areaKm2: 11.66,
+  });
+  // The islet collapsed; the main polygon kept its four corners
+  assertEquals(chiyoda.geometry.coordinates.length, 1);
+  assertEquals(chiyoda.geometry.coordinates[0][0].length, 5);
+});
+
+Deno.test("wardsFromN03: a file without the 23 wards is rejected", () => {
+  assertThrows(
+    () => wardsFromN03({ features: n03Features(["27102"]) }),
+    WardImportError,
+    "千代田区 (13101)",
+  );
+  assertThrows(() => wardsFromN03({}), WardImportError);
+});
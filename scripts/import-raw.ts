@@ -0,0 +1,128 @@
+/**
+ * One-off import of existing JSON data into the SQLite store
+ * Loads every search under data/raw (batch runs, sweeps and single queries),
+ * run summaries, place details and data/reviews into data/yaban.db.
+ * Safe to re-run: searches are replaced and known reviews skipped.
+ * Usage: yaban import [dbPath]
+ */
+
+import { loadPlaceDetails, loadRawSnapshots } from "../processor/raw-loader.ts";
+import { SQLITE_DB_PATH, SqliteStore } from "../scraper/sqlite-store.ts";
+import { RAW_DIR, type ReviewFile, REVIEWS_DIR } from "../scraper/storage.ts";
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path)) as T;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return undefined;
+    throw error;
+  }
+}
+
+async function importReviews(store: SqliteStore): Promise<number> {
+  let imported = 0;
+  try {
+    for await (const entry of Deno.readDir(REVIEWS_DIR)) {
+      if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+      const file = await readJson<ReviewFile>(`${REVIEWS_DIR}/${entry.name}`);
+      if (file) imported += await store.saveReviews(file.placeId, file.reviews);
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return imported;
+}
+
+export interface ImportRawResult {
+  dbPath: string;
+  searches: number;
+  summaries: number;
+  details: number;
+  reviews: number;
+  schemaVersion: number;
+}
+
+export async function importRaw(
+  dbPath = SQLITE_DB_PATH,
+): Promise<ImportRawResult> {
+  console.log("=".repeat(60));
+  console.log("🗄️  Yaban - Import raw JSON into SQLite");
+  console.log("=".repeat(60));
+  console.log(`Database: ${dbPath}`);
+  console.log();
+
+  const store = new SqliteStore(dbPath);
+
+  try {
+    const snapshots = await loadRawSnapshots(RAW_DIR);
+    const runs = new Map<string, string>();
+
+    for (const snapshot of snapshots) {
+      // Files directly in data/raw are single queries, not runs
+      const inRun = snapshot.file !== `${RAW_DIR}/${snapshot.runId}.json`;
+      const file = snapshot.file.split("/").pop()!;
+      await store.saveSearch({
+        runId: inRun ? snapshot.runId : undefined,
+        file,
+        campaign: snapshot.campaign,
+        city: snapshot.city,
+        district: snapshot.district,
+        template: snapshot.template,
+        mode: snapshot.mode,
+        query: snapshot.query,
+        scrapedAt: snapshot.scrapedAt,
+        capped: snapshot.capped,
+        places: snapshot.places,
+      });
+      if (inRun && !runs.has(snapshot.runId)) {
+        runs.set(snapshot.runId, snapshot.scrapedAt);
+      }
+    }
+    console.log(`📂 Imported ${snapshots.length} searches`);
+
+    let summaries = 0;
+    for (const [runId, firstScrapedAt] of runs) {
+      const summary = await readJson<Record<string, unknown>>(
+        `${RAW_DIR}/${runId}/summary.json`,
+      );
+      if (!summary) continue;
+      await store.saveRun({
+        runId,
+        mode: summary.mode === "sweep" ? "sweep" : "batch",
+        startedAt: (summary.scrapedAt as string) || firstScrapedAt,
+        finishedAt: summary.finishedAt as string | undefined,
+        campaign: summary.campaign as string | undefined,
+        summary,
+      });
+      summaries++;
+    }
+    console.log(`🧾 Imported ${summaries} of ${runs.size} run summaries`);
+
+    const details = await loadPlaceDetails(RAW_DIR);
+    for (const record of details.values()) {
+      await store.savePlaceDetails(record);
+    }
+    console.log(`🏪 Imported details for ${details.size} places`);
+
+    const reviews = await importReviews(store);
+    console.log(`💬 Imported ${reviews} new reviews`);
+
+    console.log();
+    console.log("=".repeat(60));
+    console.log("✅ Import complete!");
+    console.log(`💾 Database: ${dbPath} (schema v${store.schemaVersion})`);
+    console.log("   Use it with YABAN_STORAGE=sqlite");
+    console.log("=".repeat(60));
+
+    return {
+      dbPath,
+      searches: snapshots.length,
+      summaries,
+      details: details.size,
+      reviews,
+      schemaVersion: store.schemaVersion,
+    };
+  } finally {
+    store.close();
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * HTTP API over the processed data, and the web map at /
+ * Usage: yaban serve [--port 8000] [--tiles <url template|none>]
+ *
+ * GET /places            Filter: ward, minRating, minScore, category,
+ *                        cuisine, venueType, bbox=minLng,minLat,maxLng,maxLat,
+ *                        q
+ *                        Sort: sort=name|rating|reviews|score|lastSeen, order
+ *                        Paging: page (from 1), pageSize (max 200)
+ * GET /places/nearby     lat & lng, or station=<name>; radius in meters
+ *                        (default 1000, max 20000), limit, plus the filters
+ *                        above. Results are sorted by distance.
+ * GET /places/:placeId   Place with details, reviews and score breakdown
+ * GET /places/:placeId/history
+ *                        Every observation of the place's rating, review
+ *                        count and rank, oldest first
+ * GET /trends/rating-drops
+ *                        Places whose rating fell most; since & until
+ *                        (ISO dates) bound the period, limit (max 200)
+ * GET /wards             Per-ward aggregates
+ * GET /wards/density     Ward outlines (GeoJSON) with place density from the
+ *                        run district summaries, for the choropleth
+ * GET /taxonomy          Venue types and cuisines the cuisine and venueType
+ *                        filters accept
+ * GET /map/config        Tile source, center and zoom of the web map
+ */
+
+import type { CatalogPlace } from "../processor/catalog.ts";
+import {
+  CatalogQueryError,
+  matchesFilters,
+  parseFilters,
+  parseSort,
+  queryCatalog,
+} from "../processor/catalog-query.ts";
+import {
+  findStation,
+  loadStations,
+  type Station,
+} from "../processor/stations.ts";
+import { historyDbPath, HistoryStore } from "../processor/history.ts";
+import { CUISINES, VENUE_TYPES } from "../processor/taxonomy.ts";
+import { openStore, type ScrapeStore } from "../scraper/storage.ts";
+import { CatalogStore } from "./store.ts";
+import {
+  DEFAULT_MAP_CONFIG,
+  loadMapConfig,
+  type MapConfig,
+  serveWebFile,
+  type TileSource,
+  WEB_DIR,
+} from "./web.ts";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const DEFAULT_RADIUS_M = 1000;
+const MAX_RADIUS_M = 20000;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "access-control-allow-origin": "*",
+    },
+  });
+}
+
+function errorResponse(status: number, message: string): Response {
+  return json({ error: message }, status);
+}
+
+/**
+ * List entry: everything but the heavy details and score breakdown
+ */
+function summarize(place: CatalogPlace) {
+  const { details: _details, halalScore, ...rest } = place;
+  return { ...rest, halalScore: halalScore?.score ?? null };
+}
+
+function parsePaging(
+  params: URLSearchParams,
+): { page: number; pageSize: number } {
+  const page = parseInt(params.get("page") || "1");
+  const pageSize = parseInt(params.get("pageSize") || `${DEFAULT_PAGE_SIZE}`);
+  if (isNaN(page) || page < 1) {
+    throw new CatalogQueryError("page must be a positive integer");
+  }
+  if (isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new CatalogQueryError(
+      `pageSize must be between 1 and ${MAX_PAGE_SIZE}`,
+    );
+  }
+  return { page, pageSize };
+}
+
+function parseTimestamp(
+  params: URLSearchParams,
+  name: string,
+): string | undefined {
+  const value = params.get(name);
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new CatalogQueryError(`${name} must be an ISO date`);
+  }
+  return new Date(time).toISOString();
+}
+
+function decodePlaceId(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new CatalogQueryError(`Malformed place id: ${segment}`);
+  }
+}
+
+function parseCenter(
+  params: URLSearchParams,
+  stations: Station[],
+): { lat: number; lng: number; station?: string } {
+  const stationName = params.get("station");
+  if (stationName) {
+    const station = findStation(stations, stationName);
+    if (!station) {
+      throw new CatalogQueryError(`Unknown station: ${stationName}`);
+    }
+    return { lat: station.lat, lng: station.lng, station: station.name };
+  }
+
+  const lat = parseFloat(params.get("lat") || "");
+  const lng = parseFloat(params.get("lng") || "");
+  if (isNaN(lat) || isNaN(lng)) {
+    throw new CatalogQueryError("lat and lng, or station, are required");
+  }
+  return { lat, lng };
+}
+
+export function createHandler(
+  store: CatalogStore,
+  stations: Station[] = [],
+  history?: HistoryStore,
+  scrapeStore: ScrapeStore = openStore(),
+  mapConfig: MapConfig = DEFAULT_MAP_CONFIG,
+  webDir = WEB_DIR,
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const url = new URL(request.url);
+
+    if (request.method !== "GET") {
+      return errorResponse(405, "Method not allowed");
+    }
+
+    try {
+      if (url.pathname === "/places") {
+        const filters = parseFilters(url.searchParams);
+        const sort = parseSort(url.searchParams);
+        const { page, pageSize } = parsePaging(url.searchParams);
+        const matched = queryCatalog(store.all(), filters, sort);
+        const start = (page - 1) * pageSize;
+
+        return json({
+          total: matched.length,
+          page,
+          pageSize,
+          places: matched.slice(start, start + pageSize).map(summarize),
+        });
+      }
+
+      if (url.pathname === "/places/nearby") {
+        const params = url.searchParams;
+        const center = parseCenter(params, stations);
+        const radius = parseFloat(
+          params.get("radius") || `${DEFAULT_RADIUS_M}`,
+        );
+        if (isNaN(radius) || radius <= 0 || radius > MAX_RADIUS_M) {
+          throw new CatalogQueryError(
+            `radius must be between 1 and ${MAX_RADIUS_M} meters`,
+          );
+        }
+        const limit = parseInt(params.get("limit") || `${DEFAULT_PAGE_SIZE}`);
+        if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+          throw new CatalogQueryError(
+            `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+          );
+        }
+        const filters = parseFilters(params);
+        const results = store.nearby(
+          center.lat,
+          center.lng,
+          radius,
+          (place) => matchesFilters(place, filters),
+        );
+
+        return json({
+          center,
+          radius,
+          total: results.length,
+          places: results.slice(0, limit).map(({ place, distance }) => ({
+            ...summarize(place),
+            distance,
+          })),
+        });
+      }
+
+      const placeMatch = url.pathname.match(/^\/places\/([^/]+)$/);
+      if (placeMatch) {
+        const placeId = decodePlaceId(placeMatch[1]);
+        const place = store.get(placeId);
+        if (!place) return errorResponse(404, `Place ${placeId} not found`);
+        return json({
+          ...place,
+          reviews: await scrapeStore.loadReviews(placeId),
+        });
+      }
+
+      const historyMatch = url.pathname.match(/^\/places\/([^/]+)\/history$/);
+      if (historyMatch) {
+        if (!history) return errorResponse(404, "No history database");
+        const placeId = decodePlaceId(historyMatch[1]);
+        const observations = history.trend(placeId);
+        if (observations.length === 0) {
+          return errorResponse(404, `No history for place ${placeId}`);
+        }
+        return json({ placeId, observations });
+      }
+
+      if (url.pathname === "/trends/rating-drops") {
+        if (!history) return errorResponse(404, "No history database");
+        const params = url.searchParams;
+        const limit = parseInt(params.get("limit") || `${DEFAULT_PAGE_SIZE}`);
+        if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+          throw new CatalogQueryError(
+            `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+          );
+        }
+        const since = parseTimestamp(params, "since");
+        const until = parseTimestamp(params, "until");
+        return json({
+          since: since ?? null,
+          until: until ?? null,
+          places: history.ratingDrops({ since, until, limit }),
+        });
+      }
+
+      if (url.pathname === "/wards") {
+        return json({ wards: store.wards() });
+      }
+
+      if (url.pathname === "/wards/density") {
+        const density = store.wardDensity();
+        if (!density) {
+          return errorResponse(404, "No ward density; run yaban process");
+        }
+        return json(density);
+      }
+
+      if (url.pathname === "/map/config") {
+        return json(mapConfig);
+      }
+
+      if (url.pathname === "/taxonomy") {
+        return json({
+          venueTypes: VENUE_TYPES.map(({ id, description }) => ({
+            id,
+            description,
+          })),
+          cuisines: CUISINES.map(({ id, description, parent }) => ({
+            id,
+            description,
+            parent: parent ?? null,
+          })),
+        });
+      }
+
+      return await serveWebFile(url.pathname, webDir) ??
+        errorResponse(404, "Not found");
+    } catch (error) {
+      if (error instanceof CatalogQueryError) {
+        return errorResponse(400, error.message);
+      }
+      console.error("❌ Request failed:", error);
+      return errorResponse(500, "Internal server error");
+    }
+  };
+}
+
+/**
+ * Serve the API until the process stops; the returned server's finished
+ * promise settles when it shuts down
+ */
+export async function startServer(
+  { port, tiles }: {
+    port: number;
+    // Overrides config/map.json; null for ward outlines only
+    tiles?: TileSource | null;
+  },
+): Promise<Deno.HttpServer> {
+  console.log("=".repeat(60));
+  console.log("🌐 Yaban - API Server");
+  console.log("=".repeat(60));
+
+  const store = new CatalogStore();
+  await store.load();
+  store.watch().catch((error) =>
+    console.error("❌ Catalog watcher stopped:", error)
+  );
+  const stations = await loadStations();
+  // Opened first so a SQLite scrape database is migrated before the
+  // history reads its observations view
+  const scrapeStore = openStore();
+  const historyPath = historyDbPath(scrapeStore.kind);
+  let history: HistoryStore | undefined;
+  try {
+    history = new HistoryStore(historyPath, { readOnly: true });
+  } catch (error) {
+    console.log(
+      `  ⚠️  No history at ${historyPath}:`,
+      (error as Error).message,
+    );
+  }
+
+  const mapConfig = await loadMapConfig();
+  if (tiles !== undefined) mapConfig.tiles = tiles;
+  console.log(
+    `🗺️  Web map at http://localhost:${port}/ (${
+      mapConfig.tiles ? `tiles: ${mapConfig.tiles.url}` : "ward outlines only"
+    })`,
+  );
+
+  return Deno.serve(
+    { port },
+    createHandler(store, stations, history, scrapeStore, mapConfig),
+  );
+}
@@ -0,0 +1,333 @@
+import { assertEquals } from "jsr:@std/assert@1.0.8";
+import type { CatalogPlace } from "../processor/catalog.ts";
+import type { Station } from "../processor/stations.ts";
+import { JsonStore } from "../scraper/storage.ts";
+import { createHandler } from "./main.ts";
+import { CatalogStore } from "./store.ts";
+import { DEFAULT_MAP_CONFIG } from "./web.ts";
+
+const WEB_DIR = new URL("../web", import.meta.url).pathname;
+
+const STATIONS: Station[] = [
+  { name: "Shin-Okubo", nameJa: "新大久保", lat: 35.7012, lng: 139.7002 },
+  { name: "Ginza", nameJa: "銀座", lat: 35.6717, lng: 139.7638 },
+];
+
+function place(
+  placeId: string,
+  fields: Partial<CatalogPlace>,
+): CatalogPlace {
+  return {
+    placeId,
+    name: `Place ${placeId}`,
+    url: `https://www.google.com/maps/place/${placeId}`,
+    districts: [],
+    queries: [],
+    runs: ["run-1"],
+    firstSeenAt: "2026-01-06T00:00:00.000Z",
+    lastSeenAt: "2026-01-06T00:00:00.000Z",
+    ...fields,
+  };
+}
+
+const PLACES = [
+  place("0x1:0xa", {
+    name: "Ankara",
+    category: "Turkish restaurant",
+    ward: "Shinjuku",
+    lat: 35.6914,
+    lng: 139.706,
+    rating: 3.9,
+    totalReviews: 326,
+    halalScore: { score: 70, baseScore: 20, signals: [] },
+    details: {
+      phone: "03-0000-0001",
+      attributes: [],
+      scrapedAt: "2026-01-06T00:00:00.000Z",
+    },
+  }),
+  place("0x1:0xb", {
+    name: "Halal Ramen",
+    category: "Ramen restaurant",
+    ward: "Chuo",
+    lat: 35.6715,
+    lng: 139.765,
+    rating: 4.6,
+    totalReviews: 2345,
+    halalScore: { score: 90, baseScore: 20, signals: [] },
+  }),
+  place("0x1:0xc", {
+    name: "Curry House",
+    category: "Indian restaurant",
+    ward: "Shinjuku",
+    lat: 35.7013,
+    lng: 139.7005,
+    rating: 4.2,
+    totalReviews: 80,
+    halalScore: { score: 40, baseScore: 20, signals: [] },
+  }),
+];
+
+const DENSITY = {
+  type: "FeatureCollection",
+  features: [{
+    type: "Feature",
+    properties: { name: "Shinjuku", areaKm2: 18.22, catalogPlaces: 2 },
+    geometry: { type: "MultiPolygon", coordinates: [] },
+  }],
+};
+
+/**
+ * A handler over a catalog, density layer and reviews in a temp directory
+ */
+async function withHandler(
+  fn: (get: (path: string) => Promise<Response>) => Promise<void>,
+  { density = true } = {},
+): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${dir}/places`);
+    for (const [i, record] of PLACES.entries()) {
+      await Deno.writeTextFile(
+        `${dir}/places/${i}.json`,
+        JSON.stringify(record),
+      );
+    }
+    if (density) {
+      await Deno.writeTextFile(`${dir}/density.json`, JSON.stringify(DENSITY));
+    }
+    const scrapeStore = new JsonStore(`${dir}/raw`, `${dir}/reviews`);
+    await scrapeStore.saveReviews("0x1:0xa", [{
+      reviewId: "r1",
+      placeId: "0x1:0xa",
+      authorName: "Aisha",
+      rating: 5,
+      text: "Halal certified",
+      scrapedAt: "2026-01-06T00:00:00.000Z",
+    }]);
+
+    const store = new CatalogStore(`${dir}/places`, `${dir}/density.json`);
+    await store.load();
+    const handler = createHandler(
+      store,
+      STATIONS,
+      undefined,
+      scrapeStore,
+      DEFAULT_MAP_CONFIG,
+      WEB_DIR,
+    );
+    await fn((path) => handler(new Request(`http://localhost${path}`)));
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+async function names(response: Response): Promise<string[]> {
+  const body = await response.json();
+  return body.places.map((place: { name: string }) => place.name);
+}
+
+Deno.test("GET /places: filters, sorting and list entries", async () => {
+  await withHandler(async (get) => {
+    const all = await get("/places");
+    assertEquals(all.status, 200);
+    const body = await all.json();
+    assertEquals(body.total, 3);
+    assertEquals(body.places[0].name, "Ankara");
+    // List entries carry the score alone, without details or breakdown
+    assertEquals(body.places[0].halalScore, 70);
+    assertEquals("details" in body.places[0], false);
+
+    assertEquals(await names(await get("/places?ward=Shinjuku")), [
+      "Ankara",
+      "Curry House",
+    ]);
+    assertEquals(await names(await get("/places?minScore=50&minRating=4")), [
+      "Halal Ramen",
+    ]);
+    assertEquals(await names(await get("/places?q=ramen")), ["Halal Ramen"]);
+    assertEquals(
+      await names(await get("/places?bbox=139.69,35.68,139.71,35.71")),
+      ["Ankara", "Curry House"],
+    );
+    assertEquals(await names(await get("/places?sort=score&order=asc")), [
+      "Curry House",
+      "Ankara",
+      "Halal Ramen",
+    ]);
+  });
+});
+
+Deno.test("GET /places: pagination", async () => {
+  await withHandler(async (get) => {
+    const response = await get("/places?sort=rating&page=2&pageSize=2");
+    const body = await response.json();
+    assertEquals(body.total, 3);
+    assertEquals(body.page, 2);
+    assertEquals(body.pageSize, 2);
+    assertEquals(body.places.map((p: { name: string }) => p.name), ["Ankara"]);
+
+    assertEquals(await names(await get("/places?page=3&pageSize=2")), []);
+  });
+});
+
+Deno.test("GET /places: bad parameters are 400s", async () => {
+  await withHandler(async (get) => {
+    for (
+      const query of [
+        "page=0",
+        "pageSize=500",
+        "pageSize=abc",
+        "sort=stars",
+        "order=up",
+        "minRating=high",
+        "bbox=1,2,3",
+        "cuisine=martian",
+        "venueType=spaceship",
+      ]
+    ) {
+      const response = await get(`/places?${query}`);
+      assertEquals(response.status, 400, query);
+      assertEquals(typeof (await response.json()).error, "string");
+    }
+  });
+});
+
+Deno.test("GET /places/nearby: by station or coordinates", async () => {
+  await withHandler(async (get) => {
+    const byStation = await get(
+      `/places/nearby?station=${encodeURIComponent("新大久保駅")}&radius=1500`,
+    );
+    assertEquals(byStation.status, 200);
+    const body = await byStation.json();
+    assertEquals(body.center.station, "Shin-Okubo");
+    assertEquals(body.radius, 1500);
+    assertEquals(body.places.map((p: { name: string }) => p.name), [
+      "Curry House",
+      "Ankara",
+    ]);
+    assertEquals(body.places[0].distance < body.places[1].distance, true);
+
+    // Filters apply; limit cuts the list but not the total
+    const filtered = await (await get(
+      "/places/nearby?lat=35.7012&lng=139.7002&radius=1500&minScore=50&limit=1",
+    )).json();
+    assertEquals(filtered.total, 1);
+    assertEquals(filtered.places[0].name, "Ankara");
+
+    for (
+      const query of [
+        "",
+        "lat=35.7",
+        "station=Nowhere",
+        "lat=35.7&lng=139.7&radius=0",
+        "lat=35.7&lng=139.7&radius=50000",
+        "lat=35.7&lng=139.7&limit=0",
+      ]
+    ) {
+      const response = await get(`/places/nearby?${query}`);
+      assertEquals(response.status, 400, query);
+      await response.body?.cancel();
+    }
+  });
+});
+
+Deno.test("GET /places/:placeId: details, reviews and bad ids", async () => {
+  await withHandler(async (get) => {
+    const response = await get(`/places/${encodeURIComponent("0x1:0xa")}`);
+    assertEquals(response.status, 200);
+    const body = await response.json();
+    assertEquals(body.details.phone, "03-0000-0001");
+    assertEquals(body.halalScore.score, 70);
+    assertEquals(body.reviews.map((r: { reviewId: string }) => r.reviewId), [
+      "r1",
+    ]);
+
+    const malformed = await get("/places/%E0%A4%A");
+    assertEquals(malformed.status, 400);
+    assertEquals(
+      (await malformed.json()).error,
+      "Malformed place id: %E0%A4%A",
+    );
+    const missing = await get("/places/0x1:0xf");
+    assertEquals(missing.status, 404);
+    await missing.body?.cancel();
+    // No history database was opened
+    const history = await get("/places/0x1:0xa/history");
+    assertEquals(history.status, 404);
+    await history.body?.cancel();
+  });
+});
+
+Deno.test("GET /wards and /wards/density", async () => {
+  await withHandler(async (get) => {
+    const wards = await (await get("/wards")).json();
+    assertEquals(wards.wards[0], {
+      ward: "Shinjuku",
+      places: 2,
+      averageRating: 4.05,
+      averageHalalScore: 55,
+      totalReviews: 406,
+    });
+
+    const density = await get("/wards/density");
+    assertEquals(density.status, 200);
+    assertEquals(await density.json(), DENSITY);
+  });
+
+  await withHandler(async (get) => {
+    const density = await get("/wards/density");
+    assertEquals(density.status, 404);
+    await density.body?.cancel();
+  }, { density: false });
+});
+
+Deno.test("static files: the web map, and nothing outside it", async () => {
+  await withHandler(async (get) => {
+    const index = await get("/");
+    assertEquals(index.status, 200);
+    assertEquals(index.headers.get("content-type"), "text/html; charset=utf-8");
+    await index.body?.cancel();
+
+    const script = await get("/static/app.js");
+    assertEquals(script.status, 200);
+    assertEquals(
+      script.headers.get("content-type"),
+      "text/javascript; charset=utf-8",
+    );
+    await script.body?.cancel();
+
+    for (
+      const path of [
+        "/static/missing.js",
+        "/static/..%2Fserver%2Fmain.ts",
+        "/static/%2e%2e%2fmain.ts",
+        "/static/.hidden.js",
+        "/static/map-core_test.ts",
+        "/../server/main.ts",
+        "/nowhere",
+      ]
+    ) {
+      const response = await get(path);
+      assertEquals(response.status, 404, path);
+      await response.body?.cancel();
+    }
+  });
+});
+
+Deno.test("non-GET requests and the small endpoints", async () => {
+  await withHandler(async (get) => {
+    const taxonomy = await (await get("/taxonomy")).json();
+    assertEquals(taxonomy.venueTypes.length > 0, true);
+    assertEquals(taxonomy.cuisines.length > 0, true);
+    assertEquals(await (await get("/map/config")).json(), DEFAULT_MAP_CONFIG);
+  });
+
+  const store = new CatalogStore("/nonexistent", "/nonexistent.json");
+  const handler = createHandler(store, [], undefined, new JsonStore());
+  const response = await handler(
+    new Request("http://localhost/places", { method: "POST" }),
+  );
+  assertEquals(response.status, 405);
+  await response.body?.cancel();
+});
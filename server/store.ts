@@ -0,0 +1,141 @@
+/**
+ * In-memory view of the processed data for the HTTP server
+ * Loads data/places and the ward density layer once and reloads whenever the
+ * processor rewrites them
+ */
+
+import {
+  CATALOG_DIR,
+  type CatalogPlace,
+  loadCatalog,
+} from "../processor/catalog.ts";
+import { GeohashIndex } from "../processor/spatial-index.ts";
+import { WARD_DENSITY_PATH } from "../processor/ward-density.ts";
+
+export interface WardAggregate {
+  ward: string;
+  places: number;
+  averageRating: number | null;
+  averageHalalScore: number | null;
+  totalReviews: number;
+}
+
+// The processor writes hundreds of files in a burst; wait for it to settle
+const RELOAD_DEBOUNCE_MS = 1000;
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sum = values.reduce((total, value) => total + value, 0);
+  return Math.round((sum / values.length) * 100) / 100;
+}
+
+export class CatalogStore {
+  private places: CatalogPlace[] = [];
+  private byId = new Map<string, CatalogPlace>();
+  private index = new GeohashIndex<CatalogPlace>();
+  // GeoJSON written by the processor; null until it has run
+  private density: unknown = null;
+  private watcher: Deno.FsWatcher | null = null;
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+  loadedAt = "";
+
+  constructor(
+    private dir = CATALOG_DIR,
+    private densityPath = WARD_DENSITY_PATH,
+  ) {}
+
+  async load(): Promise<void> {
+    const places = await loadCatalog(this.dir);
+    this.places = places;
+    this.byId = new Map(places.map((place) => [place.placeId, place]));
+    this.index = new GeohashIndex(places);
+    this.loadedAt = new Date().toISOString();
+    console.log(`✓ Loaded ${places.length} places from ${this.dir}`);
+
+    try {
+      this.density = JSON.parse(await Deno.readTextFile(this.densityPath));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      this.density = null;
+    }
+  }
+
+  /**
+   * Reload on changes to the catalog directory until close() is called
+   */
+  async watch(): Promise<void> {
+    try {
+      this.watcher = Deno.watchFs(this.dir);
+    } catch (error) {
+      console.log(
+        `  ⚠️  Not watching ${this.dir}:`,
+        (error as Error).message,
+      );
+      return;
+    }
+
+    for await (const _event of this.watcher) {
+      if (this.reloadTimer !== null) clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.reloadTimer = null;
+        console.log("🔄 Catalog changed, reloading...");
+        this.load().catch((error) => console.error("❌ Reload failed:", error));
+      }, RELOAD_DEBOUNCE_MS);
+    }
+  }
+
+  close(): void {
+    if (this.reloadTimer !== null) clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  all(): CatalogPlace[] {
+    return this.places;
+  }
+
+  get(placeId: string): CatalogPlace | undefined {
+    return this.byId.get(placeId);
+  }
+
+  nearby(
+    lat: number,
+    lng: number,
+    radius: number,
+    predicate?: (place: CatalogPlace) => boolean,
+  ): { place: CatalogPlace; distance: number }[] {
+    return this.index.nearby(lat, lng, radius, predicate)
+      .map(({ item, distance }) => ({ place: item, distance }));
+  }
+
+  wardDensity(): unknown {
+    return this.density;
+  }
+
+  wards(): WardAggregate[] {
+    const groups = new Map<string, CatalogPlace[]>();
+    for (const place of this.places) {
+      if (!place.ward) continue;
+      const group = groups.get(place.ward) || [];
+      group.push(place);
+      groups.set(place.ward, group);
+    }
+
+    return [...groups.entries()]
+      .map(([ward, places]) => ({
+        ward,
+        places: places.length,
+        averageRating: average(
+          places.flatMap((p) => p.rating !== undefined ? [p.rating] : []),
+        ),
+        averageHalalScore: average(
+          places.flatMap((p) => p.halalScore ? [p.halalScore.score] : []),
+        ),
+        totalReviews: places.reduce(
+          (sum, p) => sum + (p.totalReviews ?? 0),
+          0,
+        ),
+      }))
+      .sort((a, b) => b.places - a.places);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * The web map served next to the API
+ * GET / is web/index.html and GET /static/<file> the rest of web/. The map's
+ * base layer comes from config/map.json: a tile URL template such as a local
+ * tile server's, or no tiles at all, leaving the ward outlines, so the map
+ * works offline.
+ */
+
+export const WEB_DIR = "./web";
+export const MAP_CONFIG_PATH = "./config/map.json";
+
+export interface TileSource {
+  // {z}, {x} and {y} are replaced, {s} by one of subdomains
+  url: string;
+  attribution?: string;
+  subdomains?: string[];
+  maxZoom?: number;
+}
+
+export interface MapConfig {
+  // null draws the ward outlines on a plain background
+  tiles: TileSource | null;
+  center: [number, number];
+  zoom: number;
+}
+
+export const DEFAULT_MAP_CONFIG: MapConfig = {
+  tiles: null,
+  center: [35.6812, 139.7671],
+  zoom: 11,
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: "text/html; charset=utf-8",
+  js: "text/javascript; charset=utf-8",
+  css: "text/css; charset=utf-8",
+  svg: "image/svg+xml",
+  png: "image/png",
+  json: "application/json; charset=utf-8",
+};
+
+// Plain file names only: no directories, no dot files
+const WEB_FILE_PATTERN = /^[a-z0-9][a-z0-9._-]*\.([a-z]+)$/;
+
+export async function loadMapConfig(
+  path = MAP_CONFIG_PATH,
+): Promise<MapConfig> {
+  let raw: Partial<MapConfig>;
+  try {
+    raw = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return { ...DEFAULT_MAP_CONFIG };
+    throw error;
+  }
+
+  const config = { ...DEFAULT_MAP_CONFIG, ...raw };
+  if (config.tiles !== null && typeof config.tiles?.url !== "string") {
+    throw new Error(`${path}: tiles must be null or have a url`);
+  }
+  return config;
+}
+
+/**
+ * Response for /, /static/<file> or undefined if the path is not the web
+ * map's
+ */
+export async function serveWebFile(
+  pathname: string,
+  dir = WEB_DIR,
+): Promise<Response | undefined> {
+  const name = pathname === "/"
+    ? "index.html"
+    : pathname.match(/^\/static\/([^/]+)$/)?.[1];
+  if (!name) return undefined;
+
+  const match = name.match(WEB_FILE_PATTERN);
+  const contentType = match && CONTENT_TYPES[match[1]];
+  if (!contentType) return new Response("Not found", { status: 404 });
+
+  try {
+    return new Response(await Deno.readFile(`${dir}/${name}`), {
+      headers: { "content-type": contentType },
+    });
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    return new Response("Not found", { status: 404 });
+  }
+}
@@ -0,0 +1,459 @@
+/**
+ * The web map: places from the API, clustered, with filters for ward,
+ * rating, halal score and cuisine, a ward density choropleth and a drawer
+ * with a place's hours, score breakdown and recent reviews
+ */
+
+import { bucketOf, clusterPoints, fitPoints } from "./map-core.js";
+import { SlippyMap } from "./map.js";
+
+// The API's maximum page size
+const PAGE_SIZE = 200;
+const RECENT_REVIEWS = 5;
+const DENSITY_COLORS = ["#fef0d9", "#fdcc8a", "#fc8d59", "#e34a33", "#b30000"];
+// Wards whose count may undercount stay off the scale
+const LOWER_BOUND_COLOR = "#cccccc";
+
+const elements = {
+  map: document.getElementById("map"),
+  filters: document.getElementById("filters"),
+  ward: document.getElementById("ward"),
+  minRating: document.getElementById("min-rating"),
+  minScore: document.getElementById("min-score"),
+  minScoreValue: document.getElementById("min-score-value"),
+  cuisine: document.getElementById("cuisine"),
+  density: document.getElementById("show-density"),
+  status: document.getElementById("status"),
+  legend: document.getElementById("legend"),
+  drawer: document.getElementById("drawer"),
+  drawerBody: document.getElementById("drawer-body"),
+  drawerClose: document.getElementById("drawer-close"),
+};
+
+const state = {
+  places: [],
+  density: null,
+  selectedId: null,
+  // Ignores responses to filters that have since changed
+  loadId: 0,
+};
+
+async function getJson(path) {
+  const response = await fetch(path);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `${path}: HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Create an element with text content and children; never parses HTML, since
+ * names and reviews are scraped text
+ */
+function el(tag, options = {}, ...children) {
+  const element = document.createElement(tag);
+  if (options.className) element.className = options.className;
+  if (options.text !== undefined) element.textContent = String(options.text);
+  if (options.title) element.title = options.title;
+  element.append(...children.filter((child) => child));
+  return element;
+}
+
+function scoreClass(score) {
+  if (score === null || score === undefined) return "score-unknown";
+  if (score >= 70) return "score-high";
+  if (score >= 40) return "score-mid";
+  return "score-low";
+}
+
+function filterParams() {
+  const params = new URLSearchParams();
+  if (elements.ward.value) params.set("ward", elements.ward.value);
+  if (elements.minRating.value) {
+    params.set("minRating", elements.minRating.value);
+  }
+  if (elements.minScore.value !== "0") {
+    params.set("minScore", elements.minScore.value);
+  }
+  if (elements.cuisine.value) params.set("cuisine", elements.cuisine.value);
+  return params;
+}
+
+/** Every page of /places for the current filters */
+async function loadPlaces() {
+  const loadId = ++state.loadId;
+  const params = filterParams();
+  params.set("pageSize", String(PAGE_SIZE));
+  elements.status.textContent = "Loading places…";
+
+  const places = [];
+  for (let page = 1;; page++) {
+    params.set("page", String(page));
+    const result = await getJson(`/places?${params}`);
+    if (loadId !== state.loadId) return;
+    places.push(...result.places);
+    if (page * PAGE_SIZE >= result.total) break;
+  }
+
+  state.places = places.filter((place) =>
+    place.lat !== undefined && place.lng !== undefined
+  );
+  const unplaced = places.length - state.places.length;
+  elements.status.textContent = `${state.places.length} places` +
+    (unplaced > 0 ? ` (${unplaced} without coordinates)` : "");
+
+  if (elements.ward.value) fitTo(state.places);
+  renderShapes();
+  map.requestRender();
+}
+
+function fitTo(points) {
+  const { width, height } = map.size();
+  const fit = fitPoints(points, width, height, map.maxZoom - 1);
+  if (fit) map.setView(fit.lat, fit.lng, fit.zoom);
+}
+
+function renderMarkers() {
+  const { width, height } = map.size();
+  // Past the last zoom level nothing can split a cluster, so show each place
+  const clusters = map.zoom >= map.maxZoom
+    ? state.places.map((place) => ({ points: [place] }))
+    : clusterPoints(state.places, map.zoom);
+  const markers = [];
+
+  for (const cluster of clusters) {
+    const first = cluster.points[0];
+    const { x, y } = cluster.points.length === 1
+      ? map.toScreen(first.lng, first.lat)
+      : map.toScreen(...lngLatOf(cluster));
+    if (x < -40 || y < -40 || x > width + 40 || y > height + 40) continue;
+
+    const marker = el("button", {
+      className: cluster.points.length === 1
+        ? `marker place ${scoreClass(first.halalScore)}` +
+          (first.placeId === state.selectedId ? " selected" : "")
+        : "marker cluster",
+      text: cluster.points.length === 1 ? "" : cluster.points.length,
+      title: cluster.points.length === 1
+        ? first.name
+        : `${cluster.points.length} places`,
+    });
+    marker.type = "button";
+    marker.style.transform = `translate(${x}px, ${y}px)`;
+    marker.addEventListener("click", () => {
+      if (cluster.points.length === 1) openPlace(first.placeId);
+      else fitTo(cluster.points);
+    });
+    markers.push(marker);
+  }
+
+  map.markerPane.replaceChildren(...markers);
+}
+
+/** Mean coordinate of a cluster's places */
+function lngLatOf(cluster) {
+  const count = cluster.points.length;
+  return [
+    cluster.points.reduce((sum, point) => sum + point.lng, 0) / count,
+    cluster.points.reduce((sum, point) => sum + point.lat, 0) / count,
+  ];
+}
+
+function densityMax() {
+  return Math.max(
+    0,
+    ...state.density.features.map((feature) =>
+      feature.properties.placesPerKm2 ?? 0
+    ),
+  );
+}
+
+function renderShapes() {
+  if (!state.density) return;
+  const choropleth = elements.density.checked;
+  const max = densityMax();
+
+  map.setShapes(state.density.features.map((feature) => {
+    const ward = feature.properties;
+    const bucket = bucketOf(ward.placesPerKm2, max, DENSITY_COLORS.length);
+    const lowerBound = ward.minPlacesPerKm2 !== undefined;
+    const density = ward.placesPerKm2 !== undefined
+      ? `${ward.placesPerKm2} places/km²`
+      : lowerBound
+      ? `≥ ${ward.minPlacesPerKm2} places/km² (lower bound)`
+      : "no run data";
+    const fill = bucket > 0
+      ? DENSITY_COLORS[bucket - 1]
+      : lowerBound
+      ? LOWER_BOUND_COLOR
+      : undefined;
+    return {
+      polygons: feature.geometry.coordinates,
+      className: "ward" + (choropleth ? " choropleth" : "") +
+        (ward.name === elements.ward.value ? " selected" : ""),
+      fill: choropleth ? fill : undefined,
+      title: `${ward.name}: ${density}, ${ward.catalogPlaces} in catalog`,
+      onClick: () => {
+        elements.ward.value = elements.ward.value === ward.name
+          ? ""
+          : ward.name;
+        reload();
+      },
+    };
+  }));
+  const lowerBounds = state.density.features.some((feature) =>
+    feature.properties.minPlacesPerKm2 !== undefined
+  );
+  renderLegend(choropleth ? max : 0, choropleth && lowerBounds);
+}
+
+function legendRow(color, text) {
+  const swatch = el("span", { className: "swatch" });
+  swatch.style.background = color;
+  return el("div", { className: "legend-row" }, swatch, el("span", { text }));
+}
+
+function renderLegend(max, lowerBounds) {
+  elements.legend.hidden = max <= 0 && !lowerBounds;
+  if (elements.legend.hidden) return;
+  const step = max / DENSITY_COLORS.length;
+  elements.legend.replaceChildren(
+    el("div", { className: "legend-title", text: "Places per km²" }),
+    ...(max > 0
+      ? DENSITY_COLORS.map((color, i) =>
+        legendRow(
+          color,
+          `${(step * i).toFixed(1)}–${(step * (i + 1)).toFixed(1)}`,
+        )
+      )
+      : []),
+    ...(lowerBounds
+      ? [legendRow(LOWER_BOUND_COLOR, "Lower bound only (capped search)")]
+      : []),
+  );
+}
+
+function section(title, ...children) {
+  return el("section", {}, el("h3", { text: title }), ...children);
+}
+
+function renderHours(details) {
+  const hours = details?.openingHours;
+  if (!hours?.length) return el("p", { className: "muted", text: "Unknown" });
+  return el(
+    "table",
+    { className: "hours" },
+    ...hours.map(({ day, hours }) =>
+      el(
+        "tr",
+        {},
+        el("th", { text: day }),
+        el("td", { text: hours }),
+      )
+    ),
+  );
+}
+
+function renderScore(halalScore) {
+  if (!halalScore) return el("p", { className: "muted", text: "Not scored" });
+  const signals = [...halalScore.signals].sort((a, b) =>
+    Math.abs(b.contribution) - Math.abs(a.contribution)
+  );
+  return el(
+    "div",
+    {},
+    el("p", {
+      className: `score ${scoreClass(halalScore.score)}`,
+      text: `${halalScore.score} / 100 (base ${halalScore.baseScore})`,
+    }),
+    el(
+      "ul",
+      { className: "signals" },
+      ...signals.map((signal) =>
+        el(
+          "li",
+          {},
+          el("span", {
+            className: signal.contribution >= 0 ? "plus" : "minus",
+            text: `${
+              signal.contribution >= 0 ? "+" : ""
+            }${signal.contribution}`,
+          }),
+          el("span", { text: ` ${signal.description}` }),
+          signal.evidence.length > 0
+            ? el(
+              "ul",
+              { className: "evidence" },
+              ...signal.evidence.map((text) => el("li", { text })),
+            )
+            : undefined,
+        )
+      ),
+    ),
+  );
+}
+
+function renderReviews(reviews) {
+  const recent = [...reviews]
+    .sort((a, b) =>
+      (b.publishedTime ?? "").localeCompare(a.publishedTime ?? "")
+    )
+    .slice(0, RECENT_REVIEWS);
+  if (recent.length === 0) {
+    return el("p", { className: "muted", text: "No reviews scraped" });
+  }
+  return el(
+    "ul",
+    { className: "reviews" },
+    ...recent.map((review) =>
+      el(
+        "li",
+        {},
+        el("div", {
+          className: "review-meta",
+          text:
+            `${"★".repeat(Math.round(review.rating))} ${review.authorName}` +
+            (review.publishedTimeText ? ` · ${review.publishedTimeText}` : ""),
+        }),
+        review.text ? el("p", { text: review.text }) : undefined,
+      )
+    ),
+  );
+}
+
+function renderCertifications(certifications) {
+  if (!certifications?.length) return undefined;
+  return section(
+    "Certifications",
+    el(
+      "ul",
+      {},
+      ...certifications.map((certification) =>
+        el("li", {
+          className: certification.expired ? "expired" : "",
+          text: `${certification.certifier}` +
+            (certification.expiresAt
+              ? `, until ${certification.expiresAt}`
+              : "") +
+            (certification.expired ? " (expired)" : "") +
+            (certification.expiryUnknown ? " (expiry unknown)" : ""),
+        })
+      ),
+    ),
+  );
+}
+
+async function openPlace(placeId) {
+  state.selectedId = placeId;
+  map.requestRender();
+  elements.drawer.hidden = false;
+  elements.drawerBody.replaceChildren(el("p", { text: "Loading…" }));
+
+  let place;
+  try {
+    place = await getJson(`/places/${encodeURIComponent(placeId)}`);
+  } catch (error) {
+    elements.drawerBody.replaceChildren(
+      el("p", { className: "error", text: error.message }),
+    );
+    return;
+  }
+  if (state.selectedId !== placeId) return;
+
+  const cuisines = place.taxonomy?.cuisines.map((label) => label.id) ?? [];
+  const link = el("a", { text: "Open in Google Maps" });
+  link.href = place.url;
+  link.target = "_blank";
+  link.rel = "noopener";
+
+  elements.drawerBody.replaceChildren(
+    el("h2", { text: place.name }),
+    el("p", {
+      className: "muted",
+      text: [
+        place.rating !== undefined
+          ? `★ ${place.rating} (${place.totalReviews ?? 0})`
+          : undefined,
+        place.taxonomy?.venueType?.id,
+        cuisines.join(", ") || undefined,
+        place.ward,
+      ].filter((part) => part).join(" · "),
+    }),
+    el("p", { text: place.details?.fullAddress ?? place.address ?? "" }),
+    link,
+    section("Hours", renderHours(place.details)),
+    section("Halal score", renderScore(place.halalScore)),
+    renderCertifications(place.certifications),
+    section("Recent reviews", renderReviews(place.reviews)),
+  );
+}
+
+function closeDrawer() {
+  elements.drawer.hidden = true;
+  state.selectedId = null;
+  map.requestRender();
+}
+
+function reload() {
+  loadPlaces().catch((error) => {
+    elements.status.textContent = error.message;
+  });
+}
+
+function fillSelect(select, options) {
+  select.append(
+    ...options.map(({ value, label }) => {
+      const option = el("option", { text: label });
+      option.value = value;
+      return option;
+    }),
+  );
+}
+
+const config = await getJson("/map/config");
+const map = new SlippyMap(elements.map, config);
+map.onRender(renderMarkers);
+if (!config.tiles) elements.map.classList.add("no-tiles");
+
+const [wards, taxonomy] = await Promise.all([
+  getJson("/wards"),
+  getJson("/taxonomy"),
+]);
+fillSelect(
+  elements.ward,
+  wards.wards
+    .map(({ ward }) => ward)
+    .sort()
+    .map((ward) => ({ value: ward, label: ward })),
+);
+fillSelect(
+  elements.cuisine,
+  taxonomy.cuisines.map(({ id, parent }) => ({
+    value: id,
+    label: parent ? `${parent} › ${id}` : id,
+  })),
+);
+
+try {
+  state.density = await getJson("/wards/density");
+} catch (error) {
+  // The map still works without outlines; the choropleth needs a process run
+  elements.density.disabled = true;
+  console.warn(error.message);
+}
+
+elements.filters.addEventListener("change", (event) => {
+  if (event.target === elements.density) renderShapes();
+  else reload();
+});
+elements.minScore.addEventListener("input", () => {
+  elements.minScoreValue.textContent = elements.minScore.value;
+});
+elements.drawerClose.addEventListener("click", closeDrawer);
+document.addEventListener("keydown", (event) => {
+  if (event.key === "Escape") closeDrawer();
+});
+
+renderShapes();
+reload();
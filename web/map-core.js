@@ -0,0 +1,158 @@
+/**
+ * Map arithmetic for the web map, without the DOM
+ * Web Mercator projection in world pixels (256 px tiles), the tiles covering
+ * a viewport, grid clustering of points and choropleth buckets.
+ */
+
+export const TILE_SIZE = 256;
+const MAX_LATITUDE = 85.05112878;
+
+/**
+ * World pixel position of a coordinate at a zoom level
+ * @param {number} lng
+ * @param {number} lat
+ * @param {number} zoom
+ * @returns {{ x: number, y: number }}
+ */
+export function project(lng, lat, zoom) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin(clamped * Math.PI / 180);
+  return {
+    x: (lng + 180) / 360 * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * Coordinate at a world pixel position
+ * @param {number} x
+ * @param {number} y
+ * @param {number} zoom
+ * @returns {{ lng: number, lat: number }}
+ */
+export function unproject(x, y, zoom) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - 2 * Math.PI * y / scale;
+  return {
+    lng: x / scale * 360 - 180,
+    lat: 180 / Math.PI * Math.atan(Math.sinh(n)),
+  };
+}
+
+/**
+ * Tiles covering a viewport whose top-left corner is at world pixel
+ * (left, top); x wraps around the antimeridian, rows off the map are skipped
+ * @returns {{ z: number, x: number, y: number, left: number, top: number }[]}
+ */
+export function visibleTiles(left, top, width, height, zoom) {
+  const count = 2 ** zoom;
+  const tiles = [];
+  const firstX = Math.floor(left / TILE_SIZE);
+  const firstY = Math.floor(top / TILE_SIZE);
+  const lastX = Math.floor((left + width) / TILE_SIZE);
+  const lastY = Math.floor((top + height) / TILE_SIZE);
+
+  for (let y = Math.max(firstY, 0); y <= Math.min(lastY, count - 1); y++) {
+    for (let x = firstX; x <= lastX; x++) {
+      tiles.push({
+        z: zoom,
+        x: ((x % count) + count) % count,
+        y,
+        left: x * TILE_SIZE - left,
+        top: y * TILE_SIZE - top,
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Fill a tile URL template: {z}, {x}, {y} and {s} for a subdomain
+ * @param {string} template
+ * @param {{ z: number, x: number, y: number }} tile
+ * @param {string[]} [subdomains]
+ */
+export function tileUrl(template, tile, subdomains = ["a", "b", "c"]) {
+  const subdomain = subdomains[(tile.x + tile.y) % subdomains.length];
+  return template
+    .replace("{z}", String(tile.z))
+    .replace("{x}", String(tile.x))
+    .replace("{y}", String(tile.y))
+    .replace("{s}", subdomain);
+}
+
+/**
+ * Group points that fall in the same grid cell of cellSize pixels at this
+ * zoom. A cluster sits at the mean position of its points.
+ * @template {{ lng: number, lat: number }} T
+ * @param {T[]} points
+ * @param {number} zoom
+ * @param {number} [cellSize]
+ * @returns {{ x: number, y: number, points: T[] }[]}
+ */
+export function clusterPoints(points, zoom, cellSize = 60) {
+  const cells = new Map();
+  for (const point of points) {
+    const { x, y } = project(point.lng, point.lat, zoom);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key) || { sumX: 0, sumY: 0, points: [] };
+    cell.sumX += x;
+    cell.sumY += y;
+    cell.points.push(point);
+    cells.set(key, cell);
+  }
+
+  return [...cells.values()].map((cell) => ({
+    x: cell.sumX / cell.points.length,
+    y: cell.sumY / cell.points.length,
+    points: cell.points,
+  }));
+}
+
+/**
+ * Highest zoom at which the points fit in the viewport, with padding
+ * @param {{ lng: number, lat: number }[]} points
+ * @returns {{ lng: number, lat: number, zoom: number } | undefined}
+ */
+export function fitPoints(points, width, height, maxZoom = 16, padding = 40) {
+  if (points.length === 0) return undefined;
+  const lngs = points.map((point) => point.lng);
+  const lats = points.map((point) => point.lat);
+  const west = Math.min(...lngs);
+  const east = Math.max(...lngs);
+  const south = Math.min(...lats);
+  const north = Math.max(...lats);
+
+  let zoom = maxZoom;
+  while (zoom > 0) {
+    const topLeft = project(west, north, zoom);
+    const bottomRight = project(east, south, zoom);
+    if (
+      bottomRight.x - topLeft.x <= width - 2 * padding &&
+      bottomRight.y - topLeft.y <= height - 2 * padding
+    ) {
+      break;
+    }
+    zoom--;
+  }
+
+  const center = project(west, north, zoom);
+  const corner = project(east, south, zoom);
+  return {
+    ...unproject((center.x + corner.x) / 2, (center.y + corner.y) / 2, zoom),
+    zoom,
+  };
+}
+
+/**
+ * Bucket of a value among evenly spaced breaks up to max; 0 for missing
+ * values, 1 to buckets otherwise
+ * @param {number | undefined | null} value
+ * @param {number} max
+ * @param {number} buckets
+ */
+export function bucketOf(value, max, buckets) {
+  if (value === undefined || value === null || max <= 0) return 0;
+  return Math.min(buckets, Math.floor(value / max * buckets) + 1);
+}
@@ -0,0 +1,69 @@
+import { assertAlmostEquals, assertEquals } from "jsr:@std/assert@1.0.8";
+import {
+  bucketOf,
+  clusterPoints,
+  fitPoints,
+  project,
+  tileUrl,
+  unproject,
+  visibleTiles,
+} from "./map-core.js";
+
+const TOKYO_STATION = { lng: 139.7671, lat: 35.6812 };
+
+Deno.test("project: Web Mercator world pixels round-trip", () => {
+  assertEquals(project(0, 0, 0), { x: 128, y: 128 });
+  // Tokyo Station is in tile 14552/6451 at zoom 14
+  const { x, y } = project(TOKYO_STATION.lng, TOKYO_STATION.lat, 14);
+  assertEquals([Math.floor(x / 256), Math.floor(y / 256)], [14552, 6451]);
+
+  const back = unproject(x, y, 14);
+  assertAlmostEquals(back.lng, TOKYO_STATION.lng, 1e-9);
+  assertAlmostEquals(back.lat, TOKYO_STATION.lat, 1e-9);
+});
+
+Deno.test("visibleTiles: wraps x and skips rows off the map", () => {
+  const tiles = visibleTiles(-100, -100, 300, 300, 1);
+  assertEquals(
+    tiles.map(({ x, y, left, top }) => [x, y, left, top]),
+    [[1, 0, -156, 100], [0, 0, 100, 100]],
+  );
+  assertEquals(
+    tileUrl("https://{s}.tiles.local/{z}/{x}/{y}.png", { z: 3, x: 7, y: 2 }),
+    "https://a.tiles.local/3/7/2.png",
+  );
+});
+
+Deno.test("clusterPoints: nearby points merge until zoomed in", () => {
+  const points = [
+    { id: "a", lng: 139.7000, lat: 35.6900 },
+    { id: "b", lng: 139.7003, lat: 35.6902 },
+    { id: "c", lng: 139.8000, lat: 35.7000 },
+  ];
+  const clusters = (zoom: number) =>
+    clusterPoints(points, zoom)
+      .map((cluster) => cluster.points.map((point) => point.id).join(""))
+      .sort();
+
+  assertEquals(clusters(6), ["abc"]);
+  assertEquals(clusters(13), ["ab", "c"]);
+  assertEquals(clusters(19), ["a", "b", "c"]);
+});
+
+Deno.test("fitPoints: the highest zoom that shows every point", () => {
+  const fit = fitPoints(
+    [{ lng: 139.70, lat: 35.69 }, { lng: 139.80, lat: 35.70 }],
+    800,
+    600,
+  )!;
+  assertEquals(fit.zoom, 13);
+  assertAlmostEquals(fit.lng, 139.75, 1e-6);
+  assertEquals(fitPoints([], 800, 600), undefined);
+});
+
+Deno.test("bucketOf: evenly spaced choropleth classes", () => {
+  assertEquals(bucketOf(undefined, 10, 5), 0);
+  assertEquals(bucketOf(0, 10, 5), 1);
+  assertEquals(bucketOf(4.5, 10, 5), 3);
+  assertEquals(bucketOf(10, 10, 5), 5);
+});
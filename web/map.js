@@ -0,0 +1,287 @@
+/**
+ * A small slippy map: raster tiles, SVG shapes and HTML markers
+ * The view is a center in world pixels at an integer zoom. Drag pans, the
+ * wheel, double click and the +/- buttons zoom. Without a tile source only
+ * the shapes are drawn, on the container's background.
+ */
+
+import { project, tileUrl, visibleTiles } from "./map-core.js";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+// Pointer travel beyond which a press is a drag rather than a click
+const DRAG_THRESHOLD_PX = 4;
+
+export class SlippyMap {
+  /**
+   * @param {HTMLElement} container
+   * @param {{
+   *   center: [number, number],
+   *   zoom: number,
+   *   tiles: { url: string, attribution?: string, subdomains?: string[],
+   *     maxZoom?: number } | null,
+   *   minZoom?: number,
+   * }} options
+   */
+  constructor(container, options) {
+    this.container = container;
+    this.tiles = options.tiles;
+    this.minZoom = options.minZoom ?? 3;
+    this.maxZoom = options.tiles?.maxZoom ?? 18;
+    this.zoom = options.zoom;
+    const [lat, lng] = options.center;
+    this.center = project(lng, lat, this.zoom);
+
+    this.shapes = [];
+    this.renderListeners = [];
+    this.tileImages = new Map();
+    this.frame = 0;
+    this.dragged = false;
+
+    container.classList.add("slippy-map");
+    this.tilePane = this.#pane("div", "tile-pane");
+    this.shapePane = this.#pane("svg", "shape-pane");
+    this.markerPane = this.#pane("div", "marker-pane");
+    this.#controls(options.tiles?.attribution);
+    this.#bindEvents();
+
+    new ResizeObserver(() => this.requestRender()).observe(container);
+    this.requestRender();
+  }
+
+  /** Move the view; zoom is clamped to the map's range */
+  setView(lat, lng, zoom = this.zoom) {
+    this.zoom = Math.max(this.minZoom, Math.min(this.maxZoom, zoom));
+    this.center = project(lng, lat, this.zoom);
+    this.requestRender();
+  }
+
+  /** Container size in pixels */
+  size() {
+    return {
+      width: this.container.clientWidth,
+      height: this.container.clientHeight,
+    };
+  }
+
+  /**
+   * Screen position, relative to the container, of a coordinate
+   * @returns {{ x: number, y: number }}
+   */
+  toScreen(lng, lat) {
+    const point = project(lng, lat, this.zoom);
+    const { left, top } = this.#origin();
+    return { x: point.x - left, y: point.y - top };
+  }
+
+  /**
+   * Replace the SVG shapes. Each shape is GeoJSON (Multi)Polygon coordinates
+   * with a class name, an optional fill and a click handler.
+   * @param {{ polygons: number[][][][], className: string, fill?: string,
+   *   title?: string, onClick?: () => void }[]} shapes
+   */
+  setShapes(shapes) {
+    this.shapes = shapes;
+    this.requestRender();
+  }
+
+  /**
+   * Called after every redraw, with the map, to place markers in markerPane
+   * @param {(map: SlippyMap) => void} listener
+   */
+  onRender(listener) {
+    this.renderListeners.push(listener);
+  }
+
+  requestRender() {
+    if (this.frame) return;
+    this.frame = requestAnimationFrame(() => {
+      this.frame = 0;
+      this.#render();
+    });
+  }
+
+  /** Zoom in or out by delta levels, keeping the screen point (x, y) fixed */
+  zoomAround(delta, x, y) {
+    const zoom = Math.max(
+      this.minZoom,
+      Math.min(this.maxZoom, this.zoom + delta),
+    );
+    if (zoom === this.zoom) return;
+    // World pixels scale by 2 per level: the anchor moves to anchor * scale
+    const { left, top } = this.#origin();
+    const scale = 2 ** (zoom - this.zoom);
+    this.center = {
+      x: (left + x) * scale - x + (this.center.x - left),
+      y: (top + y) * scale - y + (this.center.y - top),
+    };
+    this.zoom = zoom;
+    this.requestRender();
+  }
+
+  #origin() {
+    const { width, height } = this.size();
+    return { left: this.center.x - width / 2, top: this.center.y - height / 2 };
+  }
+
+  #pane(tag, className) {
+    const element = tag === "svg"
+      ? document.createElementNS(SVG_NS, "svg")
+      : document.createElement(tag);
+    element.classList.add(className);
+    this.container.append(element);
+    return element;
+  }
+
+  #controls(attribution) {
+    const zoom = document.createElement("div");
+    zoom.className = "zoom-controls";
+    for (const [label, delta] of [["+", 1], ["−", -1]]) {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.textContent = label;
+      button.setAttribute("aria-label", delta > 0 ? "Zoom in" : "Zoom out");
+      button.addEventListener("click", () => {
+        const { width, height } = this.size();
+        this.zoomAround(delta, width / 2, height / 2);
+      });
+      zoom.append(button);
+    }
+    this.container.append(zoom);
+
+    if (attribution) {
+      const credit = document.createElement("div");
+      credit.className = "attribution";
+      credit.textContent = attribution;
+      this.container.append(credit);
+    }
+  }
+
+  #bindEvents() {
+    const container = this.container;
+
+    container.addEventListener("pointerdown", (event) => {
+      if (event.button !== 0 || event.target.closest(".zoom-controls")) return;
+      const start = { x: event.clientX, y: event.clientY, center: this.center };
+      this.dragged = false;
+
+      const move = (moveEvent) => {
+        const dx = moveEvent.clientX - start.x;
+        const dy = moveEvent.clientY - start.y;
+        if (!this.dragged && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+        this.dragged = true;
+        container.classList.add("dragging");
+        this.center = { x: start.center.x - dx, y: start.center.y - dy };
+        this.requestRender();
+      };
+      const end = () => {
+        container.classList.remove("dragging");
+        globalThis.removeEventListener("pointermove", move);
+        globalThis.removeEventListener("pointerup", end);
+        globalThis.removeEventListener("pointercancel", end);
+      };
+      globalThis.addEventListener("pointermove", move);
+      globalThis.addEventListener("pointerup", end);
+      globalThis.addEventListener("pointercancel", end);
+    });
+
+    // A drag ends with a click on whatever is under the pointer; swallow it
+    container.addEventListener("click", (event) => {
+      if (!this.dragged) return;
+      this.dragged = false;
+      event.stopPropagation();
+      event.preventDefault();
+    }, true);
+
+    let wheelDelta = 0;
+    container.addEventListener("wheel", (event) => {
+      event.preventDefault();
+      wheelDelta += event.deltaY;
+      // One zoom level per notch-sized scroll, however the deltas arrive
+      if (Math.abs(wheelDelta) < 50) return;
+      const rect = container.getBoundingClientRect();
+      this.zoomAround(
+        wheelDelta < 0 ? 1 : -1,
+        event.clientX - rect.left,
+        event.clientY - rect.top,
+      );
+      wheelDelta = 0;
+    }, { passive: false });
+
+    container.addEventListener("dblclick", (event) => {
+      if (event.target.closest(".marker")) return;
+      const rect = container.getBoundingClientRect();
+      this.zoomAround(
+        event.shiftKey ? -1 : 1,
+        event.clientX - rect.left,
+        event.clientY - rect.top,
+      );
+    });
+  }
+
+  #render() {
+    const { width, height } = this.size();
+    const { left, top } = this.#origin();
+    if (this.tiles) this.#renderTiles(left, top, width, height);
+    this.#renderShapes(width, height);
+    for (const listener of this.renderListeners) listener(this);
+  }
+
+  #renderTiles(left, top, width, height) {
+    const wanted = new Set();
+    for (const tile of visibleTiles(left, top, width, height, this.zoom)) {
+      // Keyed by unwrapped position: the same tile may show twice when wrapped
+      const key = `${tile.z}/${Math.round(left + tile.left)}/${tile.y}`;
+      wanted.add(key);
+      let image = this.tileImages.get(key);
+      if (!image) {
+        image = document.createElement("img");
+        image.className = "tile";
+        image.alt = "";
+        image.draggable = false;
+        // Offline or missing tiles leave the background and the outlines
+        image.addEventListener("error", () => image.classList.add("missing"));
+        image.src = tileUrl(this.tiles.url, tile, this.tiles.subdomains);
+        this.tileImages.set(key, image);
+        this.tilePane.append(image);
+      }
+      image.style.transform = `translate(${tile.left}px, ${tile.top}px)`;
+    }
+
+    for (const [key, image] of this.tileImages) {
+      if (wanted.has(key)) continue;
+      image.remove();
+      this.tileImages.delete(key);
+    }
+  }
+
+  #renderShapes(width, height) {
+    this.shapePane.setAttribute("width", String(width));
+    this.shapePane.setAttribute("height", String(height));
+    this.shapePane.replaceChildren(
+      ...this.shapes.map((shape) => {
+        const path = document.createElementNS(SVG_NS, "path");
+        path.setAttribute("d", this.#pathData(shape.polygons));
+        path.setAttribute("class", shape.className);
+        if (shape.fill) path.style.fill = shape.fill;
+        if (shape.title) {
+          const title = document.createElementNS(SVG_NS, "title");
+          title.textContent = shape.title;
+          path.append(title);
+        }
+        if (shape.onClick) path.addEventListener("click", shape.onClick);
+        return path;
+      }),
+    );
+  }
+
+  #pathData(polygons) {
+    return polygons.map((rings) =>
+      rings.map((ring) =>
+        ring.map(([lng, lat], i) => {
+          const { x, y } = this.toScreen(lng, lat);
+          return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+        }).join("") + "Z"
+      ).join("")
+    ).join("");
+  }
+}